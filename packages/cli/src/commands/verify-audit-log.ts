@@ -0,0 +1,176 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import * as p from "@clack/prompts";
+import pc from "picocolors";
+
+// Verifies logs written by `auditLogPlugin` from ocpp-ws-io/plugins. The
+// format lives in ocpp-ws-io/src/plugins/audit-log.ts — keep both in step:
+// one JSON record per line in `audit-<seq>.ndjson`, `prev` is the previous
+// record's `hash`, and `hash` is the SHA-256 of the record's JSON without
+// the `hash` field.
+
+export interface VerifyAuditLogOptions {
+  dir?: string;
+  /** Last known head as `<seq>:<hash>`, kept outside the log */
+  anchor?: string;
+  json?: boolean;
+}
+
+interface Issue {
+  file: string;
+  line: number;
+  seq?: number;
+  kind: "malformed" | "modified" | "broken_chain" | "gap";
+  message: string;
+}
+
+const GENESIS = "0".repeat(64);
+const FILE_PATTERN = /^audit-(\d+)\.ndjson$/;
+
+export async function runVerifyAuditLog(
+  options: VerifyAuditLogOptions = {},
+): Promise<void> {
+  if (!options.json) {
+    p.intro(pc.bgMagenta(pc.white(" 🔏 OCPP Audit Log Verification ")));
+  }
+
+  let dir = options.dir;
+  if (!dir) {
+    const result = await p.text({
+      message: "Audit log directory",
+      placeholder: "./audit",
+      validate: (val) => {
+        if (!val?.trim()) return "Directory is required";
+      },
+    });
+    if (p.isCancel(result)) {
+      p.cancel("Cancelled.");
+      return;
+    }
+    dir = result;
+  }
+
+  let anchor: { seq: number; hash: string } | undefined;
+  if (options.anchor) {
+    const [seq, hash] = options.anchor.split(":");
+    if (!/^\d+$/.test(seq ?? "") || !/^[0-9a-f]{64}$/.test(hash ?? "")) {
+      p.log.error("--anchor must look like <seq>:<sha256 hex>");
+      process.exit(1);
+    }
+    anchor = { seq: Number(seq), hash };
+  }
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir))
+      .filter((name) => FILE_PATTERN.test(name))
+      .sort();
+  } catch (err) {
+    p.log.error(`Cannot read ${dir}: ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  const issues: Issue[] = [];
+  let head = { seq: 0, hash: GENESIS };
+  let records = 0;
+
+  for (const file of files) {
+    const content = await fs.readFile(path.join(dir, file), "utf8");
+    for (const [index, text] of content.split("\n").entries()) {
+      if (!text) continue;
+      const line = index + 1;
+      let record: Record<string, unknown> & {
+        seq: number;
+        prev: string;
+        hash: string;
+      };
+      try {
+        record = JSON.parse(text);
+      } catch {
+        issues.push({ file, line, kind: "malformed", message: "Not JSON" });
+        continue;
+      }
+      records++;
+      const { hash, ...body } = record;
+      const { seq } = record;
+      const actual = createHash("sha256")
+        .update(JSON.stringify(body))
+        .digest("hex");
+
+      if (actual !== hash) {
+        issues.push({
+          file,
+          line,
+          seq,
+          kind: "modified",
+          message: "Record does not match its hash",
+        });
+      }
+      if (seq !== head.seq + 1) {
+        issues.push({
+          file,
+          line,
+          seq,
+          kind: "gap",
+          message: `Expected seq ${head.seq + 1}, found ${seq}`,
+        });
+      }
+      if (record.prev !== head.hash) {
+        issues.push({
+          file,
+          line,
+          seq,
+          kind: "broken_chain",
+          message: `prev does not match the hash of seq ${head.seq}`,
+        });
+      }
+      head = { seq, hash };
+    }
+  }
+
+  if (
+    anchor &&
+    (anchor.seq > head.seq ||
+      (anchor.seq === head.seq && anchor.hash !== head.hash))
+  ) {
+    issues.push({
+      file: files.at(-1) ?? "",
+      line: 0,
+      seq: head.seq,
+      kind: "gap",
+      message: `Log ends before the anchored head (seq ${anchor.seq})`,
+    });
+  }
+
+  const valid = issues.length === 0;
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        { valid, files: files.length, records, head, issues },
+        null,
+        2,
+      ),
+    );
+  } else {
+    p.log.info(
+      `${files.length} file(s), ${records} record(s), head ${pc.cyan(`${head.seq}:${head.hash}`)}`,
+    );
+    for (const issue of issues.slice(0, 50)) {
+      p.log.error(
+        `${pc.bold(issue.kind)} ${issue.file}:${issue.line}${issue.seq !== undefined ? ` (seq ${issue.seq})` : ""} — ${issue.message}`,
+      );
+    }
+    if (issues.length > 50) {
+      p.log.error(pc.dim(`…and ${issues.length - 50} more`));
+    }
+    if (valid) {
+      p.outro(pc.green("✔ Audit log intact"));
+    } else {
+      p.outro(pc.red(`✖ ${issues.length} issue(s) found`));
+    }
+  }
+
+  if (!valid) process.exit(1);
+}
@@ -12,6 +12,7 @@ import { runMock } from "./commands/mock.js";
 import { runSimulate } from "./commands/simulate.js";
 import { runStudio } from "./commands/studio.js";
 import { runTest } from "./commands/test.js";
+import { runVerifyAuditLog } from "./commands/verify-audit-log.js";
 import { printBanner } from "./lib/banner.js";
 
 const require = createRequire(import.meta.url);
@@ -453,6 +454,34 @@ cli
     },
   );
 
+// ── Verify Audit Log Command ───────────────────────────────────
+
+cli
+  .command(
+    "verify-audit-log [dir]",
+    "Verify the hash chain of an auditLogPlugin log directory",
+  )
+  .option(
+    "-a, --anchor <seq:hash>",
+    "Last known head, kept outside the log, to detect truncation",
+  )
+  .option("--json", "Print the result as JSON")
+  .example("  ocpp verify-audit-log /var/log/ocpp-audit")
+  .example("  ocpp verify-audit-log ./audit --anchor 1042:3f9a…")
+  .action(
+    async (
+      dir: string | undefined,
+      options: { anchor?: string; json?: boolean },
+    ) => {
+      if (!options.json) printBanner(pkg.version);
+      await runVerifyAuditLog({
+        dir,
+        anchor: options.anchor,
+        json: options.json,
+      });
+    },
+  );
+
 // ── Parse & Run ────────────────────────────────────────────────
 
 cli.help();
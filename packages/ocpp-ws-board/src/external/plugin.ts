@@ -111,8 +111,8 @@ export function createBoardPlugin(
         id: `sec-${++securityCounter}`,
         category: mapSecurityCategory(evt.type ?? evt.eventType),
         identity: evt.identity ?? "unknown",
-        message: evt.message ?? evt.type ?? "Security event",
-        severity: mapSeverity(evt.type ?? evt.eventType),
+        message: securityMessage(evt),
+        severity: evt.severity ?? mapSeverity(evt.type ?? evt.eventType),
         details: evt,
         timestamp: new Date().toISOString(),
       };
@@ -261,15 +261,25 @@ export function createBoardPlugin(
 
 function mapSecurityCategory(type: string): SecurityEventRecord["category"] {
   if (!type) return "ANOMALY";
+  if (type === "STATION_SECURITY_EVENT") return "STATION_REPORTED";
   const t = type.toUpperCase();
   if (t.includes("AUTH")) return "AUTH_FAILED";
   if (t.includes("RATE")) return "RATE_LIMIT";
   if (t.includes("PROTOCOL") || t.includes("VIOLATION"))
     return "PROTOCOL_VIOLATION";
-  if (t.includes("POLICY") || t.includes("REJECT")) return "POLICY_REJECTION";
+  if (t.includes("POLICY") || t.includes("REJECT") || t.includes("BLOCKED"))
+    return "POLICY_REJECTION";
   return "ANOMALY";
 }
 
+function securityMessage(evt: any): string {
+  if (evt.type === "STATION_SECURITY_EVENT") {
+    const { stationType, techInfo } = evt.details ?? {};
+    return techInfo ? `${stationType}: ${techInfo}` : String(stationType);
+  }
+  return evt.message ?? evt.type ?? "Security event";
+}
+
 function mapSeverity(type: string): SecurityEventRecord["severity"] {
   if (!type) return "medium";
   const t = type.toUpperCase();
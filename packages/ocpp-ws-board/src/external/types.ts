@@ -151,7 +151,9 @@ export type SecurityEventCategory =
   | "RATE_LIMIT"
   | "ANOMALY"
   | "PROTOCOL_VIOLATION"
-  | "POLICY_REJECTION";
+  | "POLICY_REJECTION"
+  /** Forwarded from a station's SecurityEventNotification */
+  | "STATION_REPORTED";
 
 export interface SecurityEventRecord {
   id: string;
@@ -2,6 +2,7 @@ import {
   IconAlertTriangle,
   IconBolt,
   IconFilter,
+  IconPlug,
   IconSearch,
   IconShield,
   IconShieldX,
@@ -47,6 +48,7 @@ const categoryIcons: Record<string, typeof IconShield> = {
   ANOMALY: IconAlertTriangle,
   PROTOCOL_VIOLATION: IconAlertTriangle,
   POLICY_REJECTION: IconAlertTriangle,
+  STATION_REPORTED: IconPlug,
 };
 
 const categoryLabels: Record<string, string> = {
@@ -55,6 +57,7 @@ const categoryLabels: Record<string, string> = {
   ANOMALY: "Anomaly",
   PROTOCOL_VIOLATION: "Protocol",
   POLICY_REJECTION: "Policy",
+  STATION_REPORTED: "Station",
 };
 
 const severityClasses: Record<string, string> = {
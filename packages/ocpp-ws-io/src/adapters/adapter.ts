@@ -1,4 +1,4 @@
-import type { EventAdapterInterface } from "../types.js";
+import type { EventAdapterInterface, PresenceEntry } from "../types.js";
 
 /**
  * In-memory event adapter for single-process use.
@@ -72,6 +72,13 @@ export class InMemoryAdapter implements EventAdapterInterface {
     this._presence.delete(identity);
   }
 
+  async listPresence(): Promise<PresenceEntry[]> {
+    return Array.from(this._presence, ([identity, nodeId]) => ({
+      identity,
+      nodeId,
+    }));
+  }
+
   async setPresenceBatch(
     entries: { identity: string; nodeId: string; ttl?: number }[],
   ): Promise<void> {
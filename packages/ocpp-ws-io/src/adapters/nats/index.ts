@@ -0,0 +1,427 @@
+import type { EventAdapterInterface, PresenceEntry } from "../../types.js";
+
+// ─── Client Contracts ───────────────────────────────────────────
+//
+// Minimal shapes of the `nats` (v2) client objects the adapter uses.
+// Users bring their own connection; this package does not bundle one.
+
+export interface NatsMsgLike {
+  subject: string;
+  data: Uint8Array;
+}
+
+export interface NatsSubscriptionLike {
+  unsubscribe(max?: number): void;
+}
+
+/** Core NATS connection — `await connect(...)` */
+export interface NatsConnectionLike {
+  publish(subject: string, payload?: Uint8Array): void;
+  subscribe(
+    subject: string,
+    opts?: { callback?: (err: Error | null, msg: NatsMsgLike) => void },
+  ): NatsSubscriptionLike;
+  drain(): Promise<void>;
+}
+
+export interface JsMsgLike extends NatsMsgLike {
+  ack(): void;
+}
+
+export interface ConsumerMessagesLike extends AsyncIterable<JsMsgLike> {
+  stop(err?: Error): void;
+}
+
+export interface ConsumerLike {
+  consume(opts?: Record<string, unknown>): Promise<ConsumerMessagesLike>;
+  info?(cached?: boolean): Promise<{ num_pending: number }>;
+}
+
+/** JetStream client — `nc.jetstream()` */
+export interface JetStreamLike {
+  publish(subject: string, payload?: Uint8Array): Promise<unknown>;
+  consumers: {
+    get(stream: string, name?: string): Promise<ConsumerLike>;
+  };
+}
+
+/** JetStream management API — `await nc.jetstreamManager()` */
+export interface JetStreamManagerLike {
+  streams: {
+    info(name: string): Promise<unknown>;
+    add(config: Record<string, unknown>): Promise<unknown>;
+  };
+  consumers: {
+    add(stream: string, config: Record<string, unknown>): Promise<unknown>;
+  };
+}
+
+export interface NatsKvEntryLike {
+  value: Uint8Array;
+  operation?: "PUT" | "DEL" | "PURGE";
+}
+
+/** JetStream KV bucket — `await js.views.kv(name, { ttl })` */
+export interface NatsKvLike {
+  put(key: string, value: Uint8Array): Promise<unknown>;
+  get(key: string): Promise<NatsKvEntryLike | null>;
+  delete(key: string): Promise<unknown>;
+  /** Needed for `listPresence()` */
+  keys?(filter?: string): Promise<AsyncIterable<string>>;
+}
+
+export interface NatsAdapterOptions {
+  /** Connection for broadcast Pub/Sub */
+  connection: NatsConnectionLike;
+  /** JetStream client for node unicast */
+  jetstream: JetStreamLike;
+  /** Creates the unicast stream and the per-node durable consumers */
+  jetstreamManager: JetStreamManagerLike;
+  /**
+   * KV bucket for the presence registry. Create it with a `ttl` — NATS KV
+   * expires whole buckets, not single keys, so the `ttl` passed to
+   * `setPresence()` is not used.
+   */
+  kv: NatsKvLike;
+  /** Subject prefix (default: 'ocpp-ws-io') */
+  prefix?: string;
+  /** JetStream stream holding node unicast messages (default: 'OCPP_WS_IO_NODES') */
+  streamName?: string;
+  /** Messages kept per node (default: 1000) */
+  streamMaxLen?: number;
+  /**
+   * Age in seconds after which undelivered unicast messages, and the
+   * consumers of nodes that went away, are dropped (default: 300).
+   */
+  streamTtlSeconds?: number;
+}
+
+const NODE_CHANNEL = "ocpp:node:";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Escape the characters NATS gives a meaning in subjects */
+const subjectToken = (value: string) =>
+  value.replace(
+    /[\s.*>%]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).padStart(2, "0").toUpperCase()}`,
+  );
+
+/** KV keys and consumer names allow only `[-_A-Za-z0-9]` (plus a few) */
+const safeName = (value: string) => Buffer.from(value).toString("base64url");
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface NodeConsumer {
+  durable: string;
+  messages?: ConsumerMessagesLike;
+}
+
+/**
+ * NATS adapter for cross-process event distribution.
+ *
+ * Broadcasts use core NATS Pub/Sub. Unicast (node-to-node) goes through a
+ * JetStream stream with a durable consumer per node, so a node that
+ * restarts with the same `nodeId` server option receives what was sent
+ * while it was down (without it, each process gets a random id).
+ * Presence lives in a JetStream KV bucket.
+ *
+ * @example
+ * ```ts
+ * import { connect } from 'nats';
+ * import { NatsAdapter } from 'ocpp-ws-io/adapters/nats';
+ *
+ * const nc = await connect({ servers: process.env.NATS_URL });
+ * const js = nc.jetstream();
+ * await server.setAdapter(
+ *   new NatsAdapter({
+ *     connection: nc,
+ *     jetstream: js,
+ *     jetstreamManager: await nc.jetstreamManager(),
+ *     kv: await js.views.kv('ocpp-presence', { ttl: 300_000 }),
+ *   }),
+ * );
+ * ```
+ */
+export class NatsAdapter implements EventAdapterInterface {
+  private _nc: NatsConnectionLike;
+  private _js: JetStreamLike;
+  private _jsm: JetStreamManagerLike;
+  private _kv: NatsKvLike;
+  private _prefix: string;
+  private _streamName: string;
+  private _streamMaxLen: number;
+  private _streamTtlSeconds: number;
+  private _handlers = new Map<string, Set<(data: unknown) => void>>();
+  private _subscriptions = new Map<string, NatsSubscriptionLike>();
+  private _consumers = new Map<string, NodeConsumer>();
+  private _streamReady: Promise<void> | null = null;
+  private _closed = false;
+
+  constructor(options: NatsAdapterOptions) {
+    this._nc = options.connection;
+    this._js = options.jetstream;
+    this._jsm = options.jetstreamManager;
+    this._kv = options.kv;
+    this._prefix = options.prefix ?? "ocpp-ws-io";
+    this._streamName = options.streamName ?? "OCPP_WS_IO_NODES";
+    this._streamMaxLen = options.streamMaxLen ?? 1000;
+    this._streamTtlSeconds = options.streamTtlSeconds ?? 300;
+  }
+
+  private _subject(channel: string): string {
+    return channel.startsWith(NODE_CHANNEL)
+      ? `${this._prefix}.node.${subjectToken(channel.slice(NODE_CHANNEL.length))}`
+      : `${this._prefix}.bus.${subjectToken(channel)}`;
+  }
+
+  async publish(channel: string, data: unknown): Promise<void> {
+    const payload = encoder.encode(JSON.stringify(data));
+
+    // Unicast (Node-to-Node) -> JetStream
+    if (channel.startsWith(NODE_CHANNEL)) {
+      await this._ensureStream();
+      await this._js.publish(this._subject(channel), payload);
+    } else {
+      // Broadcast -> Core Pub/Sub
+      this._nc.publish(this._subject(channel), payload);
+    }
+  }
+
+  async publishBatch(
+    messages: { channel: string; data: unknown }[],
+  ): Promise<void> {
+    // JetStream acks are awaited together rather than one round-trip each
+    await Promise.all(messages.map((m) => this.publish(m.channel, m.data)));
+  }
+
+  async subscribe(
+    channel: string,
+    handler: (data: unknown) => void,
+  ): Promise<void> {
+    if (!this._handlers.has(channel)) {
+      this._handlers.set(channel, new Set());
+
+      if (channel.startsWith(NODE_CHANNEL)) {
+        const durable = `node-${safeName(channel.slice(NODE_CHANNEL.length))}`;
+        // Created up front so messages published from now on are retained
+        // for this node even before the consume loop is running
+        try {
+          await this._ensureConsumer(channel, durable);
+        } catch (err) {
+          this._handlers.delete(channel);
+          throw err;
+        }
+        this._consumers.set(channel, { durable });
+        this._consumeLoop(channel, durable).catch(() => {});
+      } else {
+        const subscription = this._nc.subscribe(this._subject(channel), {
+          callback: (err, msg) => {
+            if (err) return;
+            this._handleMessage(channel, decoder.decode(msg.data));
+          },
+        });
+        this._subscriptions.set(channel, subscription);
+      }
+    }
+    this._handlers.get(channel)?.add(handler);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    const consumer = this._consumers.get(channel);
+    if (consumer) {
+      this._consumers.delete(channel);
+      // The durable consumer is kept so a re-subscribe resumes where it
+      // left off; JetStream removes it once it has been inactive too long
+      consumer.messages?.stop();
+    }
+    this._subscriptions.get(channel)?.unsubscribe();
+    this._subscriptions.delete(channel);
+    this._handlers.delete(channel);
+  }
+
+  async disconnect(): Promise<void> {
+    this._closed = true;
+    for (const consumer of this._consumers.values()) {
+      consumer.messages?.stop();
+    }
+    for (const subscription of this._subscriptions.values()) {
+      subscription.unsubscribe();
+    }
+    this._consumers.clear();
+    this._subscriptions.clear();
+    this._handlers.clear();
+    await this._nc.drain().catch(() => {});
+  }
+
+  private _handleMessage(channel: string, message: string): void {
+    const handlers = this._handlers.get(channel);
+    if (!handlers) return;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(message);
+    } catch {
+      data = message;
+    }
+
+    for (const handler of handlers) {
+      try {
+        handler(data);
+      } catch {
+        // Swallow handler errors
+      }
+    }
+  }
+
+  // ─── JetStream Unicast ─────────────────────────────────────────────
+
+  private _ensureStream(): Promise<void> {
+    this._streamReady ??= this._jsm.streams
+      .info(this._streamName)
+      .catch(() =>
+        this._jsm.streams.add({
+          name: this._streamName,
+          subjects: [`${this._prefix}.node.*`],
+          max_msgs_per_subject: this._streamMaxLen,
+          max_age: this._streamTtlSeconds * 1e9,
+        }),
+      )
+      .then(
+        () => {},
+        (err) => {
+          // Retry on the next publish/subscribe
+          this._streamReady = null;
+          throw err;
+        },
+      );
+    return this._streamReady;
+  }
+
+  private async _ensureConsumer(
+    channel: string,
+    durable: string,
+  ): Promise<void> {
+    await this._ensureStream();
+    // Adding an existing consumer with the same config is a no-op
+    await this._jsm.consumers.add(this._streamName, {
+      durable_name: durable,
+      filter_subject: this._subject(channel),
+      ack_policy: "explicit",
+      deliver_policy: "all",
+      inactive_threshold: this._streamTtlSeconds * 1e9,
+    });
+  }
+
+  private async _consumeLoop(channel: string, durable: string) {
+    let first = true;
+    while (!this._closed) {
+      const entry = this._consumers.get(channel);
+      if (!entry || entry.durable !== durable) return;
+      try {
+        // Re-created after an outage that outlived `inactive_threshold`
+        if (!first) await this._ensureConsumer(channel, durable);
+        first = false;
+        const consumer = await this._js.consumers.get(
+          this._streamName,
+          durable,
+        );
+        const messages = await consumer.consume();
+        if (this._consumers.get(channel) !== entry || this._closed) {
+          messages.stop();
+          return;
+        }
+        entry.messages = messages;
+        for await (const msg of messages) {
+          this._handleMessage(channel, decoder.decode(msg.data));
+          msg.ack();
+        }
+      } catch {
+        // Keep the loop alive; avoid a tight loop on error
+      }
+      if (this._consumers.get(channel) === entry && !this._closed) {
+        await sleep(1000);
+      }
+    }
+  }
+
+  // ─── Presence Registry ─────────────────────────────────────────────
+
+  async setPresence(
+    identity: string,
+    nodeId: string,
+    // The KV bucket's TTL applies
+    _ttl: number,
+  ): Promise<void> {
+    await this._kv.put(safeName(identity), encoder.encode(nodeId));
+  }
+
+  async getPresence(identity: string): Promise<string | null> {
+    const entry = await this._kv.get(safeName(identity));
+    if (!entry || (entry.operation && entry.operation !== "PUT")) return null;
+    return decoder.decode(entry.value);
+  }
+
+  async getPresenceBatch(identities: string[]): Promise<(string | null)[]> {
+    return await Promise.all(identities.map((id) => this.getPresence(id)));
+  }
+
+  async removePresence(identity: string): Promise<void> {
+    await this._kv.delete(safeName(identity));
+  }
+
+  async listPresence(): Promise<PresenceEntry[]> {
+    if (!this._kv.keys) {
+      throw new Error("The KV bucket does not support keys()");
+    }
+    const keys: string[] = [];
+    for await (const key of await this._kv.keys()) keys.push(key);
+    const entries = await Promise.all(
+      keys.map(async (key) => {
+        const identity = Buffer.from(key, "base64url").toString();
+        const nodeId = await this.getPresence(identity);
+        return nodeId === null ? null : { identity, nodeId };
+      }),
+    );
+    return entries.filter((entry) => entry !== null);
+  }
+
+  async setPresenceBatch(
+    entries: { identity: string; nodeId: string; ttl?: number }[],
+  ): Promise<void> {
+    await Promise.all(
+      entries.map(({ identity, nodeId }) =>
+        this._kv.put(safeName(identity), encoder.encode(nodeId)),
+      ),
+    );
+  }
+
+  // ─── Observability Pipeline ────────────────────────────────────────
+
+  async metrics(): Promise<Record<string, unknown>> {
+    let pendingMessages = 0;
+    const streamDetails: Record<string, number> = {};
+
+    for (const { durable } of this._consumers.values()) {
+      try {
+        const consumer = await this._js.consumers.get(
+          this._streamName,
+          durable,
+        );
+        const pending = (await consumer.info?.())?.num_pending ?? 0;
+        pendingMessages += pending;
+        streamDetails[durable] = pending;
+      } catch {
+        // Ignore failures for individual consumer stats
+        streamDetails[durable] = -1;
+      }
+    }
+
+    return {
+      pendingMessages,
+      activeStreams: this._consumers.size,
+      streamDetails,
+    };
+  }
+}
@@ -0,0 +1,503 @@
+import type { EventAdapterInterface, PresenceEntry } from "../../types.js";
+
+// ─── Client Contracts ───────────────────────────────────────────
+//
+// Minimal shapes of `pg` (node-postgres) objects the adapter uses. Users
+// bring their own pool and connection; this package does not bundle one.
+
+/** `pg.Pool` or `pg.Client` */
+export interface PgQueryableLike {
+  query(
+    text: string,
+    values?: unknown[],
+  ): Promise<{ rows: Record<string, unknown>[] }>;
+}
+
+export interface PgNotificationLike {
+  channel: string;
+  payload?: string;
+}
+
+/** A dedicated `pg.Client` — LISTEN is bound to one connection */
+export interface PgListenClientLike extends PgQueryableLike {
+  on(
+    event: "notification",
+    listener: (msg: PgNotificationLike) => void,
+  ): unknown;
+  removeListener?(
+    event: "notification",
+    listener: (msg: PgNotificationLike) => void,
+  ): unknown;
+  end?(): Promise<void>;
+}
+
+export interface PostgresAdapterOptions {
+  /** Pool for queue and presence queries; left open on `disconnect()` */
+  pool: PgQueryableLike;
+  /** Dedicated connection for LISTEN; closed on `disconnect()` */
+  listenClient: PgListenClientLike;
+  /**
+   * Prefix for the tables and NOTIFY channels — a lowercase SQL
+   * identifier (default: 'ocpp_ws_io_')
+   */
+  tablePrefix?: string;
+  /** Create the tables on first use (default: true) */
+  createTables?: boolean;
+  /**
+   * How often the unicast queue is read without a notification, covering
+   * notifications missed while the LISTEN connection was down (default: 1000)
+   */
+  pollIntervalMs?: number;
+  /** Unicast rows read per query (default: 100) */
+  batchSize?: number;
+  /** Age in seconds after which undelivered unicast rows are dropped (default: 300) */
+  queueTtlSeconds?: number;
+  /** Presence TTL for `setPresenceBatch()` entries without one (default: 300) */
+  presenceTtlSeconds?: number;
+}
+
+const NODE_CHANNEL = "ocpp:node:";
+/** NOTIFY rejects payloads of 8000 bytes or more */
+const MAX_NOTIFY_BYTES = 7999;
+const SWEEP_INTERVAL_MS = 60_000;
+
+interface NodeQueue {
+  channel: string;
+  draining: boolean;
+  again: boolean;
+}
+
+/**
+ * PostgreSQL adapter for cross-process event distribution, for small
+ * clusters that already run Postgres and not Redis.
+ *
+ * Broadcasts use LISTEN/NOTIFY. Unicast (node-to-node) messages are rows
+ * in a queue table, read by the target node after a NOTIFY wake-up (or
+ * the next poll) and deleted once handled — at-least-once delivery, also
+ * across a restart with the same `nodeId` server option (without it, each
+ * process gets a random id). Presence is a table with expiry timestamps.
+ *
+ * Tables (with the default prefix):
+ * ```sql
+ * CREATE TABLE ocpp_ws_io_queue (
+ *   id BIGSERIAL PRIMARY KEY, node_id TEXT NOT NULL, payload TEXT NOT NULL,
+ *   created_at TIMESTAMPTZ NOT NULL DEFAULT now());
+ * CREATE INDEX ocpp_ws_io_queue_node_idx ON ocpp_ws_io_queue (node_id, id);
+ * CREATE TABLE ocpp_ws_io_presence (
+ *   identity TEXT PRIMARY KEY, node_id TEXT NOT NULL,
+ *   expires_at TIMESTAMPTZ NOT NULL);
+ * ```
+ *
+ * @example
+ * ```ts
+ * import pg from 'pg';
+ * import { PostgresAdapter } from 'ocpp-ws-io/adapters/postgres';
+ *
+ * const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+ * const listenClient = new pg.Client({ connectionString: process.env.DATABASE_URL });
+ * await listenClient.connect();
+ *
+ * await server.setAdapter(new PostgresAdapter({ pool, listenClient }));
+ * ```
+ */
+export class PostgresAdapter implements EventAdapterInterface {
+  private _pool: PgQueryableLike;
+  private _listenClient: PgListenClientLike;
+  private _createTables: boolean;
+  private _pollIntervalMs: number;
+  private _batchSize: number;
+  private _queueTtlSeconds: number;
+  private _presenceTtlSeconds: number;
+  private _queueTable: string;
+  private _presenceTable: string;
+  private _busChannel: string;
+  private _nodeChannel: string;
+  private _handlers = new Map<string, Set<(data: unknown) => void>>();
+  private _nodes = new Map<string, NodeQueue>(); // nodeId -> queue state
+  private _ready: Promise<void> | null = null;
+  private _listening: Promise<void> | null = null;
+  private _pollTimer: ReturnType<typeof setInterval> | null = null;
+  private _lastSweep = 0;
+  private _closed = false;
+
+  constructor(options: PostgresAdapterOptions) {
+    const prefix = options.tablePrefix ?? "ocpp_ws_io_";
+    if (!/^[a-z_][a-z0-9_]{0,39}$/.test(prefix)) {
+      throw new Error(
+        "PostgresAdapter `tablePrefix` must be a lowercase SQL identifier of at most 40 characters",
+      );
+    }
+    this._pool = options.pool;
+    this._listenClient = options.listenClient;
+    this._createTables = options.createTables ?? true;
+    this._pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this._batchSize = options.batchSize ?? 100;
+    this._queueTtlSeconds = options.queueTtlSeconds ?? 300;
+    this._presenceTtlSeconds = options.presenceTtlSeconds ?? 300;
+    this._queueTable = `${prefix}queue`;
+    this._presenceTable = `${prefix}presence`;
+    this._busChannel = `${prefix}bus`;
+    this._nodeChannel = `${prefix}node`;
+  }
+
+  async publish(channel: string, data: unknown): Promise<void> {
+    await this.publishBatch([{ channel, data }]);
+  }
+
+  async publishBatch(
+    messages: { channel: string; data: unknown }[],
+  ): Promise<void> {
+    const nodeIds: string[] = [];
+    const payloads: string[] = [];
+    const broadcasts: string[] = [];
+
+    for (const msg of messages) {
+      if (msg.channel.startsWith(NODE_CHANNEL)) {
+        nodeIds.push(msg.channel.slice(NODE_CHANNEL.length));
+        payloads.push(JSON.stringify(msg.data));
+      } else {
+        const payload = JSON.stringify({
+          channel: msg.channel,
+          data: msg.data,
+        });
+        if (Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+          throw new Error(
+            `PostgresAdapter: broadcast on "${msg.channel}" exceeds the ${MAX_NOTIFY_BYTES}-byte NOTIFY limit`,
+          );
+        }
+        broadcasts.push(payload);
+      }
+    }
+
+    await this._ensureTables();
+    const promises: Promise<unknown>[] = [];
+
+    // Unicast (Node-to-Node) -> Queue table, one statement for the batch;
+    // the NOTIFY is delivered when the insert commits
+    if (nodeIds.length > 0) {
+      promises.push(
+        this._pool.query(
+          `WITH queued AS (
+             INSERT INTO ${this._queueTable} (node_id, payload)
+             SELECT * FROM unnest($1::text[], $2::text[])
+             RETURNING node_id
+           )
+           SELECT pg_notify($3, node_id)
+           FROM (SELECT DISTINCT node_id FROM queued) AS nodes`,
+          [nodeIds, payloads, this._nodeChannel],
+        ),
+      );
+    }
+
+    // Broadcast -> NOTIFY
+    for (const payload of broadcasts) {
+      promises.push(
+        this._pool.query("SELECT pg_notify($1, $2)", [
+          this._busChannel,
+          payload,
+        ]),
+      );
+    }
+
+    await Promise.all(promises);
+  }
+
+  async subscribe(
+    channel: string,
+    handler: (data: unknown) => void,
+  ): Promise<void> {
+    if (!this._handlers.has(channel)) {
+      this._handlers.set(channel, new Set());
+      try {
+        await this._listen();
+      } catch (err) {
+        this._handlers.delete(channel);
+        throw err;
+      }
+
+      if (channel.startsWith(NODE_CHANNEL)) {
+        const nodeId = channel.slice(NODE_CHANNEL.length);
+        this._nodes.set(nodeId, { channel, draining: false, again: false });
+        this._ensurePolling();
+        // Pick up rows queued while this node was down. Deferred so the
+        // handler below is registered first.
+        setImmediate(() => this._drain(nodeId).catch(() => {}));
+      }
+    }
+    this._handlers.get(channel)?.add(handler);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    if (channel.startsWith(NODE_CHANNEL)) {
+      // Rows stay queued, so a later re-subscribe receives them
+      this._nodes.delete(channel.slice(NODE_CHANNEL.length));
+    }
+    this._handlers.delete(channel);
+  }
+
+  async disconnect(): Promise<void> {
+    this._closed = true;
+    if (this._pollTimer) clearInterval(this._pollTimer);
+    this._pollTimer = null;
+    this._handlers.clear();
+    this._nodes.clear();
+    this._listenClient.removeListener?.("notification", this._onNotification);
+    // The pool is usually shared with the application — only the dedicated
+    // LISTEN connection is closed
+    await Promise.allSettled([this._listenClient.end?.()]);
+  }
+
+  private _dispatch(channel: string, data: unknown): void {
+    const handlers = this._handlers.get(channel);
+    if (!handlers) return;
+
+    for (const handler of handlers) {
+      try {
+        handler(data);
+      } catch {
+        // Swallow handler errors
+      }
+    }
+  }
+
+  private _parse(message: string): unknown {
+    try {
+      return JSON.parse(message);
+    } catch {
+      return message;
+    }
+  }
+
+  // ─── LISTEN/NOTIFY ─────────────────────────────────────────────────
+
+  private _listen(): Promise<void> {
+    this._listening ??= (async () => {
+      this._listenClient.on("notification", this._onNotification);
+      await this._listenClient.query(`LISTEN ${this._busChannel}`);
+      await this._listenClient.query(`LISTEN ${this._nodeChannel}`);
+    })().catch((err) => {
+      this._listenClient.removeListener?.("notification", this._onNotification);
+      this._listening = null;
+      throw err;
+    });
+    return this._listening;
+  }
+
+  private _onNotification = (msg: PgNotificationLike): void => {
+    if (this._closed || msg.payload === undefined) return;
+
+    if (msg.channel === this._busChannel) {
+      const parsed = this._parse(msg.payload) as {
+        channel?: unknown;
+        data?: unknown;
+      };
+      if (typeof parsed?.channel === "string") {
+        this._dispatch(parsed.channel, parsed.data);
+      }
+    } else if (msg.channel === this._nodeChannel) {
+      if (this._nodes.has(msg.payload)) {
+        this._drain(msg.payload).catch(() => {});
+      }
+    }
+  };
+
+  // ─── Unicast Queue ─────────────────────────────────────────────────
+
+  private _ensureTables(): Promise<void> {
+    if (!this._createTables) return Promise.resolve();
+    this._ready ??= (async () => {
+      await this._pool.query(
+        `CREATE TABLE IF NOT EXISTS ${this._queueTable} (
+           id BIGSERIAL PRIMARY KEY,
+           node_id TEXT NOT NULL,
+           payload TEXT NOT NULL,
+           created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+         )`,
+      );
+      await this._pool.query(
+        `CREATE INDEX IF NOT EXISTS ${this._queueTable}_node_idx
+         ON ${this._queueTable} (node_id, id)`,
+      );
+      await this._pool.query(
+        `CREATE TABLE IF NOT EXISTS ${this._presenceTable} (
+           identity TEXT PRIMARY KEY,
+           node_id TEXT NOT NULL,
+           expires_at TIMESTAMPTZ NOT NULL
+         )`,
+      );
+    })().catch((err) => {
+      // Retry on the next call
+      this._ready = null;
+      throw err;
+    });
+    return this._ready;
+  }
+
+  private _ensurePolling(): void {
+    if (this._pollTimer || this._closed) return;
+    this._pollTimer = setInterval(() => {
+      for (const nodeId of this._nodes.keys()) {
+        this._drain(nodeId).catch(() => {});
+      }
+      if (Date.now() - this._lastSweep >= SWEEP_INTERVAL_MS) {
+        this._lastSweep = Date.now();
+        this._sweep().catch(() => {});
+      }
+    }, this._pollIntervalMs);
+    this._pollTimer.unref();
+  }
+
+  /**
+   * Reads this node's rows oldest first, hands them to the handlers and
+   * only then deletes them — a crash in between redelivers (at-least-once).
+   */
+  private async _drain(nodeId: string): Promise<void> {
+    const queue = this._nodes.get(nodeId);
+    if (!queue) return;
+    if (queue.draining) {
+      queue.again = true;
+      return;
+    }
+    queue.draining = true;
+    try {
+      await this._ensureTables();
+      do {
+        queue.again = false;
+        const { rows } = await this._pool.query(
+          `SELECT id, payload FROM ${this._queueTable}
+           WHERE node_id = $1 ORDER BY id LIMIT $2`,
+          [nodeId, this._batchSize],
+        );
+        // Unsubscribed meanwhile — leave the rows for the next subscriber
+        if (this._nodes.get(nodeId) !== queue || this._closed) return;
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+          this._dispatch(queue.channel, this._parse(String(row.payload)));
+        }
+        await this._pool.query(
+          `DELETE FROM ${this._queueTable} WHERE id = ANY($1::bigint[])`,
+          [rows.map((row) => row.id)],
+        );
+        if (rows.length === this._batchSize) queue.again = true;
+      } while (queue.again && this._nodes.get(nodeId) === queue);
+    } finally {
+      queue.draining = false;
+    }
+  }
+
+  /** Drops undelivered rows and expired presence */
+  private async _sweep(): Promise<void> {
+    await this._pool.query(
+      `DELETE FROM ${this._queueTable}
+       WHERE created_at < now() - make_interval(secs => $1)`,
+      [this._queueTtlSeconds],
+    );
+    await this._pool.query(
+      `DELETE FROM ${this._presenceTable} WHERE expires_at < now()`,
+    );
+  }
+
+  // ─── Presence Registry ─────────────────────────────────────────────
+
+  async setPresence(
+    identity: string,
+    nodeId: string,
+    ttl: number,
+  ): Promise<void> {
+    await this.setPresenceBatch([{ identity, nodeId, ttl }]);
+  }
+
+  async getPresence(identity: string): Promise<string | null> {
+    const [nodeId] = await this.getPresenceBatch([identity]);
+    return nodeId ?? null;
+  }
+
+  async getPresenceBatch(identities: string[]): Promise<(string | null)[]> {
+    if (identities.length === 0) return [];
+    await this._ensureTables();
+    const { rows } = await this._pool.query(
+      `SELECT identity, node_id FROM ${this._presenceTable}
+       WHERE identity = ANY($1::text[]) AND expires_at > now()`,
+      [identities],
+    );
+    const found = new Map(rows.map((row) => [row.identity, row.node_id]));
+    return identities.map((id) => (found.get(id) as string) ?? null);
+  }
+
+  async removePresence(identity: string): Promise<void> {
+    await this._ensureTables();
+    await this._pool.query(
+      `DELETE FROM ${this._presenceTable} WHERE identity = $1`,
+      [identity],
+    );
+  }
+
+  async listPresence(): Promise<PresenceEntry[]> {
+    await this._ensureTables();
+    const { rows } = await this._pool.query(
+      `SELECT identity, node_id FROM ${this._presenceTable}
+       WHERE expires_at > now()`,
+    );
+    return rows.map((row) => ({
+      identity: row.identity as string,
+      nodeId: row.node_id as string,
+    }));
+  }
+
+  /**
+   * Upserts all entries in a single statement.
+   */
+  async setPresenceBatch(
+    entries: { identity: string; nodeId: string; ttl?: number }[],
+  ): Promise<void> {
+    if (entries.length === 0) return;
+    // ON CONFLICT can't touch a row twice in one statement — last one wins
+    const latest = new Map(entries.map((entry) => [entry.identity, entry]));
+    const rows = Array.from(latest.values());
+
+    await this._ensureTables();
+    await this._pool.query(
+      `INSERT INTO ${this._presenceTable} (identity, node_id, expires_at)
+       SELECT identity, node_id, now() + make_interval(secs => ttl)
+       FROM unnest($1::text[], $2::text[], $3::float8[])
+         AS entries(identity, node_id, ttl)
+       ON CONFLICT (identity) DO UPDATE
+       SET node_id = EXCLUDED.node_id, expires_at = EXCLUDED.expires_at`,
+      [
+        rows.map((e) => e.identity),
+        rows.map((e) => e.nodeId),
+        rows.map((e) => e.ttl ?? this._presenceTtlSeconds),
+      ],
+    );
+  }
+
+  // ─── Observability Pipeline ────────────────────────────────────────
+
+  async metrics(): Promise<Record<string, unknown>> {
+    const nodeIds = Array.from(this._nodes.keys());
+    const streamDetails: Record<string, number> = {};
+    let pendingMessages = 0;
+
+    if (nodeIds.length > 0) {
+      await this._ensureTables();
+      const { rows } = await this._pool.query(
+        `SELECT node_id, count(*)::int AS pending FROM ${this._queueTable}
+         WHERE node_id = ANY($1::text[]) GROUP BY node_id`,
+        [nodeIds],
+      );
+      const counts = new Map(rows.map((row) => [row.node_id, row.pending]));
+      for (const nodeId of nodeIds) {
+        const pending = Number(counts.get(nodeId) ?? 0);
+        pendingMessages += pending;
+        streamDetails[nodeId] = pending;
+      }
+    }
+
+    return {
+      pendingMessages,
+      activeStreams: nodeIds.length,
+      streamDetails,
+    };
+  }
+}
@@ -1,5 +1,9 @@
 import { createRequire } from "node:module";
-import type { RedisPubSubDriver, StreamEntry } from "./helpers.js";
+import {
+  type RedisPubSubDriver,
+  type StreamEntry,
+  scanIoRedis,
+} from "./helpers.js";
 
 // ─── Redis Cluster Driver ───────────────────────────────────────
 //
@@ -121,6 +125,15 @@ export class ClusterDriver implements RedisPubSubDriver {
     await this._cluster.del(key);
   }
 
+  /** Scans every master, since each holds only its own slots */
+  async scan(pattern: string): Promise<string[]> {
+    const masters: any[] = this._cluster.nodes("master");
+    const keys = await Promise.all(
+      masters.map((node) => scanIoRedis(node, pattern)),
+    );
+    return [...new Set(keys.flat())];
+  }
+
   async xadd(
     stream: string,
     args: Record<string, string>,
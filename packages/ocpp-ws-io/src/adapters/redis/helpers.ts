@@ -43,6 +43,8 @@ export interface RedisPubSubDriver {
   get(key: string): Promise<string | null>;
   mget(keys: string[]): Promise<(string | null)[]>;
   del(key: string): Promise<void>;
+  /** Every key matching a glob `pattern` (SCAN, never KEYS) */
+  scan?(pattern: string): Promise<string[]>;
 
   /**
    * Batch set multiple presence keys with TTL in a single pipeline.
@@ -94,6 +96,30 @@ export interface RedisPubSubDriver {
   readonly hasBlockingClient?: boolean;
 }
 
+/**
+ * Walks the SCAN cursor of one ioredis client. SCAN may return a key more
+ * than once, so the result is de-duplicated.
+ */
+export async function scanIoRedis(
+  client: any,
+  pattern: string,
+): Promise<string[]> {
+  const keys = new Set<string>();
+  let cursor = "0";
+  do {
+    const [next, batch]: [string, string[]] = await client.scan(
+      cursor,
+      "MATCH",
+      pattern,
+      "COUNT",
+      1000,
+    );
+    cursor = next;
+    for (const key of batch) keys.add(key);
+  } while (cursor !== "0");
+  return [...keys];
+}
+
 export class IoRedisDriver implements RedisPubSubDriver {
   private _handlers = new Map<string, (msg: string) => void>();
 
@@ -152,6 +178,10 @@ export class IoRedisDriver implements RedisPubSubDriver {
     await this.pub.del(key);
   }
 
+  async scan(pattern: string): Promise<string[]> {
+    return await scanIoRedis(this.pub, pattern);
+  }
+
   async xadd(
     stream: string,
     args: Record<string, string>,
@@ -317,6 +347,18 @@ export class NodeRedisDriver implements RedisPubSubDriver {
     await this.pub.del(key);
   }
 
+  async scan(pattern: string): Promise<string[]> {
+    const keys = new Set<string>();
+    // node-redis v4 yields single keys, v5 yields batches
+    for await (const item of this.pub.scanIterator({
+      MATCH: pattern,
+      COUNT: 1000,
+    })) {
+      for (const key of Array.isArray(item) ? item : [item]) keys.add(key);
+    }
+    return [...keys];
+  }
+
   async xadd(
     stream: string,
     args: Record<string, string>,
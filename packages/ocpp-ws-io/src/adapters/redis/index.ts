@@ -1,4 +1,4 @@
-import type { EventAdapterInterface } from "../../types.js";
+import type { EventAdapterInterface, PresenceEntry } from "../../types.js";
 import {
   createDriver,
   type RedisLikeClient,
@@ -356,6 +356,28 @@ export class RedisAdapter implements EventAdapterInterface {
     return await Promise.all(keys.map((k) => this._driver.get(k)));
   }
 
+  /** Requires a driver with `scan()`; the built-in drivers all have it */
+  async listPresence(): Promise<PresenceEntry[]> {
+    if (!this._driver.scan) {
+      throw new Error("The Redis driver does not support scan()");
+    }
+    const prefix = `${this._prefix}presence:`;
+    const keys = await this._driver.scan(
+      `${prefix.replace(/[*?[\]\\]/g, "\\$&")}*`,
+    );
+    const entries: PresenceEntry[] = [];
+    for (let i = 0; i < keys.length; i += 500) {
+      const chunk = keys.slice(i, i + 500);
+      const nodeIds = await this._driver.mget(chunk);
+      chunk.forEach((key, j) => {
+        const nodeId = nodeIds[j];
+        if (nodeId)
+          entries.push({ identity: key.slice(prefix.length), nodeId });
+      });
+    }
+    return entries;
+  }
+
   async removePresence(identity: string): Promise<void> {
     const key = `${this._prefix}presence:${identity}`;
     // Drop the rehydration cache entry too — otherwise a Redis reconnect
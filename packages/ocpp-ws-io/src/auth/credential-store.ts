@@ -0,0 +1,311 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import type { ChangeConfigurationResponse } from "../generated/ocpp16.js";
+import type {
+  SetVariablesRequest,
+  SetVariablesResponse,
+} from "../generated/ocpp201.js";
+import { defineAuth } from "../helpers/index.js";
+import type { OCPPServerClient } from "../server-client.js";
+import type { AuthCallback, CallOptions } from "../types.js";
+
+// ─── Hashed Basic Auth Credentials ──────────────────────────────
+//
+// Station passwords are stored as scrypt hashes in the PHC-like format
+// `scrypt$N$r$p$salt$hash` (base64) and compared in constant time. A
+// rotation keeps the previous hash valid for a grace window so a station
+// that reconnects before (or without) applying the new password still
+// gets in.
+
+export interface ScryptParams {
+  /** CPU/memory cost, a power of two (default: 16384) */
+  N?: number;
+  /** Block size (default: 8) */
+  r?: number;
+  /** Parallelization (default: 1) */
+  p?: number;
+  /** Derived key length in bytes (default: 32) */
+  keyLength?: number;
+}
+
+export interface StoredCredential {
+  /** Current password hash */
+  hash: string;
+  /** Hash replaced by the last rotation, valid until `previousExpiresAt` */
+  previousHash?: string;
+  previousExpiresAt?: number;
+  updatedAt: number;
+}
+
+export interface CredentialStore {
+  get(identity: string): Promise<StoredCredential | null>;
+  set(identity: string, credential: StoredCredential): Promise<void>;
+  delete(identity: string): Promise<void>;
+}
+
+export class InMemoryCredentialStore implements CredentialStore {
+  private _credentials = new Map<string, StoredCredential>();
+
+  async get(identity: string): Promise<StoredCredential | null> {
+    const credential = this._credentials.get(identity);
+    return credential ? structuredClone(credential) : null;
+  }
+
+  async set(identity: string, credential: StoredCredential): Promise<void> {
+    this._credentials.set(identity, structuredClone(credential));
+  }
+
+  async delete(identity: string): Promise<void> {
+    this._credentials.delete(identity);
+  }
+}
+
+// ─── Hashing ────────────────────────────────────────────────────
+
+function deriveKey(
+  password: string | Buffer,
+  salt: Buffer,
+  keyLength: number,
+  params: { N: number; r: number; p: number },
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      keyLength,
+      { ...params, maxmem: 256 * params.N * params.r },
+      (err, key) => (err ? reject(err) : resolve(key)),
+    );
+  });
+}
+
+/** Hash a password with scrypt and a random 16-byte salt. */
+export async function hashPassword(
+  password: string | Buffer,
+  params: ScryptParams = {},
+): Promise<string> {
+  const { N = 16384, r = 8, p = 1, keyLength = 32 } = params;
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, keyLength, { N, r, p });
+  return `scrypt$${N}$${r}$${p}$${salt.toString("base64")}$${key.toString("base64")}`;
+}
+
+/**
+ * Check a password against a `hashPassword()` hash in constant time.
+ * Malformed hashes never match.
+ */
+export async function verifyPassword(
+  password: string | Buffer,
+  hash: string,
+): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = hash.split("$");
+  if (scheme !== "scrypt" || !key) return false;
+  const expected = Buffer.from(key, "base64");
+  const actual = await deriveKey(
+    password,
+    Buffer.from(salt, "base64"),
+    expected.length,
+    { N: Number(N), r: Number(r), p: Number(p) },
+  ).catch(() => null);
+  return actual !== null && timingSafeEqual(actual, expected);
+}
+
+// ─── Credential Manager ─────────────────────────────────────────
+
+export interface CredentialManagerOptions {
+  /** Persistence backend (default: in-memory) */
+  store?: CredentialStore;
+  /** How long the old password stays valid after a rotation (default: 86400000) */
+  graceMs?: number;
+  scrypt?: ScryptParams;
+}
+
+export interface RotatePasswordOptions {
+  /** Override the manager's grace window for this rotation */
+  graceMs?: number;
+  /**
+   * Random bytes in the new password, hex-encoded (default: 20 → 40
+   * chars, the 2.x `BasicAuthPassword` maximum)
+   */
+  bytes?: number;
+  callOptions?: CallOptions;
+}
+
+export interface PasswordRotation {
+  identity: string;
+  /** The new password, already applied on the station */
+  password: string;
+  /** When the old password stops being accepted */
+  previousExpiresAt: number;
+}
+
+/** Station surface needed to push a new password. */
+export type PasswordRotationTarget = Pick<
+  OCPPServerClient,
+  "identity" | "protocol" | "call"
+>;
+
+/**
+ * Hashed Basic Auth passwords for Security Profiles 1 and 2, with
+ * rotation through `ChangeConfiguration` (1.6) or `SetVariables` (2.x).
+ *
+ * @example
+ * ```ts
+ * import { basicAuth, CredentialManager } from 'ocpp-ws-io';
+ *
+ * const credentials = new CredentialManager({ store: myCredentialStore });
+ * await credentials.setPassword('CP-1', initialPassword);
+ * server.auth(basicAuth(credentials));
+ *
+ * server.on('client', async (client) => {
+ *   if (await credentials.needsRotation(client.identity, 90 * 86_400_000)) {
+ *     await credentials.rotate(client);
+ *   }
+ * });
+ * ```
+ */
+export class CredentialManager {
+  private readonly _store: CredentialStore;
+  private readonly _graceMs: number;
+  private readonly _scrypt: ScryptParams;
+  /** Compared against for unknown identities, so timing doesn't leak them */
+  private _dummyHash: Promise<string> | null = null;
+
+  constructor(options: CredentialManagerOptions = {}) {
+    this._store = options.store ?? new InMemoryCredentialStore();
+    this._graceMs = options.graceMs ?? 86_400_000;
+    this._scrypt = options.scrypt ?? {};
+  }
+
+  /** Set (or reset) a station's password. Drops any rotation grace. */
+  async setPassword(
+    identity: string,
+    password: string | Buffer,
+  ): Promise<void> {
+    await this._store.set(identity, {
+      hash: await hashPassword(password, this._scrypt),
+      updatedAt: Date.now(),
+    });
+  }
+
+  async delete(identity: string): Promise<void> {
+    await this._store.delete(identity);
+  }
+
+  /**
+   * Check a station's password. During a rotation grace window both the
+   * new and the previous password are accepted.
+   */
+  async verify(
+    identity: string,
+    password: string | Buffer | undefined,
+  ): Promise<boolean> {
+    const credential = await this._store.get(identity);
+    if (!credential || password === undefined) {
+      this._dummyHash ??= hashPassword(randomBytes(16), this._scrypt);
+      await verifyPassword(password ?? "", await this._dummyHash);
+      return false;
+    }
+    if (await verifyPassword(password, credential.hash)) return true;
+    if (
+      credential.previousHash === undefined ||
+      (credential.previousExpiresAt ?? 0) <= Date.now()
+    ) {
+      return false;
+    }
+    return verifyPassword(password, credential.previousHash);
+  }
+
+  /** Whether the password is older than `maxAgeMs` (or unknown). */
+  async needsRotation(identity: string, maxAgeMs: number): Promise<boolean> {
+    const credential = await this._store.get(identity);
+    return !credential || Date.now() - credential.updatedAt > maxAgeMs;
+  }
+
+  /**
+   * Generate a random password, push it to the station and store it. The
+   * old password stays valid for the grace window. If the station rejects
+   * the change, the stored credential is restored. If the outcome is
+   * unknown (the call timed out or the connection dropped), the station may
+   * already use the new password, so it is kept — with the old one still
+   * accepted until the grace window ends.
+   *
+   * @throws {Error} if the station rejects the change, or the call fails
+   */
+  async rotate(
+    client: PasswordRotationTarget,
+    options: RotatePasswordOptions = {},
+  ): Promise<PasswordRotation> {
+    const { identity } = client;
+    const password = randomBytes(options.bytes ?? 20).toString("hex");
+    const previous = await this._store.get(identity);
+    const now = Date.now();
+    const previousExpiresAt = now + (options.graceMs ?? this._graceMs);
+
+    // Store first — the station may reconnect with the new password as
+    // soon as it has accepted it
+    await this._store.set(identity, {
+      hash: await hashPassword(password, this._scrypt),
+      ...(previous && { previousHash: previous.hash, previousExpiresAt }),
+      updatedAt: now,
+    });
+
+    // A failed call leaves the outcome unknown — keep both passwords
+    const status = await pushPassword(client, password, options.callOptions);
+    if (status !== "Accepted" && status !== "RebootRequired") {
+      if (previous) await this._store.set(identity, previous);
+      else await this._store.delete(identity);
+      throw new Error(`Password change ${status ?? "failed"} by ${identity}`);
+    }
+    return { identity, password, previousExpiresAt };
+  }
+}
+
+async function pushPassword(
+  client: PasswordRotationTarget,
+  password: string,
+  callOptions?: CallOptions,
+): Promise<string | undefined> {
+  if (client.protocol === "ocpp1.6") {
+    const response = await client.call<ChangeConfigurationResponse>(
+      "ChangeConfiguration",
+      { key: "AuthorizationKey", value: password },
+      callOptions,
+    );
+    return response.status;
+  }
+  const response = await client.call<SetVariablesResponse>(
+    "SetVariables",
+    {
+      setVariableData: [
+        {
+          component: { name: "SecurityCtrlr" },
+          variable: { name: "BasicAuthPassword" },
+          attributeValue: password,
+        },
+      ],
+    } satisfies SetVariablesRequest,
+    callOptions,
+  );
+  return response.setVariableResult[0]?.attributeStatus;
+}
+
+// ─── Auth Preset ─────────────────────────────────────────────────
+
+/**
+ * Auth callback that accepts stations whose Basic Auth password matches
+ * the credential manager, and rejects everything else with 401.
+ *
+ * @example
+ * ```ts
+ * server.auth(basicAuth(credentials));
+ * ```
+ */
+export function basicAuth(credentials: CredentialManager): AuthCallback {
+  return defineAuth(async (ctx) => {
+    const { identity, password } = ctx.handshake;
+    if (!(await credentials.verify(identity, password))) {
+      return ctx.reject(401, "Invalid credentials");
+    }
+    ctx.accept();
+  });
+}
@@ -0,0 +1,390 @@
+import {
+  createHmac,
+  createPublicKey,
+  createSecretKey,
+  type JsonWebKey,
+  type KeyObject,
+  timingSafeEqual,
+  verify,
+} from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { defineAuth } from "../helpers/index.js";
+import type { AuthCallback, HandshakeInfo } from "../types.js";
+
+// ─── Bearer Token (JWT) Auth ────────────────────────────────────
+//
+// Compact JWS verification with Node crypto only: HS256 against shared
+// secrets, RS256 / ES256 against PEM keys or a JWKS document. Symmetric
+// and asymmetric keys are kept apart so a token can't pick HS256 to be
+// checked against a public key (algorithm confusion).
+
+export type JwtAlgorithm = "HS256" | "RS256" | "ES256";
+
+/** Registered claims, plus whatever else the issuer put in. */
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+export interface JwksDocument {
+  keys: (JsonWebKey & { kid?: string; alg?: string; use?: string })[];
+}
+
+export interface JwtVerifierOptions {
+  /** HS256 shared secret(s) */
+  secret?: string | Buffer | (string | Buffer)[];
+  /** RS256 / ES256 public key(s), PEM or KeyObject */
+  publicKey?: string | KeyObject | (string | KeyObject)[];
+  /**
+   * JWKS: a document, a path to a JSON file, or a loader. Reloaded when a
+   * token names an unknown `kid`, at most once per `jwksCacheMs`.
+   */
+  jwks?: JwksDocument | string | (() => JwksDocument | Promise<JwksDocument>);
+  /** Minimum time between JWKS reloads (default: 300000) */
+  jwksCacheMs?: number;
+  /** Accepted algorithms (default: all with a configured key) */
+  algorithms?: JwtAlgorithm[];
+  /** Required `iss`, one of */
+  issuer?: string | string[];
+  /** Required `aud`, any of */
+  audience?: string | string[];
+  /** Leeway for `exp` / `nbf` (default: 0) */
+  clockToleranceMs?: number;
+}
+
+interface JwksEntry {
+  kid?: string;
+  alg?: string;
+  key: KeyObject;
+}
+
+/** JWK key type per algorithm. */
+const KEY_TYPES: Record<JwtAlgorithm, string> = {
+  HS256: "oct",
+  RS256: "RSA",
+  ES256: "EC",
+};
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  const value = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("Malformed token");
+  }
+  return value;
+}
+
+function toList<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+/** Key type of a parsed key, in JWK terms. */
+function ktyOf(key: KeyObject): string {
+  if (key.type === "secret") return "oct";
+  if (key.asymmetricKeyType === "rsa") return "RSA";
+  if (key.asymmetricKeyType === "ec") return "EC";
+  return String(key.asymmetricKeyType);
+}
+
+function fitsAlgorithm(key: KeyObject, alg: JwtAlgorithm): boolean {
+  if (ktyOf(key) !== KEY_TYPES[alg]) return false;
+  return (
+    alg !== "ES256" || key.asymmetricKeyDetails?.namedCurve === "prime256v1"
+  );
+}
+
+/**
+ * Verifies JWT bearer tokens: signature, `exp` / `nbf`, and optionally
+ * `iss` / `aud`.
+ *
+ * @example
+ * ```ts
+ * const tokens = new JwtVerifier({
+ *   jwks: "/etc/ocpp/gateway-jwks.json",
+ *   issuer: "https://gateway.example.com",
+ *   audience: "csms",
+ * });
+ * const claims = await tokens.verify(token);
+ * ```
+ */
+export class JwtVerifier {
+  private readonly _options: JwtVerifierOptions;
+  private readonly _static: KeyObject[];
+  private readonly _algorithms: Set<JwtAlgorithm>;
+  private _jwks: JwksEntry[] = [];
+  private _jwksLoadedAt = 0;
+  private _jwksLoading: Promise<void> | null = null;
+
+  /** @throws {Error} if no key is configured or a key can't be parsed */
+  constructor(options: JwtVerifierOptions) {
+    this._options = options;
+    this._static = [
+      ...toList(options.secret).map((s) => createSecretKey(Buffer.from(s))),
+      ...toList(options.publicKey).map((k) =>
+        typeof k === "string" ? createPublicKey(k) : k,
+      ),
+    ];
+    if (!this._static.length && options.jwks === undefined) {
+      throw new Error("JwtVerifier needs a secret, publicKey or jwks");
+    }
+
+    const configured = new Set<JwtAlgorithm>();
+    if (options.secret !== undefined) configured.add("HS256");
+    if (options.publicKey !== undefined || options.jwks !== undefined) {
+      configured.add("RS256").add("ES256");
+    }
+    this._algorithms = new Set(options.algorithms ?? configured);
+  }
+
+  /**
+   * Verify a compact JWT and return its claims.
+   *
+   * @throws {Error} if the token is malformed, unsigned, wrongly signed,
+   * expired, not yet valid, or has the wrong issuer or audience
+   */
+  async verify(token: string): Promise<JwtClaims> {
+    const parts = token.split(".");
+    if (parts.length !== 3) throw new Error("Malformed token");
+    const [headerPart, payloadPart, signaturePart] = parts;
+    let header: Record<string, unknown>;
+    let claims: JwtClaims;
+    try {
+      header = decodeSegment(headerPart);
+      claims = decodeSegment(payloadPart);
+    } catch {
+      throw new Error("Malformed token");
+    }
+
+    const alg = header.alg as JwtAlgorithm;
+    if (!this._algorithms.has(alg) || !(alg in KEY_TYPES)) {
+      throw new Error(`Algorithm ${String(header.alg)} not allowed`);
+    }
+    const kid = typeof header.kid === "string" ? header.kid : undefined;
+    const keys = await this._keysFor(alg, kid);
+    if (!keys.length) throw new Error("No key for token");
+
+    const data = Buffer.from(`${headerPart}.${payloadPart}`);
+    const signature = Buffer.from(signaturePart, "base64url");
+    if (!keys.some((key) => this._verifySignature(alg, key, data, signature))) {
+      throw new Error("Invalid signature");
+    }
+
+    this._checkClaims(claims);
+    return claims;
+  }
+
+  private _verifySignature(
+    alg: JwtAlgorithm,
+    key: KeyObject,
+    data: Buffer,
+    signature: Buffer,
+  ): boolean {
+    if (alg === "HS256") {
+      const expected = createHmac("sha256", key).update(data).digest();
+      return (
+        expected.length === signature.length &&
+        timingSafeEqual(expected, signature)
+      );
+    }
+    try {
+      return verify(
+        "sha256",
+        data,
+        alg === "ES256" ? { key, dsaEncoding: "ieee-p1363" } : key,
+        signature,
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private _checkClaims(claims: JwtClaims): void {
+    const now = Date.now();
+    const tolerance = this._options.clockToleranceMs ?? 0;
+    if (claims.exp !== undefined && claims.exp * 1000 + tolerance <= now) {
+      throw new Error("Token expired");
+    }
+    if (claims.nbf !== undefined && claims.nbf * 1000 - tolerance > now) {
+      throw new Error("Token not yet valid");
+    }
+    const issuers = toList(this._options.issuer);
+    if (issuers.length && !issuers.includes(claims.iss as string)) {
+      throw new Error("Unexpected issuer");
+    }
+    const audiences = toList(this._options.audience);
+    if (
+      audiences.length &&
+      !toList(claims.aud).some((aud) => audiences.includes(aud))
+    ) {
+      throw new Error("Unexpected audience");
+    }
+  }
+
+  private async _keysFor(
+    alg: JwtAlgorithm,
+    kid: string | undefined,
+  ): Promise<KeyObject[]> {
+    const fromJwks = () =>
+      this._jwks
+        .filter(
+          (entry) =>
+            (kid === undefined || entry.kid === kid) &&
+            (entry.alg === undefined || entry.alg === alg),
+        )
+        .map((entry) => entry.key);
+
+    let jwksKeys = fromJwks();
+    if (this._options.jwks !== undefined && !jwksKeys.length) {
+      await this._loadJwks();
+      jwksKeys = fromJwks();
+    }
+    // With a kid, only the named key may verify
+    const keys =
+      kid === undefined || !this._jwks.length
+        ? [...this._static, ...jwksKeys]
+        : jwksKeys;
+    return keys.filter((key) => fitsAlgorithm(key, alg));
+  }
+
+  private async _loadJwks(): Promise<void> {
+    const cacheMs = this._options.jwksCacheMs ?? 300_000;
+    if (this._jwksLoadedAt && Date.now() - this._jwksLoadedAt < cacheMs) {
+      return;
+    }
+    this._jwksLoading ??= (async () => {
+      try {
+        const source = this._options.jwks!;
+        const doc: JwksDocument =
+          typeof source === "string"
+            ? JSON.parse(await readFile(source, "utf8"))
+            : typeof source === "function"
+              ? await source()
+              : source;
+        const entries: JwksEntry[] = [];
+        for (const jwk of doc.keys ?? []) {
+          if (jwk.use !== undefined && jwk.use !== "sig") continue;
+          try {
+            const key =
+              jwk.kty === "oct"
+                ? createSecretKey(Buffer.from(String(jwk.k), "base64url"))
+                : createPublicKey({ key: jwk, format: "jwk" });
+            entries.push({ kid: jwk.kid, alg: jwk.alg, key });
+          } catch {
+            // Skip keys Node can't import
+          }
+        }
+        this._jwks = entries;
+      } finally {
+        this._jwksLoadedAt = Date.now();
+        this._jwksLoading = null;
+      }
+    })();
+    await this._jwksLoading;
+  }
+}
+
+// ─── Auth Preset ─────────────────────────────────────────────────
+
+export interface JwtAuthOptions<TSession = Record<string, unknown>>
+  extends JwtVerifierOptions {
+  /** Header carrying the token, with or without `Bearer ` (default: "authorization") */
+  header?: string | false;
+  /** Query parameter carrying the token (default: "access_token") */
+  queryParam?: string | false;
+  /**
+   * Claim that must equal the station identity (default: "sub"); `false`
+   * to skip the check
+   */
+  identityClaim?: string | false;
+  /** Map claims to the client session (default: `{ claims }`) */
+  session?: (claims: JwtClaims, handshake: HandshakeInfo) => TSession;
+  /**
+   * Without a token, leave the decision to the next callback in a
+   * `combineAuth()` chain instead of rejecting (default: false)
+   */
+  optional?: boolean;
+}
+
+/** The bearer token of a handshake, from the header or query parameter. */
+export function extractBearerToken(
+  handshake: HandshakeInfo,
+  options: Pick<JwtAuthOptions, "header" | "queryParam"> = {},
+): string | undefined {
+  const header = options.header ?? "authorization";
+  if (header !== false) {
+    const raw = handshake.headers[header.toLowerCase()];
+    const value = (Array.isArray(raw) ? raw[0] : raw)?.trim();
+    if (value) {
+      const bearer = value.match(/^Bearer\s+(.+)$/i);
+      // `Authorization: Basic ...` belongs to another callback
+      if (bearer) return bearer[1].trim();
+      if (header.toLowerCase() !== "authorization") return value;
+    }
+  }
+  const param = options.queryParam ?? "access_token";
+  if (param !== false) {
+    return handshake.query.get(param) || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Auth callback for stations behind a gateway that presents a JWT bearer
+ * token. Accepts verified tokens whose `sub` (or `identityClaim`) equals
+ * the station identity, maps the claims into the session, and rejects
+ * everything else with 401.
+ *
+ * @example
+ * ```ts
+ * import { combineAuth, jwtAuth } from 'ocpp-ws-io';
+ *
+ * server.auth(
+ *   jwtAuth({
+ *     jwks: () => fetch(jwksUrl).then((r) => r.json()),
+ *     audience: 'csms',
+ *     session: (claims) => ({ tenant: claims.tenant }),
+ *   }),
+ * );
+ *
+ * // Or next to Basic Auth
+ * server.auth(combineAuth(jwtAuth({ secret, optional: true }), basicAuth(credentials)));
+ * ```
+ */
+export function jwtAuth<TSession = Record<string, unknown>>(
+  options: JwtAuthOptions<TSession>,
+): AuthCallback<TSession> {
+  const verifier = new JwtVerifier(options);
+  const identityClaim = options.identityClaim ?? "sub";
+
+  return defineAuth<TSession>(async (ctx) => {
+    const token = extractBearerToken(ctx.handshake, options);
+    if (!token) {
+      if (options.optional) return;
+      return ctx.reject(401, "Missing bearer token");
+    }
+
+    let claims: JwtClaims;
+    try {
+      claims = await verifier.verify(token);
+    } catch {
+      return ctx.reject(401, "Invalid bearer token");
+    }
+    if (
+      identityClaim !== false &&
+      claims[identityClaim] !== ctx.handshake.identity
+    ) {
+      return ctx.reject(403, "Token subject does not match identity");
+    }
+
+    ctx.accept({
+      session: options.session
+        ? options.session(claims, ctx.handshake)
+        : ({ claims } as TSession),
+    });
+  });
+}
@@ -0,0 +1,170 @@
+import type { PeerCertificate } from "node:tls";
+import type { ClientCertificateOptions, SecurityEvent } from "./types.js";
+import { parseCrl } from "./x509.js";
+
+/** Lowercase hex without separators or leading zeros. */
+function normalizeSerial(serial: string): string {
+  return serial
+    .replace(/[\s:]/g, "")
+    .toLowerCase()
+    .replace(/^0+(?=.)/, "");
+}
+
+/**
+ * Revoked client certificate serial numbers.
+ *
+ * Holds serials added by hand and serials loaded from CRLs separately, so
+ * reloading a CRL never drops manual entries. Serials are matched across
+ * issuers — use one list per CA if serials could collide.
+ *
+ * @example
+ * ```ts
+ * const revoked = new RevocationList(["4f2a"]);
+ * revoked.loadCrl(fs.readFileSync("ca.crl"), caPem);
+ * revoked.add("0b:91:c3"); // takes effect on the next handshake
+ * ```
+ */
+export class RevocationList {
+  private _manual = new Set<string>();
+  private _crl = new Set<string>();
+
+  constructor(serials?: Iterable<string>) {
+    for (const serial of serials ?? []) this.add(serial);
+  }
+
+  add(serial: string): this {
+    this._manual.add(normalizeSerial(serial));
+    return this;
+  }
+
+  delete(serial: string): boolean {
+    return this._manual.delete(normalizeSerial(serial));
+  }
+
+  has(serial: string): boolean {
+    const key = normalizeSerial(serial);
+    return this._manual.has(key) || this._crl.has(key);
+  }
+
+  get size(): number {
+    return new Set([...this._manual, ...this._crl]).size;
+  }
+
+  /**
+   * Replace the CRL-derived entries with the revoked serials of one or
+   * more CRLs (PEM bundle or a single DER CRL). Pass the CA certificate to
+   * verify CRL signatures. On error the previous entries are kept.
+   *
+   * @returns the number of revoked serials loaded
+   */
+  loadCrl(crl: string | Buffer, issuerCertificate?: string): number {
+    const text = typeof crl === "string" ? crl : crl.toString("latin1");
+    const crls = text.includes("-----BEGIN X509 CRL-----")
+      ? (text.match(
+          /-----BEGIN X509 CRL-----[\s\S]+?-----END X509 CRL-----/g,
+        ) ?? [])
+      : [crl];
+    const next = new Set<string>();
+    for (const entry of crls) {
+      const { revoked } = parseCrl(entry, issuerCertificate);
+      for (const { serialNumber } of revoked) next.add(serialNumber);
+    }
+    this._crl = next;
+    return next.size;
+  }
+
+  clear(): void {
+    this._manual.clear();
+    this._crl.clear();
+  }
+}
+
+/** Subject CN values of a peer certificate. */
+function commonNames(cert: PeerCertificate): string[] {
+  const cn = cert.subject?.CN as string | string[] | undefined;
+  if (cn === undefined) return [];
+  return Array.isArray(cn) ? cn : [cn];
+}
+
+/** Values of a `subjectaltname` string such as `DNS:cp-1, URI:urn:cp-1`. */
+function subjectAltNames(cert: PeerCertificate): string[] {
+  if (!cert.subjectaltname) return [];
+  return cert.subjectaltname.split(", ").map((entry) => {
+    const value = entry.slice(entry.indexOf(":") + 1);
+    // Node quotes values containing separators as JSON strings
+    return value.startsWith('"') ? JSON.parse(value) : value;
+  });
+}
+
+/** Identities a client certificate is valid for under `options`. */
+function certificateIdentities(
+  cert: PeerCertificate,
+  options: ClientCertificateOptions,
+): string[] {
+  if (options.mapIdentity) {
+    const mapped = options.mapIdentity(cert);
+    if (mapped === undefined) return [];
+    return Array.isArray(mapped) ? mapped : [mapped];
+  }
+  switch (options.identityMatch) {
+    case "cn":
+      return commonNames(cert);
+    case "san":
+      return subjectAltNames(cert);
+    default:
+      return [...commonNames(cert), ...subjectAltNames(cert)];
+  }
+}
+
+/**
+ * Checks a Profile 3 client certificate against the revocation list and
+ * the identity binding. Runs before the auth callback.
+ */
+export function checkClientCertificate(
+  cert: PeerCertificate | undefined,
+  identity: string,
+  options: ClientCertificateOptions,
+):
+  | { allowed: true }
+  | {
+      allowed: false;
+      type: Extract<
+        SecurityEvent["type"],
+        "CLIENT_CERT_REVOKED" | "CLIENT_CERT_MISMATCH"
+      >;
+      reason: string;
+    } {
+  // getPeerCertificate() returns an empty object when none was sent
+  const present = cert !== undefined && Object.keys(cert).length > 0;
+
+  if (
+    present &&
+    cert.serialNumber &&
+    options.revocationList?.has(cert.serialNumber)
+  ) {
+    return {
+      allowed: false,
+      type: "CLIENT_CERT_REVOKED",
+      reason: "Certificate revoked",
+    };
+  }
+
+  if (options.identityMatch || options.mapIdentity) {
+    if (!present) {
+      return {
+        allowed: false,
+        type: "CLIENT_CERT_MISMATCH",
+        reason: "No client certificate",
+      };
+    }
+    if (!certificateIdentities(cert, options).includes(identity)) {
+      return {
+        allowed: false,
+        type: "CLIENT_CERT_MISMATCH",
+        reason: "Certificate does not match identity",
+      };
+    }
+  }
+
+  return { allowed: true };
+}
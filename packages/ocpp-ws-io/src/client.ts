@@ -15,7 +15,15 @@ import type {
 } from "./generated/index.js";
 import { createLoggingMiddleware } from "./helpers/index.js";
 import { initLogger } from "./init-logger.js";
+import type { SignatureVerificationReport } from "./meter-signatures.js";
 import { type MiddlewareFunction, MiddlewareStack } from "./middleware";
+import {
+  DEFAULT_OFFLINE_QUEUE_PRIORITIES,
+  type OfflineQueueEntry,
+  type OfflineQueueStore,
+  sortOfflineQueueEntries,
+  TRANSACTION_METHODS,
+} from "./offline-queue.js";
 import { Queue } from "./queue.js";
 import { getStandardValidators } from "./standard-validators.js";
 import {
@@ -55,6 +63,23 @@ import { isValidStatusCode } from "./ws-util.js";
 
 const { CONNECTING, OPEN, CLOSING, CLOSED } = ConnectionState;
 
+/** Redirect hops `followRedirects` allows per connection attempt */
+const MAX_REDIRECTS = 5;
+
+/** `ws:`/`http:` and `wss:`/`https:` name the same origin. */
+function wsOrigin(url: string): string {
+  const { protocol, host } = new URL(url);
+  const scheme = protocol === "https:" || protocol === "wss:" ? "wss" : "ws";
+  return `${scheme}://${host}`;
+}
+
+/** An offline-queued call; restored entries have no caller to settle */
+interface OfflineCall extends OfflineQueueEntry {
+  options: CallOptions;
+  resolve?: (value: unknown) => void;
+  reject?: (reason: unknown) => void;
+}
+
 interface PendingCall {
   resolve: (value: unknown) => void;
   reject: (reason: unknown) => void;
@@ -120,13 +145,12 @@ export class OCPPClient<
   private _badMessageCount = 0;
   private _lastActivity = 0;
   private _outboundBuffer: string[] = [];
-  private _offlineQueue: Array<{
-    method: string;
-    params: unknown;
-    options: CallOptions;
-    resolve: (value: unknown) => void;
-    reject: (reason: unknown) => void;
-  }> = [];
+  private _offlineQueue: OfflineCall[] = [];
+  private _offlineStore: OfflineQueueStore | null = null;
+  /** Settles once persisted entries from a previous run are restored */
+  private _offlineRestore: Promise<void> = Promise.resolve();
+  private _offlineSeq = 0;
+  private _offlineFlushing = false;
   private _middleware: MiddlewareStack<MiddlewareContext>;
   private _validators: Validator[] = [];
   private _strictProtocols: string[] | null = null;
@@ -192,6 +216,11 @@ export class OCPPClient<
     if (this._options.strictMode) {
       this._setupValidators();
     }
+
+    if (this._options.offlineQueueStore) {
+      this._offlineStore = this._options.offlineQueueStore;
+      this._offlineRestore = this._restoreOfflineQueue();
+    }
   }
 
   // ─── Exchange Log Helper ──────────────────────────────────────
@@ -260,6 +289,14 @@ export class OCPPClient<
     return this._ws?.bufferedAmount ?? 0;
   }
 
+  /**
+   * CALLs in flight in either direction: sent and awaiting a response, or
+   * received and still being handled.
+   */
+  get inFlightCalls(): number {
+    return this._pendingCalls.size + this._pendingResponses.size;
+  }
+
   /**
    * The current configuration options for this client.
    */
@@ -309,12 +346,27 @@ export class OCPPClient<
     return this._connectInternal();
   }
 
-  private async _connectInternal(): Promise<{
+  private async _connectInternal(redirect?: {
+    url: string;
+    hops: number;
+  }): Promise<{
     response: import("node:http").IncomingMessage;
   }> {
     return new Promise((resolve, reject) => {
-      const endpoint = this._buildEndpoint();
+      const endpoint = redirect?.url ?? this._buildEndpoint();
       const wsOptions = this._buildWsOptions();
+      // Credentials only go to the configured endpoint's origin — whoever
+      // answers there picks where a redirect points
+      if (
+        redirect &&
+        wsOrigin(endpoint) !== wsOrigin(this._options.endpoint) &&
+        wsOptions.headers?.Authorization !== undefined
+      ) {
+        delete wsOptions.headers.Authorization;
+        this._logger?.warn?.("Dropping credentials on cross-origin redirect", {
+          url: endpoint,
+        });
+      }
 
       this._logger?.debug?.("Connecting", { url: endpoint });
       this.emit("connecting", { url: endpoint });
@@ -345,8 +397,8 @@ export class OCPPClient<
         this._attachWebsocket(ws);
         this._startPing();
 
-        // Flush offline queue (atomic drain to prevent re-entry)
-        this._flushOfflineQueue();
+        // Flush offline queue (sequential drain, guarded against re-entry)
+        void this._flushOfflineQueue();
 
         // Flush outbound buffer (messages queued during CONNECTING)
         if (this._outboundBuffer.length > 0) {
@@ -388,6 +440,23 @@ export class OCPPClient<
         res: import("node:http").IncomingMessage,
       ) => {
         cleanup();
+        const hops = redirect?.hops ?? 0;
+        const target = this._options.followRedirects
+          ? this._redirectTarget(endpoint, res)
+          : undefined;
+        if (target && hops < MAX_REDIRECTS && this._state === CONNECTING) {
+          res.resume();
+          this._logger?.info?.("Following redirect", {
+            statusCode: res.statusCode,
+            url: target,
+          });
+          this._connectInternal({ url: target, hops: hops + 1 }).then(
+            resolve,
+            reject,
+          );
+          return;
+        }
+
         this._state = CLOSED;
         const err = new UnexpectedHttpResponse(
           `Unexpected HTTP response: ${res.statusCode}`,
@@ -732,35 +801,24 @@ export class OCPPClient<
     if (this._state !== OPEN) {
       // ── Offline Queue ──
       if (
-        this._options.offlineQueue &&
+        (this._options.offlineQueue || this._offlineStore) &&
         (this._state === CLOSED || this._state === CONNECTING)
       ) {
         return new Promise((resolve, reject) => {
-          const maxSize = this._options.offlineQueueMaxSize ?? 100;
-          if (this._offlineQueue.length >= maxSize) {
-            const dropped = this._offlineQueue.shift(); // Drop oldest
-            dropped?.reject(
-              new Error("Offline queue overflow — oldest queued call dropped"),
-            );
-            this._logger?.warn?.(
-              "Offline queue full — dropping oldest message",
-              {
-                method,
-                queueSize: this._offlineQueue.length,
-              },
-            );
-          }
-          this._offlineQueue.push({
+          // A call that can't be queued (or persisted) fails right away
+          this._enqueueOffline({
+            id: options.idempotencyKey ?? createId(),
             method,
             params,
+            priority: this._offlinePriority(method),
+            seq: 0,
+            enqueuedAt: Date.now(),
+            attempts: 0,
+            timeoutMs: options.timeoutMs,
             options,
             resolve,
             reject,
-          });
-          this._logger?.debug?.("Call queued offline", {
-            method,
-            queueSize: this._offlineQueue.length,
-          });
+          }).catch(reject);
         });
       }
       throw new Error(`Cannot call: client is in state ${this._state}`);
@@ -1242,6 +1300,11 @@ export class OCPPClient<
 
           this._pendingResponses.add(ctxvals.messageId);
 
+          const signatures =
+            this._options.strictMode && this._protocol
+              ? await this._verifySignatures(ctxvals.method, ctxvals.params)
+              : undefined;
+
           const ac = new AbortController();
           const context: HandlerContext = {
             messageId: ctxvals.messageId,
@@ -1249,6 +1312,7 @@ export class OCPPClient<
             protocol: this._protocol,
             params: ctxvals.params,
             signal: ac.signal,
+            ...(signatures && { signatures }),
           };
 
           let result: unknown;
@@ -1609,25 +1673,235 @@ export class OCPPClient<
 
   // ─── Internal: Offline Queue ──────────────────────────────────
 
+  private _offlinePriority(method: string): number {
+    const priorities =
+      this._options.offlineQueuePriorities ?? DEFAULT_OFFLINE_QUEUE_PRIORITIES;
+    return priorities[method] ?? 0;
+  }
+
+  private _toOfflineEntry(call: OfflineCall): OfflineQueueEntry {
+    return {
+      id: call.id,
+      method: call.method,
+      params: call.params,
+      priority: call.priority,
+      seq: call.seq,
+      enqueuedAt: call.enqueuedAt,
+      attempts: call.attempts,
+      timeoutMs: call.timeoutMs,
+    };
+  }
+
+  private _persistOffline(op: () => Promise<void> | undefined): void {
+    op()?.catch((err) => {
+      this._logger?.error?.("Offline queue store error", {
+        error: (err as Error).message,
+      });
+    });
+  }
+
   /**
-   * Atomically drains the offline queue and sends each message via _sendCall.
-   * Uses splice(0) to prevent re-entry bugs (double billing) if the connection
-   * drops again mid-flush — the queue is empty before any sends begin.
+   * Load entries persisted by a previous process. They have no caller
+   * waiting on them — outcomes are only observable via `offlineQueueDrop`.
    */
-  private _flushOfflineQueue(): void {
-    if (this._offlineQueue.length === 0) return;
+  private async _restoreOfflineQueue(): Promise<void> {
+    try {
+      const entries = await this._offlineStore!.list();
+      if (entries.length === 0) return;
+      for (const entry of sortOfflineQueueEntries(entries)) {
+        this._offlineQueue.push({ ...entry, options: {} });
+      }
+      // A loop, not Math.max(...seqs) — spreading a large restore
+      // overflows the call stack
+      for (const entry of entries) {
+        if (entry.seq >= this._offlineSeq) this._offlineSeq = entry.seq + 1;
+      }
+      this._logger?.info?.("Restored persisted offline queue", {
+        count: entries.length,
+      });
+    } catch (err) {
+      this._logger?.error?.("Failed to restore persisted offline queue", {
+        error: (err as Error).message,
+      });
+    }
+  }
+
+  private async _enqueueOffline(call: OfflineCall): Promise<void> {
+    // Sequence numbers must continue after restored entries
+    await this._offlineRestore;
+    call.seq = this._offlineSeq++;
+
+    // A durable queue is only capped when the user sets a limit
+    const maxSize =
+      this._options.offlineQueueMaxSize ??
+      (this._offlineStore ? Number.POSITIVE_INFINITY : 100);
+    let victim: OfflineCall | undefined;
+    if (this._offlineQueue.length >= maxSize) {
+      // Evict the lowest-priority entry, oldest first — billing data
+      // survives a flood of status notifications
+      victim = this._offlineQueue[0];
+      for (const entry of this._offlineQueue) {
+        if (
+          entry.priority < victim.priority ||
+          (entry.priority === victim.priority && entry.seq < victim.seq)
+        ) {
+          victim = entry;
+        }
+      }
+      // The incoming call ranks below everything queued — refuse it
+      // rather than evict something more important
+      if (call.priority < victim.priority) {
+        const error = new Error(
+          "Offline queue overflow — queue is full of higher-priority calls",
+        );
+        this.emit("offlineQueueDrop", {
+          method: call.method,
+          params: call.params,
+          reason: "overflow",
+          error,
+        });
+        this._logger?.warn?.("Offline queue full — rejecting incoming call", {
+          method: call.method,
+          queueSize: this._offlineQueue.length,
+        });
+        throw error;
+      }
+    }
 
-    // Atomic snapshot — clears queue before sending to prevent re-entry
-    const snapshot = this._offlineQueue.splice(0, this._offlineQueue.length);
-    this._logger?.info?.("Flushing offline queue", {
-      count: snapshot.length,
+    // Persist before queueing: a call the store couldn't keep would be
+    // lost on restart, so the caller gets the store's error instead
+    if (this._offlineStore) {
+      try {
+        await this._offlineStore.put(this._toOfflineEntry(call));
+      } catch (err) {
+        this._logger?.error?.("Offline queue store error", {
+          error: (err as Error).message,
+        });
+        throw err;
+      }
+    }
+
+    // Evicted only once the incoming call is safely persisted
+    if (victim && this._offlineQueue.includes(victim)) {
+      this._dropOffline(
+        victim,
+        "overflow",
+        new Error(
+          "Offline queue overflow — evicted for a newer or higher-priority call",
+        ),
+      );
+      this._logger?.warn?.("Offline queue full — dropping queued call", {
+        method: victim.method,
+        queueSize: this._offlineQueue.length,
+      });
+    }
+
+    this._offlineQueue.push(call);
+    this._logger?.debug?.("Call queued offline", {
+      method: call.method,
+      queueSize: this._offlineQueue.length,
+    });
+
+    // Connected while we were waiting on the restore — nothing else will flush
+    if (this._state === OPEN) void this._flushOfflineQueue();
+  }
+
+  private _removeOffline(call: OfflineCall): void {
+    const idx = this._offlineQueue.indexOf(call);
+    if (idx !== -1) this._offlineQueue.splice(idx, 1);
+    this._persistOffline(() => this._offlineStore?.remove(call.id));
+  }
+
+  private _dropOffline(
+    call: OfflineCall,
+    reason: "overflow" | "failed",
+    error: Error,
+  ): void {
+    this._removeOffline(call);
+    call.reject?.(error);
+    this.emit("offlineQueueDrop", {
+      method: call.method,
+      params: call.params,
+      reason,
+      error,
     });
+  }
+
+  /**
+   * Drains the offline queue one call at a time in priority order.
+   * Entries stay queued (and persisted) until they are settled, so a
+   * connection drop mid-flush leaves the remainder for the next reconnect.
+   * The `_offlineFlushing` guard prevents re-entry (double billing).
+   */
+  private async _flushOfflineQueue(): Promise<void> {
+    if (this._offlineFlushing) return;
+    this._offlineFlushing = true;
+
+    try {
+      await this._offlineRestore;
+      if (this._offlineQueue.length === 0) return;
+
+      this._logger?.info?.("Flushing offline queue", {
+        count: this._offlineQueue.length,
+      });
 
-    for (const entry of snapshot) {
-      this._callQueue
-        .push(() => this._sendCall(entry.method, entry.params, entry.options))
-        .then(entry.resolve)
-        .catch(entry.reject);
+      while (this._state === OPEN && this._offlineQueue.length > 0) {
+        const next = sortOfflineQueueEntries(this._offlineQueue)[0];
+        if (!(await this._deliverOffline(next))) break;
+      }
+    } finally {
+      this._offlineFlushing = false;
+    }
+  }
+
+  /**
+   * Deliver a single queued call. Transaction messages are retried on
+   * timeout or CALLERROR (OCPP 1.6 §4.7, 2.0.1 E.04) and block the queue
+   * meanwhile so they reach the CSMS in order.
+   *
+   * @returns false if the connection was lost and flushing should stop.
+   */
+  private async _deliverOffline(call: OfflineCall): Promise<boolean> {
+    const maxAttempts = TRANSACTION_METHODS.has(call.method)
+      ? Math.max(1, this._options.transactionMessageAttempts ?? 3)
+      : 1;
+    const interval = this._options.transactionMessageRetryIntervalMs ?? 10000;
+
+    for (;;) {
+      try {
+        // The entry id doubles as messageId so retransmissions (including
+        // replays after a crash) are recognizable as the same CALL
+        const result = await this._callQueue.push(() =>
+          this._sendCall(call.method, call.params, {
+            ...call.options,
+            timeoutMs: call.timeoutMs,
+            idempotencyKey: call.id,
+          }),
+        );
+        this._removeOffline(call);
+        call.resolve?.(result);
+        return true;
+      } catch (err) {
+        // Connection dropped — not a failed attempt, keep it queued
+        if (this._state !== OPEN) return false;
+
+        call.attempts++;
+        if (call.attempts >= maxAttempts) {
+          this._logger?.warn?.("Offline queued call failed", {
+            method: call.method,
+            attempts: call.attempts,
+            error: (err as Error).message,
+          });
+          this._dropOffline(call, "failed", err as Error);
+          return true;
+        }
+
+        this._persistOffline(() =>
+          this._offlineStore?.put(this._toOfflineEntry(call)),
+        );
+        await new Promise((r) => setTimeout(r, interval * call.attempts));
+        if (this._state !== OPEN) return false;
+      }
     }
   }
 
@@ -1905,6 +2179,38 @@ export class OCPPClient<
     }
   }
 
+  private async _verifySignatures(
+    method: string,
+    params: unknown,
+  ): Promise<SignatureVerificationReport | undefined> {
+    const validator = this._findValidator();
+    if (!validator?.signatureVerifier) return undefined;
+
+    if (
+      this._options.strictModeMethods &&
+      !this._options.strictModeMethods.includes(method as any)
+    ) {
+      return undefined;
+    }
+
+    const report = await validator.verifySignatures(
+      this.identity,
+      method,
+      params,
+    );
+    if (report && !report.verified) {
+      this.emit("signatureVerificationFailure", report);
+      if (validator.signatureVerifier.rejectUnverified) {
+        throw createRPCError(
+          "SecurityError",
+          "Signed meter values failed verification",
+          { results: report.results.map(({ data, ...r }) => r) },
+        );
+      }
+    }
+    return report;
+  }
+
   private _findValidator(): Validator | null {
     if (!this._protocol) return null;
 
@@ -1937,6 +2243,42 @@ export class OCPPClient<
     return url.toString();
   }
 
+  /**
+   * Where a sharded server points this identity: a 307/308 `Location` or a
+   * 421 `X-OCPP-Owner-Url`, resolved against `from`. Undefined when there
+   * is none, or when following it would drop TLS.
+   */
+  private _redirectTarget(
+    from: string,
+    res: import("node:http").IncomingMessage,
+  ): string | undefined {
+    let header: string | string[] | undefined;
+    if (res.statusCode === 307 || res.statusCode === 308) {
+      header = res.headers.location;
+    } else if (res.statusCode === 421) {
+      header = res.headers["x-ocpp-owner-url"];
+    }
+    if (typeof header !== "string" || header === "") return undefined;
+
+    let target: URL;
+    try {
+      target = new URL(header, from);
+    } catch {
+      return undefined;
+    }
+    if (!["ws:", "wss:", "http:", "https:"].includes(target.protocol)) {
+      return undefined;
+    }
+    const secure = (p: string) => p === "wss:" || p === "https:";
+    if (secure(new URL(from).protocol) && !secure(target.protocol)) {
+      this._logger?.warn?.("Refusing redirect that drops TLS", {
+        url: target.toString(),
+      });
+      return undefined;
+    }
+    return target.toString();
+  }
+
   private _buildWsOptions(): WebSocket.ClientOptions {
     const opts: WebSocket.ClientOptions = {
       headers: {
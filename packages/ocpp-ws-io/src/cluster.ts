@@ -0,0 +1,271 @@
+import { createHash } from "node:crypto";
+import type { ClusterMember, OCPPServerStats } from "./types.js";
+
+/** Adapter channel carrying membership heartbeats. */
+export const CLUSTER_CHANNEL = "ocpp:cluster";
+
+export type ClusterMessage =
+  | {
+      type: "heartbeat";
+      nodeId: string;
+      url?: string;
+      state: ClusterMember["state"];
+      startedAt: string;
+      stats?: OCPPServerStats;
+    }
+  | { type: "leave"; nodeId: string };
+
+function hash32(value: string): number {
+  return createHash("sha256").update(value).digest().readUInt32BE(0);
+}
+
+/**
+ * Consistent-hash ring mapping keys (station identities) to node ids.
+ * Every node is placed at `virtualNodes` points so keys spread evenly, and
+ * adding or removing a node only moves the keys that land on its points.
+ *
+ * The mapping depends only on the set of node ids, so every node with the
+ * same membership view agrees on each identity's owner.
+ */
+export class HashRing {
+  private _points: { hash: number; nodeId: string }[] = [];
+  private _nodes: string[] = [];
+
+  constructor(private readonly _virtualNodes = 160) {
+    if (!Number.isInteger(_virtualNodes) || _virtualNodes < 1) {
+      throw new Error("virtualNodes must be a positive integer");
+    }
+  }
+
+  /** Node ids on the ring, sorted. */
+  get nodes(): readonly string[] {
+    return this._nodes;
+  }
+
+  /**
+   * Replaces the ring's members.
+   * @returns `true` when the membership actually changed
+   */
+  setNodes(nodeIds: Iterable<string>): boolean {
+    const next = [...new Set(nodeIds)].sort();
+    if (
+      next.length === this._nodes.length &&
+      next.every((id, i) => id === this._nodes[i])
+    ) {
+      return false;
+    }
+    this._nodes = next;
+    this._points = [];
+    for (const nodeId of next) {
+      for (let i = 0; i < this._virtualNodes; i++) {
+        this._points.push({ hash: hash32(`${nodeId}#${i}`), nodeId });
+      }
+    }
+    // Ties broken by node id so every node builds the same ring
+    this._points.sort(
+      (a, b) => a.hash - b.hash || (a.nodeId < b.nodeId ? -1 : 1),
+    );
+    return true;
+  }
+
+  /** The node owning `key`, or `null` on an empty ring. */
+  owner(key: string): string | null {
+    const points = this._points;
+    if (points.length === 0) return null;
+    const hash = hash32(key);
+    let lo = 0;
+    let hi = points.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (points[mid]!.hash < hash) lo = mid + 1;
+      else hi = mid;
+    }
+    return points[lo % points.length]!.nodeId;
+  }
+}
+
+export interface ClusterMembershipOptions {
+  nodeId: string;
+  /** Sends a message to every node (the adapter's `CLUSTER_CHANNEL`) */
+  publish: (message: ClusterMessage) => Promise<void>;
+  /** This node's advertised WebSocket origin */
+  url?: string;
+  /** ISO timestamp announced as the node's start (default: construction time) */
+  startedAt?: string;
+  /** Snapshot sent with every heartbeat */
+  stats?: () => OCPPServerStats;
+  /** (default: 5000) */
+  heartbeatIntervalMs?: number;
+  /** (default: 3 × heartbeatIntervalMs) */
+  nodeTimeoutMs?: number;
+  /** Called with the live nodes whenever one joins, leaves or changes state */
+  onChange?: (nodes: ClusterMember[], joined: string[], left: string[]) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Tracks which server nodes are alive from heartbeats exchanged over the
+ * adapter. A node announces itself on `start()`, on every heartbeat tick
+ * and whenever it hears from a node it didn't know, so a newcomer learns
+ * the full membership within one round trip. Nodes that stop sending
+ * heartbeats are dropped after `nodeTimeoutMs`; `stop()` announces the
+ * departure so the others don't have to wait for that. Heartbeats carry
+ * the node's `stats` snapshot, so every node has a cluster-wide view.
+ */
+export class ClusterMembership {
+  private readonly _nodes = new Map<string, ClusterMember>();
+  private readonly _heartbeatIntervalMs: number;
+  private readonly _nodeTimeoutMs: number;
+  private readonly _startedAt: string;
+  private _state: ClusterMember["state"] = "active";
+  private _timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly _options: ClusterMembershipOptions) {
+    this._startedAt = _options.startedAt ?? new Date().toISOString();
+    this._heartbeatIntervalMs = _options.heartbeatIntervalMs ?? 5000;
+    this._nodeTimeoutMs =
+      _options.nodeTimeoutMs ?? this._heartbeatIntervalMs * 3;
+  }
+
+  /** Live nodes, this one included, sorted by node id. */
+  get nodes(): ClusterMember[] {
+    return [...this._nodes.values()].sort((a, b) =>
+      a.nodeId < b.nodeId ? -1 : 1,
+    );
+  }
+
+  get(nodeId: string): ClusterMember | undefined {
+    return this._nodes.get(nodeId);
+  }
+
+  get running(): boolean {
+    return this._timer !== null;
+  }
+
+  start(): void {
+    if (this._timer) return;
+    this._upsertSelf();
+    this._timer = setInterval(() => {
+      this._expire();
+      this._heartbeat();
+    }, this._heartbeatIntervalMs);
+    this._timer.unref();
+    this._heartbeat();
+  }
+
+  /** Changes this node's state and announces it right away. */
+  setState(state: ClusterMember["state"]): void {
+    if (state === this._state) return;
+    this._state = state;
+    if (!this._timer) return;
+    this._notify([], []);
+    this._heartbeat();
+  }
+
+  /** Stops heartbeats and tells the other nodes this one is leaving. */
+  async stop(): Promise<void> {
+    if (!this._timer) return;
+    clearInterval(this._timer);
+    this._timer = null;
+    this._nodes.clear();
+    try {
+      await this._options.publish({
+        type: "leave",
+        nodeId: this._options.nodeId,
+      });
+    } catch (err) {
+      this._options.onError?.(err as Error);
+    }
+  }
+
+  /** Feeds a message received on `CLUSTER_CHANNEL`. */
+  handle(msg: unknown): void {
+    if (!this._timer || !msg || typeof msg !== "object") return;
+    const message = msg as Partial<ClusterMessage>;
+    if (
+      typeof message.nodeId !== "string" ||
+      message.nodeId === this._options.nodeId
+    ) {
+      return;
+    }
+    if (message.type === "leave") {
+      if (this._nodes.delete(message.nodeId)) {
+        this._notify([], [message.nodeId]);
+      }
+      return;
+    }
+    if (message.type !== "heartbeat") return;
+    const previous = this._nodes.get(message.nodeId);
+    const state = message.state === "draining" ? "draining" : "active";
+    this._upsert({
+      nodeId: message.nodeId,
+      url: typeof message.url === "string" ? message.url : undefined,
+      state,
+      startedAt: String(message.startedAt ?? ""),
+      stats:
+        message.stats && typeof message.stats === "object"
+          ? message.stats
+          : undefined,
+    });
+    if (!previous) {
+      this._notify([message.nodeId], []);
+      // Introduce ourselves rather than making it wait for our next tick
+      this._heartbeat();
+    } else if (previous.state !== state) {
+      this._notify([], []);
+    }
+  }
+
+  private _upsert(node: Omit<ClusterMember, "lastSeen">): void {
+    this._nodes.set(node.nodeId, { ...node, lastSeen: Date.now() });
+  }
+
+  private _upsertSelf(): Omit<ClusterMember, "lastSeen"> {
+    const { nodeId, url } = this._options;
+    const self = {
+      nodeId,
+      url,
+      state: this._state,
+      startedAt: this._startedAt,
+      stats: this._stats(),
+    };
+    this._upsert(self);
+    return self;
+  }
+
+  private _stats(): OCPPServerStats | undefined {
+    try {
+      return this._options.stats?.();
+    } catch (err) {
+      this._options.onError?.(err as Error);
+      return undefined;
+    }
+  }
+
+  private _expire(): void {
+    const cutoff = Date.now() - this._nodeTimeoutMs;
+    const left: string[] = [];
+    for (const [nodeId, node] of this._nodes) {
+      if (nodeId !== this._options.nodeId && node.lastSeen < cutoff) {
+        this._nodes.delete(nodeId);
+        left.push(nodeId);
+      }
+    }
+    if (left.length > 0) this._notify([], left);
+  }
+
+  private _heartbeat(): void {
+    const self = this._upsertSelf();
+    this._options
+      .publish({ type: "heartbeat", ...self })
+      .catch((err) => this._options.onError?.(err as Error));
+  }
+
+  private _notify(joined: string[], left: string[]): void {
+    try {
+      this._options.onChange?.(this.nodes, joined, left);
+    } catch (err) {
+      this._options.onError?.(err as Error);
+    }
+  }
+}
@@ -1,20 +1,32 @@
 import type { IncomingMessage } from "node:http";
 import { TLSSocket } from "node:tls";
+import type { IPPolicy } from "./ip-policy.js";
 import type { CORSOptions } from "./types.js";
 import { isIPAllowed } from "./utils/cidr.js";
 
 /**
  * Validates an incoming WebSocket upgrade request against CORS rules.
- * Runs before routing and authentication.
+ * Runs before routing and authentication. `@group` IP entries are resolved
+ * against `ipPolicy`.
  */
 export function checkCORS(
   request: IncomingMessage,
   options: CORSOptions,
+  ipPolicy?: IPPolicy,
 ): { allowed: boolean; reason?: string } {
+  const matchesIP = (ip: string, entries: string[]) =>
+    ipPolicy ? ipPolicy.matches(ip, entries) : isIPAllowed(ip, entries);
+
   // 1. IP Check
+  if (options.deniedIPs && options.deniedIPs.length > 0) {
+    const remoteIP = request.socket.remoteAddress;
+    if (remoteIP && matchesIP(remoteIP, options.deniedIPs)) {
+      return { allowed: false, reason: "IP address denied" };
+    }
+  }
   if (options.allowedIPs && options.allowedIPs.length > 0) {
     const remoteIP = request.socket.remoteAddress;
-    if (!remoteIP || !isIPAllowed(remoteIP, options.allowedIPs)) {
+    if (!remoteIP || !matchesIP(remoteIP, options.allowedIPs)) {
       return { allowed: false, reason: "IP address not allowed" };
     }
   }
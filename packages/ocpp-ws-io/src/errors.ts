@@ -181,3 +181,17 @@ export class RPCFrameworkError extends RPCGenericError {
     this.name = "RPCFrameworkError";
   }
 }
+
+// ─── Command Policy ──────────────────────────────────────────────
+
+/**
+ * An outbound call refused by a command policy before it reached the wire.
+ * Extends RPCSecurityError, so a denial on the node that owns the station
+ * arrives as a `SecurityError` at a remote caller too.
+ */
+export class CommandDeniedError extends RPCSecurityError {
+  constructor(message?: string, details: Record<string, unknown> = {}) {
+    super(message, details);
+    this.name = "CommandDeniedError";
+  }
+}
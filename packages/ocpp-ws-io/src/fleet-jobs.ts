@@ -0,0 +1,594 @@
+import { EventEmitter } from "node:events";
+import type { OCPPServer } from "./server.js";
+import type {
+  BroadcastResultEntry,
+  CallOptions,
+  LoggerLike,
+  TypedEventEmitter,
+} from "./types.js";
+import { createId } from "./util.js";
+
+// ─── Fleet Command Jobs ─────────────────────────────────────────
+//
+// Resumable bulk operations ("send UpdateFirmware to these 2,000
+// stations, 50 at a time"). Each pass dispatches pending stations
+// in chunks through `broadcastBatchWithReport`; offline stations are
+// retried when they connect (`client` event) or on a periodic sweep
+// (covers stations that connect to another cluster node). Delivery
+// is at-least-once: a station in flight during a crash is re-sent
+// after `resume()`.
+
+export type FleetJobStatus =
+  | "scheduled"
+  | "running"
+  | "completed"
+  | "aborted"
+  | "cancelled";
+
+/**
+ * - `pending`  — not yet dispatched (or will be retried after a timeout)
+ * - `offline`  — not connected; retried when the station comes online
+ * - `accepted` — station answered and the result counts as success
+ * - `failed`   — CALLERROR, rejected status, or attempts exhausted
+ * - `expired`  — still offline when `offlineTimeoutMs` elapsed
+ */
+export type FleetTargetStatus =
+  | "pending"
+  | "offline"
+  | "accepted"
+  | "failed"
+  | "expired";
+
+export interface FleetJobSpec {
+  /** Job id (default: generated) */
+  id?: string;
+  method: string;
+  params: Record<string, unknown>;
+  identities: string[];
+  /** Stations called in parallel. (default: 50) */
+  concurrency?: number;
+  /**
+   * Abort the job once `failed / (accepted + failed)` exceeds this ratio
+   * (0–1). Checked after `minSamples` stations have settled.
+   */
+  maxFailureRate?: number;
+  /** Settled stations required before `maxFailureRate` applies. (default: 10) */
+  minSamples?: number;
+  /** Delivery attempts per station for timeouts. (default: 3) */
+  maxAttempts?: number;
+  /** Start time (epoch ms). Jobs in the future are `scheduled`. */
+  startAt?: number;
+  /** How long to keep waiting for offline stations. (default: 24h) */
+  offlineTimeoutMs?: number;
+  /** Options applied to every call (must be JSON-serializable) */
+  callOptions?: Omit<CallOptions, "signal">;
+}
+
+export interface FleetJobTarget {
+  status: FleetTargetStatus;
+  attempts: number;
+  result?: unknown;
+  errorCode?: string;
+  errorMessage?: string;
+  nodeId?: string;
+  updatedAt: number;
+}
+
+export interface FleetJob {
+  id: string;
+  spec: FleetJobSpec;
+  status: FleetJobStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  /** Why the job was aborted or cancelled */
+  reason?: string;
+  targets: Record<string, FleetJobTarget>;
+}
+
+export interface FleetJobProgress {
+  jobId: string;
+  status: FleetJobStatus;
+  total: number;
+  accepted: number;
+  failed: number;
+  pending: number;
+  offline: number;
+  expired: number;
+}
+
+export interface FleetJobReport extends FleetJobProgress {
+  reason?: string;
+  durationMs: number;
+  targets: Record<string, FleetJobTarget>;
+}
+
+/**
+ * Persistence for fleet jobs. `save()` is called after every chunk, so a
+ * restarted server can `resume()` where it left off.
+ */
+export interface FleetJobStore {
+  save(job: FleetJob): Promise<void>;
+  get(id: string): Promise<FleetJob | null>;
+  list(): Promise<FleetJob[]>;
+  delete?(id: string): Promise<void>;
+}
+
+export class InMemoryFleetJobStore implements FleetJobStore {
+  private _jobs = new Map<string, FleetJob>();
+
+  async save(job: FleetJob): Promise<void> {
+    this._jobs.set(job.id, structuredClone(job));
+  }
+
+  async get(id: string): Promise<FleetJob | null> {
+    const job = this._jobs.get(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  async list(): Promise<FleetJob[]> {
+    return Array.from(this._jobs.values(), (job) => structuredClone(job));
+  }
+
+  async delete(id: string): Promise<void> {
+    this._jobs.delete(id);
+  }
+}
+
+export interface FleetJobManagerOptions {
+  /** Job persistence (default: in-memory) */
+  store?: FleetJobStore;
+  /** Sweep interval for offline stations and deadlines. (default: 60000) */
+  retryIntervalMs?: number;
+  /**
+   * Decide whether a CALLRESULT counts as success.
+   * Default: any result whose `status` is not Rejected/NotSupported/Failed.
+   */
+  isSuccess?: (method: string, result: unknown) => boolean;
+  logger?: LoggerLike;
+}
+
+export interface FleetJobEvents {
+  jobStarted: [FleetJobProgress];
+  progress: [FleetJobProgress];
+  targetResult: [{ jobId: string; identity: string; target: FleetJobTarget }];
+  jobFinished: [FleetJobReport];
+}
+
+/** Minimal server surface used by the manager. */
+export type FleetJobHost = Pick<
+  OCPPServer,
+  "broadcastBatchWithReport" | "on" | "off"
+>;
+
+const FAILURE_STATUSES = new Set(["Rejected", "NotSupported", "Failed"]);
+
+function defaultIsSuccess(_method: string, result: unknown): boolean {
+  const status = (result as { status?: unknown } | null)?.status;
+  return typeof status !== "string" || !FAILURE_STATUSES.has(status);
+}
+
+interface JobRuntime {
+  job: FleetJob;
+  running: boolean;
+  rerun: boolean;
+  /** Offline identities to retry on the next pass */
+  wake: Set<string>;
+  sweep: boolean;
+  startTimer: ReturnType<typeof setTimeout> | null;
+  waiters: Array<{
+    resolve: (report: FleetJobReport) => void;
+    reject: (error: Error) => void;
+  }>;
+}
+
+/**
+ * Runs fleet command jobs against an `OCPPServer`. Run a single manager
+ * per cluster — stations on other nodes are reached through the adapter.
+ *
+ * @example
+ * ```ts
+ * import { FleetJobManager } from 'ocpp-ws-io';
+ *
+ * const jobs = new FleetJobManager(server, { store: myRedisJobStore });
+ * await jobs.resume(); // pick up jobs interrupted by a restart
+ *
+ * jobs.on('progress', (p) => console.log(`${p.accepted}/${p.total}`));
+ *
+ * const job = await jobs.submit({
+ *   method: 'UpdateFirmware',
+ *   params: { location: 'https://fw.example.com/v2.bin', retrieveDate },
+ *   identities: stationIds,
+ *   concurrency: 50,
+ *   maxFailureRate: 0.1,
+ * });
+ * const report = await jobs.wait(job.id);
+ * ```
+ */
+export class FleetJobManager extends (EventEmitter as new () => TypedEventEmitter<FleetJobEvents>) {
+  private readonly _host: FleetJobHost;
+  private readonly _store: FleetJobStore;
+  private readonly _isSuccess: (method: string, result: unknown) => boolean;
+  private readonly _logger: LoggerLike | undefined;
+  private _jobs = new Map<string, JobRuntime>();
+  private _sweepTimer: ReturnType<typeof setInterval> | null;
+  private readonly _onClient = (client: { identity: string }) => {
+    for (const rt of this._jobs.values()) {
+      if (
+        rt.job.status === "running" &&
+        rt.job.targets[client.identity]?.status === "offline"
+      ) {
+        rt.wake.add(client.identity);
+        void this._run(rt);
+      }
+    }
+  };
+
+  constructor(host: FleetJobHost, options: FleetJobManagerOptions = {}) {
+    super();
+    this._host = host;
+    this._store = options.store ?? new InMemoryFleetJobStore();
+    this._isSuccess = options.isSuccess ?? defaultIsSuccess;
+    this._logger = options.logger;
+
+    this._host.on("client", this._onClient);
+    this._sweepTimer = setInterval(
+      () => this._sweep(),
+      options.retryIntervalMs ?? 60_000,
+    );
+    this._sweepTimer.unref();
+  }
+
+  // ─── Public API ─────────────────────────────────────────────
+
+  /** Create, persist, and start (or schedule) a job. */
+  async submit(spec: FleetJobSpec): Promise<FleetJob> {
+    if (!spec.method) throw new Error("FleetJobSpec.method is required");
+    const identities = Array.from(new Set(spec.identities));
+    if (identities.length === 0) {
+      throw new Error("FleetJobSpec.identities must not be empty");
+    }
+
+    const id = spec.id ?? createId();
+    if (this._jobs.has(id) || (await this._store.get(id))) {
+      throw new Error(`Fleet job ${id} already exists`);
+    }
+
+    const now = Date.now();
+    const job: FleetJob = {
+      id,
+      spec: { ...spec, id, identities },
+      status: spec.startAt && spec.startAt > now ? "scheduled" : "running",
+      createdAt: now,
+      targets: {},
+    };
+    for (const identity of identities) {
+      job.targets[identity] = {
+        status: "pending",
+        attempts: 0,
+        updatedAt: now,
+      };
+    }
+
+    await this._store.save(job);
+    this._activate(job);
+    return structuredClone(job);
+  }
+
+  /**
+   * Reload `scheduled` and `running` jobs from the store after a restart.
+   * @returns Number of jobs resumed.
+   */
+  async resume(): Promise<number> {
+    let count = 0;
+    for (const job of await this._store.list()) {
+      if (this._jobs.has(job.id)) continue;
+      if (job.status !== "running" && job.status !== "scheduled") continue;
+      this._activate(job);
+      count++;
+    }
+    return count;
+  }
+
+  /** Current job state (from the store for finished jobs). */
+  async get(id: string): Promise<FleetJob | null> {
+    const rt = this._jobs.get(id);
+    return rt ? structuredClone(rt.job) : this._store.get(id);
+  }
+
+  async list(): Promise<FleetJob[]> {
+    return this._store.list();
+  }
+
+  /** Stop a job. Calls already in flight still complete. */
+  async cancel(id: string, reason = "Cancelled"): Promise<void> {
+    const rt = this._jobs.get(id);
+    if (!rt) return;
+    await this._finish(rt, "cancelled", reason);
+  }
+
+  /**
+   * Resolves with the final report once the job finishes. Rejects if the
+   * manager is closed first.
+   */
+  async wait(id: string): Promise<FleetJobReport> {
+    const rt = this._jobs.get(id);
+    if (rt) {
+      return new Promise((resolve, reject) =>
+        rt.waiters.push({ resolve, reject }),
+      );
+    }
+
+    const job = await this._store.get(id);
+    if (!job) throw new Error(`Fleet job ${id} not found`);
+    return this._report(job);
+  }
+
+  /**
+   * Stop timers and detach from the server. Jobs stay in the store, and
+   * pending `wait()` calls reject.
+   */
+  close(): void {
+    this._host.off("client", this._onClient);
+    if (this._sweepTimer) {
+      clearInterval(this._sweepTimer);
+      this._sweepTimer = null;
+    }
+    for (const rt of this._jobs.values()) {
+      if (rt.startTimer) clearTimeout(rt.startTimer);
+      for (const { reject } of rt.waiters.splice(0)) {
+        reject(
+          new Error(`FleetJobManager closed before job ${rt.job.id} finished`),
+        );
+      }
+    }
+    this._jobs.clear();
+  }
+
+  // ─── Internal ───────────────────────────────────────────────
+
+  private _activate(job: FleetJob): void {
+    const rt: JobRuntime = {
+      job,
+      running: false,
+      rerun: false,
+      wake: new Set(),
+      sweep: false,
+      startTimer: null,
+      waiters: [],
+    };
+    this._jobs.set(job.id, rt);
+
+    if (job.status === "scheduled") {
+      rt.startTimer = setTimeout(
+        () => {
+          rt.startTimer = null;
+          void this._start(rt);
+        },
+        Math.max(0, (job.spec.startAt ?? 0) - Date.now()),
+      );
+      rt.startTimer.unref();
+    } else {
+      void this._start(rt);
+    }
+  }
+
+  private async _start(rt: JobRuntime): Promise<void> {
+    const { job } = rt;
+    const resumed = job.startedAt !== undefined;
+    job.status = "running";
+    job.startedAt ??= Date.now();
+    // A restart may have interrupted stations waiting offline — try them again
+    if (resumed) rt.sweep = true;
+    await this._save(job);
+    this.emit("jobStarted", this._progress(job));
+    await this._run(rt);
+  }
+
+  private _sweep(): void {
+    for (const rt of this._jobs.values()) {
+      if (rt.job.status !== "running") continue;
+      rt.sweep = true;
+      void this._run(rt);
+    }
+  }
+
+  /** Run passes until nothing is left to dispatch; coalesces triggers. */
+  private async _run(rt: JobRuntime): Promise<void> {
+    if (rt.running) {
+      rt.rerun = true;
+      return;
+    }
+    rt.running = true;
+    try {
+      do {
+        rt.rerun = false;
+        await this._pass(rt);
+      } while (rt.rerun && rt.job.status === "running");
+    } catch (err) {
+      this._logger?.error?.("Fleet job pass failed", {
+        jobId: rt.job.id,
+        error: (err as Error).message,
+      });
+    } finally {
+      rt.running = false;
+    }
+  }
+
+  private async _pass(rt: JobRuntime): Promise<void> {
+    const { job } = rt;
+    if (job.status !== "running") return;
+
+    const includeOffline = rt.sweep;
+    rt.sweep = false;
+    const wake = rt.wake;
+    rt.wake = new Set();
+
+    const due = Object.entries(job.targets)
+      .filter(
+        ([identity, t]) =>
+          t.status === "pending" ||
+          (t.status === "offline" && (includeOffline || wake.has(identity))),
+      )
+      .map(([identity]) => identity);
+
+    const spec = job.spec;
+    const chunkSize = Math.max(1, spec.concurrency ?? 50);
+
+    for (let i = 0; i < due.length; i += chunkSize) {
+      if (job.status !== "running") return;
+      const chunk = due.slice(i, i + chunkSize);
+      const report = await this._host.broadcastBatchWithReport(
+        chunk,
+        spec.method as any,
+        spec.params as any,
+        { ...spec.callOptions, concurrency: chunkSize },
+      );
+      // Cancelled while the chunk was in flight
+      if (job.status !== "running") return;
+
+      for (const entry of report.results) this._apply(job, entry);
+      await this._save(job);
+      this.emit("progress", this._progress(job));
+
+      if (this._failureRateExceeded(job)) {
+        await this._finish(
+          rt,
+          "aborted",
+          `Failure rate exceeded ${spec.maxFailureRate}`,
+        );
+        return;
+      }
+    }
+
+    // Timed-out stations went back to pending — retry them right away
+    if (Object.values(job.targets).some((t) => t.status === "pending")) {
+      rt.rerun = true;
+      return;
+    }
+
+    const offline = Object.values(job.targets).filter(
+      (t) => t.status === "offline",
+    );
+    if (offline.length === 0) {
+      await this._finish(rt, "completed");
+      return;
+    }
+
+    const offlineDeadline =
+      (job.startedAt ?? job.createdAt) +
+      (spec.offlineTimeoutMs ?? 24 * 60 * 60 * 1000);
+    if (Date.now() >= offlineDeadline) {
+      const now = Date.now();
+      for (const t of offline) {
+        t.status = "expired";
+        t.updatedAt = now;
+      }
+      await this._finish(rt, "completed");
+    }
+  }
+
+  private _apply(job: FleetJob, entry: BroadcastResultEntry): void {
+    const target = job.targets[entry.identity];
+    if (!target) return;
+    target.updatedAt = Date.now();
+    target.nodeId = entry.nodeId;
+
+    switch (entry.status) {
+      case "accepted":
+        target.attempts++;
+        target.result = entry.result;
+        target.status = this._isSuccess(job.spec.method, entry.result)
+          ? "accepted"
+          : "failed";
+        break;
+      case "error":
+        target.attempts++;
+        target.status = "failed";
+        target.errorCode = entry.errorCode;
+        target.errorMessage = entry.errorMessage;
+        break;
+      case "timeout":
+        target.attempts++;
+        target.errorMessage = entry.errorMessage;
+        target.status =
+          target.attempts >= (job.spec.maxAttempts ?? 3) ? "failed" : "pending";
+        break;
+      case "not-connected":
+        target.status = "offline";
+        break;
+    }
+
+    this.emit("targetResult", {
+      jobId: job.id,
+      identity: entry.identity,
+      target: { ...target },
+    });
+  }
+
+  private _failureRateExceeded(job: FleetJob): boolean {
+    const max = job.spec.maxFailureRate;
+    if (max === undefined) return false;
+    const { accepted, failed } = this._progress(job);
+    const settled = accepted + failed;
+    if (settled === 0 || settled < (job.spec.minSamples ?? 10)) return false;
+    return failed / settled > max;
+  }
+
+  private async _finish(
+    rt: JobRuntime,
+    status: "completed" | "aborted" | "cancelled",
+    reason?: string,
+  ): Promise<void> {
+    const { job } = rt;
+    if (rt.startTimer) clearTimeout(rt.startTimer);
+    job.status = status;
+    job.reason = reason;
+    job.finishedAt = Date.now();
+    this._jobs.delete(job.id);
+    await this._save(job);
+
+    const report = this._report(job);
+    this.emit("jobFinished", report);
+    for (const { resolve } of rt.waiters.splice(0)) resolve(report);
+  }
+
+  private async _save(job: FleetJob): Promise<void> {
+    try {
+      await this._store.save(job);
+    } catch (err) {
+      this._logger?.error?.("Failed to persist fleet job", {
+        jobId: job.id,
+        error: (err as Error).message,
+      });
+    }
+  }
+
+  private _progress(job: FleetJob): FleetJobProgress {
+    const progress: FleetJobProgress = {
+      jobId: job.id,
+      status: job.status,
+      total: 0,
+      accepted: 0,
+      failed: 0,
+      pending: 0,
+      offline: 0,
+      expired: 0,
+    };
+    for (const t of Object.values(job.targets)) {
+      progress.total++;
+      progress[t.status]++;
+    }
+    return progress;
+  }
+
+  private _report(job: FleetJob): FleetJobReport {
+    return {
+      ...this._progress(job),
+      reason: job.reason,
+      durationMs:
+        (job.finishedAt ?? Date.now()) - (job.startedAt ?? job.createdAt),
+      targets: structuredClone(job.targets),
+    };
+  }
+}
@@ -2,6 +2,14 @@
 
 // ─── Adapters ────────────────────────────────────────────────────
 export { defineAdapter, InMemoryAdapter } from "./adapters/adapter.js";
+export {
+  NatsAdapter,
+  type NatsAdapterOptions,
+} from "./adapters/nats/index.js";
+export {
+  PostgresAdapter,
+  type PostgresAdapterOptions,
+} from "./adapters/postgres/index.js";
 export {
   ClusterDriver,
   type ClusterDriverOptions,
@@ -14,9 +22,45 @@ export type {
 } from "./adaptive-limiter.js";
 // ─── Adaptive Rate Limiting ──────────────────────────────────────
 export { AdaptiveLimiter } from "./adaptive-limiter.js";
+// ─── Auth ────────────────────────────────────────────────────────
+export {
+  basicAuth,
+  CredentialManager,
+  type CredentialManagerOptions,
+  type CredentialStore,
+  hashPassword,
+  InMemoryCredentialStore,
+  type PasswordRotation,
+  type PasswordRotationTarget,
+  type RotatePasswordOptions,
+  type ScryptParams,
+  type StoredCredential,
+  verifyPassword,
+} from "./auth/credential-store.js";
+export {
+  extractBearerToken,
+  type JwksDocument,
+  type JwtAlgorithm,
+  type JwtAuthOptions,
+  type JwtClaims,
+  JwtVerifier,
+  type JwtVerifierOptions,
+  jwtAuth,
+} from "./auth/jwt.js";
 export { OCPPClient } from "./client.js";
+// ─── Client Certificates ─────────────────────────────────────────
+export { checkClientCertificate, RevocationList } from "./client-cert.js";
+// ─── Cluster Membership & Sharding ───────────────────────────────
+export {
+  CLUSTER_CHANNEL,
+  ClusterMembership,
+  type ClusterMembershipOptions,
+  type ClusterMessage,
+  HashRing,
+} from "./cluster.js";
 // ─── Errors ──────────────────────────────────────────────────────
 export {
+  CommandDeniedError,
   type RPCError,
   RPCFormationViolationError,
   RPCFormatViolationError,
@@ -35,6 +79,22 @@ export {
   UnexpectedHttpResponse,
   WebsocketUpgradeError,
 } from "./errors.js";
+// ─── Fleet Jobs ──────────────────────────────────────────────────
+export {
+  type FleetJob,
+  type FleetJobEvents,
+  type FleetJobHost,
+  FleetJobManager,
+  type FleetJobManagerOptions,
+  type FleetJobProgress,
+  type FleetJobReport,
+  type FleetJobSpec,
+  type FleetJobStatus,
+  type FleetJobStore,
+  type FleetJobTarget,
+  type FleetTargetStatus,
+  InMemoryFleetJobStore,
+} from "./fleet-jobs.js";
 // ─── Generated OCPP Protocol Types ──────────────────────────────
 export type {
   AllMethodNames,
@@ -54,28 +114,103 @@ export {
   defineMiddleware,
   defineRpcMiddleware,
 } from "./helpers/index.js";
+// ─── IP Policy ───────────────────────────────────────────────────
+export {
+  type IPBan,
+  IPPolicy,
+  type IPPolicyChange,
+  type IPPolicyDecision,
+  type IPPolicyListener,
+  type IPPolicyOptions,
+} from "./ip-policy.js";
 export { LRUMap } from "./lru-map.js";
+// ─── Meter Signatures ────────────────────────────────────────────
+export {
+  parsePublicKey,
+  type SignatureVerificationReport,
+  SignatureVerifier,
+  type SignatureVerifierOptions,
+  type SignedDataResult,
+  type SignedDataVerifier,
+  type SignedValue,
+  type SignedValueResult,
+  type SignedValueStatus,
+  verifyEdl,
+  verifyOcmf,
+} from "./meter-signatures.js";
+// ─── Meter Values ────────────────────────────────────────────────
+export {
+  type AnyMeterValue,
+  accumulateEnergy,
+  createEnergyState,
+  DEFAULT_ROLLOVER_AT_WH,
+  type EnergyAccumulatorOptions,
+  type EnergyAnomaly,
+  type EnergyAnomalyKind,
+  type EnergyState,
+  energyRegisterSample,
+  type MeterSample,
+  type MeterUnit,
+  meterValuesOf,
+  normalizeMeterValues,
+} from "./meter-values.js";
 export * from "./middleware.js";
+// ─── Offline Queue ───────────────────────────────────────────────
+export {
+  DEFAULT_OFFLINE_QUEUE_PRIORITIES,
+  FileOfflineQueueStore,
+  type FileOfflineQueueStoreOptions,
+  InMemoryOfflineQueueStore,
+  type OfflineQueueEntry,
+  type OfflineQueueStore,
+  TRANSACTION_METHODS,
+} from "./offline-queue.js";
 export { createRouter, OCPPRouter } from "./router.js";
+// ─── Security Events ─────────────────────────────────────────────
+export {
+  classifySecurityEvent,
+  fromSecurityEventNotification,
+} from "./security-events.js";
+// ─── Security Profile Upgrade ────────────────────────────────────
+export type {
+  SecurityProfileUpgradeHost,
+  SecurityProfileUpgradeOptions,
+  SecurityProfileUpgradeResult,
+  SecurityProfileUpgradeStatus,
+} from "./security-profile.js";
 export { OCPPServer } from "./server.js";
 export { OCPPServerClient } from "./server-client.js";
-export { getStandardValidators } from "./standard-validators.js";
+export {
+  createStandardValidators,
+  getStandardValidators,
+} from "./standard-validators.js";
 // ─── Types ───────────────────────────────────────────────────────
 export {
   type AnyOCPPProtocol,
   type AuthAccept,
   type AuthCallback,
   type AuthContext,
+  type BroadcastOutcome,
+  type BroadcastReport,
+  type BroadcastReportOptions,
+  type BroadcastResultEntry,
   type CallHandler,
   type CallOptions,
+  type ClientCertificateOptions,
   type ClientEvents,
   type ClientOptions,
   type CloseOptions,
+  type ClosingInfo,
+  type ClusterMember,
+  type ClusterOptions,
+  type ClusterStats,
   type CORSOptions,
   type CompressionOptions,
   type ConnectionContext,
   type ConnectionMiddleware,
   ConnectionState,
+  type DrainOptions,
+  type DrainProgress,
   type EventAdapterInterface,
   type HandlerContext,
   type HandshakeInfo,
@@ -94,13 +229,17 @@ export {
   type OCPPPlugin,
   type OCPPProtocol,
   type OCPPServerStats,
+  type PresenceEntry,
   type RateLimitOptions,
   type RouterConfig,
   type SecurityEvent,
+  type SecurityEventCategory,
   SecurityProfile,
+  type SecuritySeverity,
   type ServerEvents,
   type ServerOptions,
   type SessionData,
+  type ShardingOptions,
   type TelemetryConfig,
   type TLSOptions,
   type TypedEventEmitter,
@@ -113,4 +252,27 @@ export {
   getPackageIdent,
 } from "./util.js";
 // ─── Validation ──────────────────────────────────────────────────
-export { createValidator, Validator } from "./validator.js";
+export {
+  createValidator,
+  Validator,
+  type ValidatorOptions,
+} from "./validator.js";
+// ─── X.509 ───────────────────────────────────────────────────────
+export {
+  type CertificateHashData,
+  certificateHashData,
+  createCsr,
+  type DistinguishedName,
+  derToPem,
+  type IssueCertificateOptions,
+  type IssueCrlOptions,
+  issueCertificate,
+  issueCrl,
+  type ParsedCrl,
+  type ParsedCsr,
+  parseCrl,
+  parseCsr,
+  pemToDer,
+  type RevokedCertificate,
+  splitPemChain,
+} from "./x509.js";
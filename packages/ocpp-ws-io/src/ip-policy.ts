@@ -0,0 +1,353 @@
+import { isIP } from "node:net";
+import { canonicalIP, isIPAllowed } from "./utils/cidr.js";
+
+/** A temporary (or permanent) block on an address or CIDR range. */
+export interface IPBan {
+  /** Exact address or CIDR range */
+  ip: string;
+  /** Epoch ms — absent for a ban that never expires */
+  expiresAt?: number;
+  reason?: string;
+}
+
+export interface IPPolicyOptions {
+  /**
+   * Named CIDR groups, referenced as `@name` in `allow` / `deny` and in
+   * `cors({ allowedIPs, deniedIPs })` rules.
+   */
+  groups?: Record<string, string[]>;
+  /** When non-empty, only matching addresses may connect */
+  allow?: string[];
+  /** Always rejected, even when also allowed */
+  deny?: string[];
+}
+
+export type IPPolicyChange =
+  | { type: "ban"; ban: IPBan }
+  | { type: "unban"; ip: string }
+  | { type: "group"; name: string; entries: string[] | null }
+  | { type: "allow"; entries: string[] }
+  | { type: "deny"; entries: string[] };
+
+export type IPPolicyDecision =
+  | { allowed: true }
+  | { allowed: false; reason: "banned"; ban: IPBan }
+  | { allowed: false; reason: "denied" | "not_allowed" };
+
+/**
+ * `"local"` for changes made on this instance, `"remote"` for changes
+ * replicated from another node through `applyChange()`.
+ */
+export type IPPolicyListener = (
+  change: IPPolicyChange,
+  origin: "local" | "remote",
+) => void;
+
+function assertIPOrCidr(entry: string): void {
+  const [address, mask, extra] = entry.split("/");
+  const family = isIP(address ?? "");
+  const bits = Number(mask);
+  if (
+    !family ||
+    extra !== undefined ||
+    (mask !== undefined &&
+      (!/^\d+$/.test(mask) || bits > (family === 4 ? 32 : 128)))
+  ) {
+    throw new Error(`Invalid IP address or CIDR range: ${entry}`);
+  }
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === "string");
+
+/**
+ * Checks a change received from another node, which can't be trusted to
+ * have gone through the validation of the local setters.
+ */
+function parseChange(input: unknown): IPPolicyChange {
+  const change = (input ?? {}) as Record<string, unknown>;
+  const invalid = () =>
+    new Error(`Invalid IP policy change: ${JSON.stringify(input)}`);
+  const rules = (entries: unknown) => {
+    if (!isStringArray(entries)) throw invalid();
+    for (const entry of entries) {
+      if (!entry.startsWith("@")) assertIPOrCidr(entry);
+    }
+    return [...entries];
+  };
+
+  switch (change.type) {
+    case "ban": {
+      const ban = (change.ban ?? {}) as Record<string, unknown>;
+      if (
+        typeof ban.ip !== "string" ||
+        (ban.expiresAt !== undefined && !Number.isFinite(ban.expiresAt)) ||
+        (ban.reason !== undefined && typeof ban.reason !== "string")
+      ) {
+        throw invalid();
+      }
+      assertIPOrCidr(ban.ip);
+      return {
+        type: "ban",
+        ban: {
+          ip: canonicalIP(ban.ip),
+          ...(ban.expiresAt !== undefined && {
+            expiresAt: ban.expiresAt as number,
+          }),
+          ...(ban.reason !== undefined && { reason: ban.reason }),
+        },
+      };
+    }
+    case "unban":
+      if (typeof change.ip !== "string") throw invalid();
+      return { type: "unban", ip: canonicalIP(change.ip) };
+    case "group":
+      if (typeof change.name !== "string") throw invalid();
+      if (change.entries === null) {
+        return { type: "group", name: change.name, entries: null };
+      }
+      if (!isStringArray(change.entries)) throw invalid();
+      change.entries.forEach(assertIPOrCidr);
+      return { type: "group", name: change.name, entries: [...change.entries] };
+    case "allow":
+    case "deny":
+      return { type: change.type, entries: rules(change.entries) };
+    default:
+      throw invalid();
+  }
+}
+
+/**
+ * Dynamic IP access policy: named CIDR groups, an allowlist, a denylist
+ * that overrides it, and bans with an optional TTL. Every change takes
+ * effect on the next handshake and is reported to `onChange()` listeners,
+ * which the server uses to replicate it across nodes.
+ *
+ * Decision order: ban → deny → allow.
+ *
+ * @example
+ * ```ts
+ * const server = new OCPPServer({
+ *   ipPolicy: {
+ *     groups: { depots: ["10.20.0.0/16", "10.30.0.0/16"] },
+ *     deny: ["10.20.99.0/24"],
+ *   },
+ * });
+ * server.route("/depot/:identity").cors({ allowedIPs: ["@depots"] });
+ *
+ * server.ipPolicy.ban("203.0.113.7", { ttlMs: 15 * 60_000, reason: "abuse" });
+ * ```
+ */
+export class IPPolicy {
+  private _groups = new Map<string, string[]>();
+  private _allow: string[] = [];
+  private _deny: string[] = [];
+  private _bans = new Map<string, IPBan>();
+  private _listeners = new Set<IPPolicyListener>();
+
+  constructor(options: IPPolicyOptions = {}) {
+    for (const [name, entries] of Object.entries(options.groups ?? {})) {
+      this.setGroup(name, entries);
+    }
+    if (options.allow) this.setAllow(options.allow);
+    if (options.deny) this.setDeny(options.deny);
+  }
+
+  // ─── Decisions ───────────────────────────────────────────────
+
+  /** Whether `ip` may connect under the server-wide rules. */
+  check(ip: string): IPPolicyDecision {
+    const ban = this.isBanned(ip);
+    if (ban) return { allowed: false, reason: "banned", ban };
+    if (this.matches(ip, this._deny)) {
+      return { allowed: false, reason: "denied" };
+    }
+    if (this._allow.length > 0 && !this.matches(ip, this._allow)) {
+      return { allowed: false, reason: "not_allowed" };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Whether `ip` matches any entry: an address, a CIDR range or an
+   * `@group` reference (unknown groups match nothing).
+   */
+  matches(ip: string, entries: string[]): boolean {
+    const expanded: string[] = [];
+    for (const entry of entries) {
+      if (entry.startsWith("@")) {
+        expanded.push(...(this._groups.get(entry.slice(1)) ?? []));
+      } else {
+        expanded.push(entry);
+      }
+    }
+    return expanded.length > 0 && isIPAllowed(ip, expanded);
+  }
+
+  /** The active ban covering `ip`, if any. Expired bans are dropped. */
+  isBanned(ip: string): IPBan | undefined {
+    const now = Date.now();
+    const address = canonicalIP(ip);
+    for (const [key, ban] of this._bans) {
+      if (ban.expiresAt !== undefined && ban.expiresAt <= now) {
+        this._bans.delete(key);
+        continue;
+      }
+      if (
+        key === address ||
+        (key.includes("/") && isIPAllowed(address, [key]))
+      ) {
+        return { ...ban };
+      }
+    }
+    return undefined;
+  }
+
+  // ─── Bans ────────────────────────────────────────────────────
+
+  /**
+   * Ban an address or CIDR range, replacing any ban on the same entry.
+   *
+   * @throws {Error} if `ip` is not an address or CIDR range
+   */
+  ban(ip: string, options: { ttlMs?: number; reason?: string } = {}): IPBan {
+    assertIPOrCidr(ip);
+    const ban: IPBan = {
+      ip: canonicalIP(ip),
+      ...(options.ttlMs !== undefined && {
+        expiresAt: Date.now() + options.ttlMs,
+      }),
+      ...(options.reason !== undefined && { reason: options.reason }),
+    };
+    this._apply({ type: "ban", ban }, "local");
+    return { ...ban };
+  }
+
+  /** Lift a ban. Returns `false` if there was none on this exact entry. */
+  unban(ip: string): boolean {
+    const key = canonicalIP(ip);
+    const had = this._bans.has(key);
+    if (had) this._apply({ type: "unban", ip: key }, "local");
+    return had;
+  }
+
+  /** Active bans. */
+  bans(): IPBan[] {
+    const now = Date.now();
+    const active: IPBan[] = [];
+    for (const [key, ban] of this._bans) {
+      if (ban.expiresAt !== undefined && ban.expiresAt <= now) {
+        this._bans.delete(key);
+      } else {
+        active.push({ ...ban });
+      }
+    }
+    return active;
+  }
+
+  // ─── Rules ───────────────────────────────────────────────────
+
+  /**
+   * Create or replace a named CIDR group.
+   *
+   * @throws {Error} if an entry is not an address or CIDR range
+   */
+  setGroup(name: string, entries: string[]): void {
+    entries.forEach(assertIPOrCidr);
+    this._apply({ type: "group", name, entries: [...entries] }, "local");
+  }
+
+  deleteGroup(name: string): boolean {
+    const had = this._groups.has(name);
+    if (had) this._apply({ type: "group", name, entries: null }, "local");
+    return had;
+  }
+
+  getGroup(name: string): string[] | undefined {
+    const entries = this._groups.get(name);
+    return entries ? [...entries] : undefined;
+  }
+
+  /** Replace the allowlist (addresses, CIDR ranges, `@group`s). */
+  setAllow(entries: string[]): void {
+    this._validateRules(entries);
+    this._apply({ type: "allow", entries: [...entries] }, "local");
+  }
+
+  /** Replace the denylist (addresses, CIDR ranges, `@group`s). */
+  setDeny(entries: string[]): void {
+    this._validateRules(entries);
+    this._apply({ type: "deny", entries: [...entries] }, "local");
+  }
+
+  // ─── Replication ─────────────────────────────────────────────
+
+  /** Listen for changes. Returns an unsubscribe function. */
+  onChange(listener: IPPolicyListener): () => void {
+    this._listeners.add(listener);
+    return () => this._listeners.delete(listener);
+  }
+
+  /**
+   * The whole policy as changes — groups, allow/deny lists and active bans
+   * — for a node that joins later to catch up with.
+   */
+  snapshot(): IPPolicyChange[] {
+    return [
+      ...Array.from(
+        this._groups,
+        ([name, entries]): IPPolicyChange => ({
+          type: "group",
+          name,
+          entries: [...entries],
+        }),
+      ),
+      { type: "allow", entries: [...this._allow] },
+      { type: "deny", entries: [...this._deny] },
+      ...this.bans().map((ban): IPPolicyChange => ({ type: "ban", ban })),
+    ];
+  }
+
+  /**
+   * Apply a change received from another node.
+   *
+   * @throws {Error} if `change` is malformed
+   */
+  applyChange(change: IPPolicyChange): void {
+    this._apply(parseChange(change), "remote");
+  }
+
+  private _validateRules(entries: string[]): void {
+    for (const entry of entries) {
+      if (!entry.startsWith("@")) assertIPOrCidr(entry);
+    }
+  }
+
+  private _apply(change: IPPolicyChange, origin: "local" | "remote"): void {
+    switch (change.type) {
+      case "ban":
+        this._bans.set(change.ban.ip, { ...change.ban });
+        break;
+      case "unban":
+        this._bans.delete(change.ip);
+        break;
+      case "group":
+        if (change.entries) this._groups.set(change.name, change.entries);
+        else this._groups.delete(change.name);
+        break;
+      case "allow":
+        this._allow = change.entries;
+        break;
+      case "deny":
+        this._deny = change.entries;
+        break;
+      default:
+        return;
+    }
+    for (const listener of this._listeners) {
+      try {
+        listener(change, origin);
+      } catch {}
+    }
+  }
+}
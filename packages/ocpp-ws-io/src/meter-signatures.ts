@@ -0,0 +1,517 @@
+import { createPublicKey, type KeyObject, verify } from "node:crypto";
+
+// ─── Signed Meter Values ────────────────────────────────────────
+//
+// Verifies the signed readings German calibration law (Eichrecht) asks
+// billing to check:
+//
+//   2.0.1 / 2.1: sampledValue[].signedMeterValue { signedMeterData,
+//                encodingMethod, signingMethod, publicKey }
+//   1.6:         sampledValue[] with format "SignedData" whose value is
+//                the signed blob (OCMF in practice)
+//
+// OCMF (`OCMF|{payload}|{signature}`) and EDL (the EDL40 signed data
+// set followed by its raw signature) are verified out of the box. Other
+// encodings are meter-specific; plug a verifier in through `formats`.
+
+/** Outcome for one signed (or expected-signed) reading. */
+export type SignedValueStatus =
+  /** Signature checks out against a key registered for the station */
+  | "valid"
+  /** Signature doesn't match — tampered or corrupted data */
+  | "invalid"
+  /** Signed, but no usable public key for the station */
+  | "unknown_key"
+  /** Encoding without a verifier (see `formats`) */
+  | "unsupported_format"
+  /** A sample group with a `requireSigned` measurand but no signature */
+  | "unsigned";
+
+export interface SignedValueResult {
+  /** Location in the payload, e.g. `meterValue[0].sampledValue[1]` */
+  path: string;
+  status: SignedValueStatus;
+  encodingMethod?: string;
+  reason?: string;
+  /** Decoded signed data (OCMF payload / EDL fields) when it could be parsed */
+  data?: Record<string, unknown>;
+}
+
+export interface SignatureVerificationReport {
+  identity: string;
+  method: string;
+  /** True when every result is `valid` */
+  verified: boolean;
+  results: SignedValueResult[];
+}
+
+/** The signed reading as found in the payload. */
+export interface SignedValue {
+  signedMeterData: string;
+  encodingMethod: string;
+  signingMethod?: string;
+  /** Key sent along with the reading, if any */
+  publicKey?: string;
+}
+
+export interface SignedDataResult {
+  valid: boolean;
+  reason?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Verifies one encoding. `keys` are the station's registered keys (or the
+ * embedded one, with `trustEmbeddedKeys`); never empty.
+ */
+export type SignedDataVerifier = (
+  value: SignedValue,
+  keys: KeyObject[],
+) => SignedDataResult;
+
+export interface SignatureVerifierOptions {
+  /**
+   * Public keys per station identity: PEM, or hex / base64 DER
+   * (SubjectPublicKeyInfo). Several keys per station cover meter swaps.
+   */
+  keys?: Record<string, string | string[]>;
+  /** Called for stations without a registered key */
+  resolveKeys?: (
+    identity: string,
+  ) => string[] | undefined | Promise<string[] | undefined>;
+  /**
+   * Accept the key sent with the reading when the station has none
+   * registered. Only proves integrity, not origin (default: false)
+   */
+  trustEmbeddedKeys?: boolean;
+  /**
+   * Flag sample groups with these measurands that carry no signature.
+   * `true` means `Energy.Active.Import.Register` (default: false)
+   */
+  requireSigned?: boolean | string[];
+  /**
+   * Answer calls with unverified readings with a `SecurityError` instead
+   * of passing the report to the handler (default: false)
+   */
+  rejectUnverified?: boolean;
+  /** Verifiers by `encodingMethod`; `OCMF` and `EDL` are built in */
+  formats?: Record<string, SignedDataVerifier>;
+}
+
+/** Methods whose payload carries meter values. */
+const METER_VALUE_FIELDS: Record<string, "meterValue" | "transactionData"> = {
+  MeterValues: "meterValue",
+  TransactionEvent: "meterValue",
+  StopTransaction: "transactionData",
+};
+
+const DEFAULT_MEASURAND = "Energy.Active.Import.Register";
+
+// ─── Keys ───────────────────────────────────────────────────────
+
+/**
+ * Parse a public key given as PEM, or as hex / base64 DER
+ * (SubjectPublicKeyInfo).
+ *
+ * @throws {Error} if the key can't be parsed
+ */
+export function parsePublicKey(key: string): KeyObject {
+  const trimmed = key.trim();
+  if (trimmed.includes("-----BEGIN")) return createPublicKey(trimmed);
+  const der = /^([0-9a-fA-F]{2})+$/.test(trimmed)
+    ? Buffer.from(trimmed, "hex")
+    : Buffer.from(trimmed, "base64");
+  return createPublicKey({ key: der, format: "der", type: "spki" });
+}
+
+// ─── OCMF ───────────────────────────────────────────────────────
+
+/** OCMF `SA` / 2.x `signingMethod` curve names → OpenSSL curve names */
+const OCMF_CURVES: Record<string, string> = {
+  secp192k1: "secp192k1",
+  secp192r1: "prime192v1",
+  secp256k1: "secp256k1",
+  secp256r1: "prime256v1",
+  secp384r1: "secp384r1",
+  secp521r1: "secp521r1",
+  brainpool256r1: "brainpoolP256r1",
+  brainpool384r1: "brainpoolP384r1",
+};
+
+/**
+ * Verify an OCMF string (`OCMF|{payload}|{signature}`), or its base64
+ * encoding. The signature covers the payload section as sent.
+ */
+export const verifyOcmf: SignedDataVerifier = (value, keys) => {
+  let text = value.signedMeterData.trim();
+  if (!text.startsWith("OCMF|")) {
+    text = Buffer.from(text, "base64").toString("utf8");
+  }
+  const split = text.lastIndexOf("|");
+  if (!text.startsWith("OCMF|") || split <= 4) {
+    return { valid: false, reason: "Not an OCMF string" };
+  }
+  const payloadText = text.slice(5, split);
+
+  let payload: Record<string, unknown>;
+  let signature: { SA?: string; SE?: string; SD?: string };
+  try {
+    payload = JSON.parse(payloadText);
+    signature = JSON.parse(text.slice(split + 1));
+  } catch {
+    return { valid: false, reason: "Malformed OCMF JSON" };
+  }
+  if (typeof signature.SD !== "string") {
+    return {
+      valid: false,
+      reason: "OCMF signature data missing",
+      data: payload,
+    };
+  }
+
+  const algorithm = signature.SA ?? "ECDSA-secp256r1-SHA256";
+  const match = algorithm.match(/^ECDSA-(\w+)-(SHA\d+)$/);
+  const curve = match && OCMF_CURVES[match[1]];
+  if (!match || !curve) {
+    return {
+      valid: false,
+      reason: `Unsupported OCMF algorithm ${algorithm}`,
+      data: payload,
+    };
+  }
+  const sig = Buffer.from(
+    signature.SD,
+    signature.SE === "base64" ? "base64" : "hex",
+  );
+
+  const data = Buffer.from(payloadText, "utf8");
+  for (const key of keys) {
+    if (key.asymmetricKeyDetails?.namedCurve !== curve) continue;
+    try {
+      if (verify(match[2], data, { key, dsaEncoding: "der" }, sig)) {
+        return { valid: true, data: payload };
+      }
+    } catch {
+      // Malformed DER signature — same as a mismatch
+    }
+  }
+  return { valid: false, reason: "Signature mismatch", data: payload };
+};
+
+// ─── EDL ────────────────────────────────────────────────────────
+
+/** Byte size of a field element per OpenSSL curve (raw r‖s is twice that) */
+const CURVE_BYTES: Record<string, number> = {
+  secp192k1: 24,
+  prime192v1: 24,
+  secp256k1: 32,
+  prime256v1: 32,
+  secp384r1: 48,
+  secp521r1: 66,
+  brainpoolP256r1: 32,
+  brainpoolP384r1: 48,
+};
+
+/** EDL40 signed data set: fields and their sizes in bytes, big-endian */
+const EDL_FIELDS = [
+  ["serverId", 10],
+  ["timestamp", 4],
+  ["status", 1],
+  ["secondsIndex", 4],
+  ["paginationId", 4],
+  ["obis", 6],
+  ["unit", 1],
+  ["scaler", 1],
+  ["value", 8],
+  ["logbook", 2],
+  ["contractId", 128],
+  ["contractTimestamp", 4],
+] as const;
+
+const EDL_DATA_LENGTH = EDL_FIELDS.reduce((sum, [, size]) => sum + size, 0);
+
+/** Decode an EDL40 data set; `undefined` unless it has the expected size. */
+function decodeEdl(data: Buffer): Record<string, unknown> | undefined {
+  if (data.length !== EDL_DATA_LENGTH) return undefined;
+  const fields: Record<string, Buffer> = {};
+  let offset = 0;
+  for (const [name, size] of EDL_FIELDS) {
+    fields[name] = data.subarray(offset, offset + size);
+    offset += size;
+  }
+  const obis = fields.obis;
+  const contractEnd = fields.contractId.indexOf(0);
+  return {
+    serverId: fields.serverId.toString("hex"),
+    timestamp: new Date(fields.timestamp.readUInt32BE() * 1000).toISOString(),
+    status: fields.status.readUInt8(),
+    secondsIndex: fields.secondsIndex.readUInt32BE(),
+    paginationId: fields.paginationId.readUInt32BE(),
+    obis: `${obis[0]}-${obis[1]}:${obis[2]}.${obis[3]}.${obis[4]}*${obis[5]}`,
+    unit: fields.unit.readUInt8(),
+    scaler: fields.scaler.readInt8(),
+    value: Number(fields.value.readBigInt64BE()),
+    logbook: fields.logbook.readUInt16BE(),
+    contractId: fields.contractId
+      .subarray(0, contractEnd === -1 ? undefined : contractEnd)
+      .toString("utf8"),
+    contractTimestamp: new Date(
+      fields.contractTimestamp.readUInt32BE() * 1000,
+    ).toISOString(),
+  };
+}
+
+/**
+ * Verify EDL signed data (hex or base64): the EDL40 signed data set
+ * followed by the raw (r‖s) ECDSA signature over it. The curve and hash
+ * come from `signingMethod` (default `ECDSA-secp192r1-SHA256`, the
+ * EDL40 default).
+ */
+export const verifyEdl: SignedDataVerifier = (value, keys) => {
+  const text = value.signedMeterData.trim();
+  const blob = /^([0-9a-fA-F]{2})+$/.test(text)
+    ? Buffer.from(text, "hex")
+    : Buffer.from(text, "base64");
+
+  const algorithm = value.signingMethod || "ECDSA-secp192r1-SHA256";
+  const match = algorithm.match(/^ECDSA-(\w+)-(SHA\d+)$/);
+  const curve = match && OCMF_CURVES[match[1]];
+  if (!match || !curve) {
+    return { valid: false, reason: `Unsupported EDL algorithm ${algorithm}` };
+  }
+  const sigLength = CURVE_BYTES[curve] * 2;
+  if (blob.length <= sigLength) {
+    return { valid: false, reason: "EDL data too short" };
+  }
+  const data = blob.subarray(0, blob.length - sigLength);
+  const sig = blob.subarray(blob.length - sigLength);
+  const decoded = decodeEdl(data);
+
+  for (const key of keys) {
+    if (key.asymmetricKeyDetails?.namedCurve !== curve) continue;
+    if (verify(match[2], data, { key, dsaEncoding: "ieee-p1363" }, sig)) {
+      return { valid: true, ...(decoded && { data: decoded }) };
+    }
+  }
+  return {
+    valid: false,
+    reason: "Signature mismatch",
+    ...(decoded && { data: decoded }),
+  };
+};
+
+// ─── Verifier ───────────────────────────────────────────────────
+
+/**
+ * Checks the signed meter values in `MeterValues`, `TransactionEvent`
+ * (2.x) and `MeterValues` / `StopTransaction` (1.6) against public keys
+ * registered per station. Attach it to a validator with
+ * `createValidator(..., { signatureVerifier })` or
+ * `createStandardValidators({ signatureVerifier })`.
+ *
+ * @example
+ * ```ts
+ * const signatures = new SignatureVerifier({
+ *   keys: { "CP-1": "3059301306072a8648ce3d0201..." },
+ *   requireSigned: true,
+ * });
+ * signatures.registerKey("CP-2", meterPublicKeyPem);
+ * ```
+ */
+export class SignatureVerifier {
+  readonly rejectUnverified: boolean;
+  private _keys = new Map<string, string[]>();
+  private _parsed = new Map<string, KeyObject | null>();
+  private readonly _options: SignatureVerifierOptions;
+  private readonly _formats: Record<string, SignedDataVerifier>;
+  private readonly _required: Set<string> | null;
+
+  constructor(options: SignatureVerifierOptions = {}) {
+    this._options = options;
+    this.rejectUnverified = options.rejectUnverified ?? false;
+    this._formats = {
+      OCMF: verifyOcmf,
+      EDL: verifyEdl,
+      ...options.formats,
+    };
+    const required = options.requireSigned;
+    this._required =
+      required === true
+        ? new Set([DEFAULT_MEASURAND])
+        : Array.isArray(required)
+          ? new Set(required)
+          : null;
+    for (const [identity, keys] of Object.entries(options.keys ?? {})) {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        this.registerKey(identity, key);
+      }
+    }
+  }
+
+  /**
+   * Register a meter public key for a station.
+   *
+   * @throws {Error} if the key can't be parsed
+   */
+  registerKey(identity: string, publicKey: string): void {
+    this._keyObject(publicKey, true);
+    const keys = this._keys.get(identity) ?? [];
+    if (!keys.includes(publicKey)) keys.push(publicKey);
+    this._keys.set(identity, keys);
+  }
+
+  /** Remove one key, or all keys of the station. */
+  removeKey(identity: string, publicKey?: string): void {
+    if (publicKey === undefined) {
+      this._keys.delete(identity);
+      return;
+    }
+    const keys = (this._keys.get(identity) ?? []).filter(
+      (k) => k !== publicKey,
+    );
+    if (keys.length) this._keys.set(identity, keys);
+    else this._keys.delete(identity);
+  }
+
+  getKeys(identity: string): string[] {
+    return [...(this._keys.get(identity) ?? [])];
+  }
+
+  /**
+   * Verify every signed reading of a call. Resolves to `undefined` when the
+   * method carries no meter values, or nothing was signed or flagged.
+   */
+  async verify(
+    identity: string,
+    method: string,
+    params: unknown,
+  ): Promise<SignatureVerificationReport | undefined> {
+    const field = METER_VALUE_FIELDS[method];
+    const groups = field && (params as Record<string, unknown>)?.[field];
+    if (!Array.isArray(groups)) return undefined;
+
+    const results: SignedValueResult[] = [];
+    let registered: KeyObject[] | undefined;
+
+    for (const [i, group] of groups.entries()) {
+      const sampled = (group as { sampledValue?: unknown[] })?.sampledValue;
+      if (!Array.isArray(sampled)) continue;
+      let signedInGroup = false;
+      let requiredInGroup = false;
+
+      for (const [j, sample] of sampled.entries()) {
+        const s = sample as Record<string, unknown>;
+        if (this._required?.has(String(s.measurand ?? DEFAULT_MEASURAND))) {
+          requiredInGroup = true;
+        }
+        const value = signedValueOf(s);
+        if (!value) continue;
+        signedInGroup = true;
+
+        registered ??= await this._registeredKeys(identity);
+        results.push({
+          path: `${field}[${i}].sampledValue[${j}]`,
+          encodingMethod: value.encodingMethod,
+          ...this._verifyValue(value, registered),
+        });
+      }
+
+      if (requiredInGroup && !signedInGroup) {
+        results.push({
+          path: `${field}[${i}]`,
+          status: "unsigned",
+          reason: "No signed value in the sample group",
+        });
+      }
+    }
+
+    if (results.length === 0) return undefined;
+    return {
+      identity,
+      method,
+      verified: results.every((r) => r.status === "valid"),
+      results,
+    };
+  }
+
+  private _verifyValue(
+    value: SignedValue,
+    registered: KeyObject[],
+  ): Omit<SignedValueResult, "path" | "encodingMethod"> {
+    const verifier = this._formats[value.encodingMethod];
+    if (!verifier) {
+      return {
+        status: "unsupported_format",
+        reason: `No verifier for ${value.encodingMethod}`,
+      };
+    }
+    let keys = registered;
+    if (!keys.length && this._options.trustEmbeddedKeys && value.publicKey) {
+      const embedded = this._keyObject(value.publicKey, false);
+      if (embedded) keys = [embedded];
+    }
+    if (!keys.length) {
+      return { status: "unknown_key", reason: "No public key for station" };
+    }
+    try {
+      const { valid, reason, data } = verifier(value, keys);
+      return {
+        status: valid ? "valid" : "invalid",
+        ...(reason !== undefined && { reason }),
+        ...(data !== undefined && { data }),
+      };
+    } catch (err) {
+      return { status: "invalid", reason: (err as Error).message };
+    }
+  }
+
+  private async _registeredKeys(identity: string): Promise<KeyObject[]> {
+    let keys = this._keys.get(identity);
+    if (!keys?.length && this._options.resolveKeys) {
+      keys = (await this._options.resolveKeys(identity)) ?? [];
+    }
+    return (keys ?? [])
+      .map((k) => this._keyObject(k, false))
+      .filter((k): k is KeyObject => k !== null);
+  }
+
+  private _keyObject(key: string, strict: boolean): KeyObject | null {
+    if (this._parsed.has(key)) {
+      const cached = this._parsed.get(key)!;
+      if (!cached && strict) throw new Error("Invalid public key");
+      return cached;
+    }
+    let parsed: KeyObject | null = null;
+    try {
+      parsed = parsePublicKey(key);
+    } catch (err) {
+      if (strict) throw err;
+    }
+    // Embedded keys come from stations — don't let them grow the cache
+    if (strict || this._parsed.size < 1000) this._parsed.set(key, parsed);
+    return parsed;
+  }
+}
+
+/** The signed reading of a sampled value, in either protocol's shape. */
+function signedValueOf(sample: Record<string, unknown>): SignedValue | null {
+  const signed = sample.signedMeterValue as SignedValue | undefined;
+  if (signed && typeof signed.signedMeterData === "string") {
+    return {
+      signedMeterData: signed.signedMeterData,
+      encodingMethod: String(signed.encodingMethod ?? ""),
+      signingMethod: signed.signingMethod,
+      publicKey: signed.publicKey,
+    };
+  }
+  // 1.6: the signed blob travels as the value of a "SignedData" sample
+  if (sample.format === "SignedData" && typeof sample.value === "string") {
+    return {
+      signedMeterData: sample.value,
+      encodingMethod: sample.value.trimStart().startsWith("OCMF|")
+        ? "OCMF"
+        : "Other",
+    };
+  }
+  return null;
+}
@@ -0,0 +1,272 @@
+import type { MeterValuesRequest as MeterValues16 } from "./generated/ocpp16.js";
+import type { MeterValueType as MeterValue21 } from "./generated/ocpp21.js";
+import type { MeterValueType as MeterValue201 } from "./generated/ocpp201.js";
+
+// ─── Normalized Samples ──────────────────────────────────────────
+
+/** A `meterValue` entry of any OCPP version. */
+export type AnyMeterValue =
+  | MeterValues16["meterValue"][number]
+  | MeterValue201
+  | MeterValue21;
+
+/**
+ * Units after normalization — kilo-prefixed units are scaled down
+ * (`kWh` → `Wh`, `kW` → `W`, …) and `Celcius` is spelled correctly.
+ */
+export type MeterUnit =
+  | "Wh"
+  | "varh"
+  | "VAh"
+  | "W"
+  | "var"
+  | "VA"
+  | "A"
+  | "V"
+  | "Hz"
+  | "Percent"
+  | "Celsius"
+  | "Fahrenheit"
+  | "K"
+  | "RPM"
+  | (string & {});
+
+/** One sampled value, identical in shape for every OCPP version. */
+export interface MeterSample {
+  /** ISO timestamp of the enclosing `meterValue` */
+  timestamp: string;
+  /** (default when absent on the wire: `Energy.Active.Import.Register`) */
+  measurand: string;
+  value: number;
+  unit: MeterUnit;
+  phase?: string;
+  location?: string;
+  context?: string;
+  /** 2.x: the reading came with a `signedMeterValue` */
+  signed?: boolean;
+}
+
+const DEFAULT_MEASURAND = "Energy.Active.Import.Register";
+
+/** Units a measurand implies when the station omits `unit`. */
+function defaultUnit(measurand: string): string {
+  if (measurand.startsWith("Energy.Reactive")) return "varh";
+  if (measurand.startsWith("Energy.Apparent")) return "VAh";
+  if (measurand.startsWith("Energy")) return "Wh";
+  if (measurand.startsWith("Power.Reactive")) return "var";
+  if (measurand === "Power.Factor") return "";
+  if (measurand.startsWith("Power")) return "W";
+  if (measurand.startsWith("Current")) return "A";
+  if (measurand === "Voltage") return "V";
+  if (measurand === "Frequency") return "Hz";
+  if (measurand === "SoC") return "Percent";
+  if (measurand === "Temperature") return "Celsius";
+  return "";
+}
+
+const KILO_UNITS: Record<string, MeterUnit> = {
+  kWh: "Wh",
+  kvarh: "varh",
+  kVAh: "VAh",
+  kW: "W",
+  kvar: "var",
+  kVA: "VA",
+};
+
+function normalizeUnit(unit: string, value: number): [MeterUnit, number] {
+  const base = KILO_UNITS[unit];
+  if (base) return [base, value * 1000];
+  if (unit === "Celcius") return ["Celsius", value];
+  return [unit, value];
+}
+
+/**
+ * Flatten `meterValue` entries of any OCPP version into typed samples.
+ *
+ * Handles 1.6 string values with an optional `unit`, and 2.x numeric values
+ * with `unitOfMeasure.multiplier`. 1.6 `SignedData` blobs and other
+ * non-numeric values are skipped.
+ */
+export function normalizeMeterValues(
+  meterValues: readonly AnyMeterValue[] | undefined,
+): MeterSample[] {
+  const samples: MeterSample[] = [];
+  for (const mv of meterValues ?? []) {
+    for (const sv of mv.sampledValue ?? []) {
+      const measurand = sv.measurand ?? DEFAULT_MEASURAND;
+      // 1.6 SignedData carries an opaque blob in `value`, not a reading
+      if ("format" in sv && sv.format === "SignedData") continue;
+      if (typeof sv.value === "string" && sv.value.trim() === "") continue;
+      let value = Number(sv.value);
+      if (!Number.isFinite(value)) continue;
+
+      let unit: string;
+      if ("unitOfMeasure" in sv || typeof sv.value === "number") {
+        const uom = "unitOfMeasure" in sv ? sv.unitOfMeasure : undefined;
+        value *= 10 ** (uom?.multiplier ?? 0);
+        unit = uom?.unit ?? defaultUnit(measurand);
+      } else {
+        unit = ("unit" in sv && sv.unit) || defaultUnit(measurand);
+      }
+      const signed = "signedMeterValue" in sv && !!sv.signedMeterValue;
+
+      const [normalizedUnit, normalizedValue] = normalizeUnit(unit, value);
+      samples.push({
+        timestamp: mv.timestamp,
+        measurand,
+        value: normalizedValue,
+        unit: normalizedUnit,
+        ...(sv.phase && { phase: sv.phase }),
+        ...(sv.location && { location: sv.location }),
+        ...(sv.context && { context: sv.context }),
+        ...(signed && { signed }),
+      });
+    }
+  }
+  return samples;
+}
+
+/**
+ * A whole-meter `Energy.Active.Import.Register` sample — used for the 1.6
+ * `meterStart` / `meterStop` fields, which carry no `meterValue` list.
+ */
+export function energyRegisterSample(
+  valueWh: number,
+  timestamp: string,
+  context?: "Transaction.Begin" | "Transaction.End",
+): MeterSample {
+  return {
+    timestamp,
+    measurand: DEFAULT_MEASURAND,
+    value: valueWh,
+    unit: "Wh",
+    ...(context && { context }),
+  };
+}
+
+/**
+ * The `meterValue` list carried by an incoming call, if any — `MeterValues`
+ * (all versions), 1.6 `StopTransaction.transactionData` and 2.x
+ * `TransactionEvent.meterValue`.
+ */
+export function meterValuesOf(
+  method: string,
+  params: unknown,
+): AnyMeterValue[] | undefined {
+  const p = params as Record<string, unknown> | undefined;
+  switch (method) {
+    case "MeterValues":
+    case "TransactionEvent":
+      return p?.meterValue as AnyMeterValue[] | undefined;
+    case "StopTransaction":
+      return p?.transactionData as AnyMeterValue[] | undefined;
+    default:
+      return undefined;
+  }
+}
+
+// ─── Energy Accounting ───────────────────────────────────────────
+
+/**
+ * Running energy totals of one transaction. JSON-serializable so it can
+ * be persisted alongside the transaction.
+ */
+export interface EnergyState {
+  /** First register reading, in Wh */
+  startWh?: number;
+  /** Latest register reading, in Wh */
+  lastWh?: number;
+  /** Energy delivered — the sum of register increases, in Wh */
+  energyWh: number;
+  /** Register rollovers seen so far */
+  rollovers: number;
+}
+
+export type EnergyAnomalyKind = "rollover" | "registerDecreased";
+
+export interface EnergyAnomaly {
+  kind: EnergyAnomalyKind;
+  /** Register before / after the jump, in Wh */
+  previousWh: number;
+  currentWh: number;
+  /** `rollover`: the register wrap point, in Wh */
+  wrapAtWh?: number;
+  timestamp: string;
+}
+
+export interface EnergyAccumulatorOptions {
+  /**
+   * Register wrap points, in Wh. A drop from above 90% of a wrap point to
+   * below 10% of it counts as a rollover rather than a decrease.
+   * (default: 999 999 kWh / 9 999 999 kWh displays and 32-bit registers)
+   */
+  rolloverAtWh?: readonly number[];
+}
+
+export const DEFAULT_ROLLOVER_AT_WH: readonly number[] = [1e9, 1e10, 2 ** 32];
+
+export function createEnergyState(): EnergyState {
+  return { energyWh: 0, rollovers: 0 };
+}
+
+/**
+ * Fold samples into a transaction's energy totals.
+ *
+ * Only whole-meter `Energy.Active.Import.Register` samples are used. A
+ * register that goes backwards is re-baselined (energy already counted is
+ * kept) and reported as `registerDecreased`; a wrap past one of
+ * `rolloverAtWh` keeps counting across the wrap and is reported as
+ * `rollover`. Mutates and returns `state`.
+ */
+export function accumulateEnergy(
+  state: EnergyState,
+  samples: readonly MeterSample[],
+  options?: EnergyAccumulatorOptions,
+): { state: EnergyState; anomalies: EnergyAnomaly[] } {
+  const wrapPoints = options?.rolloverAtWh ?? DEFAULT_ROLLOVER_AT_WH;
+  const anomalies: EnergyAnomaly[] = [];
+
+  for (const sample of samples) {
+    if (
+      sample.measurand !== DEFAULT_MEASURAND ||
+      sample.phase ||
+      sample.unit !== "Wh"
+    ) {
+      continue;
+    }
+    const current = sample.value;
+    const previous = state.lastWh;
+    state.startWh ??= current;
+    state.lastWh = current;
+    if (previous === undefined || current === previous) continue;
+
+    if (current > previous) {
+      state.energyWh += current - previous;
+      continue;
+    }
+
+    const wrapAt = wrapPoints
+      .filter((w) => previous <= w && previous >= w * 0.9 && current < w * 0.1)
+      .sort((a, b) => a - b)[0];
+    if (wrapAt !== undefined) {
+      state.energyWh += wrapAt - previous + current;
+      state.rollovers++;
+      anomalies.push({
+        kind: "rollover",
+        previousWh: previous,
+        currentWh: current,
+        wrapAtWh: wrapAt,
+        timestamp: sample.timestamp,
+      });
+    } else {
+      anomalies.push({
+        kind: "registerDecreased",
+        previousWh: previous,
+        currentWh: current,
+        timestamp: sample.timestamp,
+      });
+    }
+  }
+
+  return { state, anomalies };
+}
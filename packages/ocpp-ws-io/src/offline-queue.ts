@@ -0,0 +1,291 @@
+import {
+  type FileHandle,
+  mkdir,
+  open,
+  readFile,
+  rename,
+} from "node:fs/promises";
+import { dirname } from "node:path";
+
+// ─── Offline Queue Store ─────────────────────────────────────────
+
+/**
+ * A call persisted by the offline queue while the client is disconnected.
+ * Entries must be JSON-serializable — stores may write them to disk.
+ */
+export interface OfflineQueueEntry {
+  /**
+   * Stable entry id. Reused as the OCPP messageId on every delivery attempt
+   * so a replay after a crash can be deduplicated by the CSMS.
+   */
+  id: string;
+  method: string;
+  params: unknown;
+  /** Higher priority entries are flushed first */
+  priority: number;
+  /** Monotonic insertion sequence — preserves FIFO order within a priority */
+  seq: number;
+  /** Epoch ms when the call was queued */
+  enqueuedAt: number;
+  /** Delivery attempts already made (transaction messages only) */
+  attempts: number;
+  /** Per-call timeout carried over from the original CallOptions */
+  timeoutMs?: number;
+}
+
+/**
+ * Pluggable persistence for `OCPPClient`'s offline queue.
+ *
+ * Implementations must be durable enough for the deployment: once `put()`
+ * resolves, the entry must survive a process crash. `put()` is an upsert
+ * keyed by `entry.id` (used both for new entries and attempt updates).
+ */
+export interface OfflineQueueStore {
+  /** Insert or replace an entry */
+  put(entry: OfflineQueueEntry): Promise<void>;
+  /** Remove an entry after it was delivered or permanently dropped */
+  remove(id: string): Promise<void>;
+  /** All persisted entries, in any order */
+  list(): Promise<OfflineQueueEntry[]>;
+  /** Remove all entries */
+  clear?(): Promise<void>;
+  /** Release file handles / connections */
+  close?(): Promise<void>;
+}
+
+/**
+ * Transaction-related messages (OCPP 1.6 §4.7 / 2.0.1 E.04) — flushed
+ * before everything else and retried on failure instead of being dropped.
+ */
+export const TRANSACTION_METHODS: ReadonlySet<string> = new Set([
+  "StartTransaction",
+  "StopTransaction",
+  "MeterValues",
+  "TransactionEvent",
+]);
+
+/** Default per-method flush priority: transaction messages first. */
+export const DEFAULT_OFFLINE_QUEUE_PRIORITIES: Readonly<
+  Record<string, number>
+> = {
+  StartTransaction: 10,
+  TransactionEvent: 10,
+  StopTransaction: 10,
+  MeterValues: 10,
+};
+
+/**
+ * Order entries for flushing: priority descending, then insertion order.
+ */
+export function sortOfflineQueueEntries<
+  T extends Pick<OfflineQueueEntry, "priority" | "seq">,
+>(entries: T[]): T[] {
+  return entries.sort((a, b) => b.priority - a.priority || a.seq - b.seq);
+}
+
+// ─── In-Memory Store ─────────────────────────────────────────────
+
+/**
+ * Non-durable store. Useful for tests and as a reference implementation.
+ */
+export class InMemoryOfflineQueueStore implements OfflineQueueStore {
+  private _entries = new Map<string, OfflineQueueEntry>();
+
+  async put(entry: OfflineQueueEntry): Promise<void> {
+    this._entries.set(entry.id, { ...entry });
+  }
+
+  async remove(id: string): Promise<void> {
+    this._entries.delete(id);
+  }
+
+  async list(): Promise<OfflineQueueEntry[]> {
+    return Array.from(this._entries.values(), (e) => ({ ...e }));
+  }
+
+  async clear(): Promise<void> {
+    this._entries.clear();
+  }
+}
+
+// ─── File Store (append log) ─────────────────────────────────────
+
+export interface FileOfflineQueueStoreOptions {
+  /** Path of the NDJSON append log */
+  path: string;
+  /**
+   * `fdatasync()` after every write. Guarantees durability across power
+   * loss at the cost of write latency. (default: true)
+   */
+  fsync?: boolean;
+  /**
+   * Rewrite the log once it holds this many superseded records
+   * (removed or updated entries). (default: 1000)
+   */
+  compactThreshold?: number;
+}
+
+type LogRecord =
+  | { op: "put"; entry: OfflineQueueEntry }
+  | { op: "del"; id: string };
+
+/**
+ * File-backed store using an append-only NDJSON log.
+ *
+ * Every mutation appends one line (`put` / `del`), so a crash can at most
+ * leave a torn final line, which is ignored on load. The log is compacted
+ * (rewritten to a temp file, then atomically renamed) once superseded
+ * records exceed `compactThreshold`.
+ *
+ * @example
+ * ```ts
+ * import { OCPPClient, FileOfflineQueueStore } from 'ocpp-ws-io';
+ *
+ * const client = new OCPPClient({
+ *   identity: 'CP-001',
+ *   endpoint: 'wss://csms.example.com/ocpp',
+ *   offlineQueue: true,
+ *   offlineQueueStore: new FileOfflineQueueStore({
+ *     path: '/var/lib/charger/offline-queue.ndjson',
+ *   }),
+ * });
+ * ```
+ */
+export class FileOfflineQueueStore implements OfflineQueueStore {
+  private readonly _path: string;
+  private readonly _fsync: boolean;
+  private readonly _compactThreshold: number;
+  private _entries: Map<string, OfflineQueueEntry> | null = null;
+  private _handle: FileHandle | null = null;
+  private _superseded = 0;
+  /** Serializes all file operations — appends must never interleave */
+  private _chain: Promise<unknown> = Promise.resolve();
+
+  constructor(options: FileOfflineQueueStoreOptions) {
+    this._path = options.path;
+    this._fsync = options.fsync ?? true;
+    this._compactThreshold = options.compactThreshold ?? 1000;
+  }
+
+  put(entry: OfflineQueueEntry): Promise<void> {
+    return this._enqueue(async (entries) => {
+      // Only what reached the log is queued — a failed append leaves no trace
+      await this._append({ op: "put", entry });
+      if (entries.has(entry.id)) this._superseded++;
+      entries.set(entry.id, { ...entry });
+    });
+  }
+
+  remove(id: string): Promise<void> {
+    return this._enqueue(async (entries) => {
+      if (!entries.delete(id)) return;
+      // The original put and this del are both dead weight after compaction
+      this._superseded += 2;
+      await this._append({ op: "del", id });
+    });
+  }
+
+  list(): Promise<OfflineQueueEntry[]> {
+    return this._enqueue(async (entries) =>
+      Array.from(entries.values(), (e) => ({ ...e })),
+    );
+  }
+
+  clear(): Promise<void> {
+    return this._enqueue(async (entries) => {
+      entries.clear();
+      await this._compact(entries);
+    });
+  }
+
+  close(): Promise<void> {
+    return this._enqueue(async () => {
+      await this._handle?.close();
+      this._handle = null;
+    });
+  }
+
+  private _enqueue<T>(
+    fn: (entries: Map<string, OfflineQueueEntry>) => Promise<T>,
+  ): Promise<T> {
+    const run = this._chain.then(async () => {
+      const entries = await this._load();
+      const result = await fn(entries);
+      if (this._superseded >= this._compactThreshold) {
+        await this._compact(entries);
+      }
+      return result;
+    });
+    // Keep the chain alive even if this operation fails
+    this._chain = run.catch(() => {});
+    return run;
+  }
+
+  private async _load(): Promise<Map<string, OfflineQueueEntry>> {
+    if (this._entries) return this._entries;
+
+    const entries = new Map<string, OfflineQueueEntry>();
+    let content = "";
+    try {
+      content = await readFile(this._path, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+
+    for (const line of content.split("\n")) {
+      if (!line) continue;
+      let record: LogRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // Torn write from a crash mid-append — everything before it is intact
+        continue;
+      }
+      if (record.op === "put") {
+        if (entries.has(record.entry.id)) this._superseded++;
+        entries.set(record.entry.id, record.entry);
+      } else if (record.op === "del" && entries.delete(record.id)) {
+        this._superseded += 2;
+      }
+    }
+
+    this._entries = entries;
+    // A torn final line has no newline terminator — rewrite the log so the
+    // next append does not get glued onto the garbage
+    if (content && !content.endsWith("\n")) await this._compact(entries);
+    return entries;
+  }
+
+  private async _append(record: LogRecord): Promise<void> {
+    if (!this._handle) {
+      await mkdir(dirname(this._path), { recursive: true });
+      this._handle = await open(this._path, "a");
+    }
+    await this._handle.appendFile(`${JSON.stringify(record)}\n`, "utf8");
+    if (this._fsync) await this._handle.datasync();
+  }
+
+  private async _compact(
+    entries: Map<string, OfflineQueueEntry>,
+  ): Promise<void> {
+    const tmpPath = `${this._path}.tmp`;
+    // clear() may compact before the first append created the directory
+    await mkdir(dirname(this._path), { recursive: true });
+    const tmp = await open(tmpPath, "w");
+    try {
+      let data = "";
+      for (const entry of entries.values()) {
+        data += `${JSON.stringify({ op: "put", entry })}\n`;
+      }
+      await tmp.writeFile(data, "utf8");
+      if (this._fsync) await tmp.datasync();
+    } finally {
+      await tmp.close();
+    }
+
+    await this._handle?.close();
+    this._handle = null;
+    await rename(tmpPath, this._path);
+    this._superseded = 0;
+  }
+}
@@ -34,6 +34,12 @@ export interface AnomalyPluginOptions {
    * @default 3
    */
   evictionThreshold?: number;
+  /**
+   * Ban the offending IP through `server.ipPolicy` for this long after an
+   * `ANOMALY_AUTH_BRUTE_FORCE`. Bans are shared across nodes.
+   * @default undefined (no automatic bans)
+   */
+  autoBanMs?: number;
 }
 
 /**
@@ -53,6 +59,9 @@ export interface AnomalyPluginOptions {
  *   windowMs: 60_000,
  * }));
  *
+ * // Or ban brute-forcing IPs for 15 minutes:
+ * // anomalyPlugin({ autoBanMs: 15 * 60_000 })
+ *
  * server.on('securityEvent', (evt) => {
  *   if (evt.type === 'ANOMALY_RAPID_RECONNECT') {
  *     console.warn(`Rapid reconnect storm: ${evt.identity}`);
@@ -66,6 +75,7 @@ export function anomalyPlugin(options?: AnomalyPluginOptions): OCPPPlugin {
   const badMsgThreshold = options?.badMessageThreshold ?? 10;
   const evictionThreshold = options?.evictionThreshold ?? 3;
   const windowMs = options?.windowMs ?? 60_000;
+  const autoBanMs = options?.autoBanMs;
 
   // Sliding window logs: key → array of timestamps
   const connectLog = new Map<string, number[]>();
@@ -100,7 +110,7 @@ export function anomalyPlugin(options?: AnomalyPluginOptions): OCPPPlugin {
     threshold: number,
     anomalyType: SecurityEvent["type"],
     details: Record<string, unknown>,
-  ): void {
+  ): boolean {
     const now = Date.now();
     let timestamps = map.get(key) ?? [];
     timestamps = pruneExpired(timestamps, now);
@@ -121,7 +131,9 @@ export function anomalyPlugin(options?: AnomalyPluginOptions): OCPPPlugin {
         },
       };
       server.emit("securityEvent", evt);
+      return true;
     }
+    return false;
   }
 
   return {
@@ -153,7 +165,7 @@ export function anomalyPlugin(options?: AnomalyPluginOptions): OCPPPlugin {
     },
 
     onAuthFailed(handshake, code, reason) {
-      trackAndCheck(
+      const bruteForce = trackAndCheck(
         authFailLog,
         handshake.remoteAddress,
         authFailThreshold,
@@ -165,6 +177,16 @@ export function anomalyPlugin(options?: AnomalyPluginOptions): OCPPPlugin {
           reason,
         },
       );
+      if (bruteForce && autoBanMs && server) {
+        try {
+          server.ipPolicy.ban(handshake.remoteAddress, {
+            ttlMs: autoBanMs,
+            reason: "ANOMALY_AUTH_BRUTE_FORCE",
+          });
+        } catch {
+          // Not a usable address (e.g. "unknown")
+        }
+      }
     },
 
     onBadMessage(client) {
@@ -0,0 +1,370 @@
+import { createHash } from "node:crypto";
+import {
+  type FileHandle,
+  mkdir,
+  open,
+  readdir,
+  readFile,
+  stat,
+} from "node:fs/promises";
+import { join } from "node:path";
+import type { OCPPMessage, OCPPPlugin } from "../types.js";
+
+// ─── Audit Log Format ───────────────────────────────────────────
+//
+// One JSON record per line in `audit-<first seq>.ndjson` files. Each
+// record carries the SHA-256 of its predecessor (`prev`) and its own
+// `hash`, computed over the record's JSON without the `hash` field:
+//
+//   hash = sha256(JSON.stringify({ seq, timestamp, ..., prev }))
+//
+// The chain runs across file rotations; the first record of the log
+// links to `AUDIT_LOG_GENESIS`. The CLI (`ocpp verify-audit-log`)
+// re-implements the verification — keep both in step.
+
+/** `prev` of the very first record. */
+export const AUDIT_LOG_GENESIS = "0".repeat(64);
+
+export interface AuditLogEntry {
+  /** ISO timestamp of the exchange */
+  timestamp: string;
+  identity: string;
+  protocol?: string;
+  direction: "IN" | "OUT";
+  type: "CALL" | "CALLRESULT" | "CALLERROR";
+  messageId: string;
+  /** Call method; correlated for results and errors */
+  method?: string;
+  /** The OCPP-J frame as sent or received */
+  message: OCPPMessage;
+}
+
+export interface AuditLogRecord extends AuditLogEntry {
+  seq: number;
+  /** Hash of the previous record */
+  prev: string;
+  hash: string;
+}
+
+/** Position of the newest record — store it elsewhere to detect truncation. */
+export interface AuditLogHead {
+  seq: number;
+  hash: string;
+}
+
+/** SHA-256 (hex) of a record, over its JSON without the `hash` field. */
+export function hashAuditRecord(record: Omit<AuditLogRecord, "hash">): string {
+  return createHash("sha256").update(JSON.stringify(record)).digest("hex");
+}
+
+const FILE_PATTERN = /^audit-(\d+)\.ndjson$/;
+
+const fileName = (firstSeq: number) =>
+  `audit-${String(firstSeq).padStart(12, "0")}.ndjson`;
+
+async function listAuditFiles(dir: string): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+  return names.filter((name) => FILE_PATTERN.test(name)).sort();
+}
+
+// ─── Writer ─────────────────────────────────────────────────────
+
+export interface FileAuditLogOptions {
+  /** Directory for the NDJSON files */
+  dir: string;
+  /** Start a new file once the current one reaches this size (default: 64 MiB) */
+  maxFileBytes?: number;
+  /** fsync after every record (default: false) */
+  fsync?: boolean;
+}
+
+/**
+ * Append-only, hash-chained NDJSON log with size-based rotation. Picks the
+ * chain up from the newest file on first use, so restarts don't break it.
+ * Existing files are never rewritten.
+ */
+export class FileAuditLog {
+  private readonly _dir: string;
+  private readonly _maxFileBytes: number;
+  private readonly _fsync: boolean;
+  private _head: AuditLogHead | null = null;
+  private _handle: FileHandle | null = null;
+  private _size = 0;
+  /** Serializes all file operations — appends must never interleave */
+  private _chain: Promise<unknown> = Promise.resolve();
+
+  constructor(options: FileAuditLogOptions) {
+    this._dir = options.dir;
+    this._maxFileBytes = options.maxFileBytes ?? 64 * 1024 * 1024;
+    this._fsync = options.fsync ?? false;
+  }
+
+  append(entry: AuditLogEntry): Promise<AuditLogRecord> {
+    return this._enqueue(async (head) => {
+      const body: Omit<AuditLogRecord, "hash"> = {
+        seq: head.seq + 1,
+        ...entry,
+        prev: head.hash,
+      };
+      const record: AuditLogRecord = { ...body, hash: hashAuditRecord(body) };
+      const line = `${JSON.stringify(record)}\n`;
+      const bytes = Buffer.byteLength(line);
+
+      if (!this._handle || this._size + bytes > this._maxFileBytes) {
+        await this._handle?.close();
+        this._handle = await open(join(this._dir, fileName(record.seq)), "a");
+        this._size = 0;
+      }
+      await this._handle.appendFile(line, "utf8");
+      if (this._fsync) await this._handle.datasync();
+      this._size += bytes;
+      this._head = { seq: record.seq, hash: record.hash };
+      return record;
+    });
+  }
+
+  /** The newest record's position (`seq` 0 and the genesis hash when empty). */
+  head(): Promise<AuditLogHead> {
+    return this._enqueue(async (head) => ({ ...head }));
+  }
+
+  close(): Promise<void> {
+    return this._enqueue(async () => {
+      await this._handle?.close();
+      this._handle = null;
+    });
+  }
+
+  private _enqueue<T>(fn: (head: AuditLogHead) => Promise<T>): Promise<T> {
+    const run = this._chain.then(async () => fn(await this._resume()));
+    // Keep the chain alive even if this operation fails
+    this._chain = run.catch(() => {});
+    return run;
+  }
+
+  private async _resume(): Promise<AuditLogHead> {
+    if (this._head) return this._head;
+    await mkdir(this._dir, { recursive: true });
+
+    let head: AuditLogHead = { seq: 0, hash: AUDIT_LOG_GENESIS };
+    const files = await listAuditFiles(this._dir);
+    const newest = files.at(-1);
+    if (newest) {
+      const content = await readFile(join(this._dir, newest), "utf8");
+      const lines = content.split("\n").filter(Boolean);
+      for (let i = lines.length - 1; i >= 0; i--) {
+        try {
+          const record = JSON.parse(lines[i]) as AuditLogRecord;
+          head = { seq: record.seq, hash: record.hash };
+          break;
+        } catch {
+          // Torn write from a crash mid-append
+        }
+      }
+      // Keep appending to the newest file unless it ends in a torn line;
+      // the file is never rewritten, so a torn tail starts a new one
+      if (content.endsWith("\n") || !content) {
+        this._handle = await open(join(this._dir, newest), "a");
+        this._size = (await stat(join(this._dir, newest))).size;
+      }
+    }
+    this._head = head;
+    return head;
+  }
+}
+
+// ─── Verification ───────────────────────────────────────────────
+
+export interface AuditLogIssue {
+  file: string;
+  /** 1-based line number */
+  line: number;
+  seq?: number;
+  kind: "malformed" | "modified" | "broken_chain" | "gap";
+  message: string;
+}
+
+export interface AuditLogVerification {
+  /** No issues, and the head matches the anchor if one was given */
+  valid: boolean;
+  files: number;
+  records: number;
+  /** Newest valid record */
+  head: AuditLogHead;
+  issues: AuditLogIssue[];
+}
+
+/**
+ * Re-hash every record of an audit log directory and check the chain:
+ * edited records (`modified`), removed or reordered ones (`broken_chain`,
+ * `gap`) and unparsable lines (`malformed`). Pass the last known `head`,
+ * kept outside the log, to also detect records cut from the end.
+ */
+export async function verifyAuditLog(
+  dir: string,
+  options: { anchor?: AuditLogHead } = {},
+): Promise<AuditLogVerification> {
+  const issues: AuditLogIssue[] = [];
+  const files = await listAuditFiles(dir);
+  let head: AuditLogHead = { seq: 0, hash: AUDIT_LOG_GENESIS };
+  let records = 0;
+
+  for (const file of files) {
+    const content = await readFile(join(dir, file), "utf8");
+    const lines = content.split("\n");
+    for (const [index, text] of lines.entries()) {
+      if (!text) continue;
+      const line = index + 1;
+      let record: AuditLogRecord;
+      try {
+        record = JSON.parse(text);
+      } catch {
+        issues.push({ file, line, kind: "malformed", message: "Not JSON" });
+        continue;
+      }
+      records++;
+      const { hash, ...body } = record;
+      const { seq } = record;
+
+      if (hashAuditRecord(body) !== hash) {
+        issues.push({
+          file,
+          line,
+          seq,
+          kind: "modified",
+          message: "Record does not match its hash",
+        });
+      }
+      if (seq !== head.seq + 1) {
+        issues.push({
+          file,
+          line,
+          seq,
+          kind: "gap",
+          message: `Expected seq ${head.seq + 1}, found ${seq}`,
+        });
+      }
+      if (record.prev !== head.hash) {
+        issues.push({
+          file,
+          line,
+          seq,
+          kind: "broken_chain",
+          message: `prev does not match the hash of seq ${head.seq}`,
+        });
+      }
+      head = { seq, hash };
+    }
+  }
+
+  const anchored =
+    !options.anchor ||
+    (options.anchor.seq <= head.seq &&
+      (options.anchor.seq !== head.seq || options.anchor.hash === head.hash));
+  if (!anchored) {
+    issues.push({
+      file: files.at(-1) ?? "",
+      line: 0,
+      seq: head.seq,
+      kind: "gap",
+      message: `Log ends before the anchored head (seq ${options.anchor?.seq})`,
+    });
+  }
+
+  return {
+    valid: issues.length === 0,
+    files: files.length,
+    records,
+    head,
+    issues,
+  };
+}
+
+// ─── Plugin ─────────────────────────────────────────────────────
+
+export interface AuditLogPluginOptions extends FileAuditLogOptions {
+  logger?: { warn: (...args: unknown[]) => void };
+}
+
+/**
+ * Extended OCPPPlugin with access to the chain head.
+ */
+export interface AuditLogPlugin extends OCPPPlugin {
+  readonly log: FileAuditLog;
+  head(): Promise<AuditLogHead>;
+}
+
+const MESSAGE_TYPES = {
+  2: "CALL",
+  3: "CALLRESULT",
+  4: "CALLERROR",
+} as const;
+
+/**
+ * Tamper-evident record of every OCPP exchange for regulatory audits.
+ *
+ * Every CALL, CALLRESULT and CALLERROR, in both directions, is appended to
+ * a hash-chained NDJSON log (see `FileAuditLog`). Editing, removing or
+ * reordering a record breaks the chain, which `verifyAuditLog()` and
+ * `ocpp verify-audit-log <dir>` report. Periodically store `head()`
+ * somewhere else (a database, a WORM bucket) to also catch truncation.
+ *
+ * Unlike `sessionLogPlugin` and the `exchangeLog` option this is not a
+ * debugging aid — the frames are logged verbatim, including any
+ * credentials they carry, so protect the directory accordingly.
+ *
+ * @example
+ * ```ts
+ * import { auditLogPlugin, verifyAuditLog } from 'ocpp-ws-io/plugins';
+ *
+ * const audit = auditLogPlugin({ dir: '/var/log/ocpp-audit' });
+ * server.plugin(audit);
+ *
+ * const report = await verifyAuditLog('/var/log/ocpp-audit');
+ * if (!report.valid) console.error(report.issues);
+ * ```
+ */
+export function auditLogPlugin(options: AuditLogPluginOptions): AuditLogPlugin {
+  const log = new FileAuditLog(options);
+
+  return {
+    name: "audit-log",
+    log,
+
+    head: () => log.head(),
+
+    onMessage(client, { message, direction, ctx }) {
+      const type = MESSAGE_TYPES[message[0] as keyof typeof MESSAGE_TYPES];
+      if (!type) return;
+      const method = "method" in ctx ? ctx.method : undefined;
+      log
+        .append({
+          timestamp: ctx.timestamp,
+          identity: client.identity,
+          ...(client.protocol !== undefined && { protocol: client.protocol }),
+          direction,
+          type,
+          messageId: message[1],
+          ...(method !== undefined && { method }),
+          message,
+        })
+        .catch((err) => {
+          options.logger?.warn("audit-log: append failed", {
+            identity: client.identity,
+            messageId: message[1],
+            error: (err as Error).message,
+          });
+        });
+    },
+
+    async onClose() {
+      await log.close();
+    },
+  };
+}
@@ -0,0 +1,509 @@
+import type {
+  AuthorizeRequest as AuthorizeRequest16,
+  AuthorizeResponse as AuthorizeResponse16,
+  StartTransactionRequest,
+  StartTransactionResponse,
+  StopTransactionRequest,
+} from "../generated/ocpp16.js";
+import type {
+  AuthorizationStatusEnumType,
+  AuthorizeRequest as AuthorizeRequest201,
+  AuthorizeResponse as AuthorizeResponse201,
+  IdTokenInfoType,
+  TransactionEventRequest,
+  TransactionEventResponse,
+} from "../generated/ocpp201.js";
+import { LRUMap } from "../lru-map.js";
+import type { OCPPServerClient } from "../server-client.js";
+import type { OCPPPlugin } from "../types.js";
+import { isSameStart, type TransactionStore } from "./transaction-tracker.js";
+
+// ─── Authorization Types ────────────────────────────────────────
+
+/** A token presented by a station — 1.6 `idTag` or 2.x `idToken`. */
+export interface AuthorizationToken {
+  idToken: string;
+  /** 2.x token type, e.g. `ISO14443` / `eMAID` (absent for 1.6) */
+  type?: string;
+}
+
+export interface AuthorizationRequestContext {
+  identity: string;
+  protocol: string;
+  method: "Authorize" | "StartTransaction" | "TransactionEvent";
+  connectorId?: number;
+  evseId?: number;
+  /** `TransactionEvent`: the transaction the token is presented for */
+  transactionId?: string;
+}
+
+/**
+ * Outcome of the pipeline, in 2.x terms. 1.6 stations receive `Invalid`
+ * for statuses 1.6 doesn't know.
+ */
+export interface AuthorizationDecision {
+  status: AuthorizationStatusEnumType;
+  /** ISO timestamp — 1.6 `expiryDate` / 2.x `cacheExpiryDateTime` */
+  expiryDate?: string;
+  /** Group token — 1.6 `parentIdTag` / 2.x `groupIdToken` */
+  groupIdToken?: string;
+}
+
+/**
+ * One link of the pipeline. Resolve to a decision, or to `null` /
+ * `undefined` when the token is unknown to this provider — the next
+ * provider is asked then.
+ */
+export type TokenProvider = (
+  token: AuthorizationToken,
+  context: AuthorizationRequestContext,
+) =>
+  | AuthorizationDecision
+  | null
+  | undefined
+  | Promise<AuthorizationDecision | null | undefined>;
+
+export interface AuthorizationPluginOptions {
+  /** Asked in order until one knows the token */
+  providers: TokenProvider[];
+  /** Status for tokens no provider knows (default: "Unknown", 1.6: "Invalid") */
+  unknownStatus?: AuthorizationStatusEnumType;
+  /**
+   * Answer `ConcurrentTx` for an accepted token that is already in another
+   * transaction. (default: false)
+   */
+  blockConcurrentTx?: boolean;
+  /**
+   * Whether a token is in a transaction other than `context.transactionId`.
+   * Defaults to the transactions this node has seen — supply a shared
+   * lookup (e.g. a `TransactionStore`) when stations span several nodes.
+   */
+  isTokenInUse?: (
+    idToken: string,
+    context: AuthorizationRequestContext,
+  ) => boolean | Promise<boolean>;
+  /**
+   * Register `Authorize`, 1.6 `StartTransaction` and 2.x `TransactionEvent`
+   * handlers when the application has none. StartTransaction is only
+   * handled when `transactionStore` or `nextTransactionId` is supplied.
+   * (default: true)
+   */
+  handleMessages?: boolean;
+  /**
+   * Store of the `transactionTrackerPlugin` — the built-in StartTransaction
+   * handler allocates ids from it and answers a retried start with the id
+   * it was already given.
+   */
+  transactionStore?: TransactionStore;
+  /**
+   * Allocate 1.6 `transactionId`s for the built-in StartTransaction
+   * handler instead of `transactionStore`. Must be unique across nodes
+   * and restarts.
+   */
+  nextTransactionId?: () => number | Promise<number>;
+  /** Logger for provider failures */
+  logger?: { warn: (...args: unknown[]) => void };
+}
+
+/**
+ * Extended OCPPPlugin exposing the pipeline to application handlers.
+ */
+export interface AuthorizationPlugin extends OCPPPlugin {
+  /** Run the provider chain and the concurrent-transaction check. */
+  authorize(
+    token: AuthorizationToken,
+    context: AuthorizationRequestContext,
+  ): Promise<AuthorizationDecision>;
+}
+
+// ─── Wire Shapes ────────────────────────────────────────────────
+
+type IdTagInfo = AuthorizeResponse16["idTagInfo"];
+
+const STATUSES_16 = new Set<string>([
+  "Accepted",
+  "Blocked",
+  "Expired",
+  "Invalid",
+  "ConcurrentTx",
+]);
+
+/** A decision as a 1.6 `idTagInfo`. */
+export function toIdTagInfo(decision: AuthorizationDecision): IdTagInfo {
+  return {
+    status: (STATUSES_16.has(decision.status)
+      ? decision.status
+      : "Invalid") as IdTagInfo["status"],
+    ...(decision.expiryDate && { expiryDate: decision.expiryDate }),
+    ...(decision.groupIdToken && { parentIdTag: decision.groupIdToken }),
+  };
+}
+
+/** A decision as a 2.x `idTokenInfo`. */
+export function toIdTokenInfo(
+  decision: AuthorizationDecision,
+): IdTokenInfoType {
+  return {
+    status: decision.status,
+    ...(decision.expiryDate && { cacheExpiryDateTime: decision.expiryDate }),
+    ...(decision.groupIdToken && {
+      groupIdToken: { idToken: decision.groupIdToken, type: "Central" },
+    }),
+  };
+}
+
+// ─── Providers ──────────────────────────────────────────────────
+
+/**
+ * Static allow-list. Entries past their `expiryDate` answer `Expired`;
+ * an entry with a `type` only matches tokens of that type.
+ */
+export function allowListProvider(
+  entries: Iterable<AuthorizationToken & AuthorizationDecision>,
+): TokenProvider {
+  const byToken = new Map<string, AuthorizationToken & AuthorizationDecision>();
+  for (const entry of entries) byToken.set(entry.idToken, { ...entry });
+
+  return (token) => {
+    const entry = byToken.get(token.idToken);
+    if (!entry) return null;
+    if (entry.type && token.type && entry.type !== token.type) return null;
+    const { idToken: _, type: __, ...decision } = entry;
+    if (
+      decision.expiryDate &&
+      Date.parse(decision.expiryDate) <= Date.now() &&
+      decision.status === "Accepted"
+    ) {
+      return { ...decision, status: "Expired" };
+    }
+    return decision;
+  };
+}
+
+export interface CachedProviderOptions {
+  /** How long a decision is reused (default: 300000 — 5 minutes) */
+  ttlMs?: number;
+  /** Max cached tokens (default: 10000) */
+  maxEntries?: number;
+  /**
+   * Answer from an expired entry when the wrapped provider throws, e.g.
+   * while a remote authorization service is down. (default: true)
+   */
+  staleOnError?: boolean;
+}
+
+/**
+ * Cache the decisions of a (typically remote) provider. An entry expires
+ * after `ttlMs`, or at the decision's own `expiryDate` if that is sooner.
+ * Unknown tokens are not cached.
+ */
+export function cachedProvider(
+  provider: TokenProvider,
+  options?: CachedProviderOptions,
+): TokenProvider {
+  const ttlMs = options?.ttlMs ?? 300_000;
+  const staleOnError = options?.staleOnError ?? true;
+  const cache = new LRUMap<
+    string,
+    { decision: AuthorizationDecision; expiresAt: number }
+  >(options?.maxEntries ?? 10_000);
+
+  return async (token, context) => {
+    const key = `${token.type ?? ""}\u0000${token.idToken}`;
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.decision;
+
+    let decision: AuthorizationDecision | null | undefined;
+    try {
+      decision = await provider(token, context);
+    } catch (err) {
+      const expiry = Date.parse(cached?.decision.expiryDate ?? "");
+      if (cached && staleOnError && !(expiry <= Date.now())) {
+        return cached.decision;
+      }
+      throw err;
+    }
+    if (!decision) {
+      cache.delete(key);
+      return decision;
+    }
+    let expiresAt = Date.now() + ttlMs;
+    if (decision.expiryDate) {
+      const expiry = Date.parse(decision.expiryDate);
+      if (Number.isFinite(expiry)) expiresAt = Math.min(expiresAt, expiry);
+    }
+    cache.set(key, { decision, expiresAt });
+    return decision;
+  };
+}
+
+// ─── Plugin ─────────────────────────────────────────────────────
+
+/**
+ * One authorization policy for 1.6 and 2.x stations.
+ *
+ * Tokens run through a chain of providers — e.g. an allow-list, a cached
+ * remote lookup and a custom callback — and the decision is answered as a
+ * 1.6 `idTagInfo` or 2.x `idTokenInfo`. Built-in handlers cover
+ * `Authorize`, 1.6 `StartTransaction` and 2.x `TransactionEvent`; accepted
+ * tokens already in another transaction can be refused with `ConcurrentTx`.
+ *
+ * @example
+ * ```ts
+ * import {
+ *   allowListProvider,
+ *   authorizationPlugin,
+ *   cachedProvider,
+ * } from 'ocpp-ws-io/plugins';
+ *
+ * server.plugin(
+ *   authorizationPlugin({
+ *     providers: [
+ *       allowListProvider([{ idToken: 'SERVICE-1', status: 'Accepted' }]),
+ *       cachedProvider((token) => emsp.authorize(token), { ttlMs: 60_000 }),
+ *     ],
+ *     blockConcurrentTx: true,
+ *   }),
+ * );
+ * ```
+ */
+export function authorizationPlugin(
+  options: AuthorizationPluginOptions,
+): AuthorizationPlugin {
+  const unknownStatus = options.unknownStatus ?? "Unknown";
+  const handleMessages = options.handleMessages ?? true;
+  const { transactionStore } = options;
+  // 1.6 ids must be unique across nodes and restarts — no safe default
+  const nextTransactionId =
+    options.nextTransactionId ??
+    (transactionStore && (() => transactionStore.nextTransactionId()));
+
+  /** idToken of each transaction seen on this node, by identity + txId */
+  const activeTx = new Map<string, string>();
+  /**
+   * Incoming calls awaiting their result, by messageId, per connection — a
+   * late disconnect of a replaced connection must not drop the new one's.
+   */
+  const pending = new Map<
+    OCPPServerClient,
+    Map<string, StartTransactionRequest | TransactionEventRequest>
+  >();
+
+  const key = (identity: string, id: string) => `${identity}\u0000${id}`;
+
+  function track(
+    client: OCPPServerClient,
+    messageId: string,
+    params: StartTransactionRequest | TransactionEventRequest,
+  ) {
+    let calls = pending.get(client);
+    if (!calls) {
+      calls = new Map();
+      pending.set(client, calls);
+    }
+    calls.set(messageId, params);
+  }
+
+  function localTokenInUse(
+    idToken: string,
+    context: AuthorizationRequestContext,
+  ): boolean {
+    const own =
+      context.transactionId !== undefined
+        ? key(context.identity, context.transactionId)
+        : undefined;
+    for (const [txKey, token] of activeTx) {
+      if (token === idToken && txKey !== own) return true;
+    }
+    return false;
+  }
+
+  async function authorize(
+    token: AuthorizationToken,
+    context: AuthorizationRequestContext,
+  ): Promise<AuthorizationDecision> {
+    let decision: AuthorizationDecision | null | undefined;
+    for (const provider of options.providers) {
+      try {
+        decision = await provider(token, context);
+      } catch (err) {
+        options.logger?.warn("authorization: provider failed", {
+          identity: context.identity,
+          error: (err as Error).message,
+        });
+        continue;
+      }
+      if (decision) break;
+    }
+    if (!decision) return { status: unknownStatus };
+
+    if (options.blockConcurrentTx && decision.status === "Accepted") {
+      const inUse = options.isTokenInUse
+        ? await options.isTokenInUse(token.idToken, context)
+        : localTokenInUse(token.idToken, context);
+      if (inUse) return { ...decision, status: "ConcurrentTx" };
+    }
+    return decision;
+  }
+
+  function dropStation(identity: string) {
+    const prefix = key(identity, "");
+    for (const txKey of activeTx.keys()) {
+      if (txKey.startsWith(prefix)) activeTx.delete(txKey);
+    }
+  }
+
+  function registerHandlers(client: OCPPServerClient) {
+    const { identity } = client;
+    const protocol = client.protocol ?? "";
+    const is16 = protocol === "ocpp1.6";
+
+    if (!client.hasHandler("Authorize")) {
+      client.handle("Authorize", async ({ params }) => {
+        const context = { identity, protocol, method: "Authorize" } as const;
+        if (is16) {
+          const { idTag } = params as AuthorizeRequest16;
+          const decision = await authorize({ idToken: idTag }, context);
+          return {
+            idTagInfo: toIdTagInfo(decision),
+          } satisfies AuthorizeResponse16;
+        }
+        const { idToken } = params as AuthorizeRequest201;
+        const decision = await authorize(idToken, context);
+        return {
+          idTokenInfo: toIdTokenInfo(decision),
+        } satisfies AuthorizeResponse201;
+      });
+    }
+
+    if (is16 && nextTransactionId && !client.hasHandler("StartTransaction")) {
+      client.handle("StartTransaction", async ({ params }) => {
+        const start = params as StartTransactionRequest;
+        // Answer a retried start with the id it was already given
+        const existing = transactionStore
+          ? (await transactionStore.listActive(identity)).find((tx) =>
+              isSameStart(tx, start),
+            )
+          : undefined;
+        const decision = await authorize(
+          { idToken: start.idTag },
+          {
+            identity,
+            protocol,
+            method: "StartTransaction",
+            connectorId: start.connectorId,
+            // The retried transaction doesn't count against its own token
+            ...(existing && { transactionId: existing.transactionId }),
+          },
+        );
+        // 1.6 needs a transactionId even for a refused start
+        const transactionId = existing
+          ? Number(existing.transactionId)
+          : await nextTransactionId();
+        return {
+          transactionId,
+          idTagInfo: toIdTagInfo(decision),
+        } satisfies StartTransactionResponse;
+      });
+    }
+
+    if (!is16 && !client.hasHandler("TransactionEvent")) {
+      client.handle("TransactionEvent", async ({ params }) => {
+        const event = params as TransactionEventRequest;
+        // idTokenInfo is only expected when the event carries a token
+        if (!event.idToken) return {} satisfies TransactionEventResponse;
+        const decision = await authorize(event.idToken, {
+          identity,
+          protocol,
+          method: "TransactionEvent",
+          evseId: event.evse?.id,
+          connectorId: event.evse?.connectorId,
+          transactionId: event.transactionInfo.transactionId,
+        });
+        return {
+          idTokenInfo: toIdTokenInfo(decision),
+        } satisfies TransactionEventResponse;
+      });
+    }
+  }
+
+  return {
+    name: "authorization",
+    authorize,
+
+    onConnection(client) {
+      if (handleMessages) registerHandlers(client);
+    },
+
+    onDisconnect(client) {
+      pending.delete(client);
+    },
+
+    onClose() {
+      activeTx.clear();
+      pending.clear();
+    },
+
+    // Track which token is in which transaction, whoever answered the call
+    onMessage(client, { direction, ctx }) {
+      const { identity } = client;
+
+      if (
+        direction === "OUT" &&
+        (ctx.type === "outgoing_result" || ctx.type === "outgoing_error")
+      ) {
+        const calls = pending.get(client);
+        const params = calls?.get(ctx.messageId);
+        if (!params) return;
+        calls?.delete(ctx.messageId);
+        if (ctx.type === "outgoing_error") return;
+
+        if ("idTag" in params) {
+          const response = ctx.payload as StartTransactionResponse;
+          if (response?.idTagInfo?.status === "Accepted") {
+            activeTx.set(
+              key(identity, String(response.transactionId)),
+              params.idTag,
+            );
+          }
+          return;
+        }
+        const txKey = key(identity, params.transactionInfo.transactionId);
+        const status = (ctx.payload as TransactionEventResponse)?.idTokenInfo
+          ?.status;
+        if (params.idToken && (status ?? "Accepted") === "Accepted") {
+          activeTx.set(txKey, params.idToken.idToken);
+        } else if (status) {
+          activeTx.delete(txKey);
+        }
+        return;
+      }
+
+      if (direction !== "IN" || ctx.type !== "incoming_call") return;
+
+      switch (ctx.method) {
+        case "BootNotification":
+          // 1.6 transactions never survive a reboot
+          if (client.protocol === "ocpp1.6") dropStation(identity);
+          return;
+        case "StartTransaction":
+          track(client, ctx.messageId, ctx.params as StartTransactionRequest);
+          return;
+        case "StopTransaction": {
+          const stop = ctx.params as StopTransactionRequest;
+          activeTx.delete(key(identity, String(stop.transactionId)));
+          return;
+        }
+        case "TransactionEvent": {
+          const event = ctx.params as TransactionEventRequest;
+          if (event.eventType === "Ended") {
+            activeTx.delete(key(identity, event.transactionInfo.transactionId));
+          } else if (event.idToken) {
+            track(client, ctx.messageId, event);
+          }
+          return;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,578 @@
+import { type KeyObject, X509Certificate } from "node:crypto";
+import type {
+  CertificateHashDataChainType,
+  CertificateHashDataType,
+  CertificateSignedRequest,
+  CertificateSignedResponse,
+  CertificateSigningUseEnumType,
+  DeleteCertificateRequest,
+  DeleteCertificateResponse,
+  DeleteCertificateStatusEnumType,
+  GetCertificateIdUseEnumType,
+  GetInstalledCertificateIdsRequest,
+  GetInstalledCertificateIdsResponse,
+  InstallCertificateRequest,
+  InstallCertificateResponse,
+  InstallCertificateStatusEnumType,
+  InstallCertificateUseEnumType,
+  SignCertificateRequest,
+  SignCertificateResponse,
+  TriggerMessageRequest,
+  TriggerMessageResponse,
+} from "../generated/ocpp201.js";
+import type { OCPPServer } from "../server.js";
+import type { OCPPServerClient } from "../server-client.js";
+import type { CallOptions, OCPPPlugin } from "../types.js";
+import {
+  certificateHashData,
+  issueCertificate,
+  type ParsedCsr,
+  parseCsr,
+  splitPemChain,
+} from "../x509.js";
+
+// ─── Certificate Types ──────────────────────────────────────────
+
+export interface CertificateSigningRequest {
+  identity: string;
+  certificateType: CertificateSigningUseEnumType;
+  /** Parsed CSR — its signature is already verified */
+  csr: ParsedCsr;
+  /** The CSR as sent by the station */
+  pem: string;
+}
+
+/**
+ * Signs a station's CSR. Resolves to the PEM certificate chain sent in
+ * `CertificateSigned`, leaf first. Use {@link localCaSigner} or plug in an
+ * external CA / HSM.
+ */
+export type CertificateSigner = (
+  request: CertificateSigningRequest,
+) => string | Promise<string>;
+
+/** A certificate this plugin had a station install. */
+export interface IssuedCertificate {
+  identity: string;
+  certificateType: CertificateSigningUseEnumType;
+  /** Hex, as printed by `X509Certificate.serialNumber` */
+  serialNumber: string;
+  /** ISO timestamp */
+  notAfter: string;
+  fingerprint256: string;
+  /** Leaf certificate (PEM) */
+  certificate: string;
+  issuedAt: number;
+  /** Epoch ms of the last renewal TriggerMessage */
+  renewalRequestedAt?: number;
+}
+
+export interface CertificateIssueResult {
+  identity: string;
+  certificateType: CertificateSigningUseEnumType;
+  /** `Accepted` / `Rejected` — the station's CertificateSigned answer */
+  status: "Accepted" | "Rejected" | "Failed";
+  certificate?: IssuedCertificate;
+  error?: string;
+}
+
+/**
+ * Pluggable persistence for issued certificates and the certificate
+ * inventory (`GetInstalledCertificateIds`) of each station.
+ */
+export interface CertificateStore {
+  getIssued(identity: string): Promise<IssuedCertificate[]>;
+  /** Replaces the station's certificate of the same `certificateType` */
+  saveIssued(certificate: IssuedCertificate): Promise<void>;
+  /** `null` until the inventory was read from the station */
+  getInventory(
+    identity: string,
+  ): Promise<CertificateHashDataChainType[] | null>;
+  setInventory(
+    identity: string,
+    inventory: CertificateHashDataChainType[],
+  ): Promise<void>;
+}
+
+export interface CertificateManagementPluginOptions {
+  signer: CertificateSigner;
+  /** Persistence backend (default: in-memory) */
+  store?: CertificateStore;
+  /** Reject CSRs whose commonName isn't the station identity (default: true) */
+  requireIdentityMatch?: boolean;
+  /** Reject CSRs with a different organizationName */
+  organizationName?: string;
+  /** Ask stations for a new CSR this long before expiry (default: 30) */
+  renewBeforeDays?: number;
+  /** How often connected stations are checked for expiry (default: 3600000) */
+  checkIntervalMs?: number;
+  /** Register a `SignCertificate` handler when the application has none (default: true) */
+  handleMessages?: boolean;
+  callOptions?: CallOptions;
+  /** Called with every signing outcome, in addition to the server event */
+  onIssue?: (result: CertificateIssueResult) => void | Promise<void>;
+  logger?: { warn: (...args: unknown[]) => void };
+}
+
+/**
+ * Extended OCPPPlugin with certificate lifecycle commands.
+ */
+export interface CertificateManagementPlugin extends OCPPPlugin {
+  /** Ask a station for a new CSR via `TriggerMessage`. */
+  requestRenewal(
+    identity: string,
+    certificateType?: CertificateSigningUseEnumType,
+  ): Promise<TriggerMessageResponse["status"]>;
+  installCertificate(
+    identity: string,
+    certificateType: InstallCertificateUseEnumType,
+    certificate: string,
+  ): Promise<InstallCertificateStatusEnumType>;
+  deleteCertificate(
+    identity: string,
+    certificateHashData: CertificateHashDataType,
+  ): Promise<DeleteCertificateStatusEnumType>;
+  /** Read the station's installed certificates and store the inventory. */
+  refreshInventory(
+    identity: string,
+    certificateTypes?: GetCertificateIdUseEnumType[],
+  ): Promise<CertificateHashDataChainType[]>;
+  getInventory(
+    identity: string,
+  ): Promise<CertificateHashDataChainType[] | null>;
+  getIssued(identity: string): Promise<IssuedCertificate[]>;
+}
+
+// ─── In-Memory Store ────────────────────────────────────────────
+
+export class InMemoryCertificateStore implements CertificateStore {
+  private _issued = new Map<string, IssuedCertificate[]>();
+  private _inventory = new Map<string, CertificateHashDataChainType[]>();
+
+  async getIssued(identity: string): Promise<IssuedCertificate[]> {
+    return structuredClone(this._issued.get(identity) ?? []);
+  }
+
+  async saveIssued(certificate: IssuedCertificate): Promise<void> {
+    const others = (this._issued.get(certificate.identity) ?? []).filter(
+      (c) => c.certificateType !== certificate.certificateType,
+    );
+    this._issued.set(certificate.identity, [
+      ...others,
+      structuredClone(certificate),
+    ]);
+  }
+
+  async getInventory(
+    identity: string,
+  ): Promise<CertificateHashDataChainType[] | null> {
+    const inventory = this._inventory.get(identity);
+    return inventory ? structuredClone(inventory) : null;
+  }
+
+  async setInventory(
+    identity: string,
+    inventory: CertificateHashDataChainType[],
+  ): Promise<void> {
+    this._inventory.set(identity, structuredClone(inventory));
+  }
+}
+
+// ─── Local CA ───────────────────────────────────────────────────
+
+export interface LocalCaSignerOptions {
+  /** CA certificate (PEM) — appended to every chain */
+  certificate: string;
+  privateKey: KeyObject | string;
+  /** (default: 365) */
+  validityDays?: number;
+}
+
+/**
+ * Sign CSRs with a CA key held by this process. Charging station
+ * certificates are issued for TLS client auth, V2G certificates for TLS
+ * server auth.
+ */
+export function localCaSigner(
+  options: LocalCaSignerOptions,
+): CertificateSigner {
+  return ({ csr, certificateType }) => {
+    const leaf = issueCertificate({
+      subject: csr.subject,
+      publicKey: csr.publicKey,
+      signingKey: options.privateKey,
+      issuerCertificate: options.certificate,
+      validityDays: options.validityDays,
+      extendedKeyUsage: [
+        certificateType === "V2GCertificate" ? "serverAuth" : "clientAuth",
+      ],
+    });
+    return leaf + options.certificate;
+  };
+}
+
+// ─── Plugin ─────────────────────────────────────────────────────
+
+const sameHash = (a: CertificateHashDataType, b: CertificateHashDataType) =>
+  a.hashAlgorithm === b.hashAlgorithm &&
+  a.issuerNameHash === b.issuerNameHash &&
+  a.issuerKeyHash === b.issuerKeyHash &&
+  a.serialNumber === b.serialNumber;
+
+/**
+ * OCPP 2.x certificate management (security profiles 2 and 3).
+ *
+ * Validates `SignCertificate` CSRs, has them signed by the configured
+ * {@link CertificateSigner} and pushes the chain with `CertificateSigned`.
+ * Issued certificates are tracked, and stations are asked for a new CSR
+ * (`TriggerMessage` `SignChargingStationCertificate` /
+ * `SignV2GCertificate`) when one is about to expire. Also keeps each
+ * station's certificate inventory for `InstallCertificate`,
+ * `GetInstalledCertificateIds` and `DeleteCertificate`.
+ *
+ * @example
+ * ```ts
+ * import { certificateManagementPlugin, localCaSigner } from 'ocpp-ws-io/plugins';
+ *
+ * const certs = certificateManagementPlugin({
+ *   signer: localCaSigner({ certificate: caPem, privateKey: caKey }),
+ *   organizationName: 'ACME Charging',
+ * });
+ * server.plugin(certs);
+ *
+ * server.on('certificate:issued', (result) => audit.log(result));
+ * await certs.installCertificate('CP-001', 'CSMSRootCertificate', rootPem);
+ * ```
+ */
+export function certificateManagementPlugin(
+  options: CertificateManagementPluginOptions,
+): CertificateManagementPlugin {
+  const store = options.store ?? new InMemoryCertificateStore();
+  const requireIdentityMatch = options.requireIdentityMatch ?? true;
+  const renewBeforeMs = (options.renewBeforeDays ?? 30) * 86_400_000;
+  const handleMessages = options.handleMessages ?? true;
+  /** Don't re-trigger a renewal the station ignored more often than this */
+  const RENEWAL_RETRY_MS = 86_400_000;
+
+  let server: OCPPServer | null = null;
+  let sweepTimer: ReturnType<typeof setInterval> | null = null;
+  /**
+   * Incoming SignCertificate params awaiting their result, by messageId,
+   * per connection — a late disconnect of a replaced connection must not
+   * drop the new one's.
+   */
+  const pending = new Map<
+    OCPPServerClient,
+    Map<string, SignCertificateRequest>
+  >();
+
+  function clientFor(identity: string): OCPPServerClient {
+    if (!server) {
+      throw new Error("certificateManagementPlugin is not registered");
+    }
+    const client = server.getLocalClient(identity);
+    if (!client) throw new Error(`Client ${identity} is not connected`);
+    return client;
+  }
+
+  /** Parse and check a CSR; resolves to the parsed CSR or throws. */
+  function validateCsr(identity: string, pem: string): ParsedCsr {
+    const csr = parseCsr(pem);
+    if (requireIdentityMatch && csr.subject.commonName !== identity) {
+      throw new Error(
+        `CSR commonName ${csr.subject.commonName} does not match ${identity}`,
+      );
+    }
+    if (
+      options.organizationName !== undefined &&
+      csr.subject.organizationName !== options.organizationName
+    ) {
+      throw new Error(
+        `CSR organizationName ${csr.subject.organizationName} is not allowed`,
+      );
+    }
+    return csr;
+  }
+
+  async function publish(result: CertificateIssueResult): Promise<void> {
+    server?.emit("certificate:issued", result);
+    try {
+      await options.onIssue?.(result);
+    } catch (err) {
+      options.logger?.warn("certificates: onIssue failed", {
+        identity: result.identity,
+        error: (err as Error).message,
+      });
+    }
+  }
+
+  async function issue(
+    client: OCPPServerClient,
+    request: SignCertificateRequest,
+  ): Promise<CertificateIssueResult> {
+    const { identity } = client;
+    const certificateType =
+      request.certificateType ?? "ChargingStationCertificate";
+    const result: CertificateIssueResult = {
+      identity,
+      certificateType,
+      status: "Failed",
+    };
+    try {
+      const csr = validateCsr(identity, request.csr);
+      const chain = await options.signer({
+        identity,
+        certificateType,
+        csr,
+        pem: request.csr,
+      });
+      const [leafPem] = splitPemChain(chain);
+      if (!leafPem) throw new Error("Signer returned no certificate");
+      const leaf = new X509Certificate(leafPem);
+
+      const response = await client.call<CertificateSignedResponse>(
+        "CertificateSigned",
+        {
+          certificateChain: chain,
+          certificateType,
+        } satisfies CertificateSignedRequest,
+        options.callOptions,
+      );
+      result.status = response.status;
+      if (response.status === "Accepted") {
+        result.certificate = {
+          identity,
+          certificateType,
+          serialNumber: leaf.serialNumber,
+          notAfter: new Date(leaf.validTo).toISOString(),
+          fingerprint256: leaf.fingerprint256,
+          certificate: leafPem,
+          issuedAt: Date.now(),
+        };
+        await store.saveIssued(result.certificate);
+      }
+    } catch (err) {
+      result.error = (err as Error).message;
+    }
+    return result;
+  }
+
+  async function requestRenewal(
+    identity: string,
+    certificateType: CertificateSigningUseEnumType = "ChargingStationCertificate",
+  ): Promise<TriggerMessageResponse["status"]> {
+    const client = clientFor(identity);
+    const response = await client.call<TriggerMessageResponse>(
+      "TriggerMessage",
+      {
+        requestedMessage:
+          certificateType === "V2GCertificate"
+            ? "SignV2GCertificate"
+            : "SignChargingStationCertificate",
+      } satisfies TriggerMessageRequest,
+      options.callOptions,
+    );
+    return response.status;
+  }
+
+  /** Trigger renewals for certificates of `identity` close to expiry. */
+  async function checkExpiry(identity: string): Promise<void> {
+    const now = Date.now();
+    for (const cert of await store.getIssued(identity)) {
+      if (Date.parse(cert.notAfter) - now > renewBeforeMs) continue;
+      if (
+        cert.renewalRequestedAt !== undefined &&
+        now - cert.renewalRequestedAt < RENEWAL_RETRY_MS
+      ) {
+        continue;
+      }
+      const status = await requestRenewal(identity, cert.certificateType);
+      await store.saveIssued({ ...cert, renewalRequestedAt: now });
+      server?.emit("certificate:renewalRequested", {
+        identity,
+        certificateType: cert.certificateType,
+        notAfter: cert.notAfter,
+        status,
+      });
+    }
+  }
+
+  function checkExpiryLogged(identity: string) {
+    checkExpiry(identity).catch((err) => {
+      options.logger?.warn("certificates: renewal check failed", {
+        identity,
+        error: (err as Error).message,
+      });
+    });
+  }
+
+  async function updateInventory(
+    identity: string,
+    update: (
+      inventory: CertificateHashDataChainType[],
+    ) => CertificateHashDataChainType[],
+  ): Promise<void> {
+    const inventory = await store.getInventory(identity);
+    // Unknown until read from the station — nothing to patch
+    if (inventory) await store.setInventory(identity, update(inventory));
+  }
+
+  return {
+    name: "certificates",
+    requestRenewal,
+
+    async installCertificate(identity, certificateType, certificate) {
+      const client = clientFor(identity);
+      const response = await client.call<InstallCertificateResponse>(
+        "InstallCertificate",
+        { certificateType, certificate } satisfies InstallCertificateRequest,
+        options.callOptions,
+      );
+      if (response.status === "Accepted") {
+        let hashData: CertificateHashDataType | undefined;
+        try {
+          hashData = certificateHashData(certificate);
+        } catch {
+          // Not self-signed — the hash needs the issuer; re-read instead
+        }
+        if (hashData) {
+          const entry = { certificateType, certificateHashData: hashData };
+          await updateInventory(identity, (inventory) => [
+            ...inventory.filter(
+              (e) =>
+                !sameHash(e.certificateHashData, entry.certificateHashData),
+            ),
+            entry,
+          ]);
+        } else {
+          await this.refreshInventory(identity).catch((err) => {
+            options.logger?.warn("certificates: inventory refresh failed", {
+              identity,
+              error: (err as Error).message,
+            });
+          });
+        }
+      }
+      return response.status;
+    },
+
+    async deleteCertificate(identity, hashData) {
+      const client = clientFor(identity);
+      const response = await client.call<DeleteCertificateResponse>(
+        "DeleteCertificate",
+        { certificateHashData: hashData } satisfies DeleteCertificateRequest,
+        options.callOptions,
+      );
+      if (response.status !== "Failed") {
+        await updateInventory(identity, (inventory) =>
+          inventory.filter((e) => !sameHash(e.certificateHashData, hashData)),
+        );
+      }
+      return response.status;
+    },
+
+    async refreshInventory(identity, certificateTypes) {
+      const client = clientFor(identity);
+      const response = await client.call<GetInstalledCertificateIdsResponse>(
+        "GetInstalledCertificateIds",
+        (certificateTypes?.length
+          ? { certificateType: certificateTypes }
+          : {}) satisfies GetInstalledCertificateIdsRequest,
+        options.callOptions,
+      );
+      const found = response.certificateHashDataChain ?? [];
+      if (!certificateTypes?.length) {
+        await store.setInventory(identity, found);
+        return found;
+      }
+      // A filtered read only replaces the types asked for
+      const types = new Set<string>(certificateTypes);
+      const previous = (await store.getInventory(identity)) ?? [];
+      const merged = [
+        ...previous.filter((e) => !types.has(e.certificateType)),
+        ...found,
+      ];
+      await store.setInventory(identity, merged);
+      return found;
+    },
+
+    getInventory(identity) {
+      return store.getInventory(identity);
+    },
+
+    getIssued(identity) {
+      return store.getIssued(identity);
+    },
+
+    onInit(srv) {
+      server = srv;
+      sweepTimer = setInterval(() => {
+        for (const client of srv.clients) {
+          if (client.protocol !== "ocpp1.6") checkExpiryLogged(client.identity);
+        }
+      }, options.checkIntervalMs ?? 3_600_000);
+      sweepTimer.unref();
+    },
+
+    onConnection(client) {
+      if (client.protocol === "ocpp1.6") return;
+      checkExpiryLogged(client.identity);
+
+      if (!handleMessages || client.hasHandler("SignCertificate")) return;
+      client.handle("SignCertificate", ({ params }) => {
+        try {
+          validateCsr(client.identity, (params as SignCertificateRequest).csr);
+          return { status: "Accepted" } satisfies SignCertificateResponse;
+        } catch (err) {
+          return {
+            status: "Rejected",
+            statusInfo: {
+              reasonCode: "InvalidCSR",
+              additionalInfo: (err as Error).message.slice(0, 512),
+            },
+          } satisfies SignCertificateResponse;
+        }
+      });
+    },
+
+    onDisconnect(client) {
+      pending.delete(client);
+    },
+
+    onClose() {
+      if (sweepTimer) clearInterval(sweepTimer);
+      sweepTimer = null;
+      pending.clear();
+    },
+
+    // Sign once the station has been told its CSR was accepted
+    onMessage(client, { direction, ctx }) {
+      if (direction === "IN" && ctx.type === "incoming_call") {
+        if (ctx.method === "SignCertificate") {
+          let requests = pending.get(client);
+          if (!requests) {
+            requests = new Map();
+            pending.set(client, requests);
+          }
+          requests.set(ctx.messageId, ctx.params as SignCertificateRequest);
+        }
+        return;
+      }
+      if (
+        direction !== "OUT" ||
+        (ctx.type !== "outgoing_result" && ctx.type !== "outgoing_error")
+      ) {
+        return;
+      }
+      const requests = pending.get(client);
+      const request = requests?.get(ctx.messageId);
+      if (!request) return;
+      requests?.delete(ctx.messageId);
+      if (ctx.type === "outgoing_error") return;
+      if ((ctx.payload as SignCertificateResponse)?.status !== "Accepted") {
+        return;
+      }
+      void issue(client, request).then(publish);
+    },
+  };
+}
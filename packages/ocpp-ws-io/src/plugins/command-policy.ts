@@ -0,0 +1,324 @@
+import { CommandDeniedError } from "../errors.js";
+import type { OCPPPlugin } from "../types.js";
+import { createId } from "../util.js";
+import { type MatchPattern, matchesPattern } from "../utils/pattern.js";
+
+// ─── Policy Types ───────────────────────────────────────────────
+
+/**
+ * Which principals may send which methods to which stations. A call is
+ * allowed when an `allow` rule matches and no `deny` rule does.
+ */
+export interface CommandRule {
+  /** Principal glob (`operator:*`) or RegExp */
+  principal: MatchPattern | MatchPattern[];
+  /** OCPP method glob (`Reset`, `*`) or RegExp */
+  method: MatchPattern | MatchPattern[];
+  /** Station identity glob or RegExp (default: all stations) */
+  identity?: MatchPattern | MatchPattern[];
+  /** (default: "allow") */
+  effect?: "allow" | "deny";
+  /** Reported in decisions and audit records */
+  name?: string;
+}
+
+export interface CommandPolicyOptions {
+  rules?: CommandRule[];
+  /**
+   * Calls without `CallOptions.principal` — typically the application's
+   * and other plugins' own calls. (default: "allow")
+   */
+  unattributed?: "allow" | "deny";
+}
+
+export interface CommandPolicyDecision {
+  allowed: boolean;
+  /** Name (or index) of the deciding rule */
+  rule?: string;
+  reason?: string;
+}
+
+// ─── Policy ─────────────────────────────────────────────────────
+
+/**
+ * Declarative authorization for outbound CSMS commands. Usable on its own,
+ * e.g. to hide actions an operator may not take, and enforced on the wire
+ * by `commandPolicyPlugin`.
+ *
+ * @example
+ * ```ts
+ * const policy = new CommandPolicy({
+ *   rules: [
+ *     { principal: 'operator:*', method: ['Reset', 'UnlockConnector'] },
+ *     { principal: 'ops-admin', method: '*' },
+ *     { principal: '*', method: 'UpdateFirmware', identity: 'PILOT-*', effect: 'deny' },
+ *   ],
+ * });
+ * policy.check('operator:alice', 'CP-1', 'Reset'); // { allowed: true, ... }
+ * ```
+ */
+export class CommandPolicy {
+  private _rules: CommandRule[];
+  private readonly _unattributed: "allow" | "deny";
+
+  constructor(options: CommandPolicyOptions = {}) {
+    this._rules = [...(options.rules ?? [])];
+    this._unattributed = options.unattributed ?? "allow";
+  }
+
+  get rules(): CommandRule[] {
+    return [...this._rules];
+  }
+
+  /** Replace the rules; takes effect on the next call. */
+  setRules(rules: CommandRule[]): void {
+    this._rules = [...rules];
+  }
+
+  check(
+    principal: string | undefined,
+    identity: string,
+    method: string,
+  ): CommandPolicyDecision {
+    if (principal === undefined) {
+      return this._unattributed === "allow"
+        ? { allowed: true }
+        : { allowed: false, reason: "Call has no principal" };
+    }
+
+    let allowedBy: string | undefined;
+    for (const [index, rule] of this._rules.entries()) {
+      if (
+        !matchesPattern(principal, rule.principal) ||
+        !matchesPattern(method, rule.method) ||
+        (rule.identity !== undefined &&
+          !matchesPattern(identity, rule.identity))
+      ) {
+        continue;
+      }
+      const name = rule.name ?? String(index);
+      if (rule.effect === "deny") {
+        return {
+          allowed: false,
+          rule: name,
+          reason: `${principal} may not send ${method} to ${identity}`,
+        };
+      }
+      allowedBy ??= name;
+    }
+
+    return allowedBy !== undefined
+      ? { allowed: true, rule: allowedBy }
+      : {
+          allowed: false,
+          reason: `No rule allows ${principal} to send ${method} to ${identity}`,
+        };
+  }
+}
+
+// ─── Audit Types ────────────────────────────────────────────────
+
+export interface CommandAuditRecord {
+  id: string;
+  /** ISO timestamp of the attempt */
+  timestamp: string;
+  principal?: string;
+  identity: string;
+  method: string;
+  messageId: string;
+  decision: "allowed" | "denied";
+  rule?: string;
+  /** How an allowed call ended */
+  outcome?: "result" | "error";
+  /** Denial reason or call error */
+  error?: string;
+  durationMs?: number;
+  /** Only with `recordParams` */
+  params?: unknown;
+}
+
+export interface CommandAuditQuery {
+  principal?: string;
+  identity?: string;
+  method?: string;
+  decision?: "allowed" | "denied";
+  /** ISO timestamp — only records at or after it */
+  since?: string;
+  /** Newest records first, at most this many (default: 100) */
+  limit?: number;
+}
+
+/** Pluggable destination for command audit records. */
+export interface CommandAuditSink {
+  write(record: CommandAuditRecord): void | Promise<void>;
+  /** Optional — backs `commandPolicyPlugin().query()` */
+  query?(filter: CommandAuditQuery): Promise<CommandAuditRecord[]>;
+}
+
+export interface CommandPolicyPluginOptions {
+  policy: CommandPolicy | CommandPolicyOptions;
+  /** Where records go (default: in-memory, last 10000) */
+  sink?: CommandAuditSink;
+  /**
+   * Store call params in audit records. Off by default — commands such as
+   * `SetVariables` can carry credentials. (default: false)
+   */
+  recordParams?: boolean;
+  logger?: { warn: (...args: unknown[]) => void };
+}
+
+/**
+ * Extended OCPPPlugin with access to the policy and its audit trail.
+ */
+export interface CommandPolicyPlugin extends OCPPPlugin {
+  readonly policy: CommandPolicy;
+  /** @throws {Error} if the sink doesn't support queries */
+  query(filter?: CommandAuditQuery): Promise<CommandAuditRecord[]>;
+}
+
+// ─── In-Memory Sink ─────────────────────────────────────────────
+
+export class InMemoryCommandAuditSink implements CommandAuditSink {
+  private _records: CommandAuditRecord[] = [];
+
+  constructor(private readonly _maxEntries = 10_000) {}
+
+  write(record: CommandAuditRecord): void {
+    this._records.push(structuredClone(record));
+    if (this._records.length > this._maxEntries) this._records.shift();
+  }
+
+  async query(filter: CommandAuditQuery = {}): Promise<CommandAuditRecord[]> {
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    const limit = filter.limit ?? 100;
+    const found: CommandAuditRecord[] = [];
+    for (let i = this._records.length - 1; i >= 0; i--) {
+      if (found.length >= limit) break;
+      const r = this._records[i];
+      if (filter.principal !== undefined && r.principal !== filter.principal) {
+        continue;
+      }
+      if (filter.identity !== undefined && r.identity !== filter.identity) {
+        continue;
+      }
+      if (filter.method !== undefined && r.method !== filter.method) continue;
+      if (filter.decision && r.decision !== filter.decision) continue;
+      if (since !== undefined && Date.parse(r.timestamp) < since) continue;
+      found.push(structuredClone(r));
+    }
+    return found;
+  }
+}
+
+// ─── Plugin ─────────────────────────────────────────────────────
+
+/**
+ * Enforces a `CommandPolicy` on every outbound call to a station —
+ * `sendToClient()`, `client.call()`, and calls forwarded from other
+ * nodes — and records who sent what.
+ *
+ * The caller names itself with `CallOptions.principal`. A denied call
+ * rejects with `CommandDeniedError` (a `SecurityError`) before anything is
+ * sent. Every attempt, allowed or denied, is written to the audit sink,
+ * allowed calls once they have completed.
+ *
+ * Install it on every node: calls are checked on the node that owns the
+ * station's connection.
+ *
+ * @example
+ * ```ts
+ * import { commandPolicyPlugin } from 'ocpp-ws-io/plugins';
+ *
+ * const commands = commandPolicyPlugin({
+ *   policy: { rules: [{ principal: 'operator:*', method: 'Reset' }] },
+ * });
+ * server.plugin(commands);
+ *
+ * await server.sendToClient('CP-1', 'Reset', { type: 'Soft' }, {
+ *   principal: `operator:${req.user.id}`,
+ * });
+ * const denied = await commands.query({ decision: 'denied' });
+ * ```
+ */
+export function commandPolicyPlugin(
+  options: CommandPolicyPluginOptions,
+): CommandPolicyPlugin {
+  const policy =
+    options.policy instanceof CommandPolicy
+      ? options.policy
+      : new CommandPolicy(options.policy);
+  const sink = options.sink ?? new InMemoryCommandAuditSink();
+
+  const record = (entry: CommandAuditRecord) => {
+    Promise.resolve()
+      .then(() => sink.write(entry))
+      .catch((err) => {
+        options.logger?.warn("command-policy: sink write failed", {
+          identity: entry.identity,
+          method: entry.method,
+          error: (err as Error).message,
+        });
+      });
+  };
+
+  return {
+    name: "command-policy",
+    policy,
+
+    async query(filter = {}) {
+      if (!sink.query) {
+        throw new Error("The command audit sink does not support queries");
+      }
+      return sink.query(filter);
+    },
+
+    onConnection(client) {
+      client.use(async (ctx, next) => {
+        if (ctx.type !== "outgoing_call") return next();
+
+        const principal = ctx.options?.principal;
+        const decision = policy.check(principal, client.identity, ctx.method);
+        const entry: CommandAuditRecord = {
+          id: createId(),
+          timestamp: new Date().toISOString(),
+          ...(principal !== undefined && { principal }),
+          identity: client.identity,
+          method: ctx.method,
+          messageId: ctx.messageId,
+          decision: decision.allowed ? "allowed" : "denied",
+          ...(decision.rule !== undefined && { rule: decision.rule }),
+          ...(options.recordParams && { params: ctx.params }),
+        };
+
+        if (!decision.allowed) {
+          record({ ...entry, error: decision.reason });
+          throw new CommandDeniedError(decision.reason, {
+            principal,
+            identity: client.identity,
+            method: ctx.method,
+            ...(decision.rule !== undefined && { rule: decision.rule }),
+          });
+        }
+
+        const startedAt = Date.now();
+        try {
+          const result = await next();
+          record({
+            ...entry,
+            outcome: "result",
+            durationMs: Date.now() - startedAt,
+          });
+          return result;
+        } catch (err) {
+          record({
+            ...entry,
+            outcome: "error",
+            error: (err as Error).message,
+            durationMs: Date.now() - startedAt,
+          });
+          throw err;
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,333 @@
+import type {
+  ChangeConfigurationResponse,
+  GetConfigurationResponse,
+} from "../generated/ocpp16.js";
+import type { OCPPServer } from "../server.js";
+import type { OCPPServerClient } from "../server-client.js";
+import type { CallOptions, OCPPPlugin } from "../types.js";
+import { type MatchPattern, matchesPattern } from "../utils/pattern.js";
+
+// ─── Configuration Types ────────────────────────────────────────
+
+export type ConfigurationValue = string | number | boolean;
+
+/**
+ * Desired configuration for a set of stations. A rule applies when every
+ * selector it declares matches; rules without selectors apply to all.
+ * Later rules override keys from earlier ones.
+ */
+export interface ConfigurationRule {
+  /** Identity glob (`CP-*`) or RegExp */
+  identity?: MatchPattern | MatchPattern[];
+  /** Glob or RegExp tested against the handshake pathname */
+  route?: MatchPattern | MatchPattern[];
+  /** Custom predicate */
+  match?: (client: OCPPServerClient) => boolean;
+  keys: Record<string, ConfigurationValue>;
+}
+
+/**
+ * Outcome of one key:
+ * - `Unchanged`    — actual value already matches, nothing was sent
+ * - `NotSupported` — also used for keys reported in `unknownKey`
+ * - `ReadOnly`     — the station reports the key as read-only
+ * - `Failed`       — the ChangeConfiguration call itself failed
+ */
+export type ConfigurationKeyStatus =
+  | ChangeConfigurationResponse["status"]
+  | "Unchanged"
+  | "ReadOnly"
+  | "Failed";
+
+export interface ConfigurationKeyResult {
+  key: string;
+  desired: string;
+  /** Value reported by GetConfiguration, if any */
+  actual?: string;
+  status: ConfigurationKeyStatus;
+  error?: string;
+}
+
+export interface ConfigurationReport {
+  identity: string;
+  timestamp: string;
+  results: ConfigurationKeyResult[];
+  /** At least one key answered `RebootRequired` */
+  rebootRequired: boolean;
+  /** Set when GetConfiguration failed and nothing could be diffed */
+  error?: string;
+}
+
+export interface ConfigurationPluginOptions {
+  rules: ConfigurationRule[];
+  /**
+   * Wait this long after an accepted BootNotification before reading the
+   * configuration, giving the station time to settle. (default: 0)
+   */
+  delayMs?: number;
+  /**
+   * Send a `Reset` of this type when any key answers `RebootRequired`.
+   * (default: false — only reported)
+   */
+  resetOnRebootRequired?: "Soft" | "Hard" | false;
+  callOptions?: CallOptions;
+  /** Called with every report, in addition to the server event */
+  onReport?: (report: ConfigurationReport) => void | Promise<void>;
+  logger?: { warn: (...args: unknown[]) => void };
+}
+
+/**
+ * Extended OCPPPlugin with on-demand reconciliation.
+ */
+export interface ConfigurationPlugin extends OCPPPlugin {
+  /** The merged desired keys for a client, as sent on the wire. */
+  desiredFor(client: OCPPServerClient): Record<string, string>;
+  /** Reconcile a station connected to this node right now. */
+  reconcile(identity: string): Promise<ConfigurationReport>;
+}
+
+// ─── Plugin ─────────────────────────────────────────────────────
+
+/**
+ * Desired-state configuration for OCPP 1.6 stations.
+ *
+ * After every accepted `BootNotification` the plugin reads the station's
+ * keys with `GetConfiguration`, diffs them against the matching rules and
+ * sends a `ChangeConfiguration` for each key that differs. The resulting
+ * report is emitted as `configuration:reconciled` on the server.
+ *
+ * @example
+ * ```ts
+ * import { configurationPlugin } from 'ocpp-ws-io/plugins';
+ *
+ * server.plugin(
+ *   configurationPlugin({
+ *     rules: [
+ *       { keys: { HeartbeatInterval: 300, MeterValueSampleInterval: 60 } },
+ *       { identity: 'DEPOT-*', keys: { MeterValueSampleInterval: 15 } },
+ *     ],
+ *     resetOnRebootRequired: 'Soft',
+ *   }),
+ * );
+ *
+ * server.on('configuration:reconciled', (report) => {
+ *   console.log(report.identity, report.results);
+ * });
+ * ```
+ */
+export function configurationPlugin(
+  options: ConfigurationPluginOptions,
+): ConfigurationPlugin {
+  const delayMs = options.delayMs ?? 0;
+  const resetType = options.resetOnRebootRequired ?? false;
+  /**
+   * Delayed reconciliations, per connection — a late disconnect of a
+   * replaced connection must not cancel the new one's.
+   */
+  const timers = new Map<OCPPServerClient, ReturnType<typeof setTimeout>>();
+  let server: OCPPServer | null = null;
+
+  function desiredFor(client: OCPPServerClient): Record<string, string> {
+    const desired: Record<string, string> = {};
+    for (const rule of options.rules) {
+      if (rule.identity && !matchesPattern(client.identity, rule.identity)) {
+        continue;
+      }
+      if (
+        rule.route &&
+        !matchesPattern(client.handshake.pathname, rule.route)
+      ) {
+        continue;
+      }
+      if (rule.match && !rule.match(client)) continue;
+      for (const [key, value] of Object.entries(rule.keys)) {
+        desired[key] = String(value);
+      }
+    }
+    return desired;
+  }
+
+  async function readConfiguration(
+    client: OCPPServerClient,
+    keys: string[],
+  ): Promise<GetConfigurationResponse> {
+    try {
+      return await client.call<GetConfigurationResponse>(
+        "GetConfiguration",
+        { key: keys },
+        options.callOptions,
+      );
+    } catch (err) {
+      // Some firmware rejects filtered requests (e.g. over
+      // GetConfigurationMaxKeys) — fall back to reading everything
+      options.logger?.warn("configuration: filtered read failed", {
+        identity: client.identity,
+        error: (err as Error).message,
+      });
+      return client.call<GetConfigurationResponse>(
+        "GetConfiguration",
+        {},
+        options.callOptions,
+      );
+    }
+  }
+
+  async function reconcileClient(
+    client: OCPPServerClient,
+  ): Promise<ConfigurationReport> {
+    const desired = desiredFor(client);
+    const keys = Object.keys(desired);
+    const report: ConfigurationReport = {
+      identity: client.identity,
+      timestamp: new Date().toISOString(),
+      results: [],
+      rebootRequired: false,
+    };
+    if (keys.length === 0) return report;
+
+    let actual: GetConfigurationResponse;
+    try {
+      actual = await readConfiguration(client, keys);
+    } catch (err) {
+      report.error = (err as Error).message;
+      return report;
+    }
+
+    const reported = new Map(
+      (actual.configurationKey ?? []).map((k) => [k.key, k]),
+    );
+
+    for (const key of keys) {
+      const entry = reported.get(key);
+      const result: ConfigurationKeyResult = {
+        key,
+        desired: desired[key],
+        actual: entry?.value,
+        status: "Unchanged",
+      };
+      report.results.push(result);
+
+      if (!entry) {
+        // Listed in `unknownKey`, or missing from the response altogether
+        result.status = "NotSupported";
+        continue;
+      }
+      if (entry.value === desired[key]) continue;
+      if (entry.readonly) {
+        result.status = "ReadOnly";
+        continue;
+      }
+
+      try {
+        const response = await client.call<ChangeConfigurationResponse>(
+          "ChangeConfiguration",
+          { key, value: desired[key] },
+          options.callOptions,
+        );
+        result.status = response.status;
+        if (response.status === "RebootRequired") report.rebootRequired = true;
+      } catch (err) {
+        result.status = "Failed";
+        result.error = (err as Error).message;
+      }
+    }
+
+    if (report.rebootRequired && resetType) {
+      try {
+        await client.call("Reset", { type: resetType }, options.callOptions);
+      } catch (err) {
+        options.logger?.warn("configuration: Reset failed", {
+          identity: client.identity,
+          error: (err as Error).message,
+        });
+      }
+    }
+
+    return report;
+  }
+
+  async function publish(report: ConfigurationReport): Promise<void> {
+    server?.emit("configuration:reconciled", report);
+    try {
+      await options.onReport?.(report);
+    } catch (err) {
+      options.logger?.warn("configuration: onReport failed", {
+        identity: report.identity,
+        error: (err as Error).message,
+      });
+    }
+  }
+
+  async function reconcile(identity: string): Promise<ConfigurationReport> {
+    if (!server) throw new Error("configurationPlugin is not registered");
+    const client = server.getLocalClient(identity);
+    if (!client) throw new Error(`Client ${identity} is not connected`);
+    if (client.protocol !== "ocpp1.6") {
+      throw new Error(`Client ${identity} does not speak ocpp1.6`);
+    }
+    const report = await reconcileClient(client);
+    await publish(report);
+    return report;
+  }
+
+  function cancel(client: OCPPServerClient) {
+    const timer = timers.get(client);
+    if (timer) {
+      clearTimeout(timer);
+      timers.delete(client);
+    }
+  }
+
+  return {
+    name: "configuration",
+    desiredFor,
+    reconcile,
+
+    onInit(srv) {
+      server = srv;
+    },
+
+    onDisconnect(client) {
+      cancel(client);
+    },
+
+    onClose() {
+      for (const timer of timers.values()) clearTimeout(timer);
+      timers.clear();
+    },
+
+    onMessage(client, { direction, ctx }) {
+      if (
+        direction !== "OUT" ||
+        ctx.type !== "outgoing_result" ||
+        ctx.method !== "BootNotification" ||
+        client.protocol !== "ocpp1.6" ||
+        (ctx.payload as { status?: string })?.status !== "Accepted"
+      ) {
+        return;
+      }
+
+      const run = () => {
+        timers.delete(client);
+        reconcileClient(client)
+          .then(publish)
+          .catch((err) => {
+            options.logger?.warn("configuration: reconcile failed", {
+              identity: client.identity,
+              error: (err as Error).message,
+            });
+          });
+      };
+
+      // A re-boot supersedes any reconciliation still waiting to start
+      cancel(client);
+      if (delayMs > 0) {
+        const timer = setTimeout(run, delayMs);
+        timer.unref();
+        timers.set(client, timer);
+      } else {
+        run();
+      }
+    },
+  };
+}
@@ -0,0 +1,564 @@
+import type {
+  AttributeEnumType,
+  ComponentType,
+  GetVariableResultType,
+  MutabilityEnumType,
+  ReportDataType,
+  SetVariableDataType,
+  SetVariableResultType,
+  SetVariableStatusEnumType,
+  VariableCharacteristicsType,
+  VariableType,
+} from "../generated/ocpp201.js";
+import type { OCPPServer } from "../server.js";
+import type { OCPPServerClient } from "../server-client.js";
+import type { CallOptions, OCPPPlugin } from "../types.js";
+
+// ─── Device Model Types ─────────────────────────────────────────
+
+/** Component reference — a plain string is shorthand for `{ name }`. */
+export type ComponentRef = string | Omit<ComponentType, "customData">;
+/** Variable reference — a plain string is shorthand for `{ name }`. */
+export type VariableRef = string | Omit<VariableType, "customData">;
+
+export interface DeviceVariableAttribute {
+  value?: string;
+  mutability?: MutabilityEnumType;
+  persistent?: boolean;
+  constant?: boolean;
+}
+
+/** One cached variable of a station's device model. */
+export interface DeviceVariable {
+  component: Omit<ComponentType, "customData">;
+  variable: Omit<VariableType, "customData">;
+  attributes: Partial<Record<AttributeEnumType, DeviceVariableAttribute>>;
+  characteristics?: Omit<VariableCharacteristicsType, "customData">;
+  /** Epoch ms of the last update */
+  updatedAt: number;
+}
+
+/**
+ * Pluggable persistence for cached device models. Share one backend
+ * (e.g. Redis) across nodes so any node can answer `getVariable()`.
+ */
+export interface DeviceModelStore {
+  get(identity: string, key: string): Promise<DeviceVariable | null>;
+  /** Upsert variables, keyed by {@link deviceVariableKey} */
+  set(identity: string, variables: DeviceVariable[]): Promise<void>;
+  list(identity: string): Promise<DeviceVariable[]>;
+  clear?(identity: string): Promise<void>;
+}
+
+export interface SetVariableChange {
+  component: ComponentRef;
+  variable: VariableRef;
+  value: string;
+  /** (default: "Actual") */
+  attributeType?: AttributeEnumType;
+}
+
+export interface SetVariableOutcome {
+  component: Omit<ComponentType, "customData">;
+  variable: Omit<VariableType, "customData">;
+  attributeType: AttributeEnumType;
+  value: string;
+  /**
+   * Station status, or:
+   * - `Unchanged` — cached value already matches, nothing was sent
+   * - `Failed`    — the SetVariables call itself failed (see `error`)
+   */
+  status: SetVariableStatusEnumType | "Unchanged" | "Failed";
+  statusInfo?: SetVariableResultType["attributeStatusInfo"];
+  error?: string;
+}
+
+export interface SetVariablesOptions {
+  /**
+   * Max variables per SetVariables call. Defaults to the station's
+   * cached `DeviceDataCtrlr.ItemsPerMessage[SetVariables]`, else 10.
+   */
+  batchSize?: number;
+  /** Send every change even if the cached value already matches */
+  force?: boolean;
+  callOptions?: CallOptions;
+}
+
+export interface DeviceModelPluginOptions {
+  /** Persistence backend (default: in-memory) */
+  store?: DeviceModelStore;
+  /**
+   * Answer `NotifyReport` with `{}` when the application registered no
+   * handler of its own. (default: true)
+   */
+  handleNotifyReport?: boolean;
+  /**
+   * How long an observed GetVariables/SetVariables call waits for its
+   * result when it has no `timeoutMs` of its own. Keep it at least the
+   * server's `callTimeoutMs`. (default: 60000)
+   */
+  requestTtlMs?: number;
+  /** Logger for store failures */
+  logger?: { warn: (...args: unknown[]) => void };
+}
+
+/**
+ * Extended OCPPPlugin with device model accessors.
+ */
+export interface DeviceModelPlugin extends OCPPPlugin {
+  /** Cached attribute value, or `undefined` when unknown. */
+  getVariable(
+    identity: string,
+    component: ComponentRef,
+    variable: VariableRef,
+    attributeType?: AttributeEnumType,
+  ): Promise<string | undefined>;
+  /** The full cached device model of a station. */
+  getDeviceModel(identity: string): Promise<DeviceVariable[]>;
+  /**
+   * Diff `changes` against the cache and send only the differing values
+   * as batched SetVariables calls. The cache is updated from the results.
+   */
+  setVariables(
+    identity: string,
+    changes: SetVariableChange[],
+    options?: SetVariablesOptions,
+  ): Promise<SetVariableOutcome[]>;
+}
+
+// ─── In-Memory Store ────────────────────────────────────────────
+
+export class InMemoryDeviceModelStore implements DeviceModelStore {
+  private _models = new Map<string, Map<string, DeviceVariable>>();
+
+  async get(identity: string, key: string): Promise<DeviceVariable | null> {
+    return this._models.get(identity)?.get(key) ?? null;
+  }
+
+  async set(identity: string, variables: DeviceVariable[]): Promise<void> {
+    let model = this._models.get(identity);
+    if (!model) {
+      model = new Map();
+      this._models.set(identity, model);
+    }
+    for (const v of variables) {
+      model.set(deviceVariableKey(v.component, v.variable), v);
+    }
+  }
+
+  async list(identity: string): Promise<DeviceVariable[]> {
+    return Array.from(this._models.get(identity)?.values() ?? []);
+  }
+
+  async clear(identity: string): Promise<void> {
+    this._models.delete(identity);
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function toComponent(ref: ComponentRef): DeviceVariable["component"] {
+  if (typeof ref === "string") return { name: ref };
+  const { name, instance, evse } = ref;
+  return {
+    name,
+    ...(instance !== undefined && { instance }),
+    ...(evse && {
+      evse: {
+        id: evse.id,
+        ...(evse.connectorId !== undefined && {
+          connectorId: evse.connectorId,
+        }),
+      },
+    }),
+  };
+}
+
+function toVariable(ref: VariableRef): DeviceVariable["variable"] {
+  if (typeof ref === "string") return { name: ref };
+  return {
+    name: ref.name,
+    ...(ref.instance !== undefined && { instance: ref.instance }),
+  };
+}
+
+/**
+ * Stable cache key for a component/variable pair, e.g.
+ * `EVSE[1].evse(1:2)/Power` or `OCPPCommCtrlr/HeartbeatInterval`.
+ */
+export function deviceVariableKey(
+  component: ComponentRef,
+  variable: VariableRef,
+): string {
+  const c = toComponent(component);
+  const v = toVariable(variable);
+  let key = c.name;
+  if (c.instance !== undefined) key += `[${c.instance}]`;
+  if (c.evse) {
+    key += `.evse(${c.evse.id}${c.evse.connectorId !== undefined ? `:${c.evse.connectorId}` : ""})`;
+  }
+  key += `/${v.name}`;
+  if (v.instance !== undefined) key += `[${v.instance}]`;
+  return key;
+}
+
+// ─── Plugin ─────────────────────────────────────────────────────
+
+/**
+ * Per-station OCPP 2.0.1 / 2.1 device model cache.
+ *
+ * Populated from `NotifyReport` (the result of `GetBaseReport` /
+ * `GetReport`) and `GetVariables` results, and kept in sync with every
+ * accepted `SetVariables` — including ones sent outside this plugin.
+ *
+ * @example
+ * ```ts
+ * import { deviceModelPlugin } from 'ocpp-ws-io/plugins';
+ *
+ * const deviceModel = deviceModelPlugin({ store: myRedisStore });
+ * server.plugin(deviceModel);
+ *
+ * const interval = await deviceModel.getVariable(
+ *   'CP-001', 'OCPPCommCtrlr', 'HeartbeatInterval',
+ * );
+ *
+ * const outcome = await deviceModel.setVariables('CP-001', [
+ *   { component: 'OCPPCommCtrlr', variable: 'HeartbeatInterval', value: '300' },
+ *   { component: 'SampledDataCtrlr', variable: 'TxUpdatedInterval', value: '60' },
+ * ]);
+ * // [{ ..., status: 'Accepted' }, { ..., status: 'Unchanged' }]
+ * ```
+ */
+export function deviceModelPlugin(
+  options?: DeviceModelPluginOptions,
+): DeviceModelPlugin {
+  const store = options?.store ?? new InMemoryDeviceModelStore();
+  const handleNotifyReport = options?.handleNotifyReport ?? true;
+  const requestTtlMs = options?.requestTtlMs ?? 60_000;
+  let server: OCPPServer | null = null;
+
+  /**
+   * Outgoing GetVariables/SetVariables params by messageId, per
+   * connection — a late disconnect of a replaced connection must not drop
+   * the new one's. Calls that time out never see a result, so entries expire.
+   */
+  const pendingRequests = new Map<
+    OCPPServerClient,
+    Map<string, { params: unknown; expiresAt: number }>
+  >();
+
+  function persist(
+    identity: string,
+    variables: DeviceVariable[],
+  ): Promise<void> {
+    if (variables.length === 0) return Promise.resolve();
+    return store.set(identity, variables).catch((err) => {
+      options?.logger?.warn("deviceModel: store update failed", {
+        identity,
+        error: (err as Error).message,
+      });
+    });
+  }
+
+  /** Merge one attribute into the cached variable (read-modify-write). */
+  async function mergeAttribute(
+    identity: string,
+    component: ComponentRef,
+    variable: VariableRef,
+    attributeType: AttributeEnumType,
+    value: string,
+  ): Promise<DeviceVariable> {
+    const existing = await store.get(
+      identity,
+      deviceVariableKey(component, variable),
+    );
+    const entry: DeviceVariable = existing ?? {
+      component: toComponent(component),
+      variable: toVariable(variable),
+      attributes: {},
+      updatedAt: 0,
+    };
+    entry.attributes = {
+      ...entry.attributes,
+      [attributeType]: { ...entry.attributes[attributeType], value },
+    };
+    entry.updatedAt = Date.now();
+    return entry;
+  }
+
+  function onNotifyReport(identity: string, reportData?: ReportDataType[]) {
+    if (!reportData?.length) return;
+    const now = Date.now();
+    void persist(
+      identity,
+      reportData.map((data) => {
+        const attributes: DeviceVariable["attributes"] = {};
+        for (const attr of data.variableAttribute ?? []) {
+          attributes[attr.type ?? "Actual"] = {
+            value: attr.value,
+            mutability: attr.mutability,
+            persistent: attr.persistent,
+            constant: attr.constant,
+          };
+        }
+        const { customData: _c, ...characteristics } =
+          data.variableCharacteristics ?? ({} as VariableCharacteristicsType);
+        return {
+          component: toComponent(data.component),
+          variable: toVariable(data.variable),
+          attributes,
+          characteristics: data.variableCharacteristics
+            ? characteristics
+            : undefined,
+          updatedAt: now,
+        };
+      }),
+    );
+  }
+
+  async function onGetVariablesResult(
+    identity: string,
+    results?: GetVariableResultType[],
+  ): Promise<void> {
+    const updates: DeviceVariable[] = [];
+    for (const r of results ?? []) {
+      if (r.attributeStatus !== "Accepted" || r.attributeValue === undefined) {
+        continue;
+      }
+      updates.push(
+        await mergeAttribute(
+          identity,
+          r.component,
+          r.variable,
+          r.attributeType ?? "Actual",
+          r.attributeValue,
+        ),
+      );
+    }
+    await persist(identity, updates);
+  }
+
+  async function onSetVariablesResult(
+    identity: string,
+    request: { setVariableData?: SetVariableDataType[] } | undefined,
+    results?: SetVariableResultType[],
+  ): Promise<void> {
+    const updates: DeviceVariable[] = [];
+    for (const r of results ?? []) {
+      if (r.attributeStatus !== "Accepted") continue;
+      const attributeType = r.attributeType ?? "Actual";
+      const key = deviceVariableKey(r.component, r.variable);
+      // Results don't echo the value — pair them with the request
+      const sent = request?.setVariableData?.find(
+        (d) =>
+          deviceVariableKey(d.component, d.variable) === key &&
+          (d.attributeType ?? "Actual") === attributeType,
+      );
+      if (!sent) continue;
+      updates.push(
+        await mergeAttribute(
+          identity,
+          r.component,
+          r.variable,
+          attributeType,
+          sent.attributeValue,
+        ),
+      );
+    }
+    await persist(identity, updates);
+  }
+
+  async function getVariable(
+    identity: string,
+    component: ComponentRef,
+    variable: VariableRef,
+    attributeType: AttributeEnumType = "Actual",
+  ): Promise<string | undefined> {
+    const entry = await store.get(
+      identity,
+      deviceVariableKey(component, variable),
+    );
+    return entry?.attributes[attributeType]?.value;
+  }
+
+  async function setVariables(
+    identity: string,
+    changes: SetVariableChange[],
+    setOptions?: SetVariablesOptions,
+  ): Promise<SetVariableOutcome[]> {
+    if (!server) throw new Error("deviceModelPlugin is not registered");
+
+    const outcomes: SetVariableOutcome[] = [];
+    const toSend: Array<{ outcome: SetVariableOutcome; key: string }> = [];
+
+    for (const change of changes) {
+      const attributeType = change.attributeType ?? "Actual";
+      const outcome: SetVariableOutcome = {
+        component: toComponent(change.component),
+        variable: toVariable(change.variable),
+        attributeType,
+        value: change.value,
+        status: "Unchanged",
+      };
+      outcomes.push(outcome);
+
+      const current = await getVariable(
+        identity,
+        change.component,
+        change.variable,
+        attributeType,
+      );
+      if (!setOptions?.force && current === change.value) continue;
+      toSend.push({
+        outcome,
+        key: deviceVariableKey(change.component, change.variable),
+      });
+    }
+
+    const itemsPerMessage = Number(
+      await getVariable(identity, "DeviceDataCtrlr", {
+        name: "ItemsPerMessage",
+        instance: "SetVariables",
+      }),
+    );
+    const batchSize = Math.max(
+      1,
+      setOptions?.batchSize ||
+        (itemsPerMessage > 0 ? itemsPerMessage : 0) ||
+        10,
+    );
+
+    for (let i = 0; i < toSend.length; i += batchSize) {
+      const batch = toSend.slice(i, i + batchSize);
+      const request = {
+        setVariableData: batch.map(({ outcome }) => ({
+          component: outcome.component,
+          variable: outcome.variable,
+          attributeType: outcome.attributeType,
+          attributeValue: outcome.value,
+        })),
+      };
+      try {
+        const response = (await server.sendToClient(
+          identity,
+          "SetVariables",
+          request,
+          setOptions?.callOptions,
+        )) as { setVariableResult?: SetVariableResultType[] } | undefined;
+
+        // The serving node's observer updates the cache too; writing here as
+        // well guarantees read-after-write for the caller
+        await onSetVariablesResult(
+          identity,
+          request,
+          response?.setVariableResult,
+        );
+
+        for (const { outcome, key } of batch) {
+          const result = response?.setVariableResult?.find(
+            (r) =>
+              deviceVariableKey(r.component, r.variable) === key &&
+              (r.attributeType ?? "Actual") === outcome.attributeType,
+          );
+          if (result) {
+            outcome.status = result.attributeStatus;
+            outcome.statusInfo = result.attributeStatusInfo;
+          } else {
+            outcome.status = "Failed";
+            outcome.error = "Missing SetVariableResult";
+          }
+        }
+      } catch (err) {
+        for (const { outcome } of batch) {
+          outcome.status = "Failed";
+          outcome.error = (err as Error).message;
+        }
+      }
+    }
+
+    return outcomes;
+  }
+
+  return {
+    name: "device-model",
+    getVariable,
+    getDeviceModel: (identity) => store.list(identity),
+    setVariables,
+
+    onInit(srv) {
+      server = srv;
+    },
+
+    onConnection(client) {
+      if (!handleNotifyReport || client.hasHandler("NotifyReport")) return;
+      client.handle("NotifyReport", () => ({}));
+    },
+
+    onDisconnect(client) {
+      pendingRequests.delete(client);
+    },
+
+    onMessage(client, { direction, ctx }) {
+      const identity = client.identity;
+
+      if (direction === "IN" && ctx.type === "incoming_call") {
+        if (ctx.method === "NotifyReport") {
+          onNotifyReport(
+            identity,
+            (ctx.params as { reportData?: ReportDataType[] })?.reportData,
+          );
+        }
+        return;
+      }
+
+      if (
+        ctx.type === "outgoing_call" &&
+        (ctx.method === "SetVariables" || ctx.method === "GetVariables")
+      ) {
+        const now = Date.now();
+        let pending = pendingRequests.get(client);
+        if (!pending) {
+          pending = new Map();
+          pendingRequests.set(client, pending);
+        }
+        for (const [messageId, entry] of pending) {
+          if (entry.expiresAt <= now) pending.delete(messageId);
+        }
+        pending.set(ctx.messageId, {
+          params: ctx.params,
+          expiresAt: now + (ctx.options?.timeoutMs ?? requestTtlMs),
+        });
+        return;
+      }
+
+      if (ctx.type !== "incoming_result" && ctx.type !== "incoming_error") {
+        return;
+      }
+      const pending = pendingRequests.get(client);
+      if (!pending?.has(ctx.messageId)) return;
+      const request = pending.get(ctx.messageId)!.params;
+      pending.delete(ctx.messageId);
+      if (pending.size === 0) pendingRequests.delete(client);
+      if (ctx.type === "incoming_error") return;
+
+      const payload = ctx.payload as {
+        getVariableResult?: GetVariableResultType[];
+        setVariableResult?: SetVariableResultType[];
+      };
+      const update =
+        ctx.method === "SetVariables"
+          ? onSetVariablesResult(
+              identity,
+              request as { setVariableData?: SetVariableDataType[] },
+              payload?.setVariableResult,
+            )
+          : onGetVariablesResult(identity, payload?.getVariableResult);
+      update.catch((err) => {
+        options?.logger?.warn("deviceModel: cache update failed", {
+          identity,
+          error: (err as Error).message,
+        });
+      });
+    },
+  };
+}
@@ -0,0 +1,595 @@
+import { EventEmitter } from "node:events";
+import type {
+  BootNotificationRequest as BootNotificationRequest16,
+  UpdateFirmwareRequest as UpdateFirmwareRequest16,
+} from "../generated/ocpp16.js";
+import type {
+  BootNotificationRequest as BootNotificationRequest201,
+  FirmwareStatusNotificationRequest,
+  UpdateFirmwareRequest as UpdateFirmwareRequest201,
+  UpdateFirmwareResponse as UpdateFirmwareResponse201,
+} from "../generated/ocpp201.js";
+import type { OCPPServer } from "../server.js";
+import type { OCPPServerClient } from "../server-client.js";
+import type { CallOptions, OCPPPlugin } from "../types.js";
+import { createId } from "../util.js";
+
+// ─── Firmware Rollout Types ─────────────────────────────────────
+
+export interface FirmwareArtifact {
+  /** URL the stations download the image from */
+  location: string;
+  /** `firmwareVersion` expected in the BootNotification after the update */
+  version: string;
+  /** ISO timestamp (default: when the station is sent the request) */
+  retrieveDate?: string;
+  retries?: number;
+  retryInterval?: number;
+  /** 2.x: ISO timestamp to install at */
+  installDate?: string;
+  /** 2.x: PEM certificate the image was signed with */
+  signingCertificate?: string;
+  /** 2.x: base64 signature of the image */
+  signature?: string;
+}
+
+/**
+ * - `pending`     — waiting for its wave
+ * - `requested`   — UpdateFirmware accepted, no status notification yet
+ * - `downloading` / `downloaded` / `installing` / `installed` — following
+ *   the station's FirmwareStatusNotification
+ * - `verified`    — rebooted with the expected `firmwareVersion`
+ * - `failed`      — see `reason`
+ * - `skipped`     — not connected when its wave started
+ */
+export type FirmwareTargetStatus =
+  | "pending"
+  | "requested"
+  | "downloading"
+  | "downloaded"
+  | "installing"
+  | "installed"
+  | "verified"
+  | "failed"
+  | "skipped";
+
+export interface FirmwareTarget {
+  status: FirmwareTargetStatus;
+  /** Index of the wave the station belongs to */
+  wave: number;
+  /** 2.x `requestId` of the UpdateFirmware call */
+  requestId?: number;
+  /** Last FirmwareStatusNotification status */
+  firmwareStatus?: string;
+  /** `firmwareVersion` reported on boot */
+  firmwareVersion?: string;
+  /** `failed` / `skipped`: e.g. `Rejected`, `DownloadFailed`, `Timeout` */
+  reason?: string;
+  updatedAt: number;
+}
+
+export type FirmwareRolloutStatus =
+  | "running"
+  | "completed"
+  | "halted"
+  | "cancelled";
+
+export interface FirmwareRolloutSpec {
+  /** Rollout id (default: generated) */
+  id?: string;
+  firmware: FirmwareArtifact;
+  /** Stations to update — must be connected to this node */
+  identities: string[];
+  /**
+   * Wave sizes, e.g. `[5, 50, 500]`. The last size repeats until every
+   * station had its turn. (default: a single wave)
+   */
+  waves?: number[];
+  /**
+   * Halt the rollout once `failed / (verified + failed)` exceeds this ratio
+   * (0–1). Checked after `minSamples` stations have settled.
+   */
+  maxFailureRate?: number;
+  /** Settled stations required before `maxFailureRate` applies. (default: 1) */
+  minSamples?: number;
+  /**
+   * Fail a station that shows no progress for this long — no status
+   * notification, or no boot after installing. (default: 1800000 — 30 min)
+   */
+  stuckTimeoutMs?: number;
+}
+
+export interface FirmwareRollout {
+  id: string;
+  spec: FirmwareRolloutSpec;
+  status: FirmwareRolloutStatus;
+  /** Index of the wave in progress */
+  wave: number;
+  createdAt: number;
+  finishedAt?: number;
+  /** Why the rollout was halted or cancelled */
+  reason?: string;
+  targets: Record<string, FirmwareTarget>;
+}
+
+export interface FirmwareRolloutReport {
+  rolloutId: string;
+  status: FirmwareRolloutStatus;
+  reason?: string;
+  total: number;
+  verified: number;
+  failed: number;
+  skipped: number;
+  pending: number;
+  /** Requested and not yet verified or failed */
+  inProgress: number;
+  targets: Record<string, FirmwareTarget>;
+}
+
+export interface FirmwareRolloutEvents {
+  waveStarted: [{ rolloutId: string; wave: number; identities: string[] }];
+  targetUpdated: [
+    { rolloutId: string; identity: string; target: FirmwareTarget },
+  ];
+  rolloutFinished: [FirmwareRolloutReport];
+}
+
+export interface FirmwareRolloutPluginOptions {
+  callOptions?: CallOptions;
+}
+
+/**
+ * Extended OCPPPlugin with rollout control and typed events.
+ */
+export interface FirmwareRolloutPlugin extends OCPPPlugin {
+  /** Start a rollout; resolves once the first wave has been sent. */
+  start(spec: FirmwareRolloutSpec): Promise<FirmwareRollout>;
+  get(id: string): FirmwareRollout | null;
+  /** Stop sending further waves. Stations already updating keep going. */
+  cancel(id: string, reason?: string): void;
+  /** Resolves with the final report once the rollout finishes. */
+  wait(id: string): Promise<FirmwareRolloutReport>;
+  on<K extends keyof FirmwareRolloutEvents>(
+    event: K,
+    listener: (...args: FirmwareRolloutEvents[K]) => void,
+  ): this;
+  off<K extends keyof FirmwareRolloutEvents>(
+    event: K,
+    listener: (...args: FirmwareRolloutEvents[K]) => void,
+  ): this;
+}
+
+// ─── State Machine ──────────────────────────────────────────────
+
+const FIRMWARE_STATUS: Record<string, FirmwareTargetStatus> = {
+  Downloading: "downloading",
+  DownloadScheduled: "downloading",
+  DownloadPaused: "downloading",
+  Downloaded: "downloaded",
+  SignatureVerified: "downloaded",
+  InstallScheduled: "installing",
+  Installing: "installing",
+  InstallRebooting: "installing",
+  Installed: "installed",
+  DownloadFailed: "failed",
+  InstallationFailed: "failed",
+  InstallVerificationFailed: "failed",
+  InvalidSignature: "failed",
+};
+
+const SETTLED = new Set<FirmwareTargetStatus>([
+  "verified",
+  "failed",
+  "skipped",
+]);
+
+function waveOf(index: number, waves: readonly number[]): number {
+  let wave = 0;
+  let end = 0;
+  for (;;) {
+    end += Math.max(1, waves[Math.min(wave, waves.length - 1)]);
+    if (index < end) return wave;
+    wave++;
+  }
+}
+
+// ─── Plugin ─────────────────────────────────────────────────────
+
+/**
+ * Staged firmware rollouts with per-station status tracking.
+ *
+ * Sends `UpdateFirmware` — the 2.x variant with `requestId` and optional
+ * signature — wave by wave, follows each station's
+ * `FirmwareStatusNotification` and verifies the new `firmwareVersion` on
+ * the next `BootNotification`. Stuck stations time out, and the rollout
+ * halts when the failure rate crosses `maxFailureRate`. Stations must be
+ * connected to the node running the rollout.
+ *
+ * @example
+ * ```ts
+ * import { firmwareRolloutPlugin } from 'ocpp-ws-io/plugins';
+ *
+ * const firmware = firmwareRolloutPlugin();
+ * server.plugin(firmware);
+ *
+ * const rollout = await firmware.start({
+ *   firmware: { location: 'https://fw.example.com/v2.4.bin', version: '2.4.0' },
+ *   identities: stationIds,
+ *   waves: [5, 50, 500],
+ *   maxFailureRate: 0.1,
+ * });
+ * const report = await firmware.wait(rollout.id);
+ * ```
+ */
+export function firmwareRolloutPlugin(
+  options?: FirmwareRolloutPluginOptions,
+): FirmwareRolloutPlugin {
+  const events = new EventEmitter();
+  const rollouts = new Map<string, FirmwareRollout>();
+  const waiters = new Map<string, Array<(r: FirmwareRolloutReport) => void>>();
+  /** Rollout each station is currently updating in */
+  const activeByIdentity = new Map<string, string>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  let server: OCPPServer | null = null;
+  let lastRequestId = 0;
+
+  function emit<K extends keyof FirmwareRolloutEvents>(
+    event: K,
+    ...args: FirmwareRolloutEvents[K]
+  ): void {
+    events.emit(event, ...args);
+  }
+
+  function report(rollout: FirmwareRollout): FirmwareRolloutReport {
+    const result: FirmwareRolloutReport = {
+      rolloutId: rollout.id,
+      status: rollout.status,
+      reason: rollout.reason,
+      total: 0,
+      verified: 0,
+      failed: 0,
+      skipped: 0,
+      pending: 0,
+      inProgress: 0,
+      targets: structuredClone(rollout.targets),
+    };
+    for (const target of Object.values(rollout.targets)) {
+      result.total++;
+      if (target.status === "verified") result.verified++;
+      else if (target.status === "failed") result.failed++;
+      else if (target.status === "skipped") result.skipped++;
+      else if (target.status === "pending") result.pending++;
+      else result.inProgress++;
+    }
+    return result;
+  }
+
+  function finish(
+    rollout: FirmwareRollout,
+    status: Exclude<FirmwareRolloutStatus, "running">,
+    reason?: string,
+  ) {
+    if (rollout.status !== "running") return;
+    rollout.status = status;
+    rollout.reason = reason;
+    rollout.finishedAt = Date.now();
+    const final = report(rollout);
+    emit("rolloutFinished", final);
+    for (const resolve of waiters.get(rollout.id) ?? []) resolve(final);
+    waiters.delete(rollout.id);
+  }
+
+  function cancelTimer(rolloutId: string, identity: string) {
+    const key = `${rolloutId}\u0000${identity}`;
+    const timer = timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      timers.delete(key);
+    }
+  }
+
+  function armTimer(rollout: FirmwareRollout, identity: string) {
+    cancelTimer(rollout.id, identity);
+    const key = `${rollout.id}\u0000${identity}`;
+    const timer = setTimeout(() => {
+      timers.delete(key);
+      update(rollout, identity, { status: "failed", reason: "Timeout" });
+    }, rollout.spec.stuckTimeoutMs ?? 1_800_000);
+    timer.unref();
+    timers.set(key, timer);
+  }
+
+  function update(
+    rollout: FirmwareRollout,
+    identity: string,
+    changes: Partial<FirmwareTarget>,
+  ) {
+    const target = rollout.targets[identity];
+    if (!target || SETTLED.has(target.status)) return;
+    Object.assign(target, changes, { updatedAt: Date.now() });
+
+    if (SETTLED.has(target.status)) {
+      cancelTimer(rollout.id, identity);
+      if (activeByIdentity.get(identity) === rollout.id) {
+        activeByIdentity.delete(identity);
+      }
+    } else if (target.status !== "pending") {
+      armTimer(rollout, identity);
+    }
+    emit("targetUpdated", {
+      rolloutId: rollout.id,
+      identity,
+      target: { ...target },
+    });
+    if (SETTLED.has(target.status)) afterSettle(rollout);
+  }
+
+  function failureRateExceeded(rollout: FirmwareRollout): boolean {
+    const max = rollout.spec.maxFailureRate;
+    if (max === undefined) return false;
+    const { verified, failed } = report(rollout);
+    const settled = verified + failed;
+    if (settled === 0 || settled < (rollout.spec.minSamples ?? 1)) {
+      return false;
+    }
+    return failed / settled > max;
+  }
+
+  function afterSettle(rollout: FirmwareRollout) {
+    if (rollout.status !== "running") return;
+    if (failureRateExceeded(rollout)) {
+      finish(
+        rollout,
+        "halted",
+        `Failure rate exceeded ${rollout.spec.maxFailureRate}`,
+      );
+      return;
+    }
+    const targets = Object.values(rollout.targets);
+    const waveDone = targets
+      .filter((t) => t.wave === rollout.wave)
+      .every((t) => SETTLED.has(t.status));
+    if (!waveDone) return;
+    if (targets.every((t) => SETTLED.has(t.status))) {
+      finish(rollout, "completed");
+      return;
+    }
+    rollout.wave++;
+    void startWave(rollout);
+  }
+
+  async function send(
+    rollout: FirmwareRollout,
+    identity: string,
+    client: OCPPServerClient,
+  ) {
+    const { firmware } = rollout.spec;
+    const retrieveDate = firmware.retrieveDate ?? new Date().toISOString();
+    try {
+      if (client.protocol === "ocpp1.6") {
+        await client.call(
+          "UpdateFirmware",
+          {
+            location: firmware.location,
+            retrieveDate,
+            ...(firmware.retries !== undefined && {
+              retries: firmware.retries,
+            }),
+            ...(firmware.retryInterval !== undefined && {
+              retryInterval: firmware.retryInterval,
+            }),
+          } satisfies UpdateFirmwareRequest16,
+          options?.callOptions,
+        );
+        update(rollout, identity, { status: "requested" });
+        return;
+      }
+
+      const requestId = ++lastRequestId;
+      rollout.targets[identity].requestId = requestId;
+      const response = await client.call<UpdateFirmwareResponse201>(
+        "UpdateFirmware",
+        {
+          requestId,
+          ...(firmware.retries !== undefined && { retries: firmware.retries }),
+          ...(firmware.retryInterval !== undefined && {
+            retryInterval: firmware.retryInterval,
+          }),
+          firmware: {
+            location: firmware.location,
+            retrieveDateTime: retrieveDate,
+            ...(firmware.installDate && {
+              installDateTime: firmware.installDate,
+            }),
+            ...(firmware.signingCertificate && {
+              signingCertificate: firmware.signingCertificate,
+            }),
+            ...(firmware.signature && { signature: firmware.signature }),
+          },
+        } satisfies UpdateFirmwareRequest201,
+        options?.callOptions,
+      );
+      if (response.status === "Accepted") {
+        update(rollout, identity, { status: "requested" });
+      } else {
+        update(rollout, identity, {
+          status: "failed",
+          reason: response.status,
+        });
+      }
+    } catch (err) {
+      update(rollout, identity, {
+        status: "failed",
+        reason: (err as Error).message,
+      });
+    }
+  }
+
+  async function startWave(rollout: FirmwareRollout): Promise<void> {
+    const identities = Object.entries(rollout.targets)
+      .filter(([, t]) => t.wave === rollout.wave && t.status === "pending")
+      .map(([identity]) => identity);
+    emit("waveStarted", {
+      rolloutId: rollout.id,
+      wave: rollout.wave,
+      identities,
+    });
+
+    await Promise.all(
+      identities.map(async (identity) => {
+        if (rollout.status !== "running") return;
+        const client = server?.getLocalClient(identity);
+        if (!client) {
+          update(rollout, identity, {
+            status: "skipped",
+            reason: "NotConnected",
+          });
+          return;
+        }
+        activeByIdentity.set(identity, rollout.id);
+        await send(rollout, identity, client);
+      }),
+    );
+  }
+
+  function activeTarget(identity: string) {
+    const rollout = rollouts.get(activeByIdentity.get(identity) ?? "");
+    const target = rollout?.targets[identity];
+    return rollout && target ? { rollout, target } : null;
+  }
+
+  return {
+    name: "firmware-rollout",
+
+    async start(spec) {
+      if (!server) throw new Error("firmwareRolloutPlugin is not registered");
+      const identities = Array.from(new Set(spec.identities));
+      if (identities.length === 0) {
+        throw new Error("FirmwareRolloutSpec.identities must not be empty");
+      }
+      const busy = identities.find((id) => activeByIdentity.has(id));
+      if (busy) {
+        throw new Error(`Station ${busy} is already updating firmware`);
+      }
+      const id = spec.id ?? createId();
+      if (rollouts.has(id)) throw new Error(`Rollout ${id} already exists`);
+
+      const now = Date.now();
+      const waves = spec.waves?.length ? spec.waves : [identities.length];
+      const rollout: FirmwareRollout = {
+        id,
+        spec: { ...spec, id, identities },
+        status: "running",
+        wave: 0,
+        createdAt: now,
+        targets: {},
+      };
+      identities.forEach((identity, index) => {
+        rollout.targets[identity] = {
+          status: "pending",
+          wave: waveOf(index, waves),
+          updatedAt: now,
+        };
+      });
+      rollouts.set(id, rollout);
+
+      await startWave(rollout);
+      return structuredClone(rollout);
+    },
+
+    get(id) {
+      const rollout = rollouts.get(id);
+      return rollout ? structuredClone(rollout) : null;
+    },
+
+    cancel(id, reason = "Cancelled") {
+      const rollout = rollouts.get(id);
+      if (rollout) finish(rollout, "cancelled", reason);
+    },
+
+    wait(id) {
+      const rollout = rollouts.get(id);
+      if (!rollout) {
+        return Promise.reject(new Error(`Rollout ${id} not found`));
+      }
+      if (rollout.status !== "running") {
+        return Promise.resolve(report(rollout));
+      }
+      return new Promise((resolve) => {
+        const list = waiters.get(id) ?? [];
+        list.push(resolve);
+        waiters.set(id, list);
+      });
+    },
+
+    on(event, listener) {
+      events.on(event, listener as (...args: unknown[]) => void);
+      return this;
+    },
+
+    off(event, listener) {
+      events.off(event, listener as (...args: unknown[]) => void);
+      return this;
+    },
+
+    onInit(srv) {
+      server = srv;
+    },
+
+    onClose() {
+      for (const timer of timers.values()) clearTimeout(timer);
+      timers.clear();
+    },
+
+    onMessage(client, { direction, ctx }) {
+      if (direction !== "IN" || ctx.type !== "incoming_call") return;
+      if (
+        ctx.method !== "FirmwareStatusNotification" &&
+        ctx.method !== "BootNotification"
+      ) {
+        return;
+      }
+      const active = activeTarget(client.identity);
+      if (!active) return;
+      const { rollout, target } = active;
+
+      if (ctx.method === "FirmwareStatusNotification") {
+        const { status, requestId } =
+          ctx.params as FirmwareStatusNotificationRequest;
+        // 2.x: ignore notifications about some other update
+        if (requestId !== undefined && requestId !== target.requestId) return;
+        const next = FIRMWARE_STATUS[status];
+        if (!next) return;
+        update(rollout, client.identity, {
+          status: next,
+          firmwareStatus: status,
+          ...(next === "failed" && { reason: status }),
+        });
+        return;
+      }
+
+      const boot = ctx.params as
+        | BootNotificationRequest16
+        | BootNotificationRequest201;
+      const firmwareVersion =
+        "chargingStation" in boot
+          ? boot.chargingStation.firmwareVersion
+          : boot.firmwareVersion;
+      if (firmwareVersion === rollout.spec.firmware.version) {
+        update(rollout, client.identity, {
+          status: "verified",
+          firmwareVersion,
+        });
+      } else if (
+        target.status === "installing" ||
+        target.status === "installed"
+      ) {
+        update(rollout, client.identity, {
+          status: "failed",
+          firmwareVersion,
+          reason: "VersionMismatch",
+        });
+      }
+    },
+  };
+}
@@ -15,28 +15,143 @@ export {
   type AsyncWorkerPlugin,
   asyncWorkerPlugin,
 } from "./async-worker.js";
+// ─── Security & Access Control ──────────────────────────────────
+export {
+  AUDIT_LOG_GENESIS,
+  type AuditLogEntry,
+  type AuditLogHead,
+  type AuditLogIssue,
+  type AuditLogPlugin,
+  type AuditLogPluginOptions,
+  type AuditLogRecord,
+  type AuditLogVerification,
+  auditLogPlugin,
+  FileAuditLog,
+  type FileAuditLogOptions,
+  hashAuditRecord,
+  verifyAuditLog,
+} from "./audit-log.js";
+export {
+  type AuthorizationDecision,
+  type AuthorizationPlugin,
+  type AuthorizationPluginOptions,
+  type AuthorizationRequestContext,
+  type AuthorizationToken,
+  allowListProvider,
+  authorizationPlugin,
+  type CachedProviderOptions,
+  cachedProvider,
+  type TokenProvider,
+  toIdTagInfo,
+  toIdTokenInfo,
+} from "./authorization.js";
+export {
+  type CertificateIssueResult,
+  type CertificateManagementPlugin,
+  type CertificateManagementPluginOptions,
+  type CertificateSigner,
+  type CertificateSigningRequest,
+  type CertificateStore,
+  certificateManagementPlugin,
+  InMemoryCertificateStore,
+  type IssuedCertificate,
+  type LocalCaSignerOptions,
+  localCaSigner,
+} from "./certificates.js";
+// ─── Infrastructure ─────────────────────────────────────────────
 export {
   type CircuitBreakerOptions,
   type CircuitState,
   circuitBreakerPlugin,
 } from "./circuit-breaker.js";
+// ─── Security & Access Control ──────────────────────────────────
+export {
+  type CommandAuditQuery,
+  type CommandAuditRecord,
+  type CommandAuditSink,
+  CommandPolicy,
+  type CommandPolicyDecision,
+  type CommandPolicyOptions,
+  type CommandPolicyPlugin,
+  type CommandPolicyPluginOptions,
+  type CommandRule,
+  commandPolicyPlugin,
+  InMemoryCommandAuditSink,
+} from "./command-policy.js";
+// ─── Protocol Handlers ──────────────────────────────────────────
+export {
+  type ConfigurationKeyResult,
+  type ConfigurationKeyStatus,
+  type ConfigurationPlugin,
+  type ConfigurationPluginOptions,
+  type ConfigurationReport,
+  type ConfigurationRule,
+  type ConfigurationValue,
+  configurationPlugin,
+} from "./configuration.js";
 export {
   type ConnectionGuardOptions,
   connectionGuardPlugin,
 } from "./connection-guard.js";
-// ─── Protocol Handlers ──────────────────────────────────────────
+export {
+  type ComponentRef,
+  type DeviceModelPlugin,
+  type DeviceModelPluginOptions,
+  type DeviceModelStore,
+  type DeviceVariable,
+  type DeviceVariableAttribute,
+  deviceModelPlugin,
+  deviceVariableKey,
+  InMemoryDeviceModelStore,
+  type SetVariableChange,
+  type SetVariableOutcome,
+  type SetVariablesOptions,
+  type VariableRef,
+} from "./device-model.js";
+export {
+  type FirmwareArtifact,
+  type FirmwareRollout,
+  type FirmwareRolloutEvents,
+  type FirmwareRolloutPlugin,
+  type FirmwareRolloutPluginOptions,
+  type FirmwareRolloutReport,
+  type FirmwareRolloutSpec,
+  type FirmwareRolloutStatus,
+  type FirmwareTarget,
+  type FirmwareTargetStatus,
+  firmwareRolloutPlugin,
+} from "./firmware-rollout.js";
 export { heartbeatPlugin } from "./heartbeat.js";
 export {
   type KafkaPluginOptions,
   type KafkaProducerLike,
   kafkaPlugin,
 } from "./kafka.js";
+export {
+  InMemoryLocalListStore,
+  type InMemoryLocalListStoreOptions,
+  type LocalAuthEntry,
+  type LocalListDelta,
+  type LocalListPlugin,
+  type LocalListPluginOptions,
+  type LocalListStore,
+  type LocalListSyncResult,
+  localListPlugin,
+} from "./local-list.js";
 // ─── Reliability & Resiliency ───────────────────────────────────
 export {
   type DedupRedisLike,
   type MessageDedupOptions,
   messageDedupPlugin,
 } from "./message-dedup.js";
+export {
+  type MeterEnergyAnomaly,
+  type MeterValuesEvents,
+  type MeterValuesPlugin,
+  type MeterValuesPluginOptions,
+  type MeterValuesReport,
+  meterValuesPlugin,
+} from "./meter-values.js";
 // ─── Observability ──────────────────────────────────────────────
 export {
   type MetricsPlugin,
@@ -75,6 +190,31 @@ export {
   schemaVersioningPlugin,
   type TransformRule,
 } from "./schema-versioning.js";
+// ─── Security & Access Control ──────────────────────────────────
+export {
+  InMemorySecurityAuditSink,
+  type SecurityAuditPlugin,
+  type SecurityAuditPluginOptions,
+  type SecurityAuditQuery,
+  type SecurityAuditRecord,
+  type SecurityAuditSink,
+  securityAuditPlugin,
+  toSecurityAuditRecord,
+} from "./security-audit.js";
+// ─── Observability ──────────────────────────────────────────────
 export { type SessionLogOptions, sessionLogPlugin } from "./session-log.js";
+export {
+  InMemoryTransactionStore,
+  type InMemoryTransactionStoreOptions,
+  type TrackedTransaction,
+  type TrackedTransactionStatus,
+  type TransactionAnomaly,
+  type TransactionAnomalyKind,
+  type TransactionStore,
+  type TransactionTrackerEvents,
+  type TransactionTrackerOptions,
+  type TransactionTrackerPlugin,
+  transactionTrackerPlugin,
+} from "./transaction-tracker.js";
 // ─── Event Delivery ─────────────────────────────────────────────
 export { type WebhookPluginOptions, webhookPlugin } from "./webhook.js";
@@ -0,0 +1,537 @@
+import type {
+  GetLocalListVersionResponse as GetLocalListVersionResponse16,
+  SendLocalListRequest as SendLocalListRequest16,
+  SendLocalListResponse as SendLocalListResponse16,
+} from "../generated/ocpp16.js";
+import type {
+  AuthorizationData,
+  AuthorizationStatusEnumType,
+  GetLocalListVersionResponse as GetLocalListVersionResponse201,
+  IdTokenEnumType,
+  SendLocalListRequest as SendLocalListRequest201,
+  SendLocalListResponse as SendLocalListResponse201,
+} from "../generated/ocpp201.js";
+import type { OCPPServer } from "../server.js";
+import type { OCPPServerClient } from "../server-client.js";
+import type { CallOptions, OCPPPlugin } from "../types.js";
+import { toIdTagInfo, toIdTokenInfo } from "./authorization.js";
+
+// ─── Local List Types ───────────────────────────────────────────
+
+/**
+ * One entry of the authoritative authorization list, in a shape that maps
+ * onto both 1.6 `idTag` / `idTagInfo` and 2.x `idToken` / `idTokenInfo`.
+ */
+export interface LocalAuthEntry {
+  idToken: string;
+  /** 2.x token type (default: the plugin's `defaultTokenType`) */
+  type?: IdTokenEnumType;
+  /** 1.6 stations receive `Invalid` for statuses 1.6 doesn't know */
+  status: AuthorizationStatusEnumType;
+  /** ISO timestamp — 1.6 `expiryDate` / 2.x `cacheExpiryDateTime` */
+  expiryDate?: string;
+  /** Group token — 1.6 `parentIdTag` / 2.x `groupIdToken` */
+  groupIdToken?: string;
+}
+
+/** Changes since a version: entries to upsert and tokens to remove. */
+export interface LocalListDelta {
+  entries: LocalAuthEntry[];
+  removed: string[];
+}
+
+/**
+ * Pluggable persistence for the authoritative list and each station's
+ * acknowledged version. Share one backend across nodes.
+ */
+export interface LocalListStore {
+  /** Current list version (0 = never modified) */
+  getVersion(): Promise<number>;
+  /** Apply changes atomically; resolves to the new version */
+  apply(changes: {
+    upsert?: LocalAuthEntry[];
+    remove?: string[];
+  }): Promise<number>;
+  /** The full current list */
+  list(): Promise<LocalAuthEntry[]>;
+  /**
+   * Changes after `version`, or `null` when the store no longer holds
+   * history that old (a Full update is needed).
+   */
+  changesSince(version: number): Promise<LocalListDelta | null>;
+  /** Last version the station acknowledged, or `null` if never synced */
+  getStationVersion(identity: string): Promise<number | null>;
+  setStationVersion(identity: string, version: number | null): Promise<void>;
+}
+
+/**
+ * Outcome of one sync:
+ * - `UpToDate`     — the station already had the current version
+ * - `Accepted`     — the update was applied
+ * - `NotSupported` — the station has no local list (1.6 `listVersion: -1`)
+ * - `Failed`       — the station rejected the update or the call failed
+ */
+export interface LocalListSyncResult {
+  identity: string;
+  status: "UpToDate" | "Accepted" | "NotSupported" | "Failed";
+  updateType?: "Full" | "Differential";
+  fromVersion: number | null;
+  toVersion: number;
+  /** Entries sent (removals included) */
+  items: number;
+  /** A Differential update hit `VersionMismatch` and was retried as Full */
+  fellBackToFull?: boolean;
+  error?: string;
+}
+
+export interface LocalListPluginOptions {
+  /** Persistence backend (default: in-memory) */
+  store?: LocalListStore;
+  /** Sync every station when it connects (default: true) */
+  syncOnConnect?: boolean;
+  /** Wait this long after the connection before syncing (default: 0) */
+  delayMs?: number;
+  /**
+   * Ask the station for its list version before each sync and send a
+   * Full update when it differs from the acknowledged one. (default: true)
+   */
+  verifyVersion?: boolean;
+  /** Push changes to connected stations after `update()` (default: true) */
+  autoPush?: boolean;
+  /**
+   * Max entries per SendLocalList call (default: 100). The chunks of one
+   * update carry increasing versions, so an update is only split when the
+   * list advanced by at least as many versions; otherwise it is sent whole.
+   */
+  itemsPerMessage?: number;
+  /** 2.x token type for entries without one (default: "ISO14443") */
+  defaultTokenType?: IdTokenEnumType;
+  callOptions?: CallOptions;
+  /** Called with every sync result, in addition to the server event */
+  onSync?: (result: LocalListSyncResult) => void | Promise<void>;
+  logger?: { warn: (...args: unknown[]) => void };
+}
+
+/**
+ * Extended OCPPPlugin with list management and on-demand sync.
+ */
+export interface LocalListPlugin extends OCPPPlugin {
+  /** Upsert / remove entries; resolves to the new list version. */
+  update(changes: {
+    upsert?: LocalAuthEntry[];
+    remove?: string[];
+  }): Promise<number>;
+  /** Replace the whole list; resolves to the new list version. */
+  replace(entries: LocalAuthEntry[]): Promise<number>;
+  /** The authoritative list and its version. */
+  getList(): Promise<{ version: number; entries: LocalAuthEntry[] }>;
+  /** Bring a station connected to this node up to date. */
+  sync(identity: string): Promise<LocalListSyncResult>;
+  /** Sync every station connected to this node. */
+  syncAll(): Promise<LocalListSyncResult[]>;
+}
+
+// ─── In-Memory Store ────────────────────────────────────────────
+
+export interface InMemoryLocalListStoreOptions {
+  /**
+   * Removed tokens remembered for Differential updates. Beyond this, the
+   * oldest are forgotten and stations behind them get a Full update.
+   * (default: 10000)
+   */
+  maxTombstones?: number;
+}
+
+export class InMemoryLocalListStore implements LocalListStore {
+  private _version = 0;
+  /** Oldest version `changesSince()` can answer from */
+  private _floor = 0;
+  private _entries = new Map<
+    string,
+    { entry: LocalAuthEntry; version: number }
+  >();
+  /** Removed tokens by the version that removed them, oldest first */
+  private _tombstones = new Map<string, number>();
+  private _stations = new Map<string, number>();
+  private _maxTombstones: number;
+
+  constructor(options?: InMemoryLocalListStoreOptions) {
+    this._maxTombstones = options?.maxTombstones ?? 10_000;
+  }
+
+  async getVersion(): Promise<number> {
+    return this._version;
+  }
+
+  async apply(changes: {
+    upsert?: LocalAuthEntry[];
+    remove?: string[];
+  }): Promise<number> {
+    const version = ++this._version;
+    for (const entry of changes.upsert ?? []) {
+      this._tombstones.delete(entry.idToken);
+      this._entries.set(entry.idToken, {
+        entry: structuredClone(entry),
+        version,
+      });
+    }
+    for (const idToken of changes.remove ?? []) {
+      if (!this._entries.delete(idToken)) continue;
+      this._tombstones.delete(idToken);
+      this._tombstones.set(idToken, version);
+    }
+    // Maps iterate in insertion order — the first tombstone is the oldest
+    while (this._tombstones.size > this._maxTombstones) {
+      const [idToken, removedAt] = this._tombstones.entries().next().value as [
+        string,
+        number,
+      ];
+      this._tombstones.delete(idToken);
+      this._floor = Math.max(this._floor, removedAt);
+    }
+    return version;
+  }
+
+  async list(): Promise<LocalAuthEntry[]> {
+    return Array.from(this._entries.values(), ({ entry }) =>
+      structuredClone(entry),
+    );
+  }
+
+  async changesSince(version: number): Promise<LocalListDelta | null> {
+    if (version < this._floor) return null;
+    const delta: LocalListDelta = { entries: [], removed: [] };
+    for (const { entry, version: v } of this._entries.values()) {
+      if (v > version) delta.entries.push(structuredClone(entry));
+    }
+    for (const [idToken, v] of this._tombstones) {
+      if (v > version) delta.removed.push(idToken);
+    }
+    return delta;
+  }
+
+  async getStationVersion(identity: string): Promise<number | null> {
+    return this._stations.get(identity) ?? null;
+  }
+
+  async setStationVersion(
+    identity: string,
+    version: number | null,
+  ): Promise<void> {
+    if (version === null) this._stations.delete(identity);
+    else this._stations.set(identity, version);
+  }
+}
+
+// ─── Wire Shapes ────────────────────────────────────────────────
+
+type Item16 = NonNullable<
+  SendLocalListRequest16["localAuthorizationList"]
+>[number];
+
+function toItem16(entry: LocalAuthEntry | string): Item16 {
+  if (typeof entry === "string") return { idTag: entry };
+  return { idTag: entry.idToken, idTagInfo: toIdTagInfo(entry) };
+}
+
+function toItem201(
+  entry: LocalAuthEntry | string,
+  defaultType: IdTokenEnumType,
+): AuthorizationData {
+  if (typeof entry === "string") {
+    return { idToken: { idToken: entry, type: defaultType } };
+  }
+  return {
+    idToken: { idToken: entry.idToken, type: entry.type ?? defaultType },
+    idTokenInfo: toIdTokenInfo(entry),
+  };
+}
+
+// ─── Plugin ─────────────────────────────────────────────────────
+
+/**
+ * Authoritative local authorization list, synced to every station.
+ *
+ * Each change bumps the list version. Stations are brought up to date with
+ * `SendLocalList` — Differential from their last acknowledged version when
+ * the history allows it, Full otherwise or after a `VersionMismatch`.
+ * Works with both the 1.6 `idTag` and 2.x `idToken` shapes, and catches
+ * stations up when they reconnect.
+ *
+ * @example
+ * ```ts
+ * import { localListPlugin } from 'ocpp-ws-io/plugins';
+ *
+ * const localList = localListPlugin({ store: myRedisStore });
+ * server.plugin(localList);
+ *
+ * // Pushed to every connected station as a Differential update
+ * await localList.update({
+ *   upsert: [{ idToken: '04A2B3C4', status: 'Accepted', groupIdToken: 'FLEET-1' }],
+ *   remove: ['DEADBEEF'],
+ * });
+ * ```
+ */
+export function localListPlugin(
+  options?: LocalListPluginOptions,
+): LocalListPlugin {
+  const store = options?.store ?? new InMemoryLocalListStore();
+  const syncOnConnect = options?.syncOnConnect ?? true;
+  const delayMs = options?.delayMs ?? 0;
+  const verifyVersion = options?.verifyVersion ?? true;
+  const autoPush = options?.autoPush ?? true;
+  const itemsPerMessage = Math.max(1, options?.itemsPerMessage ?? 100);
+  const defaultType = options?.defaultTokenType ?? "ISO14443";
+  const callOptions = options?.callOptions;
+
+  /**
+   * Delayed syncs, per connection — a late disconnect of a replaced
+   * connection must not cancel the new one's.
+   */
+  const timers = new Map<OCPPServerClient, ReturnType<typeof setTimeout>>();
+  /** Per-station sync chain — one SendLocalList sequence at a time */
+  const inflight = new Map<string, Promise<LocalListSyncResult>>();
+  let server: OCPPServer | null = null;
+
+  async function readStationVersion(client: OCPPServerClient): Promise<number> {
+    const response = await client.call<
+      GetLocalListVersionResponse16 | GetLocalListVersionResponse201
+    >("GetLocalListVersion", {}, callOptions);
+    return "listVersion" in response
+      ? response.listVersion
+      : response.versionNumber;
+  }
+
+  /**
+   * Send one update (chunked); resolves to the station's final status.
+   * `fromVersion` is the station's current version for a Differential.
+   */
+  async function send(
+    client: OCPPServerClient,
+    updateType: "Full" | "Differential",
+    version: number,
+    items: Array<LocalAuthEntry | string>,
+    fromVersion = 0,
+  ): Promise<string> {
+    const is16 = client.protocol === "ocpp1.6";
+    // An oversized update goes out as a head + Differential tail. Stations
+    // reject a Differential whose version isn't above their current one, so
+    // the chunks count up to the target version — which needs as many free
+    // versions as chunks; without them the update goes out in one message.
+    let chunks: Array<Array<LocalAuthEntry | string>> = [];
+    for (let i = 0; i < items.length; i += itemsPerMessage) {
+      chunks.push(items.slice(i, i + itemsPerMessage));
+    }
+    const floor = updateType === "Full" ? 0 : fromVersion;
+    if (chunks.length <= 1 || version - chunks.length < floor) chunks = [items];
+
+    for (const [i, chunk] of chunks.entries()) {
+      const type = i === 0 ? updateType : "Differential";
+      const chunkVersion = version - (chunks.length - 1 - i);
+      const request = is16
+        ? ({
+            listVersion: chunkVersion,
+            updateType: type,
+            localAuthorizationList: chunk.map(toItem16),
+          } satisfies SendLocalListRequest16)
+        : ({
+            versionNumber: chunkVersion,
+            updateType: type,
+            localAuthorizationList: chunk.map((e) => toItem201(e, defaultType)),
+          } satisfies SendLocalListRequest201);
+      const response = await client.call<
+        SendLocalListResponse16 | SendLocalListResponse201
+      >("SendLocalList", request, callOptions);
+      if (response.status !== "Accepted") return response.status;
+    }
+    return "Accepted";
+  }
+
+  async function syncClient(
+    client: OCPPServerClient,
+  ): Promise<LocalListSyncResult> {
+    const { identity } = client;
+    const version = await store.getVersion();
+    let acked = await store.getStationVersion(identity);
+    const result: LocalListSyncResult = {
+      identity,
+      status: "UpToDate",
+      fromVersion: acked,
+      toVersion: version,
+      items: 0,
+    };
+
+    try {
+      if (verifyVersion) {
+        const actual = await readStationVersion(client);
+        if (actual < 0) {
+          result.status = "NotSupported";
+          return result;
+        }
+        // Reset, replaced or synced by someone else — start over
+        if (actual !== acked) acked = null;
+        result.fromVersion = actual;
+      }
+
+      // Version 0: the list was never populated, nothing to push yet
+      if (version === 0 || acked === version) return result;
+
+      const delta = acked === null ? null : await store.changesSince(acked);
+      let status: string;
+      if (delta) {
+        result.updateType = "Differential";
+        const items = [...delta.entries, ...delta.removed];
+        result.items = items.length;
+        status = await send(client, "Differential", version, items, acked ?? 0);
+        if (status === "VersionMismatch") result.fellBackToFull = true;
+      } else {
+        status = "VersionMismatch";
+      }
+
+      if (status === "VersionMismatch") {
+        result.updateType = "Full";
+        const entries = await store.list();
+        result.items = entries.length;
+        status = await send(client, "Full", version, entries);
+      }
+
+      if (status === "Accepted") {
+        result.status = "Accepted";
+        await store.setStationVersion(identity, version);
+      } else {
+        result.status = status === "NotSupported" ? "NotSupported" : "Failed";
+        result.error = status;
+        // Unknown state on the station — force a Full update next time
+        await store.setStationVersion(identity, null);
+      }
+    } catch (err) {
+      result.status = "Failed";
+      result.error = (err as Error).message;
+    }
+    return result;
+  }
+
+  async function publish(result: LocalListSyncResult): Promise<void> {
+    server?.emit("localList:synced", result);
+    try {
+      await options?.onSync?.(result);
+    } catch (err) {
+      options?.logger?.warn("localList: onSync failed", {
+        identity: result.identity,
+        error: (err as Error).message,
+      });
+    }
+  }
+
+  function syncQueued(client: OCPPServerClient): Promise<LocalListSyncResult> {
+    const prev = inflight.get(client.identity) ?? Promise.resolve(null);
+    const next = prev
+      .catch(() => null)
+      .then(() => syncClient(client))
+      .then(async (result) => {
+        await publish(result);
+        return result;
+      });
+    inflight.set(client.identity, next);
+    void next.finally(() => {
+      if (inflight.get(client.identity) === next) {
+        inflight.delete(client.identity);
+      }
+    });
+    return next;
+  }
+
+  function localClients(): OCPPServerClient[] {
+    return server ? Array.from(server.clients) : [];
+  }
+
+  async function syncAll(): Promise<LocalListSyncResult[]> {
+    return Promise.all(localClients().map((client) => syncQueued(client)));
+  }
+
+  async function update(changes: {
+    upsert?: LocalAuthEntry[];
+    remove?: string[];
+  }): Promise<number> {
+    const version = await store.apply(changes);
+    if (autoPush) {
+      syncAll().catch((err) => {
+        options?.logger?.warn("localList: push failed", {
+          error: (err as Error).message,
+        });
+      });
+    }
+    return version;
+  }
+
+  function cancel(client: OCPPServerClient) {
+    const timer = timers.get(client);
+    if (timer) {
+      clearTimeout(timer);
+      timers.delete(client);
+    }
+  }
+
+  return {
+    name: "local-list",
+    update,
+    syncAll,
+
+    async replace(entries) {
+      const keep = new Set(entries.map((e) => e.idToken));
+      const remove = (await store.list())
+        .map((e) => e.idToken)
+        .filter((id) => !keep.has(id));
+      return update({ upsert: entries, remove });
+    },
+
+    async getList() {
+      const [version, entries] = await Promise.all([
+        store.getVersion(),
+        store.list(),
+      ]);
+      return { version, entries };
+    },
+
+    async sync(identity) {
+      if (!server) throw new Error("localListPlugin is not registered");
+      const client = server.getLocalClient(identity);
+      if (!client) throw new Error(`Client ${identity} is not connected`);
+      return syncQueued(client);
+    },
+
+    onInit(srv) {
+      server = srv;
+    },
+
+    onConnection(client) {
+      if (!syncOnConnect) return;
+      const run = () => {
+        timers.delete(client);
+        syncQueued(client).catch((err) => {
+          options?.logger?.warn("localList: sync failed", {
+            identity: client.identity,
+            error: (err as Error).message,
+          });
+        });
+      };
+      cancel(client);
+      if (delayMs > 0) {
+        const timer = setTimeout(run, delayMs);
+        timer.unref();
+        timers.set(client, timer);
+      } else {
+        run();
+      }
+    },
+
+    onDisconnect(client) {
+      cancel(client);
+    },
+
+    onClose() {
+      for (const timer of timers.values()) clearTimeout(timer);
+      timers.clear();
+    },
+  };
+}
@@ -0,0 +1,305 @@
+import { EventEmitter } from "node:events";
+import type {
+  StartTransactionRequest,
+  StartTransactionResponse,
+  StopTransactionRequest,
+} from "../generated/ocpp16.js";
+import type { TransactionEventRequest } from "../generated/ocpp201.js";
+import {
+  accumulateEnergy,
+  createEnergyState,
+  type EnergyAccumulatorOptions,
+  type EnergyAnomaly,
+  type EnergyState,
+  energyRegisterSample,
+  type MeterSample,
+  meterValuesOf,
+  normalizeMeterValues,
+} from "../meter-values.js";
+import type { OCPPServerClient } from "../server-client.js";
+import type { OCPPPlugin } from "../types.js";
+
+// ─── Meter Value Types ──────────────────────────────────────────
+
+export interface MeterValuesReport {
+  identity: string;
+  protocol: string;
+  /** Call that carried the samples */
+  method: string;
+  transactionId?: string;
+  evseId?: number;
+  connectorId?: number;
+  samples: MeterSample[];
+  /** Running totals — present when the samples belong to a transaction */
+  energy?: EnergyState;
+}
+
+export interface MeterEnergyAnomaly extends EnergyAnomaly {
+  identity: string;
+  transactionId: string;
+}
+
+export interface MeterValuesEvents {
+  meterValues: [MeterValuesReport];
+  energyAnomaly: [MeterEnergyAnomaly];
+}
+
+export interface MeterValuesPluginOptions extends EnergyAccumulatorOptions {
+  /** Emit reports that carry no samples, e.g. a bare StopTransaction (default: false) */
+  emitEmpty?: boolean;
+}
+
+/**
+ * Extended OCPPPlugin with typed meter value events.
+ */
+export interface MeterValuesPlugin extends OCPPPlugin {
+  /** Running totals of a transaction still in progress */
+  getEnergy(
+    identity: string,
+    transactionId: string | number,
+  ): EnergyState | undefined;
+  on<K extends keyof MeterValuesEvents>(
+    event: K,
+    listener: (...args: MeterValuesEvents[K]) => void,
+  ): this;
+  off<K extends keyof MeterValuesEvents>(
+    event: K,
+    listener: (...args: MeterValuesEvents[K]) => void,
+  ): this;
+}
+
+// ─── Plugin ─────────────────────────────────────────────────────
+
+/**
+ * Normalized meter values for every OCPP version.
+ *
+ * Turns `MeterValues`, 1.6 `StopTransaction.transactionData` and 2.x
+ * `TransactionEvent.meterValue` into {@link MeterSample} streams (Wh, W, A,
+ * V, SoC, … per phase), and keeps per-transaction energy totals that
+ * survive register rollover. Totals are held in memory on the node serving
+ * the station.
+ *
+ * @example
+ * ```ts
+ * import { meterValuesPlugin } from 'ocpp-ws-io/plugins';
+ *
+ * const meter = meterValuesPlugin();
+ * server.plugin(meter);
+ *
+ * meter.on('meterValues', ({ identity, samples, energy }) => {
+ *   const power = samples.find((s) => s.measurand === 'Power.Active.Import');
+ *   smartCharging.update(identity, power?.value, energy?.energyWh);
+ * });
+ * ```
+ */
+export function meterValuesPlugin(
+  options?: MeterValuesPluginOptions,
+): MeterValuesPlugin {
+  const events = new EventEmitter();
+  /** Energy totals per station, by transactionId */
+  const energy = new Map<string, Map<string, EnergyState>>();
+  /**
+   * Incoming 1.6 StartTransaction params by messageId, per connection — a
+   * late disconnect of a replaced connection must not drop the new one's.
+   */
+  const pendingStarts = new Map<
+    OCPPServerClient,
+    Map<string, StartTransactionRequest>
+  >();
+
+  function emit<K extends keyof MeterValuesEvents>(
+    event: K,
+    ...args: MeterValuesEvents[K]
+  ): void {
+    events.emit(event, ...args);
+  }
+
+  function stateFor(identity: string, transactionId: string): EnergyState {
+    let station = energy.get(identity);
+    if (!station) {
+      station = new Map();
+      energy.set(identity, station);
+    }
+    let state = station.get(transactionId);
+    if (!state) {
+      state = createEnergyState();
+      station.set(transactionId, state);
+    }
+    return state;
+  }
+
+  function finish(identity: string, transactionId: string) {
+    const station = energy.get(identity);
+    station?.delete(transactionId);
+    if (station?.size === 0) energy.delete(identity);
+  }
+
+  function report(
+    base: Omit<MeterValuesReport, "samples" | "energy">,
+    samples: MeterSample[],
+    ended = false,
+  ): void {
+    let totals: EnergyState | undefined;
+    if (base.transactionId !== undefined) {
+      const state = stateFor(base.identity, base.transactionId);
+      const { anomalies } = accumulateEnergy(state, samples, options);
+      for (const anomaly of anomalies) {
+        emit("energyAnomaly", {
+          ...anomaly,
+          identity: base.identity,
+          transactionId: base.transactionId,
+        });
+      }
+      totals = { ...state };
+      if (ended) finish(base.identity, base.transactionId);
+    }
+    if (samples.length === 0 && !options?.emitEmpty) return;
+    emit("meterValues", { ...base, samples, energy: totals });
+  }
+
+  return {
+    name: "meter-values",
+
+    getEnergy(identity, transactionId) {
+      const state = energy.get(identity)?.get(String(transactionId));
+      return state ? { ...state } : undefined;
+    },
+
+    on(event, listener) {
+      events.on(event, listener as (...args: unknown[]) => void);
+      return this;
+    },
+
+    off(event, listener) {
+      events.off(event, listener as (...args: unknown[]) => void);
+      return this;
+    },
+
+    onDisconnect(client) {
+      pendingStarts.delete(client);
+    },
+
+    onMessage(client, { direction, ctx }) {
+      const { identity } = client;
+      const protocol = client.protocol ?? "";
+
+      // The 1.6 transactionId only exists once the CSMS has answered
+      if (
+        direction === "OUT" &&
+        (ctx.type === "outgoing_result" || ctx.type === "outgoing_error")
+      ) {
+        const pending = pendingStarts.get(client);
+        const start = pending?.get(ctx.messageId);
+        if (!start) return;
+        pending?.delete(ctx.messageId);
+        if (ctx.type === "outgoing_error") return;
+
+        const transactionId = (ctx.payload as StartTransactionResponse)
+          ?.transactionId;
+        if (typeof transactionId !== "number") return;
+        report(
+          {
+            identity,
+            protocol,
+            method: "StartTransaction",
+            transactionId: String(transactionId),
+            connectorId: start.connectorId,
+          },
+          [
+            energyRegisterSample(
+              start.meterStart,
+              start.timestamp,
+              "Transaction.Begin",
+            ),
+          ],
+        );
+        return;
+      }
+
+      if (direction !== "IN" || ctx.type !== "incoming_call") return;
+      const params = ctx.params as Record<string, unknown>;
+
+      switch (ctx.method) {
+        case "BootNotification":
+          // 1.6 transactions never survive a reboot. A 2.x one may, but
+          // one that never reports Ended would be kept forever — a resumed
+          // transaction starts counting afresh from its next reading.
+          energy.delete(identity);
+          return;
+
+        case "StartTransaction": {
+          let pending = pendingStarts.get(client);
+          if (!pending) {
+            pending = new Map();
+            pendingStarts.set(client, pending);
+          }
+          pending.set(
+            ctx.messageId,
+            params as unknown as StartTransactionRequest,
+          );
+          return;
+        }
+
+        case "MeterValues": {
+          const samples = normalizeMeterValues(
+            meterValuesOf(ctx.method, params),
+          );
+          const txId = params.transactionId;
+          report(
+            {
+              identity,
+              protocol,
+              method: ctx.method,
+              transactionId: txId === undefined ? undefined : String(txId),
+              ...(protocol === "ocpp1.6"
+                ? { connectorId: params.connectorId as number }
+                : { evseId: params.evseId as number }),
+            },
+            samples,
+          );
+          return;
+        }
+
+        case "StopTransaction": {
+          const stop = params as unknown as StopTransactionRequest;
+          const samples = normalizeMeterValues(stop.transactionData);
+          samples.push(
+            energyRegisterSample(
+              stop.meterStop,
+              stop.timestamp,
+              "Transaction.End",
+            ),
+          );
+          report(
+            {
+              identity,
+              protocol,
+              method: ctx.method,
+              transactionId: String(stop.transactionId),
+            },
+            samples,
+            true,
+          );
+          return;
+        }
+
+        case "TransactionEvent": {
+          const event = params as unknown as TransactionEventRequest;
+          report(
+            {
+              identity,
+              protocol,
+              method: ctx.method,
+              transactionId: event.transactionInfo?.transactionId,
+              evseId: event.evse?.id,
+              connectorId: event.evse?.connectorId,
+            },
+            normalizeMeterValues(event.meterValue),
+            event.eventType === "Ended",
+          );
+          return;
+        }
+      }
+    },
+  };
+}
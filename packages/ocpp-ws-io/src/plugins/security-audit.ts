@@ -0,0 +1,214 @@
+import type {
+  SecurityEventNotificationRequest,
+  SecurityEventNotificationResponse,
+} from "../generated/ocpp201.js";
+import {
+  classifySecurityEvent,
+  fromSecurityEventNotification,
+} from "../security-events.js";
+import type { OCPPServer } from "../server.js";
+import type {
+  OCPPPlugin,
+  SecurityEvent,
+  SecurityEventCategory,
+  SecuritySeverity,
+} from "../types.js";
+import { createId } from "../util.js";
+
+// ─── Audit Types ────────────────────────────────────────────────
+
+/** A security event as persisted: always classified. */
+export interface SecurityAuditRecord extends SecurityEvent {
+  id: string;
+  source: "server" | "station";
+  severity: SecuritySeverity;
+  category: SecurityEventCategory;
+}
+
+export interface SecurityAuditQuery {
+  identity?: string;
+  source?: "server" | "station";
+  category?: SecurityEventCategory;
+  /** Only records at or above this severity */
+  minSeverity?: SecuritySeverity;
+  /** ISO timestamp — only records at or after it */
+  since?: string;
+  /** Newest records first, at most this many (default: 100) */
+  limit?: number;
+}
+
+/**
+ * Pluggable destination for security audit records — a database table,
+ * a SIEM forwarder, an append-only file.
+ */
+export interface SecurityAuditSink {
+  write(record: SecurityAuditRecord): void | Promise<void>;
+  /** Optional — backs `securityAuditPlugin().query()` */
+  query?(filter: SecurityAuditQuery): Promise<SecurityAuditRecord[]>;
+}
+
+export interface SecurityAuditPluginOptions {
+  /** Where records go (default: in-memory, last 10000) */
+  sink?: SecurityAuditSink;
+  /** Answer `SecurityEventNotification` when the application has no handler (default: true) */
+  handleMessages?: boolean;
+  logger?: { warn: (...args: unknown[]) => void };
+}
+
+/**
+ * Extended OCPPPlugin with access to the audit trail.
+ */
+export interface SecurityAuditPlugin extends OCPPPlugin {
+  /** @throws {Error} if the sink doesn't support queries */
+  query(filter?: SecurityAuditQuery): Promise<SecurityAuditRecord[]>;
+}
+
+const SEVERITY_RANK: Record<SecuritySeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+// ─── In-Memory Sink ─────────────────────────────────────────────
+
+export class InMemorySecurityAuditSink implements SecurityAuditSink {
+  private _records: SecurityAuditRecord[] = [];
+
+  constructor(private readonly _maxEntries = 10_000) {}
+
+  write(record: SecurityAuditRecord): void {
+    this._records.push(structuredClone(record));
+    if (this._records.length > this._maxEntries) this._records.shift();
+  }
+
+  async query(filter: SecurityAuditQuery = {}): Promise<SecurityAuditRecord[]> {
+    const minRank = SEVERITY_RANK[filter.minSeverity ?? "low"];
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    const limit = filter.limit ?? 100;
+    const found: SecurityAuditRecord[] = [];
+    for (let i = this._records.length - 1; i >= 0; i--) {
+      if (found.length >= limit) break;
+      const r = this._records[i];
+      if (filter.identity !== undefined && r.identity !== filter.identity) {
+        continue;
+      }
+      if (filter.source && r.source !== filter.source) continue;
+      if (filter.category && r.category !== filter.category) continue;
+      if (SEVERITY_RANK[r.severity] < minRank) continue;
+      if (since !== undefined && Date.parse(r.timestamp) < since) continue;
+      found.push(structuredClone(r));
+    }
+    return found;
+  }
+}
+
+// ─── Plugin ─────────────────────────────────────────────────────
+
+/** Normalize a server- or station-detected event into an audit record. */
+export function toSecurityAuditRecord(
+  event: SecurityEvent,
+): SecurityAuditRecord {
+  const { category, severity } = classifySecurityEvent(event);
+  return {
+    ...event,
+    id: createId(),
+    source: event.source ?? "server",
+    severity,
+    category,
+  };
+}
+
+/**
+ * Unified security audit trail.
+ *
+ * Station `SecurityEventNotification`s (OCPP 1.6 security extension and
+ * 2.x) are turned into `STATION_SECURITY_EVENT` security events and
+ * published through `server.emitSecurityEvent()`, so `securityEvent`
+ * listeners and every plugin's `onSecurityEvent` see them next to the
+ * server's own events. Every security event is then classified (severity
+ * and category) and written to the sink.
+ *
+ * @example
+ * ```ts
+ * import { securityAuditPlugin } from 'ocpp-ws-io/plugins';
+ *
+ * const audit = securityAuditPlugin({ sink: mySiemSink });
+ * server.plugin(audit);
+ *
+ * const critical = await audit.query({ minSeverity: 'critical' });
+ * ```
+ */
+export function securityAuditPlugin(
+  options: SecurityAuditPluginOptions = {},
+): SecurityAuditPlugin {
+  const sink = options.sink ?? new InMemorySecurityAuditSink();
+  const handleMessages = options.handleMessages ?? true;
+  let server: OCPPServer | null = null;
+
+  // Subscribed to the server event rather than `onSecurityEvent` so that
+  // events emitted directly on the server (e.g. by anomalyPlugin) are
+  // recorded too
+  const record = (event: SecurityEvent) => {
+    const entry = toSecurityAuditRecord(event);
+    Promise.resolve()
+      .then(() => sink.write(entry))
+      .catch((err) => {
+        options.logger?.warn("security-audit: sink write failed", {
+          type: entry.type,
+          identity: entry.identity,
+          error: (err as Error).message,
+        });
+      });
+  };
+
+  return {
+    name: "security-audit",
+
+    async query(filter = {}) {
+      if (!sink.query) {
+        throw new Error("The security audit sink does not support queries");
+      }
+      return sink.query(filter);
+    },
+
+    onInit(srv) {
+      server = srv;
+      srv.on("securityEvent", record);
+    },
+
+    onConnection(client) {
+      if (!handleMessages || client.hasHandler("SecurityEventNotification")) {
+        return;
+      }
+      client.handle(
+        "SecurityEventNotification",
+        () => ({}) satisfies SecurityEventNotificationResponse,
+      );
+    },
+
+    onMessage(client, { direction, ctx }) {
+      if (
+        direction !== "IN" ||
+        ctx.type !== "incoming_call" ||
+        ctx.method !== "SecurityEventNotification"
+      ) {
+        return;
+      }
+      const params = ctx.params as SecurityEventNotificationRequest;
+      if (typeof params?.type !== "string") return;
+      server?.emitSecurityEvent(
+        fromSecurityEventNotification(
+          client.identity,
+          params,
+          client.handshake.remoteAddress,
+        ),
+      );
+    },
+
+    onClose() {
+      server?.off("securityEvent", record);
+      server = null;
+    },
+  };
+}
@@ -0,0 +1,646 @@
+import { EventEmitter } from "node:events";
+import type {
+  MeterValuesRequest,
+  StartTransactionRequest,
+  StartTransactionResponse,
+  StopTransactionRequest,
+} from "../generated/ocpp16.js";
+import type { TransactionEventRequest } from "../generated/ocpp201.js";
+import {
+  accumulateEnergy,
+  type EnergyAccumulatorOptions,
+  type EnergyAnomaly,
+  type EnergyState,
+  energyRegisterSample,
+  type MeterSample,
+  normalizeMeterValues,
+} from "../meter-values.js";
+import type { OCPPServerClient } from "../server-client.js";
+import type { OCPPPlugin } from "../types.js";
+
+// ─── Transaction Types ──────────────────────────────────────────
+
+/**
+ * - `active`   — started and not yet ended
+ * - `ended`    — StopTransaction / TransactionEvent(Ended) received
+ * - `orphaned` — abandoned by the station (reboot, superseded start)
+ */
+export type TrackedTransactionStatus = "active" | "ended" | "orphaned";
+
+/** A transaction normalized across OCPP 1.6, 2.0.1 and 2.1. */
+export interface TrackedTransaction {
+  /** 1.6 integer ids are stringified */
+  transactionId: string;
+  identity: string;
+  protocol: string;
+  status: TrackedTransactionStatus;
+  /** 2.x EVSE id (1.6 has connectors only) */
+  evseId?: number;
+  connectorId?: number;
+  idToken?: string;
+  /** Station timestamp of the start */
+  startedAt: string;
+  endedAt?: string;
+  /** Energy register at start, in Wh */
+  meterStartWh?: number;
+  /** Latest energy register reading, in Wh */
+  meterLastWh?: number;
+  /** Energy delivered, counted across register rollovers, in Wh */
+  energyWh?: number;
+  /** Energy register rollovers seen during the transaction */
+  meterRollovers?: number;
+  /** 2.x charging state, e.g. `Charging` / `SuspendedEV` */
+  chargingState?: string;
+  stoppedReason?: string;
+  /** 2.x: highest `seqNo` seen */
+  lastSeqNo?: number;
+  /** 2.x: `seqNo` values skipped so far and not yet received */
+  missingSeqNos: number[];
+  /** Epoch ms of the last update */
+  updatedAt: number;
+}
+
+export type TransactionAnomalyKind =
+  | "seqNoGap"
+  | "duplicateStart"
+  | "orphaned"
+  | "unknownTransaction"
+  | "meterRollover"
+  | "meterDecreased";
+
+export interface TransactionAnomaly {
+  kind: TransactionAnomalyKind;
+  identity: string;
+  transactionId: string;
+  /** `seqNoGap`: newly detected missing seqNos */
+  missingSeqNos?: number[];
+  /** `orphaned`: the transaction that replaced it, if any */
+  supersededBy?: string;
+  /** `meterRollover` / `meterDecreased`: the register jump */
+  energy?: EnergyAnomaly;
+  timestamp: string;
+}
+
+export interface TransactionTrackerEvents {
+  transactionStarted: [TrackedTransaction];
+  transactionUpdated: [TrackedTransaction];
+  /** Also fired for orphaned transactions (`status: "orphaned"`) */
+  transactionEnded: [TrackedTransaction];
+  transactionAnomaly: [TransactionAnomaly];
+}
+
+/**
+ * Pluggable persistence for tracked transactions. Share one backend
+ * (e.g. Redis) across nodes so every node sees the same state.
+ */
+export interface TransactionStore {
+  get(
+    identity: string,
+    transactionId: string,
+  ): Promise<TrackedTransaction | null>;
+  set(transaction: TrackedTransaction): Promise<void>;
+  /** Transactions of a station with `status: "active"` */
+  listActive(identity: string): Promise<TrackedTransaction[]>;
+  /**
+   * Allocate a 1.6 `transactionId`. Must be unique across every node
+   * sharing the store (e.g. Redis `INCR`).
+   */
+  nextTransactionId(): Promise<number>;
+}
+
+export interface TransactionTrackerOptions extends EnergyAccumulatorOptions {
+  /** Persistence backend (default: in-memory) */
+  store?: TransactionStore;
+  /**
+   * Register default `StartTransaction`, `StopTransaction`, `MeterValues`
+   * and `TransactionEvent` handlers when the application has none. The
+   * StartTransaction handler accepts every idTag and allocates ids from
+   * the store. (default: false)
+   */
+  handleMessages?: boolean;
+  /** Logger for store failures */
+  logger?: { warn: (...args: unknown[]) => void };
+}
+
+/**
+ * Extended OCPPPlugin with transaction accessors and typed events.
+ */
+export interface TransactionTrackerPlugin extends OCPPPlugin {
+  getTransaction(
+    identity: string,
+    transactionId: string | number,
+  ): Promise<TrackedTransaction | null>;
+  listActive(identity: string): Promise<TrackedTransaction[]>;
+  on<K extends keyof TransactionTrackerEvents>(
+    event: K,
+    listener: (...args: TransactionTrackerEvents[K]) => void,
+  ): this;
+  off<K extends keyof TransactionTrackerEvents>(
+    event: K,
+    listener: (...args: TransactionTrackerEvents[K]) => void,
+  ): this;
+}
+
+// ─── In-Memory Store ────────────────────────────────────────────
+
+export interface InMemoryTransactionStoreOptions {
+  /** Ended/orphaned transactions kept for lookups (default: 10000) */
+  maxFinished?: number;
+}
+
+export class InMemoryTransactionStore implements TransactionStore {
+  private _active = new Map<string, TrackedTransaction>();
+  private _finished = new Map<string, TrackedTransaction>();
+  private _maxFinished: number;
+  private _lastId = 0;
+
+  constructor(options?: InMemoryTransactionStoreOptions) {
+    this._maxFinished = options?.maxFinished ?? 10_000;
+  }
+
+  async get(
+    identity: string,
+    transactionId: string,
+  ): Promise<TrackedTransaction | null> {
+    const key = `${identity}\u0000${transactionId}`;
+    const tx = this._active.get(key) ?? this._finished.get(key);
+    return tx ? structuredClone(tx) : null;
+  }
+
+  async set(transaction: TrackedTransaction): Promise<void> {
+    const key = `${transaction.identity}\u0000${transaction.transactionId}`;
+    this._active.delete(key);
+    this._finished.delete(key);
+    if (transaction.status === "active") {
+      this._active.set(key, structuredClone(transaction));
+      return;
+    }
+    this._finished.set(key, structuredClone(transaction));
+    // Maps iterate in insertion order — the first key is the oldest
+    while (this._finished.size > this._maxFinished) {
+      const oldest = this._finished.keys().next().value as string;
+      this._finished.delete(oldest);
+    }
+  }
+
+  async listActive(identity: string): Promise<TrackedTransaction[]> {
+    return Array.from(this._active.values())
+      .filter((tx) => tx.identity === identity)
+      .map((tx) => structuredClone(tx));
+  }
+
+  async nextTransactionId(): Promise<number> {
+    return ++this._lastId;
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/** Cap on seqNos recorded per gap, so a bogus jump can't bloat the record */
+const MAX_GAP_RECORDED = 1000;
+
+/** Whether a 1.6 StartTransaction repeats the start of `tx` (a retry). */
+export function isSameStart(
+  tx: TrackedTransaction,
+  params: StartTransactionRequest,
+): boolean {
+  return (
+    tx.connectorId === params.connectorId &&
+    tx.idToken === params.idTag &&
+    tx.meterStartWh === params.meterStart &&
+    tx.startedAt === params.timestamp
+  );
+}
+
+// ─── Plugin ─────────────────────────────────────────────────────
+
+/**
+ * Normalized transaction bookkeeping for OCPP 1.6, 2.0.1 and 2.1.
+ *
+ * Tracks 1.6 `StartTransaction` / `MeterValues` / `StopTransaction` and
+ * 2.x `TransactionEvent` into one {@link TrackedTransaction} model with
+ * energy totals. Flags skipped `seqNo` values, duplicate starts and
+ * transactions orphaned by a reboot as `transactionAnomaly` events.
+ *
+ * @example
+ * ```ts
+ * import { transactionTrackerPlugin } from 'ocpp-ws-io/plugins';
+ *
+ * const tracker = transactionTrackerPlugin({ store: myRedisStore });
+ * server.plugin(tracker);
+ *
+ * tracker.on('transactionEnded', (tx) => {
+ *   billing.charge(tx.idToken, tx.energyWh);
+ * });
+ * tracker.on('transactionAnomaly', (a) => console.warn(a.kind, a));
+ * ```
+ */
+export function transactionTrackerPlugin(
+  options?: TransactionTrackerOptions,
+): TransactionTrackerPlugin {
+  const store = options?.store ?? new InMemoryTransactionStore();
+  const events = new EventEmitter();
+
+  function emit<K extends keyof TransactionTrackerEvents>(
+    event: K,
+    ...args: TransactionTrackerEvents[K]
+  ): void {
+    events.emit(event, ...args);
+  }
+
+  /** Per-station work chain — keeps read-modify-write updates ordered */
+  const chains = new Map<string, Promise<void>>();
+  /**
+   * Incoming 1.6 StartTransaction params by messageId, per connection — a
+   * late disconnect of a replaced connection must not drop the new one's.
+   */
+  const pendingStarts = new Map<
+    OCPPServerClient,
+    Map<string, StartTransactionRequest>
+  >();
+
+  function enqueue(identity: string, work: () => Promise<void>): void {
+    const prev = chains.get(identity) ?? Promise.resolve();
+    const next = prev.then(work).catch((err) => {
+      options?.logger?.warn("transactionTracker: update failed", {
+        identity,
+        error: (err as Error).message,
+      });
+    });
+    chains.set(identity, next);
+    void next.then(() => {
+      if (chains.get(identity) === next) chains.delete(identity);
+    });
+  }
+
+  function anomaly(
+    kind: TransactionAnomalyKind,
+    tx: Pick<TrackedTransaction, "identity" | "transactionId">,
+    extra?: Partial<TransactionAnomaly>,
+  ): void {
+    emit("transactionAnomaly", {
+      kind,
+      identity: tx.identity,
+      transactionId: tx.transactionId,
+      ...extra,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  async function orphan(
+    tx: TrackedTransaction,
+    supersededBy?: string,
+  ): Promise<void> {
+    tx.status = "orphaned";
+    tx.endedAt = new Date().toISOString();
+    tx.updatedAt = Date.now();
+    await store.set(tx);
+    anomaly("orphaned", tx, supersededBy ? { supersededBy } : undefined);
+    emit("transactionEnded", tx);
+  }
+
+  /** Fold register samples into the transaction's energy totals. */
+  function applyMeter(tx: TrackedTransaction, samples: MeterSample[]): void {
+    const state: EnergyState = {
+      startWh: tx.meterStartWh,
+      lastWh: tx.meterLastWh,
+      energyWh: tx.energyWh ?? 0,
+      rollovers: tx.meterRollovers ?? 0,
+    };
+    const { anomalies } = accumulateEnergy(state, samples, options);
+    tx.meterStartWh = state.startWh;
+    tx.meterLastWh = state.lastWh;
+    if (state.startWh !== undefined) tx.energyWh = state.energyWh;
+    if (state.rollovers > 0) tx.meterRollovers = state.rollovers;
+    for (const energy of anomalies) {
+      anomaly(
+        energy.kind === "rollover" ? "meterRollover" : "meterDecreased",
+        tx,
+        { energy },
+      );
+    }
+  }
+
+  // ── OCPP 1.6 ──
+
+  async function onStartTransaction(
+    identity: string,
+    protocol: string,
+    params: StartTransactionRequest,
+    transactionId: number,
+  ): Promise<void> {
+    const id = String(transactionId);
+    if (await store.get(identity, id)) return; // Already tracked
+
+    for (const active of await store.listActive(identity)) {
+      if (active.connectorId !== params.connectorId) continue;
+      // A retried start that got a fresh id, or a lost StopTransaction —
+      // either way the station no longer uses the old transaction
+      if (isSameStart(active, params)) anomaly("duplicateStart", active);
+      await orphan(active, id);
+    }
+
+    const tx: TrackedTransaction = {
+      transactionId: id,
+      identity,
+      protocol,
+      status: "active",
+      connectorId: params.connectorId,
+      idToken: params.idTag,
+      startedAt: params.timestamp,
+      missingSeqNos: [],
+      updatedAt: Date.now(),
+    };
+    applyMeter(tx, [
+      energyRegisterSample(
+        params.meterStart,
+        params.timestamp,
+        "Transaction.Begin",
+      ),
+    ]);
+    await store.set(tx);
+    emit("transactionStarted", tx);
+  }
+
+  async function onMeterValues16(
+    identity: string,
+    params: MeterValuesRequest,
+  ): Promise<void> {
+    if (params.transactionId === undefined) return;
+    const tx = await store.get(identity, String(params.transactionId));
+    if (!tx || tx.status !== "active") return;
+    applyMeter(tx, normalizeMeterValues(params.meterValue));
+    tx.updatedAt = Date.now();
+    await store.set(tx);
+    emit("transactionUpdated", tx);
+  }
+
+  async function onStopTransaction(
+    identity: string,
+    protocol: string,
+    params: StopTransactionRequest,
+  ): Promise<void> {
+    const id = String(params.transactionId);
+    let tx = await store.get(identity, id);
+    if (tx?.status === "ended") return; // Retransmitted stop
+    if (!tx) {
+      anomaly("unknownTransaction", { identity, transactionId: id });
+      tx = {
+        transactionId: id,
+        identity,
+        protocol,
+        status: "active",
+        idToken: params.idTag,
+        startedAt: params.timestamp,
+        missingSeqNos: [],
+        updatedAt: 0,
+      };
+    }
+    applyMeter(tx, [
+      ...normalizeMeterValues(params.transactionData),
+      energyRegisterSample(
+        params.meterStop,
+        params.timestamp,
+        "Transaction.End",
+      ),
+    ]);
+    tx.status = "ended";
+    tx.endedAt = params.timestamp;
+    tx.stoppedReason = params.reason ?? "Local";
+    tx.updatedAt = Date.now();
+    await store.set(tx);
+    emit("transactionEnded", tx);
+  }
+
+  // ── OCPP 2.0.1 / 2.1 ──
+
+  /**
+   * Record `seqNo`:
+   * - `next`      — the newest event so far
+   * - `late`      — fills a previously detected gap
+   * - `duplicate` — retransmission of an event already seen
+   */
+  function trackSeqNo(
+    tx: TrackedTransaction,
+    seqNo: number,
+  ): "next" | "late" | "duplicate" {
+    if (tx.lastSeqNo === undefined) {
+      tx.lastSeqNo = seqNo;
+      return "next";
+    }
+    if (seqNo <= tx.lastSeqNo) {
+      const idx = tx.missingSeqNos.indexOf(seqNo);
+      if (idx === -1) return "duplicate";
+      tx.missingSeqNos.splice(idx, 1);
+      return "late";
+    }
+    const gap: number[] = [];
+    for (
+      let n = tx.lastSeqNo + 1;
+      n < seqNo && gap.length < MAX_GAP_RECORDED;
+      n++
+    ) {
+      gap.push(n);
+    }
+    tx.lastSeqNo = seqNo;
+    if (gap.length > 0) {
+      tx.missingSeqNos.push(...gap);
+      anomaly("seqNoGap", tx, { missingSeqNos: gap });
+    }
+    return "next";
+  }
+
+  async function onTransactionEvent(
+    identity: string,
+    protocol: string,
+    params: TransactionEventRequest,
+  ): Promise<void> {
+    const id = params.transactionInfo.transactionId;
+    let tx = await store.get(identity, id);
+
+    if (params.eventType === "Started" && tx) {
+      if (tx.lastSeqNo !== params.seqNo) anomaly("duplicateStart", tx);
+      return;
+    }
+    if (!tx) {
+      if (params.eventType !== "Started") {
+        // The Started event was lost or predates the tracker
+        anomaly("unknownTransaction", { identity, transactionId: id });
+      }
+      tx = {
+        transactionId: id,
+        identity,
+        protocol,
+        status: "active",
+        startedAt: params.timestamp,
+        missingSeqNos: [],
+        updatedAt: 0,
+      };
+    } else if (tx.status === "ended") {
+      return;
+    }
+
+    const isNew = tx.updatedAt === 0;
+    const wasOrphaned = tx.status === "orphaned";
+    const order = trackSeqNo(tx, params.seqNo);
+    if (order === "duplicate") return;
+
+    if (params.evse) {
+      tx.evseId = params.evse.id;
+      if (params.evse.connectorId !== undefined) {
+        tx.connectorId = params.evse.connectorId;
+      }
+    }
+    if (params.idToken) tx.idToken = params.idToken.idToken;
+    if (params.transactionInfo.chargingState) {
+      tx.chargingState = params.transactionInfo.chargingState;
+    }
+    // A late event's readings predate the register we already hold
+    if (order === "next")
+      applyMeter(tx, normalizeMeterValues(params.meterValue));
+    tx.updatedAt = Date.now();
+
+    if (params.eventType === "Ended") {
+      tx.status = "ended";
+      tx.endedAt = params.timestamp;
+      tx.stoppedReason = params.transactionInfo.stoppedReason ?? "Local";
+      await store.set(tx);
+      if (isNew) emit("transactionStarted", tx);
+      emit("transactionEnded", tx);
+      return;
+    }
+
+    // 2.x stations may resume a transaction after a reboot
+    tx.status = "active";
+    await store.set(tx);
+    emit(
+      isNew || wasOrphaned ? "transactionStarted" : "transactionUpdated",
+      tx,
+    );
+  }
+
+  async function onBoot(identity: string): Promise<void> {
+    for (const tx of await store.listActive(identity)) {
+      await orphan(tx);
+    }
+  }
+
+  const plugin: TransactionTrackerPlugin = {
+    name: "transaction-tracker",
+
+    getTransaction: (identity, transactionId) =>
+      store.get(identity, String(transactionId)),
+    listActive: (identity) => store.listActive(identity),
+
+    on(event, listener) {
+      events.on(event, listener as (...args: unknown[]) => void);
+      return this;
+    },
+
+    off(event, listener) {
+      events.off(event, listener as (...args: unknown[]) => void);
+      return this;
+    },
+
+    onConnection(client) {
+      if (!options?.handleMessages) return;
+
+      if (!client.hasHandler("StartTransaction")) {
+        client.handle(
+          "StartTransaction",
+          async ({ params }): Promise<StartTransactionResponse> => {
+            const start = params as StartTransactionRequest;
+            // Answer a retried start with the id it was already given
+            const active = await store.listActive(client.identity);
+            const existing = active.find((tx) => isSameStart(tx, start));
+            return {
+              transactionId: existing
+                ? Number(existing.transactionId)
+                : await store.nextTransactionId(),
+              idTagInfo: { status: "Accepted" },
+            };
+          },
+        );
+      }
+      for (const method of [
+        "StopTransaction",
+        "MeterValues",
+        "TransactionEvent",
+      ]) {
+        if (!client.hasHandler(method)) client.handle(method, () => ({}));
+      }
+    },
+
+    onDisconnect(client) {
+      pendingStarts.delete(client);
+    },
+
+    onMessage(client, { direction, ctx }) {
+      const { identity } = client;
+      const protocol = client.protocol ?? "";
+
+      if (direction === "IN" && ctx.type === "incoming_call") {
+        switch (ctx.method) {
+          case "BootNotification":
+            enqueue(identity, () => onBoot(identity));
+            break;
+          case "StartTransaction": {
+            let pending = pendingStarts.get(client);
+            if (!pending) {
+              pending = new Map();
+              pendingStarts.set(client, pending);
+            }
+            pending.set(ctx.messageId, ctx.params as StartTransactionRequest);
+            break;
+          }
+          case "MeterValues":
+            if (protocol !== "ocpp1.6") break;
+            enqueue(identity, () =>
+              onMeterValues16(identity, ctx.params as MeterValuesRequest),
+            );
+            break;
+          case "StopTransaction":
+            enqueue(identity, () =>
+              onStopTransaction(
+                identity,
+                protocol,
+                ctx.params as StopTransactionRequest,
+              ),
+            );
+            break;
+          case "TransactionEvent":
+            enqueue(identity, () =>
+              onTransactionEvent(
+                identity,
+                protocol,
+                ctx.params as TransactionEventRequest,
+              ),
+            );
+            break;
+        }
+        return;
+      }
+
+      // The 1.6 transactionId only exists once the CSMS has answered
+      if (
+        direction === "OUT" &&
+        (ctx.type === "outgoing_result" || ctx.type === "outgoing_error")
+      ) {
+        const pending = pendingStarts.get(client);
+        const params = pending?.get(ctx.messageId);
+        if (!params) return;
+        pending?.delete(ctx.messageId);
+        if (ctx.type === "outgoing_error") return;
+
+        const transactionId = (ctx.payload as StartTransactionResponse)
+          ?.transactionId;
+        if (typeof transactionId !== "number") return;
+        enqueue(identity, () =>
+          onStartTransaction(identity, protocol, params, transactionId),
+        );
+      }
+    },
+  };
+
+  return plugin;
+}
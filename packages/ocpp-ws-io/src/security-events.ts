@@ -0,0 +1,99 @@
+import type { SecurityEventNotificationRequest } from "./generated/ocpp201.js";
+import type {
+  SecurityEvent,
+  SecurityEventCategory,
+  SecuritySeverity,
+} from "./types.js";
+
+// ─── Security Event Taxonomy ────────────────────────────────────
+//
+// One classification for server-detected events (`SecurityEvent.type`)
+// and station-reported ones (`SecurityEventNotification.type`, OCPP 2.0.1
+// Appendix 1 and the 1.6 Security Whitepaper, which share most names).
+
+type Classification = [SecurityEventCategory, SecuritySeverity];
+
+const SERVER_EVENTS: Record<
+  Exclude<SecurityEvent["type"], "STATION_SECURITY_EVENT">,
+  Classification
+> = {
+  AUTH_FAILED: ["authentication", "medium"],
+  RATE_LIMIT_EXCEEDED: ["rate_limit", "low"],
+  UPGRADE_ABORTED: ["connection", "low"],
+  CONNECTION_RATE_LIMIT: ["rate_limit", "medium"],
+  CONNECTION_LIMIT: ["connection", "medium"],
+  INVALID_PAYLOAD: ["protocol", "low"],
+  ANOMALY_RAPID_RECONNECT: ["anomaly", "high"],
+  ANOMALY_AUTH_BRUTE_FORCE: ["anomaly", "high"],
+  ANOMALY_MESSAGE_FUZZING: ["anomaly", "high"],
+  ANOMALY_IDENTITY_COLLISION: ["anomaly", "high"],
+  CLIENT_CERT_REVOKED: ["certificate", "high"],
+  CLIENT_CERT_MISMATCH: ["certificate", "high"],
+  IP_BLOCKED: ["connection", "medium"],
+};
+
+const STATION_EVENTS: Record<string, Classification> = {
+  FirmwareUpdated: ["firmware", "medium"],
+  FailedToAuthenticateAtCsms: ["authentication", "high"],
+  FailedToAuthenticateAtCentralSystem: ["authentication", "high"],
+  CsmsFailedToAuthenticate: ["authentication", "high"],
+  CentralSystemFailedToAuthenticate: ["authentication", "high"],
+  SettingSystemTime: ["system", "medium"],
+  StartupOfTheDevice: ["system", "low"],
+  ResetOrReboot: ["system", "low"],
+  SecurityLogWasCleared: ["tamper", "critical"],
+  ReconfigurationOfSecurityParameters: ["system", "medium"],
+  MemoryExhaustion: ["system", "high"],
+  InvalidMessages: ["protocol", "medium"],
+  AttemptedReplayAttacks: ["protocol", "critical"],
+  TamperDetectionActivated: ["tamper", "critical"],
+  InvalidFirmwareSignature: ["firmware", "high"],
+  InvalidFirmwareSigningCertificate: ["firmware", "high"],
+  InvalidCsmsCertificate: ["certificate", "high"],
+  InvalidCentralSystemCertificate: ["certificate", "high"],
+  InvalidChargingStationCertificate: ["certificate", "high"],
+  InvalidChargePointCertificate: ["certificate", "high"],
+  InvalidTLSVersion: ["certificate", "medium"],
+  InvalidTLSCipherSuite: ["certificate", "medium"],
+  MaintenanceLoginAccepted: ["authentication", "low"],
+  MaintenanceLoginFailed: ["authentication", "high"],
+};
+
+/** Category and default severity of a security event. */
+export function classifySecurityEvent(event: SecurityEvent): {
+  category: SecurityEventCategory;
+  severity: SecuritySeverity;
+} {
+  const [category, severity] =
+    event.type === "STATION_SECURITY_EVENT"
+      ? (STATION_EVENTS[String(event.details?.stationType)] ?? [
+          "other",
+          "medium",
+        ])
+      : (SERVER_EVENTS[event.type] ?? ["other", "medium"]);
+  return { category, severity: event.severity ?? severity };
+}
+
+/**
+ * Turn a station's `SecurityEventNotification` (1.6 or 2.x) into a
+ * `SecurityEvent`. The station's event type goes to `details.stationType`.
+ */
+export function fromSecurityEventNotification(
+  identity: string,
+  params: SecurityEventNotificationRequest,
+  ip?: string,
+): SecurityEvent {
+  const event: SecurityEvent = {
+    type: "STATION_SECURITY_EVENT",
+    source: "station",
+    identity,
+    ip,
+    timestamp: params.timestamp,
+    details: {
+      stationType: params.type,
+      ...(params.techInfo !== undefined && { techInfo: params.techInfo }),
+    },
+  };
+  event.severity = classifySecurityEvent(event).severity;
+  return event;
+}
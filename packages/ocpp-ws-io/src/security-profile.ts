@@ -0,0 +1,406 @@
+import type {
+  ChangeConfigurationRequest as ChangeConfigurationRequest16,
+  ChangeConfigurationResponse,
+} from "./generated/ocpp16.js";
+import type {
+  GetVariablesRequest,
+  GetVariablesResponse,
+  NetworkConnectionProfileType,
+  ResetRequest,
+  ResetResponse,
+  SetNetworkProfileRequest,
+  SetNetworkProfileResponse,
+  SetVariablesRequest,
+  SetVariablesResponse,
+} from "./generated/ocpp201.js";
+import type { OCPPServer } from "./server.js";
+import type { OCPPServerClient } from "./server-client.js";
+import {
+  type CallOptions,
+  ConnectionState,
+  type LoggerLike,
+  type SecurityProfile,
+} from "./types.js";
+
+// ─── Security Profile Upgrade ───────────────────────────────────
+//
+// Moves a connected station to a higher OCPP security profile:
+//
+//   2.x: SetNetworkProfile into a free slot → SetVariables
+//        NetworkConfigurationPriority with the new slot first →
+//        SetVariables SecurityCtrlr.BasicAuthPassword → Reset OnIdle
+//   1.6: ChangeConfiguration AuthorizationKey → ChangeConfiguration
+//        SecurityProfile (the station reconnects by itself)
+//
+// The upgrade succeeds once the station reconnects with the target
+// profile (`HandshakeInfo.securityProfile`). A reconnect with any other
+// profile, or no reconnect before the deadline, rolls back: 2.x stations
+// get their previous NetworkConfigurationPriority back (and a reset if
+// they are on the new profile). 1.6 stations revert on their own, since
+// their SecurityProfile key can't be lowered — nothing is rolled back and
+// the upgrade ends as failed. A password the station accepted is never
+// rolled back; the result reports it as `passwordChanged`.
+
+export type SecurityProfileUpgradeStatus = "upgraded" | "rolledBack" | "failed";
+
+export interface SecurityProfileUpgradeOptions {
+  /** Profile to move to; must be higher than the current one */
+  securityProfile: SecurityProfile;
+  /** New Basic Auth password (profiles 1 & 2). Accept it in your auth callback first. */
+  password?: string;
+  /** OCPP 2.x: network connection profile for the new profile (required) */
+  networkProfile?: {
+    configurationSlot: number;
+    /** `securityProfile` is filled in from the target profile */
+    connectionData: Omit<NetworkConnectionProfileType, "securityProfile">;
+  };
+  /** Time to reconnect with the new profile before rolling back (default: 300000) */
+  timeoutMs?: number;
+  /**
+   * Servers the station may reconnect to, e.g. a separate `wss://`
+   * listener for the new profile (default: the calling server)
+   */
+  servers?: SecurityProfileUpgradeHost[];
+  callOptions?: CallOptions;
+}
+
+export interface SecurityProfileUpgradeResult {
+  identity: string;
+  status: SecurityProfileUpgradeStatus;
+  fromProfile: SecurityProfile;
+  toProfile: SecurityProfile;
+  /** Profile of the last connection seen */
+  currentProfile?: SecurityProfile;
+  /** Why the upgrade failed or was rolled back */
+  reason?: string;
+  /**
+   * The station accepted the new password. It is kept whatever the
+   * outcome, so keep accepting it.
+   */
+  passwordChanged?: boolean;
+  durationMs: number;
+}
+
+/** Minimal server surface used by the workflow. */
+export type SecurityProfileUpgradeHost = Pick<
+  OCPPServer,
+  "getLocalClient" | "on" | "off"
+>;
+
+const is16 = (client: OCPPServerClient) => client.protocol === "ocpp1.6";
+
+function profileOf(client: OCPPServerClient): SecurityProfile {
+  return client.handshake.securityProfile;
+}
+
+const ACCEPTED = new Set(["Accepted", "RebootRequired", "Scheduled"]);
+
+/** Throws unless a configuration command was accepted. */
+function expectAccepted(step: string, status: string | undefined): void {
+  if (!status || !ACCEPTED.has(status)) {
+    throw new Error(`${step} ${status ?? "failed"}`);
+  }
+}
+
+/** Identities with an upgrade in progress, per server */
+const upgrading = new WeakMap<SecurityProfileUpgradeHost, Set<string>>();
+
+const PRIORITY = {
+  component: { name: "OCPPCommCtrlr" },
+  variable: { name: "NetworkConfigurationPriority" },
+};
+
+/**
+ * Upgrade a connected station's security profile and verify the result.
+ * Resolves once the station is upgraded, rolled back, or the workflow gave
+ * up; never rejects for station-side failures.
+ *
+ * @throws {Error} if the station is not connected to `host`, the target
+ * profile is not an upgrade, a 2.x station has no `networkProfile`, or an
+ * upgrade of the station is already in progress
+ */
+export async function upgradeSecurityProfile(
+  host: SecurityProfileUpgradeHost,
+  identity: string,
+  options: SecurityProfileUpgradeOptions,
+  logger?: LoggerLike | null,
+): Promise<SecurityProfileUpgradeResult> {
+  const client = host.getLocalClient(identity);
+  if (!client) throw new Error(`Client ${identity} is not connected`);
+  const fromProfile = profileOf(client);
+  const toProfile = options.securityProfile;
+  if (toProfile <= fromProfile) {
+    throw new Error(
+      `Security profile ${toProfile} is not an upgrade from ${fromProfile}`,
+    );
+  }
+  const legacy = is16(client);
+  if (!legacy && !options.networkProfile) {
+    throw new Error("networkProfile is required for OCPP 2.x stations");
+  }
+  // One reconnect watcher per station — a second upgrade would race it
+  let inProgress = upgrading.get(host);
+  if (inProgress?.has(identity)) {
+    throw new Error(`Security profile upgrade already running for ${identity}`);
+  }
+  if (!inProgress) {
+    inProgress = new Set();
+    upgrading.set(host, inProgress);
+  }
+  inProgress.add(identity);
+
+  const startedAt = Date.now();
+  const callOptions = options.callOptions;
+  const progress = { passwordChanged: false };
+  const result = (
+    status: SecurityProfileUpgradeStatus,
+    extra: Partial<SecurityProfileUpgradeResult> = {},
+  ): SecurityProfileUpgradeResult => ({
+    identity,
+    status,
+    fromProfile,
+    toProfile,
+    durationMs: Date.now() - startedAt,
+    ...(progress.passwordChanged && { passwordChanged: true }),
+    ...extra,
+  });
+
+  // Watch for the reconnect before pushing anything
+  const servers = options.servers ?? [host];
+  const reconnects: OCPPServerClient[] = [];
+  let notify: (() => void) | null = null;
+  const onClient = (c: OCPPServerClient) => {
+    if (c.identity !== identity) return;
+    reconnects.push(c);
+    notify?.();
+  };
+  for (const srv of servers) srv.on("client", onClient);
+
+  /** Next connection of the station, or undefined after `ms`. */
+  const nextConnection = (ms: number) =>
+    new Promise<OCPPServerClient | undefined>((resolve) => {
+      if (reconnects.length) return resolve(reconnects.shift());
+      const timer = setTimeout(() => {
+        notify = null;
+        resolve(undefined);
+      }, ms);
+      timer.unref();
+      notify = () => {
+        notify = null;
+        clearTimeout(timer);
+        resolve(reconnects.shift());
+      };
+    });
+
+  let previousPriority: string | undefined;
+
+  /**
+   * Put a 2.x station back on its previous connection profiles. Resolves
+   * to false when there is nothing to roll back (1.6).
+   */
+  const rollback = async (station: OCPPServerClient): Promise<boolean> => {
+    if (is16(station) || previousPriority === undefined) return false;
+    const response = await station.call<SetVariablesResponse>(
+      "SetVariables",
+      {
+        setVariableData: [{ ...PRIORITY, attributeValue: previousPriority }],
+      } satisfies SetVariablesRequest,
+      callOptions,
+    );
+    expectAccepted(
+      "Restoring NetworkConfigurationPriority",
+      response.setVariableResult[0]?.attributeStatus,
+    );
+    if (profileOf(station) !== fromProfile) {
+      await station.call<ResetResponse>(
+        "Reset",
+        { type: "OnIdle" } satisfies ResetRequest,
+        callOptions,
+      );
+    }
+    return true;
+  };
+
+  try {
+    // ─── Push ─────────────────────────────────────────────────
+    try {
+      if (legacy) {
+        await push16(client, options, progress, callOptions);
+      } else {
+        previousPriority = await readPriority(client, callOptions);
+        await push201(client, options, previousPriority, progress, callOptions);
+      }
+    } catch (err) {
+      const reason = (err as Error).message;
+      logger?.warn?.("Security profile upgrade push failed", {
+        identity,
+        reason,
+      });
+      // Undo a partial push while the station is still on its old profile
+      await rollback(client).catch(() => {});
+      return result("failed", { currentProfile: fromProfile, reason });
+    }
+
+    // ─── Verify ───────────────────────────────────────────────
+    const timeoutMs = options.timeoutMs ?? 300_000;
+    const reconnected = await nextConnection(
+      Math.max(0, startedAt + timeoutMs - Date.now()),
+    );
+    if (reconnected && profileOf(reconnected) === toProfile) {
+      logger?.info?.("Security profile upgraded", { identity, toProfile });
+      return result("upgraded", { currentProfile: toProfile });
+    }
+
+    // ─── Roll back ────────────────────────────────────────────
+    const reason = reconnected
+      ? `Reconnected with security profile ${profileOf(reconnected)}`
+      : "Timeout";
+    // A station that fell back, never went away, or is back already is
+    // rolled back right away; otherwise on its next connection
+    let station =
+      reconnected ??
+      servers
+        .map((srv) => srv.getLocalClient(identity))
+        .find((c) => c?.state === ConnectionState.OPEN);
+    station ??= await nextConnection(timeoutMs);
+    if (!station) {
+      return result("failed", { reason: `${reason}; station offline` });
+    }
+    const currentProfile = profileOf(station);
+    if (legacy && currentProfile === toProfile) {
+      // 1.6 can't go back down — a late reconnect still counts
+      return result("upgraded", { currentProfile });
+    }
+    try {
+      if (!(await rollback(station))) {
+        // 1.6: the station reverted by itself, there is nothing to undo
+        return result("failed", { currentProfile, reason });
+      }
+    } catch (err) {
+      return result("failed", {
+        currentProfile,
+        reason: `${reason}; rollback failed: ${(err as Error).message}`,
+      });
+    }
+    logger?.warn?.("Security profile upgrade rolled back", {
+      identity,
+      reason,
+    });
+    return result("rolledBack", { currentProfile, reason });
+  } finally {
+    notify = null;
+    for (const srv of servers) srv.off("client", onClient);
+    inProgress.delete(identity);
+  }
+}
+
+async function push16(
+  client: OCPPServerClient,
+  options: SecurityProfileUpgradeOptions,
+  progress: { passwordChanged: boolean },
+  callOptions?: CallOptions,
+): Promise<void> {
+  const change = async (key: string, value: string) => {
+    const response = await client.call<ChangeConfigurationResponse>(
+      "ChangeConfiguration",
+      { key, value } satisfies ChangeConfigurationRequest16,
+      callOptions,
+    );
+    expectAccepted(`ChangeConfiguration ${key}`, response.status);
+  };
+  if (options.password !== undefined) {
+    // Must precede SecurityProfile, which makes the station reconnect
+    await change("AuthorizationKey", options.password);
+    progress.passwordChanged = true;
+  }
+  await change("SecurityProfile", String(options.securityProfile));
+}
+
+async function readPriority(
+  client: OCPPServerClient,
+  callOptions?: CallOptions,
+): Promise<string> {
+  const response = await client.call<GetVariablesResponse>(
+    "GetVariables",
+    { getVariableData: [PRIORITY] } satisfies GetVariablesRequest,
+    callOptions,
+  );
+  const current = response.getVariableResult[0];
+  if (current?.attributeStatus !== "Accepted" || !current.attributeValue) {
+    throw new Error("Unable to read NetworkConfigurationPriority");
+  }
+  return current.attributeValue;
+}
+
+async function push201(
+  client: OCPPServerClient,
+  options: SecurityProfileUpgradeOptions,
+  previousPriority: string,
+  progress: { passwordChanged: boolean },
+  callOptions?: CallOptions,
+): Promise<void> {
+  const { configurationSlot, connectionData } = options.networkProfile!;
+  const slots = previousPriority.split(",").map((s) => s.trim());
+  if (slots.includes(String(configurationSlot))) {
+    throw new Error(`Configuration slot ${configurationSlot} is in use`);
+  }
+
+  const profile = await client.call<SetNetworkProfileResponse>(
+    "SetNetworkProfile",
+    {
+      configurationSlot,
+      connectionData: {
+        ...connectionData,
+        securityProfile: options.securityProfile,
+      },
+    } satisfies SetNetworkProfileRequest,
+    callOptions,
+  );
+  expectAccepted("SetNetworkProfile", profile.status);
+
+  const reorder = await client.call<SetVariablesResponse>(
+    "SetVariables",
+    {
+      setVariableData: [
+        {
+          ...PRIORITY,
+          attributeValue: [String(configurationSlot), ...slots].join(","),
+        },
+      ],
+    } satisfies SetVariablesRequest,
+    callOptions,
+  );
+  expectAccepted(
+    "SetVariables NetworkConfigurationPriority",
+    reorder.setVariableResult[0]?.attributeStatus,
+  );
+
+  // Last before the reset: the rollback can't restore the old password
+  if (options.password !== undefined) {
+    const response = await client.call<SetVariablesResponse>(
+      "SetVariables",
+      {
+        setVariableData: [
+          {
+            component: { name: "SecurityCtrlr" },
+            variable: { name: "BasicAuthPassword" },
+            attributeValue: options.password,
+          },
+        ],
+      } satisfies SetVariablesRequest,
+      callOptions,
+    );
+    expectAccepted(
+      "SetVariables BasicAuthPassword",
+      response.setVariableResult[0]?.attributeStatus,
+    );
+    progress.passwordChanged = true;
+  }
+
+  const reset = await client.call<ResetResponse>(
+    "Reset",
+    { type: "OnIdle" } satisfies ResetRequest,
+    callOptions,
+  );
+  expectAccepted("Reset", reset.status);
+}
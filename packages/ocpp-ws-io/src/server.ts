@@ -1,4 +1,5 @@
 import { EventEmitter } from "node:events";
+import { readFileSync } from "node:fs";
 import {
   createServer as createHttpServer,
   type IncomingMessage,
@@ -9,22 +10,43 @@ import type { Duplex } from "node:stream";
 import type { TLSSocket } from "node:tls";
 import { WebSocketServer } from "ws";
 import { AdaptiveLimiter } from "./adaptive-limiter.js";
+import { checkClientCertificate, RevocationList } from "./client-cert.js";
+import { CLUSTER_CHANNEL, ClusterMembership, HashRing } from "./cluster.js";
 import { checkCORS } from "./cors.js";
 import { TimeoutError } from "./errors.js";
 import { initLogger } from "./init-logger.js";
+import { IPPolicy, type IPPolicyChange } from "./ip-policy.js";
 import { LRUMap } from "./lru-map.js";
 import { RadixTrie } from "./radix-trie.js";
 import { executeMiddlewareChain, OCPPRouter } from "./router.js";
+import { classifySecurityEvent } from "./security-events.js";
+import {
+  type SecurityProfileUpgradeOptions,
+  type SecurityProfileUpgradeResult,
+  upgradeSecurityProfile,
+} from "./security-profile.js";
 import { OCPPServerClient } from "./server-client.js";
 import {
   type AllMethodNames,
   type AuthAccept,
   type AuthCallback,
+  type BroadcastOutcome,
+  type BroadcastReport,
+  type BroadcastReportOptions,
+  type BroadcastResultEntry,
   type CallOptions,
+  type ClientCertificateOptions,
   type ClientOptions,
   type CloseOptions,
+  type ClosingInfo,
+  type ClusterMember,
+  type ClusterOptions,
+  type ClusterStats,
   type CORSOptions,
   type ConnectionMiddleware,
+  ConnectionState,
+  type DrainOptions,
+  type DrainProgress,
   type EventAdapterInterface,
   type HandshakeInfo,
   type ListenOptions,
@@ -34,6 +56,8 @@ import {
   type OCPPProtocol,
   type OCPPRequestType,
   type OCPPResponseType,
+  type PresenceEntry,
+  type SecurityEvent,
   SecurityProfile,
   type ServerEvents,
   type ServerOptions,
@@ -85,11 +109,13 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
     }
   >();
   private _wss: WebSocketServer | null = null;
-  private _state: "OPEN" | "CLOSING" | "CLOSED" = "OPEN";
+  private _state: "OPEN" | "DRAINING" | "CLOSING" | "CLOSED" = "OPEN";
   private _adapter: EventAdapterInterface | null = null;
   private _httpServerAbortControllers = new Set<AbortController>();
   private _logger: LoggerLike | null = null;
   private _globalCORS?: CORSOptions;
+  private readonly _ipPolicy: IPPolicy;
+  private _ipPolicyUnsubscribe: (() => void) | null = null;
 
   // Connection-level rate limiting (per-IP token bucket)
   private _connectionBuckets = new Map<
@@ -102,8 +128,22 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
   private _telemetryInterval: ReturnType<typeof setInterval> | null = null;
   private _presenceInterval: ReturnType<typeof setInterval> | null = null;
 
+  // Cluster membership — heartbeats feed clusterStats() and the hash ring
+  private readonly _startedAt = new Date().toISOString();
+  private _membership: ClusterMembership | null = null;
+  private _ring: HashRing | null = null;
+  private _rebalanceTimer: ReturnType<typeof setTimeout> | null = null;
+  private _rebalanceInterval: ReturnType<typeof setInterval> | null = null;
+
+  // Graceful drain (rolling deploys)
+  private _drainPromise: Promise<DrainProgress> | null = null;
+  /** Stations being drained — their presence is handed over, not removed */
+  private _drainingClients = new WeakSet<OCPPServerClient>();
+  /** onClosing runs once per shutdown, whether drain() or close() starts it */
+  private _closingNotified = false;
+
   // Robustness & Clustering
-  private readonly _nodeId = createId();
+  private readonly _nodeId: string;
 
   /** Pending cross-node RPC calls awaiting a correlated response. */
   private _pendingRemoteCalls = new Map<
@@ -117,6 +157,12 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
 
   /** Extra wait on top of the call timeout to absorb cross-node transit. */
   private static readonly _REMOTE_RESPONSE_GRACE_MS = 1000;
+
+  /** Cluster broadcast reports collecting per-node results, by correlationId. */
+  private _pendingBroadcastReports = new Map<
+    string,
+    (entries: BroadcastResultEntry[]) => void
+  >();
   private _sessions: LRUMap<
     string,
     { data: Record<string, any>; lastActive: number }
@@ -148,9 +194,38 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
       sessionTtlMs: 2 * 60 * 60 * 1000,
       ...options,
     };
+    if (options.clientCertificate) {
+      this._options.clientCertificate = { ...options.clientCertificate };
+    }
 
     this._sessionTimeoutMs = this._options.sessionTtlMs!;
 
+    if (
+      options.nodeId !== undefined &&
+      (typeof options.nodeId !== "string" || options.nodeId.trim() === "")
+    ) {
+      throw new Error("nodeId must be a non-empty string");
+    }
+    this._nodeId = options.nodeId ?? createId();
+
+    const advertisedUrl = options.sharding?.advertisedUrl;
+    if (advertisedUrl !== undefined) {
+      // `new URL("node-a:9220")` parses, with "node-a:" as the scheme
+      let parsed: URL | undefined;
+      try {
+        parsed = new URL(advertisedUrl);
+      } catch {}
+      if (
+        !parsed ||
+        !["ws:", "wss:", "http:", "https:"].includes(parsed.protocol) ||
+        !parsed.host
+      ) {
+        throw new Error(
+          `sharding.advertisedUrl must be an absolute ws(s):// or http(s):// URL, got "${advertisedUrl}"`,
+        );
+      }
+    }
+
     // Initialize bounded LRU session cache
     const maxSessions = this._options.maxSessions ?? 50_000;
     this._sessions = new LRUMap(maxSessions);
@@ -175,6 +250,31 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
       component: "OCPPServer",
     });
 
+    // Load the client certificate CRL (fails fast on a bad file)
+    this._loadCrlFile();
+
+    // IP policy — when configured, local changes are replicated through
+    // the adapter
+    this._ipPolicy =
+      options.ipPolicy instanceof IPPolicy
+        ? options.ipPolicy
+        : new IPPolicy(options.ipPolicy);
+    this._ipPolicyUnsubscribe = this._ipPolicy.onChange((change, origin) => {
+      if (origin !== "local" || !this._adapter || !options.ipPolicy) return;
+      // Adapters aren't required to return a promise from publish()
+      Promise.resolve(
+        this._adapter.publish("ocpp:ip-policy", {
+          source: this._nodeId,
+          change,
+        }),
+      ).catch((err) => {
+        this._logger?.warn?.("IP policy replication failed", {
+          type: change.type,
+          error: (err as Error).message,
+        });
+      });
+    });
+
     // Initialize adaptive rate limiter if enabled
     const rl = this._options.rateLimit;
     if (rl?.adaptive) {
@@ -226,9 +326,25 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
   }
 
   /**
-   * Returns the current server state (OPEN, CLOSING, CLOSED).
+   * IP groups, allow/deny lists and bans. Changes apply to the next
+   * handshake and are shared with other nodes through the adapter.
+   */
+  get ipPolicy(): IPPolicy {
+    return this._ipPolicy;
+  }
+
+  /**
+   * Unique id of this server node within the cluster (adapter channels,
+   * presence registry, broadcast reports).
+   */
+  get nodeId(): string {
+    return this._nodeId;
+  }
+
+  /**
+   * Returns the current server state (OPEN, DRAINING, CLOSING, CLOSED).
    */
-  get state(): "OPEN" | "CLOSING" | "CLOSED" {
+  get state(): "OPEN" | "DRAINING" | "CLOSING" | "CLOSED" {
     return this._state;
   }
 
@@ -275,6 +391,67 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
       return null;
     }
   }
+
+  /**
+   * Returns the stats of every live node, from their membership heartbeats,
+   * plus cluster-wide totals. This node's entry is always current; the
+   * others are at most one heartbeat old. Without `cluster` (or `sharding`)
+   * and an adapter, only this node is listed.
+   */
+  clusterStats(): ClusterStats {
+    const self: ClusterMember = {
+      nodeId: this._nodeId,
+      url: this._options.sharding?.advertisedUrl,
+      state: this._state === "DRAINING" ? "draining" : "active",
+      startedAt: this._startedAt,
+      lastSeen: Date.now(),
+      stats: this.stats(),
+    };
+    const nodes = this._membership
+      ? this._membership.nodes.map((node) =>
+          node.nodeId === this._nodeId ? self : node,
+        )
+      : [self];
+
+    const totals: ClusterStats["totals"] = {
+      nodes: nodes.length,
+      activeNodes: 0,
+      connectedClients: 0,
+      activeSessions: 0,
+      bufferedAmount: 0,
+      memory: { rss: 0, heapUsed: 0 },
+    };
+    for (const node of nodes) {
+      if (node.state === "active") totals.activeNodes++;
+      totals.connectedClients += node.stats?.connectedClients ?? 0;
+      totals.activeSessions += node.stats?.activeSessions ?? 0;
+      totals.bufferedAmount += node.stats?.webSockets?.bufferedAmount ?? 0;
+      totals.memory.rss += node.stats?.memoryUsage?.rss ?? 0;
+      totals.memory.heapUsed += node.stats?.memoryUsage?.heapUsed ?? 0;
+    }
+    return { nodes, totals };
+  }
+
+  /**
+   * Lists every connected station in the cluster with the node it is
+   * connected to, read from the adapter's presence registry. Without an
+   * adapter, lists this node's clients.
+   *
+   * @throws when the adapter can't list its presence entries
+   */
+  async listClusterClients(): Promise<PresenceEntry[]> {
+    if (!this._adapter) {
+      return Array.from(this._clientsByIdentity.keys(), (identity) => ({
+        identity,
+        nodeId: this._nodeId,
+      }));
+    }
+    if (!this._adapter.listPresence) {
+      throw new Error("The adapter does not support listPresence()");
+    }
+    return await this._adapter.listPresence();
+  }
+
   /**
    * Synchronously returns the OCPPServerClient instance if the specific identity
    * is connected to THIS local server node.
@@ -317,6 +494,17 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
     return false;
   }
 
+  /**
+   * Node that owns `identity` when `sharding` is enabled, or `null` when
+   * sharding is off or no adapter is set. Upgrades for identities owned by
+   * another node are redirected there.
+   *
+   * @param identity The client identity (username/station ID)
+   */
+  shardOwner(identity: string): string | null {
+    return this._ring?.owner(identity) ?? null;
+  }
+
   // ─── Auth ────────────────────────────────────────────────────
 
   // ─── Routing & Middleware ────────────────────────────────────
@@ -765,6 +953,16 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
       `TLS context hot-reloaded across ${updated} active server(s)`,
     );
 
+    // Rotated certificates usually come with a fresh CRL
+    try {
+      this._loadCrlFile();
+    } catch (err) {
+      this._logger?.error?.("CRL reload failed — keeping the previous list", {
+        file: this._options.clientCertificate?.crlFile,
+        error: (err as Error).message,
+      });
+    }
+
     // Plugin: onTLSUpdate
     for (const plugin of this._plugins) {
       try {
@@ -778,6 +976,43 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
     }
   }
 
+  /**
+   * Replaces the client certificate policy (identity binding, revocation
+   * list, CRL file) for subsequent handshakes and re-reads the CRL file.
+   * Connected stations are not re-checked.
+   *
+   * @example
+   * ```ts
+   * // After publishing a new CRL
+   * server.updateClientCertificate({ crlFile: "/etc/csms/ca.crl" });
+   * ```
+   *
+   * @throws If the CRL file can't be read or parsed. The previous
+   * revocation entries stay in place.
+   */
+  updateClientCertificate(options: ClientCertificateOptions): void {
+    this._options.clientCertificate = {
+      ...this._options.clientCertificate,
+      ...options,
+    };
+    this._loadCrlFile();
+  }
+
+  /** (Re)load `clientCertificate.crlFile` into the revocation list. */
+  private _loadCrlFile(): void {
+    const certOpts = this._options.clientCertificate;
+    if (!certOpts?.crlFile) return;
+    certOpts.revocationList ??= new RevocationList();
+    const revoked = certOpts.revocationList.loadCrl(
+      readFileSync(certOpts.crlFile),
+      certOpts.crlIssuerCertificate,
+    );
+    this._logger?.info?.("Client certificate CRL loaded", {
+      file: certOpts.crlFile,
+      revoked,
+    });
+  }
+
   // ─── Handle Upgrade ──────────────────────────────────────────
 
   get handleUpgrade(): (
@@ -821,7 +1056,13 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
   ): Promise<void> {
     // Server state guard
     if (this._state !== "OPEN") {
-      abortHandshake(socket, 503, "Server is shutting down");
+      abortHandshake(
+        socket,
+        503,
+        this._state === "DRAINING"
+          ? "Server is draining"
+          : "Server is shutting down",
+      );
       return;
     }
 
@@ -837,12 +1078,7 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
           maxConnections,
         },
       };
-      this.emit("securityEvent", secEvt);
-      for (const plugin of this._plugins) {
-        try {
-          plugin.onSecurityEvent?.(secEvt);
-        } catch {}
-      }
+      this.emitSecurityEvent(secEvt);
       abortHandshake(socket, 503, "Connection limit reached");
       return;
     }
@@ -874,13 +1110,7 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
           timestamp: new Date().toISOString(),
           details: { tokensRemaining: bucket.tokens },
         };
-        this.emit("securityEvent", secEvt);
-        // Plugin: onSecurityEvent
-        for (const plugin of this._plugins) {
-          try {
-            plugin.onSecurityEvent?.(secEvt);
-          } catch {}
-        }
+        this.emitSecurityEvent(secEvt);
         abortHandshake(socket, 429, "Too Many Requests");
         return;
       }
@@ -899,9 +1129,36 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
       return;
     }
 
+    // IP policy gate — bans, denylist, allowlist
+    const remoteIP = req.socket.remoteAddress;
+    if (remoteIP) {
+      const decision = this._ipPolicy.check(remoteIP);
+      if (!decision.allowed) {
+        this._logger?.warn?.("IP policy rejected connection", {
+          ip: remoteIP,
+          reason: decision.reason,
+        });
+        this.emitSecurityEvent({
+          type: "IP_BLOCKED",
+          ip: remoteIP,
+          timestamp: new Date().toISOString(),
+          details: {
+            reason: decision.reason,
+            ...(decision.reason === "banned" && { ban: decision.ban }),
+          },
+        });
+        abortHandshake(socket, 403, "Forbidden");
+        return;
+      }
+    }
+
     // Global CORS gate
     if (this._globalCORS) {
-      const { allowed, reason } = checkCORS(req, this._globalCORS);
+      const { allowed, reason } = checkCORS(
+        req,
+        this._globalCORS,
+        this._ipPolicy,
+      );
       if (!allowed) {
         this._logger?.warn?.("CORS rejected connection", {
           reason,
@@ -1013,7 +1270,11 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
     // Route-level CORS gate
     for (const router of matchedRouters) {
       if (router._routeCORS) {
-        const { allowed, reason } = checkCORS(req, router._routeCORS);
+        const { allowed, reason } = checkCORS(
+          req,
+          router._routeCORS,
+          this._ipPolicy,
+        );
         if (!allowed) {
           this._logger?.warn?.("Route CORS rejected connection", {
             reason,
@@ -1088,6 +1349,43 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
       securityProfile: profile,
     };
 
+    // Client certificate revocation & identity binding (Profile 3)
+    const certPolicy = this._options.clientCertificate;
+    if (profile === SecurityProfile.TLS_CLIENT_CERT && certPolicy) {
+      const verdict = checkClientCertificate(
+        clientCertificate,
+        identity,
+        certPolicy,
+      );
+      if (!verdict.allowed) {
+        this._logger?.warn?.("Client certificate rejected", {
+          identity,
+          reason: verdict.reason,
+        });
+        const secEvtCert = {
+          type: verdict.type,
+          identity,
+          ip: req.socket.remoteAddress,
+          timestamp: new Date().toISOString(),
+          details: {
+            reason: verdict.reason,
+            serialNumber: clientCertificate?.serialNumber,
+            subject: clientCertificate?.subject?.CN,
+            fingerprint256: clientCertificate?.fingerprint256,
+          },
+        };
+        this.emitSecurityEvent(secEvtCert);
+        // Plugin: onAuthFailed
+        for (const plugin of this._plugins) {
+          try {
+            plugin.onAuthFailed?.(handshake, 403, verdict.reason);
+          } catch {}
+        }
+        abortHandshake(socket, 403, "Forbidden");
+        return;
+      }
+    }
+
     // Auth callback with AbortController + timeout
     let ctx: import("./types.js").ConnectionContext | undefined;
     let acceptOptions: import("./types.js").AuthAccept | undefined;
@@ -1221,13 +1519,7 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
             timestamp: new Date().toISOString(),
             details: { reason },
           };
-          this.emit("securityEvent", secEvtAbort);
-          // Plugin: onSecurityEvent
-          for (const plugin of this._plugins) {
-            try {
-              plugin.onSecurityEvent?.(secEvtAbort);
-            } catch {}
-          }
+          this.emitSecurityEvent(secEvtAbort);
           this.emit("upgradeAborted", {
             identity,
             reason,
@@ -1253,12 +1545,9 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
           timestamp: new Date().toISOString(),
           details: { code, message },
         };
-        this.emit("securityEvent", secEvtAuth);
-        // Plugin: onSecurityEvent + onAuthFailed
+        this.emitSecurityEvent(secEvtAuth);
+        // Plugin: onAuthFailed
         for (const plugin of this._plugins) {
-          try {
-            plugin.onSecurityEvent?.(secEvtAuth);
-          } catch {}
           try {
             plugin.onAuthFailed?.(handshake, code, message);
           } catch {}
@@ -1281,6 +1570,15 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
       return;
     }
 
+    // Sharding — send the station to the node that owns its identity. Only
+    // after CORS and auth, so unauthenticated callers learn nothing about
+    // the cluster.
+    const owner = this.shardOwner(identity);
+    if (owner !== null && owner !== this._nodeId) {
+      this._redirectToOwner(url, socket, identity, owner);
+      return;
+    }
+
     // Socket readyState check before upgrade
     if ((socket as import("node:net").Socket).readyState !== "open") {
       this._logger?.debug?.("Socket closed before upgrade completion", {
@@ -1402,7 +1700,12 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
             // Remove presence — only when this socket still owns the
             // identity. An evicted duplicate must not wipe the presence
             // the replacement connection just registered (review fix).
-            if (this._adapter?.removePresence) {
+            // A drained station's entry was already removed, and by now
+            // may belong to the node it reconnected to.
+            if (
+              this._adapter?.removePresence &&
+              !this._drainingClients.has(client)
+            ) {
               this._adapter.removePresence(identity).catch((err) => {
                 this._logger?.error?.("Error removing presence", {
                   identity,
@@ -1482,6 +1785,14 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
           }
         },
       );
+      // onSignatureVerificationFailure: unsigned / tampered meter values
+      client.on("signatureVerificationFailure", (report) => {
+        for (const plugin of this._plugins) {
+          try {
+            plugin.onSignatureVerificationFailure?.(client, report);
+          } catch {}
+        }
+      });
       // onBackpressure: slow client detection
       client.on("backpressure", (evt) => {
         for (const plugin of this._plugins) {
@@ -1556,21 +1867,148 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
     }
   }
 
-  // ─── Close ───────────────────────────────────────────────────
+  // ─── Drain ───────────────────────────────────────────────────
 
-  async close(options: CloseOptions = {}): Promise<void> {
-    if (this._state !== "OPEN") return;
+  /**
+   * Drains this node for a rolling deploy. New upgrades are refused (503),
+   * the node is marked draining so sharded peers stop sending stations
+   * here, and stations are disconnected `rate` per second with close code
+   * 1012 so they reconnect to another node. Each station is first given
+   * time to finish its in-flight CALLs, then its presence entry is removed
+   * so `sendToClient()` on other nodes finds it where it reconnects.
+   *
+   * Resolves once every station is gone. The server stays DRAINING until
+   * `close()`, which can also be called mid-drain to finish at once.
+   *
+   * @example
+   * ```ts
+   * process.on("SIGTERM", async () => {
+   *   await server.drain({ rate: 100 });
+   *   await server.close();
+   * });
+   * ```
+   */
+  drain(options: DrainOptions = {}): Promise<DrainProgress> {
+    if (this._drainPromise) return this._drainPromise;
+    if (this._state !== "OPEN") {
+      return Promise.reject(
+        new Error(`Cannot drain a server that is ${this._state}`),
+      );
+    }
+    this._state = "DRAINING";
+    this._drainPromise = this._drain(options);
+    return this._drainPromise;
+  }
 
-    this._state = "CLOSING";
-    this.emit("closing");
-    this._logger?.info?.("Server closing", {
-      clientCount: this._clients.size,
+  private async _drain(options: DrainOptions): Promise<DrainProgress> {
+    const startedAt = Date.now();
+    const clients = Array.from(this._clients);
+    let closed = 0;
+    const progress = (): DrainProgress => ({
+      total: clients.length,
+      closed,
+      remaining: clients.length - closed,
+      elapsedMs: Date.now() - startedAt,
     });
 
-    // Plugin: onClosing (pre-shutdown hook — before client drain)
+    this._logger?.info?.("Server draining", { clientCount: clients.length });
+    this._membership?.setState("draining");
+    await this._notifyClosing({ mode: "drain", progress: progress() });
+    this._reportDrain(progress());
+
+    const perTick = Math.ceil(Math.max(1, options.rate ?? 50) / 10);
+    const code = options.code ?? 1012;
+    const reason = options.reason ?? "Server draining";
+    const inFlightTimeoutMs =
+      options.inFlightTimeoutMs ?? this._options.callTimeoutMs ?? 30_000;
+
+    const pending: Promise<void>[] = [];
+    let reported = 0;
+    for (let i = 0; i < clients.length; i += perTick) {
+      if (i > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        if (closed !== reported) {
+          reported = closed;
+          this._reportDrain(progress());
+        }
+      }
+      // close() took over
+      if (this._state !== "DRAINING") break;
+      for (const client of clients.slice(i, i + perTick)) {
+        pending.push(
+          this._drainClient(client, code, reason, inFlightTimeoutMs).then(
+            () => {
+              closed++;
+            },
+          ),
+        );
+      }
+    }
+    await Promise.allSettled(pending);
+
+    const result = progress();
+    if (closed !== reported) this._reportDrain(result);
+    this._logger?.info?.("Server drained", { ...result });
+    this.emit("drained", result);
+    return result;
+  }
+
+  /** Waits for a station's in-flight CALLs, unregisters it, disconnects it. */
+  private async _drainClient(
+    client: OCPPServerClient,
+    code: number,
+    reason: string,
+    inFlightTimeoutMs: number,
+  ): Promise<void> {
+    if (!this._clients.has(client)) return;
+    this._drainingClients.add(client);
+
+    const deadline = Date.now() + inFlightTimeoutMs;
+    while (
+      client.inFlightCalls > 0 &&
+      Date.now() < deadline &&
+      this._clients.has(client)
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+
+    // Remove the entry before the station can reconnect elsewhere, so this
+    // node never deletes the entry its new node registers.
+    if (
+      this._adapter?.removePresence &&
+      this._clientsByIdentity.get(client.identity) === client
+    ) {
+      await this._adapter.removePresence(client.identity).catch((err) => {
+        this._logger?.warn?.("Error removing presence", {
+          identity: client.identity,
+          error: err,
+        });
+      });
+    }
+    await client.close({ code, reason, awaitPending: false }).catch(() => {});
+  }
+
+  private _reportDrain(progress: DrainProgress): void {
+    this.emit("draining", progress);
     for (const plugin of this._plugins) {
       try {
-        const r = plugin.onClosing?.();
+        plugin.onDrainProgress?.(progress);
+      } catch (err) {
+        this._logger?.error?.("Plugin onDrainProgress error", {
+          name: plugin.name,
+          error: (err as Error).message,
+        });
+      }
+    }
+  }
+
+  /** Plugin: onClosing (pre-shutdown hook — before clients are disconnected) */
+  private async _notifyClosing(info: ClosingInfo): Promise<void> {
+    if (this._closingNotified) return;
+    this._closingNotified = true;
+    for (const plugin of this._plugins) {
+      try {
+        const r = plugin.onClosing?.(info);
         if (r instanceof Promise) await r;
       } catch (err) {
         this._logger?.error?.("Plugin onClosing error", {
@@ -1579,12 +2017,33 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
         });
       }
     }
+  }
+
+  // ─── Close ───────────────────────────────────────────────────
+
+  async close(options: CloseOptions = {}): Promise<void> {
+    if (this._state !== "OPEN" && this._state !== "DRAINING") return;
+
+    this._state = "CLOSING";
+    this.emit("closing");
+    this._logger?.info?.("Server closing", {
+      clientCount: this._clients.size,
+    });
+
+    await this._notifyClosing({ mode: "close" });
+
+    // Leave the hash ring before dropping stations, so other nodes accept
+    // them when they reconnect instead of redirecting them back here.
+    await this._stopCluster();
 
     if (this._gcInterval) {
       clearInterval(this._gcInterval);
       this._gcInterval = null;
     }
 
+    this._ipPolicyUnsubscribe?.();
+    this._ipPolicyUnsubscribe = null;
+
     if (this._telemetryInterval) {
       clearInterval(this._telemetryInterval);
       this._telemetryInterval = null;
@@ -1696,6 +2155,7 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
       pending.reject(new Error("Server closing"));
     }
     this._pendingRemoteCalls.clear();
+    this._pendingBroadcastReports.clear();
 
     // Disconnect adapter
     if (this._adapter) {
@@ -1703,6 +2163,8 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
     }
 
     this._state = "CLOSED";
+    this._drainPromise = null;
+    this._closingNotified = false;
     this.emit("close");
   }
 
@@ -1852,64 +2314,114 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
         : await localClient.call(method as any, params as any, options);
     }
 
-    // 2. Check Registry & Unicast (with response correlation — report H1)
+    // 2. Sharding — go straight to the owner, skipping the registry. If the
+    // station isn't there (e.g. not yet moved after a rebalance), fall back.
+    const owner = this.shardOwner(identity);
+    if (owner !== null && owner !== this._nodeId) {
+      try {
+        return await this._callRemote(
+          owner,
+          identity,
+          version,
+          method,
+          params,
+          options,
+          true,
+        );
+      } catch (err) {
+        if (
+          !(err as { details?: { notConnected?: boolean } })?.details
+            ?.notConnected
+        ) {
+          throw err;
+        }
+      }
+    }
+
+    // 3. Check Registry & Unicast (with response correlation — report H1)
     if (this._adapter?.getPresence) {
       const nodeId = await this._adapter.getPresence(identity);
       if (nodeId) {
-        const correlationId = createId();
-        const timeoutMs =
-          (options?.timeoutMs ?? this._options.callTimeoutMs ?? 30_000) +
-          OCPPServer._REMOTE_RESPONSE_GRACE_MS;
-
-        const resultPromise = new Promise<unknown>((resolve, reject) => {
-          const timer = setTimeout(() => {
-            this._pendingRemoteCalls.delete(correlationId);
-            reject(
-              new TimeoutError(
-                `Remote call to "${identity}" via node ${nodeId} timed out after ${timeoutMs}ms`,
-              ),
-            );
-          }, timeoutMs);
-          this._pendingRemoteCalls.set(correlationId, {
-            resolve,
-            reject,
-            timer,
-          });
-        });
-
-        // Carry `version` across the cluster so the receiving node can
-        // resolve the same version-specific overload.
-        try {
-          await this._adapter.publish(`ocpp:node:${nodeId}`, {
-            source: this._nodeId,
-            target: identity,
-            version,
-            method,
-            params,
-            options,
-            correlationId,
-          });
-        } catch (err) {
-          // Publish failed (adapter down) — settle the pending call through
-          // resultPromise so nothing leaks and no unhandled rejection fires.
-          const pending = this._pendingRemoteCalls.get(correlationId);
-          if (pending) {
-            clearTimeout(pending.timer);
-            this._pendingRemoteCalls.delete(correlationId);
-            pending.reject(err);
-          }
-        }
-        return await resultPromise;
+        return await this._callRemote(
+          nodeId,
+          identity,
+          version,
+          method,
+          params,
+          options,
+        );
       }
     }
 
-    // 3. Fallback to Broadcast (if configured/needed)
+    // 4. Fallback to Broadcast (if configured/needed)
     // For now, we only broadcast if explicitly called via .broadcast()
     // But if we want comprehensive routing, we could broadcast here.
     // Ideally, sendToClient implies targeted. If not found, we throw or return false.
     throw new Error(`Client ${identity} not found`);
   }
 
+  /**
+   * Unicast a call to a client connected to another node and await its
+   * correlated response over `ocpp:node:<this node>`. `shard` marks calls
+   * routed by the hash ring rather than the presence registry.
+   */
+  private async _callRemote(
+    nodeId: string,
+    identity: string,
+    version: string | undefined,
+    method: string,
+    params: unknown,
+    options?: CallOptions,
+    shard = false,
+  ): Promise<unknown> {
+    const adapter = this._adapter!;
+    const correlationId = createId();
+    const timeoutMs =
+      (options?.timeoutMs ?? this._options.callTimeoutMs ?? 30_000) +
+      OCPPServer._REMOTE_RESPONSE_GRACE_MS;
+
+    const resultPromise = new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this._pendingRemoteCalls.delete(correlationId);
+        reject(
+          new TimeoutError(
+            `Remote call to "${identity}" via node ${nodeId} timed out after ${timeoutMs}ms`,
+          ),
+        );
+      }, timeoutMs);
+      this._pendingRemoteCalls.set(correlationId, {
+        resolve,
+        reject,
+        timer,
+      });
+    });
+
+    // Carry `version` across the cluster so the receiving node can
+    // resolve the same version-specific overload.
+    try {
+      await adapter.publish(`ocpp:node:${nodeId}`, {
+        source: this._nodeId,
+        target: identity,
+        version,
+        method,
+        params,
+        options,
+        correlationId,
+        ...(shard && { shard: true }),
+      });
+    } catch (err) {
+      // Publish failed (adapter down) — settle the pending call through
+      // resultPromise so nothing leaks and no unhandled rejection fires.
+      const pending = this._pendingRemoteCalls.get(correlationId);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this._pendingRemoteCalls.delete(correlationId);
+        pending.reject(err);
+      }
+    }
+    return await resultPromise;
+  }
+
   // ─── Safe SendToClient (Best Effort) ──────────────────────────
 
   // 1. Protocol-specific overload
@@ -2040,11 +2552,263 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
       },
     );
 
+    // 3. Subscribe to IP policy changes from other nodes, and ask them for
+    // their policy — changes are only replicated as they happen, so a node
+    // joining (or restarting) later would never see the earlier ones
+    if (this._options.ipPolicy) {
+      await this._adapter.subscribe("ocpp:ip-policy", (msg: unknown) =>
+        this._onIPPolicyChange(msg),
+      );
+      Promise.resolve(
+        this._adapter.publish("ocpp:ip-policy", {
+          source: this._nodeId,
+          sync: true,
+        }),
+      ).catch((err) => {
+        this._logger?.warn?.("IP policy sync request failed", {
+          error: (err as Error).message,
+        });
+      });
+    }
+
+    // 4. Membership heartbeats for cluster stats and identity sharding
+    if (this._options.cluster || this._options.sharding) {
+      await this._adapter.subscribe(CLUSTER_CHANNEL, (msg: unknown) =>
+        this._membership?.handle(msg),
+      );
+      this._startCluster();
+    }
+
     // Presence heartbeat — refresh TTLs so long-lived connections never
     // expire out of the cluster registry (report C3).
     this._startPresenceRefresh();
   }
 
+  private _clusterOptions(): ClusterOptions {
+    const { cluster, sharding } = this._options;
+    return {
+      heartbeatIntervalMs: sharding?.heartbeatIntervalMs,
+      nodeTimeoutMs: sharding?.nodeTimeoutMs,
+      ...(typeof cluster === "object" ? cluster : {}),
+    };
+  }
+
+  private _startCluster(): void {
+    const sharding = this._options.sharding;
+    if (this._membership) return;
+    if (sharding) {
+      this._ring = new HashRing(sharding.virtualNodes);
+      this._ring.setNodes([this._nodeId]);
+      if (this._options.nodeId === undefined) {
+        this._logger?.warn?.(
+          "Sharding with a random nodeId — every restart rebalances; set nodeId",
+          { nodeId: this._nodeId },
+        );
+      }
+    }
+    const { heartbeatIntervalMs, nodeTimeoutMs } = this._clusterOptions();
+    this._membership = new ClusterMembership({
+      nodeId: this._nodeId,
+      url: sharding?.advertisedUrl,
+      startedAt: this._startedAt,
+      heartbeatIntervalMs,
+      nodeTimeoutMs,
+      stats: () => this.stats(),
+      publish: async (message) => {
+        await this._adapter?.publish(CLUSTER_CHANNEL, message);
+      },
+      onChange: (nodes, joined, left) => {
+        // Draining nodes keep heartbeating but own no identities
+        const owners = nodes
+          .filter((node) => node.state === "active")
+          .map((node) => node.nodeId);
+        this._logger?.info?.("Cluster membership changed", {
+          nodes: nodes.length,
+          owners: owners.length,
+          joined,
+          left,
+        });
+        this.emit("clusterChange", { nodes, joined, left });
+        if (this._ring?.setNodes(owners)) this._scheduleRebalance();
+        if (left.length > 0) {
+          this._cleanupStalePresence(left).catch((err) => {
+            this._logger?.warn?.("Stale presence cleanup failed", {
+              error: err,
+            });
+          });
+        }
+      },
+      onError: (err) => {
+        this._logger?.warn?.("Cluster heartbeat failed", {
+          error: err.message,
+        });
+      },
+    });
+    this._membership.start();
+  }
+
+  private async _stopCluster(): Promise<void> {
+    if (this._rebalanceTimer) {
+      clearTimeout(this._rebalanceTimer);
+      this._rebalanceTimer = null;
+    }
+    if (this._rebalanceInterval) {
+      clearInterval(this._rebalanceInterval);
+      this._rebalanceInterval = null;
+    }
+    // Announce the departure so the other nodes take over our identities
+    // without waiting for the heartbeat timeout.
+    await this._membership?.stop();
+    this._membership = null;
+    this._ring = null;
+  }
+
+  /**
+   * Removes presence entries still pointing at nodes that just died, so
+   * sendToClient() stops routing to them before the entries' TTL runs out.
+   * Only the live node with the lowest id does the work. Entries are read
+   * again before removal to keep stations that already reconnected
+   * elsewhere; one re-registering in between is restored by its node's
+   * presence refresh.
+   */
+  private async _cleanupStalePresence(dead: string[]): Promise<void> {
+    const adapter = this._adapter;
+    if (
+      this._clusterOptions().cleanupStalePresence === false ||
+      !adapter?.listPresence ||
+      !adapter.removePresence ||
+      this._membership?.nodes[0]?.nodeId !== this._nodeId
+    ) {
+      return;
+    }
+    const deadNodes = new Set(dead);
+    const candidates = (await adapter.listPresence())
+      .filter((entry) => deadNodes.has(entry.nodeId))
+      .map((entry) => entry.identity);
+    if (candidates.length === 0) return;
+
+    const current = adapter.getPresenceBatch
+      ? await adapter.getPresenceBatch(candidates)
+      : await Promise.all(
+          candidates.map((id) => adapter.getPresence?.(id) ?? null),
+        );
+    const stale = candidates.filter((_, i) => {
+      const nodeId = current[i];
+      return nodeId != null && deadNodes.has(nodeId);
+    });
+    if (stale.length === 0) return;
+    await Promise.all(
+      stale.map((identity) => adapter.removePresence!(identity)),
+    );
+
+    this._logger?.info?.("Removed stale presence of dead nodes", {
+      nodes: dead,
+      count: stale.length,
+    });
+    this.emit("presenceCleanup", { nodes: dead, identities: stale });
+  }
+
+  /**
+   * Waits `rebalanceDelayMs` for membership to settle, so a node restart
+   * doesn't move the same connections twice.
+   */
+  private _scheduleRebalance(): void {
+    if (this._rebalanceTimer) clearTimeout(this._rebalanceTimer);
+    this._rebalanceTimer = setTimeout(() => {
+      this._rebalanceTimer = null;
+      this._rebalance();
+    }, this._options.sharding?.rebalanceDelayMs ?? 10_000);
+    this._rebalanceTimer.unref();
+  }
+
+  /**
+   * Closes local connections whose identity now belongs to another node,
+   * `rebalanceRate` per second, with 1012 so the stations reconnect (and
+   * get redirected) right away instead of all at once.
+   */
+  private _rebalance(): void {
+    if (this._rebalanceInterval) {
+      clearInterval(this._rebalanceInterval);
+      this._rebalanceInterval = null;
+    }
+    if (this._state !== "OPEN") return;
+
+    const isForeign = (identity: string) => {
+      const owner = this.shardOwner(identity);
+      return owner !== null && owner !== this._nodeId;
+    };
+    const moving = Array.from(this._clients).filter((client) =>
+      isForeign(client.identity),
+    );
+    if (moving.length === 0) return;
+    this._logger?.info?.("Rebalancing connections", { count: moving.length });
+
+    const perTick = Math.ceil(
+      Math.max(1, this._options.sharding?.rebalanceRate ?? 50) / 10,
+    );
+    const tick = () => {
+      for (const client of moving.splice(0, perTick)) {
+        // Membership may have changed again since the list was built
+        if (!this._clients.has(client) || !isForeign(client.identity)) {
+          continue;
+        }
+        // Like a drain: the presence entry goes first, so the late close
+        // can't delete the one the new owner registers
+        this._drainClient(client, 1012, "Rebalancing", 0).catch(() => {});
+      }
+      if (moving.length === 0 && this._rebalanceInterval) {
+        clearInterval(this._rebalanceInterval);
+        this._rebalanceInterval = null;
+      }
+    };
+    this._rebalanceInterval = setInterval(tick, 100);
+    this._rebalanceInterval.unref();
+    tick();
+  }
+
+  /**
+   * Rejects an upgrade for an identity owned by `owner`: a 307 to the
+   * owner's advertised URL, or a 421 carrying the owner as a hint. Only
+   * the request's path and query are carried over, onto the owner's
+   * origin — never a host from the request.
+   */
+  private _redirectToOwner(
+    url: URL,
+    socket: Duplex,
+    identity: string,
+    owner: string,
+  ): void {
+    const ownerUrl = this._membership?.get(owner)?.url;
+    let location: string | undefined;
+    if (ownerUrl) {
+      try {
+        const { origin } = new URL(ownerUrl);
+        if (origin !== "null")
+          location = `${origin}${url.pathname}${url.search}`;
+      } catch {}
+    }
+    const headers: Record<string, string> = { "X-OCPP-Owner-Node": owner };
+    if (location) headers["X-OCPP-Owner-Url"] = location;
+
+    this._logger?.debug?.("Identity owned by another node", {
+      identity,
+      owner,
+    });
+    if (location && this._options.sharding?.mode !== "hint") {
+      abortHandshake(socket, 307, `Identity is served by node ${owner}`, {
+        ...headers,
+        Location: location,
+      });
+    } else {
+      abortHandshake(
+        socket,
+        421,
+        `Identity is served by node ${owner}`,
+        headers,
+      );
+    }
+  }
+
   private _startPresenceRefresh(): void {
     if (this._presenceInterval || !this._adapter?.setPresence) return;
     const ttlSec = this._options.presenceTtlSeconds ?? 300;
@@ -2060,7 +2824,11 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
   private async _refreshPresence(ttlSec: number): Promise<void> {
     const adapter = this._adapter;
     if (!adapter) return;
-    const identities = Array.from(this._clientsByIdentity.keys());
+    // Drained stations were unregistered on purpose
+    const identities: string[] = [];
+    for (const [identity, client] of this._clientsByIdentity) {
+      if (!this._drainingClients.has(client)) identities.push(identity);
+    }
     if (identities.length === 0) return;
     if (adapter.setPresenceBatch) {
       await adapter.setPresenceBatch(
@@ -2079,6 +2847,54 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
     }
   }
 
+  private _onIPPolicyChange(msg: unknown) {
+    if (!msg || typeof msg !== "object") return;
+    const payload = msg as {
+      source?: string;
+      change?: IPPolicyChange;
+      /** A joining node asking for the whole policy */
+      sync?: boolean;
+      /** The answer to `sync`, for `target` only */
+      target?: string;
+      changes?: unknown;
+    };
+    if (payload.source === this._nodeId) return;
+
+    if (payload.sync) {
+      if (typeof payload.source !== "string") return;
+      Promise.resolve(
+        this._adapter?.publish("ocpp:ip-policy", {
+          source: this._nodeId,
+          target: payload.source,
+          changes: this._ipPolicy.snapshot(),
+        }),
+      ).catch((err) => {
+        this._logger?.warn?.("IP policy sync reply failed", {
+          error: (err as Error).message,
+        });
+      });
+      return;
+    }
+
+    let changes: unknown[] = [];
+    if (payload.changes !== undefined) {
+      if (payload.target === this._nodeId && Array.isArray(payload.changes)) {
+        changes = payload.changes;
+      }
+    } else if (payload.change) {
+      changes = [payload.change];
+    }
+    for (const change of changes) {
+      try {
+        this._ipPolicy.applyChange(change as IPPolicyChange);
+      } catch (err) {
+        this._logger?.error?.("Error applying IP policy change", {
+          error: (err as Error).message,
+        });
+      }
+    }
+  }
+
   private _onBroadcast(msg: unknown) {
     try {
       if (!msg || typeof msg !== "object") return;
@@ -2086,10 +2902,18 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
         source: string;
         method: string;
         params: unknown;
+        options?: BroadcastReportOptions;
+        correlationId?: string;
+        deadlineMs?: number;
       };
 
       if (payload.source === this._nodeId) return;
 
+      if (payload.correlationId) {
+        this._answerBroadcastReport(payload);
+        return;
+      }
+
       for (const client of this._clients) {
         client.call(payload.method, payload.params as any).catch(() => {});
       }
@@ -2116,6 +2940,15 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
           details?: Record<string, unknown>;
         };
       };
+      if (asResponse.__type === "broadcastResult" && asResponse.correlationId) {
+        const collect = this._pendingBroadcastReports.get(
+          asResponse.correlationId,
+        );
+        const entries = (msg as { results?: BroadcastResultEntry[] }).results;
+        if (collect && Array.isArray(entries)) collect(entries);
+        return;
+      }
+
       if (asResponse.__type === "callResult" && asResponse.correlationId) {
         const pending = this._pendingRemoteCalls.get(asResponse.correlationId);
         if (!pending) return; // late or duplicate response
@@ -2123,6 +2956,9 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
         clearTimeout(pending.timer);
         if (asResponse.ok) {
           pending.resolve(asResponse.result);
+        } else if (asResponse.error?.details?.timeout) {
+          // The station timed out on its node — keep it a TimeoutError
+          pending.reject(new TimeoutError(asResponse.error.message));
         } else {
           pending.reject(
             createRPCError(
@@ -2144,6 +2980,7 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
         params: unknown;
         options?: CallOptions;
         correlationId?: string;
+        shard?: boolean;
       };
 
       const client = this._clientsByIdentity.get(payload.target);
@@ -2163,15 +3000,18 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
             this._publishRemoteResult(payload, { ok: true, result });
           },
           (err) => {
+            const timedOut = (err as Error)?.name === "TimeoutError";
             this._publishRemoteResult(payload, {
               ok: false,
               error: {
                 code: (err as any)?.rpcErrorCode ?? "GenericError",
                 message: (err as Error)?.message ?? "",
-                details: (err as any)?.details ?? {},
+                details: timedOut
+                  ? { timeout: true }
+                  : ((err as any)?.details ?? {}),
               },
             });
-            if ((err as Error).name !== "TimeoutError") {
+            if (!timedOut) {
               this._logger?.error?.("Error delivering unicast to client", {
                 identity: payload.target,
                 error: err,
@@ -2182,8 +3022,9 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
         return;
       }
 
-      // Unknown target — the registry is stale. Tell the caller immediately
-      // instead of letting it time out, and clean up the stale entry.
+      // Unknown target — the registry (or ring) is stale. Tell the caller
+      // immediately instead of letting it time out, and clean up the stale
+      // entry.
       this._logger?.warn?.("Received unicast for unknown client", {
         target: payload.target,
       });
@@ -2192,9 +3033,12 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
         error: {
           code: "GenericError",
           message: `Client ${payload.target} not found on node ${this._nodeId}`,
+          details: { notConnected: true },
         },
       });
-      if (this._adapter?.removePresence) {
+      // A ring-routed call says nothing about the registry entry, which may
+      // point at the node actually holding the station.
+      if (!payload.shard && this._adapter?.removePresence) {
         this._adapter.removePresence(payload.target).catch(() => {});
       }
     } catch (err) {
@@ -2204,6 +3048,44 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
     }
   }
 
+  /** Run a reported broadcast for our local clients and reply to its origin. */
+  private _answerBroadcastReport(payload: {
+    source: string;
+    method: string;
+    params: unknown;
+    options?: BroadcastReportOptions;
+    correlationId?: string;
+    deadlineMs?: number;
+  }): void {
+    const options = payload.options ?? {};
+    const deadlineAt = Date.now() + (payload.deadlineMs ?? 0);
+    const targets = Array.from(this._clientsByIdentity.keys(), (identity) => ({
+      identity,
+      nodeId: this._nodeId,
+    }));
+
+    this._collectBroadcastResults(
+      targets,
+      payload.method,
+      payload.params,
+      options,
+      deadlineAt,
+    )
+      .then((results) =>
+        this._adapter?.publish(`ocpp:node:${payload.source}`, {
+          __type: "broadcastResult",
+          correlationId: payload.correlationId,
+          nodeId: this._nodeId,
+          results,
+        }),
+      )
+      .catch((err) => {
+        this._logger?.error?.("Failed to publish broadcast report", {
+          error: err,
+        });
+      });
+  }
+
   /** Publish the result of a remotely requested call back to the origin node. */
   private _publishRemoteResult(
     request: { source?: string; correlationId?: string },
@@ -2338,6 +3220,389 @@ export class OCPPServer extends (EventEmitter as new () => TypedEventEmitter<Ser
     await Promise.all(localPromises);
   }
 
+  // ─── Reported Broadcasts ─────────────────────────────────────
+
+  /**
+   * Like {@link broadcast}, but resolves with a per-station report instead
+   * of swallowing every outcome.
+   *
+   * With an adapter, every node runs the call for its own clients (each
+   * with its own `concurrency` cap) and replies over `ocpp:node:<origin>`.
+   * The number of nodes is not known up front, so the report resolves
+   * when `deadlineMs` elapses; stations on nodes that did not reply in
+   * time are absent from `results`.
+   *
+   * @example
+   * ```ts
+   * const report = await server.broadcastWithReport(
+   *   'ChangeConfiguration',
+   *   { key: 'HeartbeatInterval', value: '300' },
+   *   { concurrency: 50, deadlineMs: 60_000 },
+   * );
+   * console.log(report.summary); // { total, accepted, error, timeout, 'not-connected' }
+   * ```
+   */
+  async broadcastWithReport<V extends AllMethodNames<any>>(
+    method: V,
+    params: OCPPRequestType<any, V>,
+    options: BroadcastReportOptions = {},
+  ): Promise<BroadcastReport<OCPPResponseType<any, V>>> {
+    const startedAt = Date.now();
+    const deadlineAt = startedAt + this._broadcastDeadlineMs(options);
+    const grace = OCPPServer._REMOTE_RESPONSE_GRACE_MS;
+
+    const remote: BroadcastResultEntry[] = [];
+    let correlationId: string | null = null;
+    if (this._adapter) {
+      correlationId = createId();
+      this._pendingBroadcastReports.set(correlationId, (entries) =>
+        remote.push(...entries),
+      );
+      try {
+        await this._adapter.publish("ocpp:broadcast", {
+          source: this._nodeId,
+          method,
+          params,
+          options: this._remoteCallOptions(options),
+          correlationId,
+          // Remote nodes stop early so their reply makes it back in time
+          deadlineMs: Math.max(0, deadlineAt - Date.now() - grace),
+        });
+      } catch (err) {
+        this._logger?.error?.("Failed to publish broadcast report request", {
+          error: err,
+        });
+        this._pendingBroadcastReports.delete(correlationId);
+        correlationId = null;
+      }
+    }
+
+    const local = await this._collectBroadcastResults(
+      Array.from(this._clientsByIdentity.keys(), (identity) => ({
+        identity,
+        nodeId: this._nodeId,
+      })),
+      method,
+      params,
+      options,
+      deadlineAt,
+    );
+
+    if (correlationId) {
+      await new Promise((r) => setTimeout(r, deadlineAt - Date.now()));
+      this._pendingBroadcastReports.delete(correlationId);
+    }
+
+    return this._buildBroadcastReport(method, [...local, ...remote], startedAt);
+  }
+
+  /**
+   * Like {@link broadcastBatch}, but resolves with a per-station report.
+   * Local stations are called directly, remote ones through the cluster
+   * registry with their results correlated back over the adapter; unknown
+   * identities are reported as `not-connected`.
+   *
+   * @example
+   * ```ts
+   * const report = await server.broadcastBatchWithReport(
+   *   ['CP-1', 'CP-2', 'CP-3'],
+   *   'SetChargingProfile',
+   *   { connectorId: 0, csChargingProfiles: profile },
+   *   { concurrency: 20 },
+   * );
+   * const failed = report.results.filter((r) => r.status !== 'accepted');
+   * ```
+   */
+  async broadcastBatchWithReport<V extends AllMethodNames<any>>(
+    identities: string[],
+    method: V,
+    params: OCPPRequestType<any, V>,
+    options: BroadcastReportOptions = {},
+  ): Promise<BroadcastReport<OCPPResponseType<any, V>>> {
+    const startedAt = Date.now();
+    const deadlineAt = startedAt + this._broadcastDeadlineMs(options);
+    const unique = Array.from(new Set(identities));
+
+    const remoteIdentities = unique.filter(
+      (id) => !this._clientsByIdentity.has(id),
+    );
+    const nodeIds = new Map<string, string | null>();
+    if (remoteIdentities.length > 0 && this._adapter) {
+      let presences: (string | null)[] = [];
+      try {
+        if (this._adapter.getPresenceBatch) {
+          presences = await this._adapter.getPresenceBatch(remoteIdentities);
+        } else if (this._adapter.getPresence) {
+          presences = await Promise.all(
+            remoteIdentities.map((id) => this._adapter!.getPresence!(id)),
+          );
+        }
+      } catch (err) {
+        this._logger?.warn?.(
+          "broadcastBatchWithReport: presence lookup failed",
+          {
+            error: err,
+          },
+        );
+      }
+      remoteIdentities.forEach((id, i) => {
+        nodeIds.set(id, presences[i] ?? null);
+      });
+    }
+
+    const results = await this._collectBroadcastResults(
+      unique.map((identity) => ({
+        identity,
+        nodeId: this._clientsByIdentity.has(identity)
+          ? this._nodeId
+          : (nodeIds.get(identity) ?? undefined),
+      })),
+      method,
+      params,
+      options,
+      deadlineAt,
+    );
+
+    return this._buildBroadcastReport(method, results, startedAt);
+  }
+
+  private _broadcastDeadlineMs(options: BroadcastReportOptions): number {
+    return (
+      options.deadlineMs ??
+      (options.timeoutMs ?? this._options.callTimeoutMs ?? 30_000) +
+        OCPPServer._REMOTE_RESPONSE_GRACE_MS
+    );
+  }
+
+  /** CallOptions that survive JSON serialization across the adapter. */
+  private _remoteCallOptions(
+    options: BroadcastReportOptions,
+  ): BroadcastReportOptions {
+    const { signal: _signal, deadlineMs: _deadlineMs, ...rest } = options;
+    return rest;
+  }
+
+  /**
+   * Call every target with at most `options.concurrency` calls in flight,
+   * recording one outcome per target. Targets without a `nodeId` are
+   * `not-connected`; anything unsettled at `deadlineAt` is a `timeout`.
+   */
+  private async _collectBroadcastResults(
+    targets: Array<{ identity: string; nodeId?: string }>,
+    method: string,
+    params: unknown,
+    options: BroadcastReportOptions,
+    deadlineAt: number,
+  ): Promise<BroadcastResultEntry[]> {
+    const results: BroadcastResultEntry[] = new Array(targets.length);
+    if (targets.length === 0) return results;
+
+    const {
+      concurrency = 100,
+      deadlineMs: _deadline,
+      ...callOptions
+    } = options;
+
+    let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<"deadline">((resolve) => {
+      deadlineTimer = setTimeout(
+        () => resolve("deadline"),
+        Math.max(0, deadlineAt - Date.now()),
+      );
+    });
+
+    let next = 0;
+    const worker = async () => {
+      while (next < targets.length) {
+        const i = next++;
+        const { identity, nodeId } = targets[i];
+        const startedAt = Date.now();
+        const remaining = deadlineAt - startedAt;
+
+        if (!nodeId) {
+          results[i] = { identity, status: "not-connected", durationMs: 0 };
+          continue;
+        }
+        if (remaining <= 0) {
+          results[i] = {
+            identity,
+            status: "timeout",
+            nodeId,
+            errorMessage: "Deadline elapsed before dispatch",
+            durationMs: 0,
+          };
+          continue;
+        }
+
+        const perCall: CallOptions = {
+          ...callOptions,
+          timeoutMs: Math.min(
+            callOptions.timeoutMs ?? this._options.callTimeoutMs ?? 30_000,
+            remaining,
+          ),
+        };
+
+        const outcome = await Promise.race([
+          this._dispatchReported(identity, nodeId, method, params, perCall),
+          deadline.then(
+            (): Omit<BroadcastResultEntry, "identity" | "durationMs"> => ({
+              status: "timeout",
+              nodeId,
+              errorMessage: "Broadcast deadline elapsed",
+            }),
+          ),
+        ]);
+        results[i] = {
+          identity,
+          ...outcome,
+          durationMs: Date.now() - startedAt,
+        };
+      }
+    };
+
+    try {
+      await Promise.all(
+        Array.from(
+          { length: Math.min(Math.max(1, concurrency), targets.length) },
+          worker,
+        ),
+      );
+    } finally {
+      clearTimeout(deadlineTimer);
+    }
+    return results;
+  }
+
+  private async _dispatchReported(
+    identity: string,
+    nodeId: string,
+    method: string,
+    params: unknown,
+    options: CallOptions,
+  ): Promise<Omit<BroadcastResultEntry, "identity" | "durationMs">> {
+    try {
+      let result: unknown;
+      if (nodeId === this._nodeId) {
+        const client = this._clientsByIdentity.get(identity);
+        if (!client || client.state !== ConnectionState.OPEN) {
+          return { status: "not-connected" };
+        }
+        result = await client.call(method, params as any, options);
+      } else {
+        const { signal: _signal, ...remoteOptions } = options;
+        result = await this._callRemote(
+          nodeId,
+          identity,
+          undefined,
+          method,
+          params,
+          remoteOptions,
+        );
+      }
+      return { status: "accepted", nodeId, result };
+    } catch (err) {
+      const error = err as Error & {
+        rpcErrorCode?: string;
+        details?: Record<string, unknown>;
+      };
+      let status: BroadcastOutcome = "error";
+      if (error.name === "TimeoutError") status = "timeout";
+      else if (error.details?.notConnected) status = "not-connected";
+      return {
+        status,
+        nodeId: status === "not-connected" ? undefined : nodeId,
+        errorCode: status === "error" ? error.rpcErrorCode : undefined,
+        errorMessage: error.message,
+      };
+    }
+  }
+
+  private _buildBroadcastReport(
+    method: string,
+    results: BroadcastResultEntry[],
+    startedAt: number,
+  ): BroadcastReport<any> {
+    const summary: BroadcastReport["summary"] = {
+      total: results.length,
+      accepted: 0,
+      error: 0,
+      timeout: 0,
+      "not-connected": 0,
+    };
+    for (const entry of results) summary[entry.status]++;
+    return {
+      method,
+      results,
+      summary,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  // ─── Security Profile Upgrade ─────────────────────────────────
+
+  /**
+   * Moves a locally connected station to a higher security profile and
+   * verifies it reconnects with it (`HandshakeInfo.securityProfile`).
+   *
+   * OCPP 2.x stations get the new password (`SecurityCtrlr`), a
+   * `SetNetworkProfile` into a free slot, that slot first in
+   * `NetworkConfigurationPriority`, and a `Reset`. OCPP 1.6 stations get
+   * `AuthorizationKey` and `SecurityProfile` through `ChangeConfiguration`.
+   * If the station doesn't come back with the new profile within
+   * `timeoutMs`, the previous network configuration is restored.
+   *
+   * Since one server listens with one profile, pass the server for the new
+   * profile in `servers` when it is a separate instance.
+   *
+   * @example
+   * ```ts
+   * const result = await server.upgradeSecurityProfile("CP-1", {
+   *   securityProfile: SecurityProfile.TLS_BASIC_AUTH,
+   *   password: newPassword,
+   *   networkProfile: { configurationSlot: 2, connectionData },
+   *   servers: [server, tlsServer],
+   * });
+   * if (result.status !== "upgraded") console.warn(result.reason);
+   * ```
+   *
+   * @throws If the station is not connected to this node, already being
+   * upgraded, or the target profile is not an upgrade.
+   */
+  async upgradeSecurityProfile(
+    identity: string,
+    options: SecurityProfileUpgradeOptions,
+  ): Promise<SecurityProfileUpgradeResult> {
+    return upgradeSecurityProfile(this, identity, options, this._logger);
+  }
+
+  // ─── Security Events ──────────────────────────────────────────
+
+  /**
+   * Publishes a security event: fills in `source` ("server") and
+   * `severity` (from the event taxonomy), emits `securityEvent` and calls
+   * every plugin's `onSecurityEvent`.
+   *
+   * @example
+   * ```ts
+   * server.emitSecurityEvent({
+   *   type: "AUTH_FAILED",
+   *   identity: "CP-1",
+   *   timestamp: new Date().toISOString(),
+   *   details: { reason: "Unknown RFID master key" },
+   * });
+   * ```
+   */
+  emitSecurityEvent(event: SecurityEvent): void {
+    event.source ??= "server";
+    event.severity ??= classifySecurityEvent(event).severity;
+    this.emit("securityEvent", event);
+    for (const plugin of this._plugins) {
+      try {
+        plugin.onSecurityEvent?.(event);
+      } catch {}
+    }
+  }
+
   // ─── Internal: WebSocketServer Factory ──────────────────────────
 
   /**
@@ -4,6 +4,7 @@ import ocpp21 from "./schemas/ocpp2_1.json";
 import {
   createValidator,
   type Validator,
+  type ValidatorOptions,
   type ValidatorSchema,
 } from "./validator.js";
 
@@ -19,10 +20,24 @@ let _cached: Validator[] | null = null;
 
 export function getStandardValidators(): Validator[] {
   if (_cached) return _cached;
-  _cached = [
-    createValidator("ocpp1.6", ocpp16 as ValidatorSchema[]),
-    createValidator("ocpp2.0.1", ocpp201 as ValidatorSchema[]),
-    createValidator("ocpp2.1", ocpp21 as ValidatorSchema[]),
-  ];
+  _cached = createStandardValidators();
   return _cached;
 }
+
+/**
+ * Fresh (uncached) validators for all supported versions, e.g. to attach a
+ * signature verifier:
+ *
+ * ```ts
+ * strictModeValidators: createStandardValidators({ signatureVerifier }),
+ * ```
+ */
+export function createStandardValidators(
+  options?: ValidatorOptions,
+): Validator[] {
+  return [
+    createValidator("ocpp1.6", ocpp16 as ValidatorSchema[], options),
+    createValidator("ocpp2.0.1", ocpp201 as ValidatorSchema[], options),
+    createValidator("ocpp2.1", ocpp21 as ValidatorSchema[], options),
+  ];
+}
@@ -1,8 +1,9 @@
 import type { EventEmitter } from "node:events";
 import type { IncomingMessage } from "node:http";
 import type { Duplex } from "node:stream";
-import type { TLSSocket } from "node:tls";
+import type { PeerCertificate, TLSSocket } from "node:tls";
 import type { LogEntry } from "voltlog-io";
+import type { RevocationList } from "./client-cert.js";
 import type {
   AllMethodNames,
   OCPPMethodMap,
@@ -10,6 +11,9 @@ import type {
   OCPPRequestType,
   OCPPResponseType,
 } from "./generated/index.js";
+import type { IPPolicy, IPPolicyOptions } from "./ip-policy.js";
+import type { SignatureVerificationReport } from "./meter-signatures.js";
+import type { OfflineQueueStore } from "./offline-queue.js";
 import type { Validator } from "./validator.js";
 
 export type {
@@ -149,6 +153,32 @@ export interface TLSOptions {
   passphrase?: string;
 }
 
+/**
+ * Identity binding and revocation checks for Profile 3 client
+ * certificates. Checked after the TLS handshake, before the auth callback.
+ */
+export interface ClientCertificateOptions {
+  /**
+   * Require the certificate to name the URL identity in its subject CN,
+   * a subjectAltName entry, or either (default: no binding).
+   */
+  identityMatch?: "cn" | "san" | "cn-or-san";
+  /**
+   * Custom mapping from certificate to the identities it may connect as.
+   * Takes precedence over `identityMatch`.
+   */
+  mapIdentity?: (cert: PeerCertificate) => string | string[] | undefined;
+  /** Revoked serial numbers. Changes apply to the next handshake. */
+  revocationList?: RevocationList;
+  /**
+   * CRL file (PEM or DER) loaded into `revocationList`. Re-read by
+   * `updateTLS()` and `updateClientCertificate()`.
+   */
+  crlFile?: string;
+  /** CA certificate (PEM) to verify the CRL signature against */
+  crlIssuerCertificate?: string;
+}
+
 // ─── Handler Types ───────────────────────────────────────────────
 
 export interface HandlerContext<T = unknown> {
@@ -162,6 +192,11 @@ export interface HandlerContext<T = unknown> {
   params: T;
   /** Abort signal */
   signal: AbortSignal;
+  /**
+   * Signed meter value verification, when the validator has a signature
+   * verifier and the call carries signed (or required) readings
+   */
+  signatures?: SignatureVerificationReport;
 }
 
 export type CallHandler<TParams = unknown, TResult = unknown> = (
@@ -206,6 +241,58 @@ export interface CallOptions {
    * when retrying calls across reconnections.
    */
   idempotencyKey?: string;
+  /**
+   * Who is sending this call (a user, service or API client). Checked by
+   * `commandPolicyPlugin` and recorded in its audit trail; travels with
+   * calls forwarded to other nodes.
+   */
+  principal?: string;
+}
+
+// ─── Broadcast Reports ───────────────────────────────────────────
+
+/**
+ * Per-station outcome of a reported broadcast.
+ * - `accepted`      — the station answered with a CALLRESULT (inspect `result`)
+ * - `error`         — the station answered with a CALLERROR (`errorCode`)
+ * - `timeout`       — no answer within the call timeout or overall deadline
+ * - `not-connected` — the station is not connected to any node
+ */
+export type BroadcastOutcome =
+  | "accepted"
+  | "error"
+  | "timeout"
+  | "not-connected";
+
+export interface BroadcastResultEntry<TResult = unknown> {
+  identity: string;
+  status: BroadcastOutcome;
+  /** Node that served the call (absent for `not-connected`) */
+  nodeId?: string;
+  result?: TResult;
+  /** OCPP RPC error code for `error` outcomes */
+  errorCode?: string;
+  errorMessage?: string;
+  /** Time from dispatch to outcome */
+  durationMs: number;
+}
+
+export interface BroadcastReport<TResult = unknown> {
+  method: string;
+  results: BroadcastResultEntry<TResult>[];
+  summary: Record<BroadcastOutcome, number> & { total: number };
+  durationMs: number;
+}
+
+export interface BroadcastReportOptions extends CallOptions {
+  /** Max calls in flight per node. (default: 100) */
+  concurrency?: number;
+  /**
+   * Overall deadline in ms. Calls still pending (or not yet dispatched)
+   * when it elapses are reported as `timeout`.
+   * (default: call timeout + 1s cross-node grace)
+   */
+  deadlineMs?: number;
 }
 
 // ─── Close Options ───────────────────────────────────────────────
@@ -374,6 +461,14 @@ export interface ClientOptions {
   reconnect?: boolean;
   /** Maximum reconnection attempts (default: Infinity) */
   maxReconnects?: number;
+  /**
+   * Follow a sharded server to the node that owns this identity: an HTTP
+   * 307/308 `Location`, or a 421 `X-OCPP-Owner-Url` hint. Up to 5 hops per
+   * connection attempt; redirects from `wss:` to `ws:` are refused, and
+   * the `Authorization` header is only sent to the `endpoint`'s origin.
+   * (default: false)
+   */
+  followRedirects?: boolean;
   /** Back-off base delay in ms (default: 1000) */
   backoffMin?: number;
   /** Back-off max delay in ms (default: 30000) */
@@ -421,10 +516,42 @@ export interface ClientOptions {
    */
   offlineQueue?: boolean;
   /**
-   * Maximum number of messages to queue while offline.
-   * Oldest messages are dropped when exceeded. (default: 100)
+   * Maximum number of messages to queue while offline. When exceeded, the
+   * lowest-priority, oldest message is dropped — or the new call is
+   * rejected if it ranks below everything queued.
+   * (default: 100; unlimited with `offlineQueueStore`)
    */
   offlineQueueMaxSize?: number;
+  /**
+   * Persistent store for the offline queue. When set, queued calls survive
+   * process crashes/restarts and are restored and flushed after the next
+   * successful connect. Implies `offlineQueue: true`.
+   * @see FileOfflineQueueStore
+   */
+  offlineQueueStore?: OfflineQueueStore;
+  /**
+   * Per-method flush priority for the offline queue (higher first, FIFO
+   * within the same priority). On overflow the lowest priority, oldest
+   * entry is dropped, and a new call ranking below every queued one is
+   * rejected instead. Unlisted methods have priority 0.
+   * (default: transaction messages = 10)
+   */
+  offlineQueuePriorities?: Record<string, number>;
+  /**
+   * Delivery attempts for queued transaction-related messages
+   * (StartTransaction, StopTransaction, MeterValues, TransactionEvent)
+   * that time out or are answered with a CALLERROR — mirrors
+   * `TransactionMessageAttempts` (1.6) / `MessageAttempts` (2.0.1).
+   * (default: 3)
+   */
+  transactionMessageAttempts?: number;
+  /**
+   * Base wait between transaction message attempts in ms. The wait grows
+   * linearly: `interval * attemptsMade` — mirrors
+   * `TransactionMessageRetryInterval` / `MessageAttemptInterval`.
+   * (default: 10000)
+   */
+  transactionMessageRetryIntervalMs?: number;
   /**
    * Enable WebSocket `permessage-deflate` compression.
    * Reduces bandwidth by ~80% for JSON payloads at the cost of ~0.2ms CPU per message.
@@ -526,9 +653,12 @@ export interface RouterConfig {
 export interface CORSOptions {
   /**
    * Allowed exact IPv4/IPv6 addresses or CIDR ranges
-   * (e.g. "10.0.0.0/8", "2001:db8::/32").
+   * (e.g. "10.0.0.0/8", "2001:db8::/32"), or `@name` references to
+   * `ipPolicy` groups.
    */
   allowedIPs?: string[];
+  /** Rejected addresses, CIDR ranges or `@group`s — override `allowedIPs` */
+  deniedIPs?: string[];
   /**
    * Allowed `Origin` header values (e.g. "https://dashboard.example.com").
    *
@@ -557,6 +687,15 @@ interface ServerOptionsBase {
   securityProfile?: SecurityProfile;
   /** TLS options for HTTPS server (Profile 2 & 3) */
   tls?: TLSOptions;
+  /** Client certificate identity binding and revocation (Profile 3) */
+  clientCertificate?: ClientCertificateOptions;
+  /**
+   * Server-wide IP groups, allow/deny lists and bans, checked before any
+   * other handshake work. Pass an `IPPolicy` to share it between servers;
+   * change it at runtime through `server.ipPolicy`. When set, the policy is
+   * also replicated to other nodes through the adapter.
+   */
+  ipPolicy?: IPPolicy | IPPolicyOptions;
   /** Call timeout in ms — inherited by server clients (default: 30000) */
   callTimeoutMs?: number;
   /** Ping interval in ms — inherited by server clients (default: 30000) */
@@ -671,6 +810,31 @@ interface ServerOptionsBase {
    * (default: disabled)
    */
   telemetry?: TelemetryConfig;
+
+  /**
+   * Id of this node within the cluster: its adapter unicast channel, its
+   * presence entries and its place on the sharding ring. Give each node a
+   * stable id (e.g. the pod or host name) so a restart keeps its queued
+   * unicast and its shard. Must be unique across live nodes.
+   * (default: random per process)
+   */
+  nodeId?: string;
+
+  /**
+   * Consistent-hash identity sharding across the nodes sharing an adapter.
+   * Each identity has one owning node; the others turn its upgrades away
+   * with a redirect once auth has passed. Set a stable `nodeId` so restarts
+   * don't reshuffle identities. Requires `setAdapter()`. (default: disabled)
+   */
+  sharding?: ShardingOptions;
+
+  /**
+   * Cluster membership over the adapter: nodes exchange heartbeats carrying
+   * their `stats()`, which `clusterStats()` aggregates, and the presence
+   * entries of dead nodes are cleaned up. Enabled by `sharding` too.
+   * Requires `setAdapter()`. (default: disabled)
+   */
+  cluster?: boolean | ClusterOptions;
 }
 
 /** When strictMode is enabled, protocols MUST be specified */
@@ -697,6 +861,133 @@ export interface TelemetryConfig {
   pushIntervalMs?: number;
 }
 
+// ─── Sharding ────────────────────────────────────────────────────
+
+export interface ShardingOptions {
+  /**
+   * Public WebSocket origin of this node (e.g. `wss://node-a.example.com`),
+   * shared with the cluster so other nodes can redirect to it. Must be a
+   * `ws:`, `wss:`, `http:` or `https:` URL; only its origin is used, and
+   * the station's request path and query are kept. Without it, other nodes
+   * can only send a hint.
+   */
+  advertisedUrl?: string;
+  /**
+   * How a non-owner rejects an upgrade:
+   * - `"redirect"` → HTTP 307 with `Location` (falls back to `"hint"` when
+   *   the owner has no `advertisedUrl`)
+   * - `"hint"` → HTTP 421 with `X-OCPP-Owner-Node` / `X-OCPP-Owner-Url`
+   * (default: "redirect")
+   */
+  mode?: "redirect" | "hint";
+  /** Points per node on the hash ring (default: 160) */
+  virtualNodes?: number;
+  /** Membership heartbeat interval in ms (default: 5000) */
+  heartbeatIntervalMs?: number;
+  /** A node missing heartbeats for this long leaves the ring (default: 15000) */
+  nodeTimeoutMs?: number;
+  /**
+   * Wait after a membership change before moving connections, so a
+   * restarting node doesn't cause two rebalances. (default: 10000)
+   */
+  rebalanceDelayMs?: number;
+  /**
+   * Connections closed per second while handing identities to their new
+   * owner, with close code 1012 so stations reconnect. (default: 50)
+   */
+  rebalanceRate?: number;
+}
+
+// ─── Cluster ─────────────────────────────────────────────────────
+
+export interface ClusterOptions {
+  /** Membership heartbeat interval in ms (default: 5000) */
+  heartbeatIntervalMs?: number;
+  /** A node missing heartbeats for this long is considered dead (default: 15000) */
+  nodeTimeoutMs?: number;
+  /**
+   * Remove presence entries still pointing at a node once it is dead,
+   * instead of waiting for their TTL. Every node must have `cluster` (or
+   * `sharding`) enabled, since nodes without heartbeats look dead.
+   * (default: true)
+   */
+  cleanupStalePresence?: boolean;
+}
+
+/** A server node as seen through cluster membership heartbeats. */
+export interface ClusterMember {
+  nodeId: string;
+  /** The node's `sharding.advertisedUrl` */
+  url?: string;
+  /** Draining nodes stay in the membership but own no identities */
+  state: "active" | "draining";
+  /** ISO timestamp the node started announcing itself */
+  startedAt: string;
+  /** Epoch ms of the last heartbeat received */
+  lastSeen: number;
+  /** The node's `stats()` as of its last heartbeat */
+  stats?: OCPPServerStats;
+}
+
+/** A connected station and the node it is connected to. */
+export interface PresenceEntry {
+  identity: string;
+  nodeId: string;
+}
+
+/** Returned by `server.clusterStats()` */
+export interface ClusterStats {
+  /** Live nodes, sorted by node id; this node's stats are current */
+  nodes: ClusterMember[];
+  /** Sums over `nodes` (nodes without stats count as zero) */
+  totals: {
+    nodes: number;
+    activeNodes: number;
+    connectedClients: number;
+    activeSessions: number;
+    bufferedAmount: number;
+    memory: { rss: number; heapUsed: number };
+  };
+}
+
+// ─── Drain ───────────────────────────────────────────────────────
+
+export interface DrainOptions {
+  /** Stations disconnected per second (default: 50) */
+  rate?: number;
+  /**
+   * Close code sent to stations. The default, 1012 (Service Restart), tells
+   * them to reconnect right away — to another node. (default: 1012)
+   */
+  code?: number;
+  /** Close reason (default: "Server draining") */
+  reason?: string;
+  /**
+   * Longest wait (ms) for a station's in-flight CALLs, in either direction,
+   * before it is disconnected anyway. (default: callTimeoutMs)
+   */
+  inFlightTimeoutMs?: number;
+}
+
+/** Progress of `server.drain()`, reported through events and plugins. */
+export interface DrainProgress {
+  /** Stations connected when the drain started */
+  total: number;
+  /** Stations disconnected so far (by the drain or on their own) */
+  closed: number;
+  remaining: number;
+  /** Milliseconds since the drain started */
+  elapsedMs: number;
+}
+
+/** Passed to `OCPPPlugin.onClosing` */
+export interface ClosingInfo {
+  /** `"drain"` when shutdown started with `server.drain()` */
+  mode: "close" | "drain";
+  /** Initial drain progress, in `"drain"` mode */
+  progress?: DrainProgress;
+}
+
 // ─── Observability ─────────────────────────────────────────────────
 
 export interface OCPPServerStats {
@@ -802,6 +1093,17 @@ export interface ClientEvents {
   ping: [];
   pong: [];
   strictValidationFailure: [{ message: unknown; error: Error }];
+  /** Signed meter values in an inbound call were unsigned, tampered or unverifiable */
+  signatureVerificationFailure: [SignatureVerificationReport];
+  /** A queued offline call was discarded without being delivered */
+  offlineQueueDrop: [
+    {
+      method: string;
+      params: unknown;
+      reason: "overflow" | "failed";
+      error: Error;
+    },
+  ];
 }
 
 import type { OCPPServerClient } from "./server-client.js";
@@ -822,7 +1124,16 @@ export interface SecurityEvent {
     | "ANOMALY_RAPID_RECONNECT"
     | "ANOMALY_AUTH_BRUTE_FORCE"
     | "ANOMALY_MESSAGE_FUZZING"
-    | "ANOMALY_IDENTITY_COLLISION";
+    | "ANOMALY_IDENTITY_COLLISION"
+    | "CLIENT_CERT_REVOKED"
+    | "CLIENT_CERT_MISMATCH"
+    | "IP_BLOCKED"
+    /** Forwarded from a station's `SecurityEventNotification` */
+    | "STATION_SECURITY_EVENT";
+  /** Who detected the event (default: "server") */
+  source?: "server" | "station";
+  /** Filled in from the event taxonomy unless set explicitly */
+  severity?: SecuritySeverity;
   /** Station identity (if known) */
   identity?: string;
   /** Remote IP address */
@@ -833,6 +1144,21 @@ export interface SecurityEvent {
   details?: Record<string, unknown>;
 }
 
+export type SecuritySeverity = "low" | "medium" | "high" | "critical";
+
+/** Taxonomy bucket shared by server- and station-detected events. */
+export type SecurityEventCategory =
+  | "authentication"
+  | "certificate"
+  | "connection"
+  | "rate_limit"
+  | "protocol"
+  | "anomaly"
+  | "firmware"
+  | "tamper"
+  | "system"
+  | "other";
+
 export interface ServerEvents {
   client: [OCPPServerClient];
   error: [Error];
@@ -847,6 +1173,14 @@ export interface ServerEvents {
   ];
   closing: [];
   close: [];
+  /** `drain()` progress, emitted as it starts and as stations disconnect */
+  draining: [DrainProgress];
+  /** `drain()` finished — every station has disconnected */
+  drained: [DrainProgress];
+  /** Cluster membership: nodes joined, left or changed state */
+  clusterChange: [{ nodes: ClusterMember[]; joined: string[]; left: string[] }];
+  /** Presence entries of dead nodes were removed */
+  presenceCleanup: [{ nodes: string[]; identities: string[] }];
   /** I3: Structured security event for SIEM/audit pipelines */
   securityEvent: [SecurityEvent];
   /** Enriched message event with direction and context */
@@ -874,6 +1208,8 @@ export interface EventAdapterInterface {
   getPresence?(identity: string): Promise<string | null>;
   getPresenceBatch?(identities: string[]): Promise<(string | null)[]>;
   removePresence?(identity: string): Promise<void>;
+  /** Every live presence entry, for `server.listClusterClients()` */
+  listPresence?(): Promise<PresenceEntry[]>;
   /**
    * Batch set multiple presence entries in a single pipeline.
    * Reduces N network round-trips to 1 for bulk presence updates.
@@ -979,6 +1315,11 @@ export interface OCPPPlugin {
     message: unknown,
     error: Error,
   ): void | Promise<void>;
+  /** Signed meter values failed verification (validator signature stage) */
+  onSignatureVerificationFailure?(
+    client: import("./server-client.js").OCPPServerClient,
+    report: SignatureVerificationReport,
+  ): void | Promise<void>;
   /** Message dropped or client disconnected due to rate limiting */
   onRateLimitExceeded?(
     client: import("./server-client.js").OCPPServerClient,
@@ -1041,8 +1382,14 @@ export interface OCPPPlugin {
   ): void | Promise<void>;
   /** TLS certificates hot-reloaded via server.updateTLS() */
   onTLSUpdate?(tlsOpts: TLSOptions): void | Promise<void>;
-  /** Server entering CLOSING state — pre-shutdown hook (before clients are drained) */
-  onClosing?(): void | Promise<void>;
+  /**
+   * Server shutting down — pre-shutdown hook, before clients are
+   * disconnected. Called once, by `drain()` or by `close()`, whichever
+   * comes first.
+   */
+  onClosing?(info?: ClosingInfo): void | Promise<void>;
+  /** Progress of `server.drain()`, as stations disconnect */
+  onDrainProgress?(progress: DrainProgress): void;
 }
 
 // ─── Symbols ─────────────────────────────────────────────────────
@@ -55,20 +55,74 @@ function ip6ToBigInt(ip: string): bigint | null {
   return result;
 }
 
+/** RFC 5952 text form: lowercase, no leading zeros, longest zero run as `::`. */
+function formatIPv6(value: bigint): string {
+  const hextets = Array.from({ length: 8 }, (_, i) =>
+    Number((value >> BigInt(112 - i * 16)) & 0xffffn),
+  );
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; ) {
+    if (hextets[i] !== 0) {
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < 8 && hextets[end] === 0) end++;
+    if (end - i > bestLength) {
+      bestStart = i;
+      bestLength = end - i;
+    }
+    i = end;
+  }
+  const parts = hextets.map((h) => h.toString(16));
+  if (bestStart === -1) return parts.join(":");
+  return `${parts.slice(0, bestStart).join(":")}::${parts
+    .slice(bestStart + bestLength)
+    .join(":")}`;
+}
+
+/**
+ * One spelling per address, so string comparisons can't be bypassed by
+ * writing the same address differently: IPv4-mapped IPv6 addresses (in
+ * any notation) become dotted IPv4, other IPv6 addresses take their
+ * RFC 5952 form. Works on CIDR ranges too. Anything else is returned as is.
+ */
+export function canonicalIP(entry: string): string {
+  const slash = entry.indexOf("/");
+  const address = slash === -1 ? entry : entry.slice(0, slash);
+  const mask = slash === -1 ? undefined : Number(entry.slice(slash + 1));
+  if (!address.includes(":")) return entry;
+
+  const value = ip6ToBigInt(address);
+  if (value === null || (mask !== undefined && !Number.isInteger(mask))) {
+    return entry;
+  }
+  if (value >> 32n === 0xffffn && (mask === undefined || mask >= 96)) {
+    const v4 = [24n, 16n, 8n, 0n]
+      .map((shift) => Number((value >> shift) & 0xffn))
+      .join(".");
+    return mask === undefined ? v4 : `${v4}/${mask - 96}`;
+  }
+  const v6 = formatIPv6(value);
+  return mask === undefined ? v6 : `${v6}/${mask}`;
+}
+
 /**
  * Checks if a given remote IP matches any of the allowed IPs.
  * Allowed entries may be an exact IPv4/IPv6 address, an IPv4 CIDR block
  * (e.g. `"10.0.0.0/8"`), or an IPv6 CIDR block (e.g. `"2001:db8::/32"`).
  */
 export function isIPAllowed(remoteIP: string, allowedIPs: string[]): boolean {
-  // Normalize IPv4-mapped IPv6 addresses (e.g., ::ffff:192.168.1.1 -> 192.168.1.1)
-  let normalizedIP = remoteIP;
-  if (normalizedIP.startsWith("::ffff:")) {
-    normalizedIP = normalizedIP.substring(7);
-  }
+  // Normalize IPv4-mapped and differently written IPv6 addresses
+  // (e.g., ::ffff:192.168.1.1 -> 192.168.1.1, 2001:DB8:0::1 -> 2001:db8::1)
+  const normalizedIP = canonicalIP(remoteIP);
 
   for (const allowed of allowedIPs) {
-    if (allowed === normalizedIP) {
+    if (
+      allowed === normalizedIP ||
+      (!allowed.includes("/") && canonicalIP(allowed) === normalizedIP)
+    ) {
       return true; // Exact match for IPv4 or IPv6
     }
 
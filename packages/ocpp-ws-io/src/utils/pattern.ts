@@ -0,0 +1,43 @@
+/**
+ * A string glob (`*` matches any run of characters, `?` a single one) or a
+ * RegExp. Used by plugins to target stations by identity or route path.
+ */
+export type MatchPattern = string | RegExp;
+
+const globCache = new Map<string, RegExp>();
+
+function globToRegExp(glob: string): RegExp {
+  let re = globCache.get(glob);
+  if (!re) {
+    const source = glob
+      .split("")
+      .map((ch) =>
+        ch === "*"
+          ? ".*"
+          : ch === "?"
+            ? "."
+            : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&"),
+      )
+      .join("");
+    re = new RegExp(`^${source}$`);
+    globCache.set(glob, re);
+  }
+  return re;
+}
+
+/**
+ * Test a value against a glob or RegExp. An array matches if any entry does.
+ */
+export function matchesPattern(
+  value: string,
+  pattern: MatchPattern | MatchPattern[],
+): boolean {
+  if (Array.isArray(pattern)) {
+    return pattern.some((p) => matchesPattern(value, p));
+  }
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(value);
+  }
+  return globToRegExp(pattern).test(value);
+}
@@ -1,5 +1,9 @@
 import Ajv, { type ValidateFunction } from "ajv";
 import addFormats from "ajv-formats";
+import type {
+  SignatureVerificationReport,
+  SignatureVerifier,
+} from "./meter-signatures.js";
 import { createRPCError } from "./util.js";
 
 // ─── Validation Error Mapping ───────────────────────────────────
@@ -67,6 +71,15 @@ export interface ValidatorSchema {
   [key: string]: unknown;
 }
 
+export interface ValidatorOptions {
+  /**
+   * Adds a signature stage after schema validation: signed meter values in
+   * inbound calls are verified and the report is attached to the handler
+   * context as `ctx.signatures`.
+   */
+  signatureVerifier?: SignatureVerifier;
+}
+
 /**
  * Schema validator using AJV for OCPP message validation.
  * Each validator is bound to a specific subprotocol version.
@@ -76,11 +89,17 @@ export interface ValidatorSchema {
  */
 export class Validator {
   readonly subprotocol: string;
+  readonly signatureVerifier?: SignatureVerifier;
   /** @internal */
   _ajv: Ajv;
 
-  constructor(subprotocol: string, schemas: ValidatorSchema[]) {
+  constructor(
+    subprotocol: string,
+    schemas: ValidatorSchema[],
+    options: ValidatorOptions = {},
+  ) {
     this.subprotocol = subprotocol;
+    this.signatureVerifier = options.signatureVerifier;
     this._ajv = new Ajv({
       allErrors: true,
       strict: false,
@@ -158,6 +177,19 @@ export class Validator {
   hasSchema(schemaId: string): boolean {
     return !!this._ajv.getSchema(this._normalizeSchemaId(schemaId));
   }
+
+  /**
+   * Verify the signed meter values of an inbound call. Resolves to
+   * `undefined` without a signature verifier, or when the call carries
+   * nothing signed.
+   */
+  async verifySignatures(
+    identity: string,
+    method: string,
+    params: unknown,
+  ): Promise<SignatureVerificationReport | undefined> {
+    return this.signatureVerifier?.verify(identity, method, params);
+  }
 }
 
 /**
@@ -170,6 +202,7 @@ export class Validator {
 export function createValidator(
   subprotocol: string,
   schemas: ValidatorSchema[],
+  options?: ValidatorOptions,
 ): Validator {
-  return new Validator(subprotocol, schemas);
+  return new Validator(subprotocol, schemas, options);
 }
@@ -0,0 +1,624 @@
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  type KeyObject,
+  randomBytes,
+  sign,
+  verify,
+  X509Certificate,
+} from "node:crypto";
+
+// ─── X.509 / PKCS#10 ────────────────────────────────────────────
+//
+// Just enough DER to run a small certificate authority on Node's
+// crypto: read CSRs, issue certificates and compute the OCPP
+// CertificateHashData of a certificate. Supports ECDSA (P-256, P-384,
+// P-521), RSA (PKCS#1 v1.5) and Ed25519 keys.
+
+/** Distinguished name attributes used by OCPP certificates. */
+export interface DistinguishedName {
+  commonName?: string;
+  organizationName?: string;
+  organizationalUnitName?: string;
+  /** Two-letter country code */
+  countryName?: string;
+}
+
+export interface ParsedCsr {
+  subject: DistinguishedName;
+  publicKey: KeyObject;
+  /** DER of the CSR */
+  der: Buffer;
+}
+
+export interface IssueCertificateOptions {
+  subject: DistinguishedName;
+  /** Subject public key (a private key works too) */
+  publicKey: KeyObject | string;
+  /** The issuer's private key, or the subject's own for a self-signed certificate */
+  signingKey: KeyObject | string;
+  /** Issuer certificate (PEM) — omit for a self-signed certificate */
+  issuerCertificate?: string;
+  /** (default: 365) */
+  validityDays?: number;
+  /** (default: now) */
+  notBefore?: Date;
+  /** Hex serial number (default: 16 random bytes) */
+  serialNumber?: string;
+  /** Issue a CA certificate (default: false) */
+  isCA?: boolean;
+  extendedKeyUsage?: Array<"serverAuth" | "clientAuth">;
+}
+
+export interface CertificateHashData {
+  hashAlgorithm: "SHA256" | "SHA384" | "SHA512";
+  issuerNameHash: string;
+  issuerKeyHash: string;
+  serialNumber: string;
+}
+
+// ─── DER Reading ─────────────────────────────────────────────────
+
+interface DerNode {
+  tag: number;
+  /** Offset of the tag byte */
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+function readNode(buf: Buffer, offset: number): DerNode {
+  if (offset + 2 > buf.length) throw new Error("Truncated DER");
+  const tag = buf[offset];
+  let length = buf[offset + 1];
+  let pos = offset + 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4) throw new Error("Unsupported DER length");
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + buf[pos++];
+  }
+  const end = pos + length;
+  if (end > buf.length) throw new Error("Truncated DER");
+  return { tag, start: offset, contentStart: pos, end };
+}
+
+function childrenOf(buf: Buffer, node: DerNode): DerNode[] {
+  const children: DerNode[] = [];
+  for (let pos = node.contentStart; pos < node.end; ) {
+    const child = readNode(buf, pos);
+    children.push(child);
+    pos = child.end;
+  }
+  return children;
+}
+
+function expectTag(node: DerNode | undefined, tag: number): DerNode {
+  if (!node || node.tag !== tag) throw new Error("Unexpected DER structure");
+  return node;
+}
+
+const tlvOf = (buf: Buffer, node: DerNode) =>
+  buf.subarray(node.start, node.end);
+const contentOf = (buf: Buffer, node: DerNode) =>
+  buf.subarray(node.contentStart, node.end);
+
+function decodeOid(bytes: Buffer): string {
+  const arcs: number[] = [];
+  let value = 0;
+  for (const byte of bytes) {
+    value = value * 128 + (byte & 0x7f);
+    if (byte & 0x80) continue;
+    if (arcs.length === 0) {
+      const first = Math.min(2, Math.floor(value / 40));
+      arcs.push(first, value - first * 40);
+    } else {
+      arcs.push(value);
+    }
+    value = 0;
+  }
+  return arcs.join(".");
+}
+
+// ─── DER Writing ─────────────────────────────────────────────────
+
+function tlv(tag: number, ...parts: Buffer[]): Buffer {
+  const body = Buffer.concat(parts);
+  if (body.length < 0x80) {
+    return Buffer.concat([Buffer.from([tag, body.length]), body]);
+  }
+  const lengthBytes: number[] = [];
+  for (let n = body.length; n > 0; n = Math.floor(n / 256)) {
+    lengthBytes.unshift(n & 0xff);
+  }
+  return Buffer.concat([
+    Buffer.from([tag, 0x80 | lengthBytes.length, ...lengthBytes]),
+    body,
+  ]);
+}
+
+const sequence = (...parts: Buffer[]) => tlv(0x30, ...parts);
+const set = (...parts: Buffer[]) => tlv(0x31, ...parts);
+const octetString = (bytes: Buffer) => tlv(0x04, bytes);
+const bitString = (bytes: Buffer, unusedBits = 0) =>
+  tlv(0x03, Buffer.from([unusedBits]), bytes);
+
+function integer(bytes: Buffer): Buffer {
+  let i = 0;
+  while (i < bytes.length - 1 && bytes[i] === 0) i++;
+  const trimmed = bytes.subarray(i);
+  return tlv(
+    0x02,
+    trimmed[0] & 0x80 ? Buffer.concat([Buffer.from([0]), trimmed]) : trimmed,
+  );
+}
+
+function oid(dotted: string): Buffer {
+  const [first, second, ...rest] = dotted.split(".").map(Number);
+  const bytes: number[] = [];
+  for (const arc of [first * 40 + second, ...rest]) {
+    const chunk = [arc & 0x7f];
+    for (let n = Math.floor(arc / 128); n > 0; n = Math.floor(n / 128)) {
+      chunk.unshift((n & 0x7f) | 0x80);
+    }
+    bytes.push(...chunk);
+  }
+  return tlv(0x06, Buffer.from(bytes));
+}
+
+function time(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+  // UTCTime through 2049, GeneralizedTime after (RFC 5280 §4.1.2.5)
+  return date.getUTCFullYear() < 2050
+    ? tlv(0x17, Buffer.from(`${iso.slice(2)}Z`))
+    : tlv(0x18, Buffer.from(`${iso}Z`));
+}
+
+/** A bit string of named bits, trailing zero bits dropped. */
+function namedBits(byte: number): Buffer {
+  let unused = 0;
+  while (unused < 7 && !(byte & (1 << unused))) unused++;
+  return bitString(Buffer.from([byte]), unused);
+}
+
+/** Hex serial number to bytes, tolerating an odd number of digits. */
+const serialBytes = (hex: string) =>
+  Buffer.from(hex.length % 2 ? `0${hex}` : hex, "hex");
+
+// ─── Names ───────────────────────────────────────────────────────
+
+const NAME_OIDS: Array<[keyof DistinguishedName, string]> = [
+  ["countryName", "2.5.4.6"],
+  ["organizationName", "2.5.4.10"],
+  ["organizationalUnitName", "2.5.4.11"],
+  ["commonName", "2.5.4.3"],
+];
+
+function encodeName(name: DistinguishedName): Buffer {
+  const rdns: Buffer[] = [];
+  for (const [key, id] of NAME_OIDS) {
+    const value = name[key];
+    if (value === undefined) continue;
+    // countryName must be a PrintableString; everything else UTF8String
+    const tag = key === "countryName" ? 0x13 : 0x0c;
+    rdns.push(set(sequence(oid(id), tlv(tag, Buffer.from(value, "utf8")))));
+  }
+  return sequence(...rdns);
+}
+
+function decodeName(buf: Buffer, node: DerNode): DistinguishedName {
+  const name: DistinguishedName = {};
+  for (const rdn of childrenOf(buf, expectTag(node, 0x30))) {
+    for (const attr of childrenOf(buf, expectTag(rdn, 0x31))) {
+      const [type, value] = childrenOf(buf, expectTag(attr, 0x30));
+      const id = decodeOid(contentOf(buf, expectTag(type, 0x06)));
+      const key = NAME_OIDS.find(([, o]) => o === id)?.[0];
+      if (!key || !value) continue;
+      name[key] = contentOf(buf, value).toString(
+        value.tag === 0x0c ? "utf8" : "latin1",
+      );
+    }
+  }
+  return name;
+}
+
+// ─── Keys & Signatures ───────────────────────────────────────────
+
+const SIGNATURE_OIDS: Record<string, string | null> = {
+  "1.2.840.10045.4.3.2": "sha256",
+  "1.2.840.10045.4.3.3": "sha384",
+  "1.2.840.10045.4.3.4": "sha512",
+  "1.2.840.113549.1.1.11": "sha256",
+  "1.2.840.113549.1.1.12": "sha384",
+  "1.2.840.113549.1.1.13": "sha512",
+  "1.3.101.112": null,
+};
+
+/** Digest and AlgorithmIdentifier for signing with `key`. */
+function signatureAlgorithm(key: KeyObject): {
+  hash: string | null;
+  identifier: Buffer;
+} {
+  switch (key.asymmetricKeyType) {
+    case "ec": {
+      const curve = key.asymmetricKeyDetails?.namedCurve;
+      if (curve === "secp384r1") {
+        return {
+          hash: "sha384",
+          identifier: sequence(oid("1.2.840.10045.4.3.3")),
+        };
+      }
+      if (curve === "secp521r1") {
+        return {
+          hash: "sha512",
+          identifier: sequence(oid("1.2.840.10045.4.3.4")),
+        };
+      }
+      return {
+        hash: "sha256",
+        identifier: sequence(oid("1.2.840.10045.4.3.2")),
+      };
+    }
+    case "rsa":
+      return {
+        hash: "sha256",
+        identifier: sequence(oid("1.2.840.113549.1.1.11"), tlv(0x05)),
+      };
+    case "ed25519":
+      return { hash: null, identifier: sequence(oid("1.3.101.112")) };
+    default:
+      throw new Error(`Unsupported key type: ${key.asymmetricKeyType}`);
+  }
+}
+
+const toPrivateKey = (key: KeyObject | string) =>
+  typeof key === "string" ? createPrivateKey(key) : key;
+
+function toPublicKey(key: KeyObject | string): KeyObject {
+  if (typeof key === "string") return createPublicKey(key);
+  return key.type === "private" ? createPublicKey(key) : key;
+}
+
+/** The subjectPublicKey bits of a SubjectPublicKeyInfo. */
+function publicKeyBits(spki: Buffer): Buffer {
+  const [, bits] = childrenOf(spki, expectTag(readNode(spki, 0), 0x30));
+  return contentOf(spki, expectTag(bits, 0x03)).subarray(1);
+}
+
+// ─── PEM ─────────────────────────────────────────────────────────
+
+export function pemToDer(pem: string): Buffer {
+  return Buffer.from(
+    pem.replace(/-----(BEGIN|END) [A-Z0-9 ]+-----/g, "").replace(/\s+/g, ""),
+    "base64",
+  );
+}
+
+export function derToPem(der: Buffer, label: string): string {
+  const lines = der.toString("base64").match(/.{1,64}/g) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join("\n")}\n-----END ${label}-----\n`;
+}
+
+/** Split a PEM bundle into its certificates, leaf first as given. */
+export function splitPemChain(pem: string): string[] {
+  return (
+    pem.match(
+      /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g,
+    ) ?? []
+  ).map((cert) => `${cert}\n`);
+}
+
+// ─── CSR ─────────────────────────────────────────────────────────
+
+/**
+ * Parse a PKCS#10 certificate signing request and verify its
+ * self-signature.
+ *
+ * @throws {Error} if the CSR is malformed or its signature is invalid
+ */
+export function parseCsr(pem: string): ParsedCsr {
+  const der = pemToDer(pem);
+  const [info, algorithm, signature] = childrenOf(
+    der,
+    expectTag(readNode(der, 0), 0x30),
+  );
+  const [, subject, spki] = childrenOf(der, expectTag(info, 0x30));
+
+  const publicKey = createPublicKey({
+    key: tlvOf(der, expectTag(spki, 0x30)),
+    format: "der",
+    type: "spki",
+  });
+  const [algorithmId] = childrenOf(der, expectTag(algorithm, 0x30));
+  const algorithmOid = decodeOid(contentOf(der, expectTag(algorithmId, 0x06)));
+  if (!(algorithmOid in SIGNATURE_OIDS)) {
+    throw new Error(`Unsupported CSR signature algorithm ${algorithmOid}`);
+  }
+  const valid = verify(
+    SIGNATURE_OIDS[algorithmOid],
+    tlvOf(der, info),
+    publicKey,
+    contentOf(der, expectTag(signature, 0x03)).subarray(1),
+  );
+  if (!valid) throw new Error("Invalid CSR signature");
+
+  return { subject: decodeName(der, subject), publicKey, der };
+}
+
+/** Create a PKCS#10 certificate signing request (PEM). */
+export function createCsr(options: {
+  subject: DistinguishedName;
+  privateKey: KeyObject | string;
+}): string {
+  const key = toPrivateKey(options.privateKey);
+  const spki = createPublicKey(key).export({ type: "spki", format: "der" });
+  const info = sequence(
+    integer(Buffer.from([0])),
+    encodeName(options.subject),
+    spki,
+    tlv(0xa0),
+  );
+  const { hash, identifier } = signatureAlgorithm(key);
+  const der = sequence(info, identifier, bitString(sign(hash, info, key)));
+  return derToPem(der, "CERTIFICATE REQUEST");
+}
+
+// ─── Certificates ────────────────────────────────────────────────
+
+/** Issuer name, issuer key bits and TBS fields of a certificate. */
+function parseCertificate(pem: string) {
+  const der = pemToDer(pem);
+  const [tbs] = childrenOf(der, expectTag(readNode(der, 0), 0x30));
+  const fields = childrenOf(der, expectTag(tbs, 0x30));
+  // Skip the optional [0] version
+  const [serial, , issuer, , subject, spki] =
+    fields[0]?.tag === 0xa0 ? fields.slice(1) : fields;
+  return {
+    serial: contentOf(der, expectTag(serial, 0x02)),
+    issuer: tlvOf(der, expectTag(issuer, 0x30)),
+    subject: tlvOf(der, expectTag(subject, 0x30)),
+    spki: tlvOf(der, expectTag(spki, 0x30)),
+  };
+}
+
+/**
+ * Issue an X.509 v3 certificate signed by `signingKey`.
+ *
+ * End-entity certificates get `digitalSignature` plus `keyAgreement` (EC)
+ * or `keyEncipherment` (RSA) key usage; CA certificates get `keyCertSign`
+ * and `cRLSign`. Subject and authority key identifiers are always added.
+ */
+export function issueCertificate(options: IssueCertificateOptions): string {
+  const signingKey = toPrivateKey(options.signingKey);
+  const subjectKey = toPublicKey(options.publicKey);
+  const spki = subjectKey.export({ type: "spki", format: "der" });
+  const subjectName = encodeName(options.subject);
+
+  const issuer = options.issuerCertificate
+    ? parseCertificate(options.issuerCertificate)
+    : { subject: subjectName, spki };
+  const { hash, identifier } = signatureAlgorithm(signingKey);
+
+  const notBefore = options.notBefore ?? new Date();
+  const notAfter = new Date(
+    notBefore.getTime() + (options.validityDays ?? 365) * 86_400_000,
+  );
+  const serial = options.serialNumber
+    ? serialBytes(options.serialNumber)
+    : randomBytes(16);
+  if (!options.serialNumber) serial[0] &= 0x7f;
+
+  const keyId = (spkiDer: Buffer) =>
+    createHash("sha1").update(publicKeyBits(spkiDer)).digest();
+  const extension = (id: string, critical: boolean, value: Buffer) =>
+    sequence(
+      oid(id),
+      ...(critical ? [tlv(0x01, Buffer.from([0xff]))] : []),
+      octetString(value),
+    );
+
+  let keyUsage: number;
+  if (options.isCA) keyUsage = 0x86;
+  else if (subjectKey.asymmetricKeyType === "rsa") keyUsage = 0xa0;
+  else keyUsage = subjectKey.asymmetricKeyType === "ec" ? 0x88 : 0x80;
+
+  const extensions = [
+    extension(
+      "2.5.29.19",
+      true,
+      options.isCA ? sequence(tlv(0x01, Buffer.from([0xff]))) : sequence(),
+    ),
+    extension("2.5.29.15", true, namedBits(keyUsage)),
+    extension("2.5.29.14", false, octetString(keyId(spki))),
+    extension("2.5.29.35", false, sequence(tlv(0x80, keyId(issuer.spki)))),
+  ];
+  if (options.extendedKeyUsage?.length) {
+    const purposes = {
+      serverAuth: "1.3.6.1.5.5.7.3.1",
+      clientAuth: "1.3.6.1.5.5.7.3.2",
+    };
+    extensions.push(
+      extension(
+        "2.5.29.37",
+        false,
+        sequence(...options.extendedKeyUsage.map((p) => oid(purposes[p]))),
+      ),
+    );
+  }
+
+  const tbs = sequence(
+    tlv(0xa0, integer(Buffer.from([2]))),
+    integer(serial),
+    identifier,
+    issuer.subject,
+    sequence(time(notBefore), time(notAfter)),
+    subjectName,
+    spki,
+    tlv(0xa3, sequence(...extensions)),
+  );
+  const pem = derToPem(
+    sequence(tbs, identifier, bitString(sign(hash, tbs, signingKey))),
+    "CERTIFICATE",
+  );
+
+  const issuerPublicKey = options.issuerCertificate
+    ? new X509Certificate(options.issuerCertificate).publicKey
+    : subjectKey;
+  if (!new X509Certificate(pem).verify(issuerPublicKey)) {
+    throw new Error("Signing key does not match the issuer certificate");
+  }
+  return pem;
+}
+
+/**
+ * OCPP `CertificateHashData` of a certificate. `issuerCertificate` is
+ * needed unless the certificate is self-signed. The serial number is
+ * lowercase hex without leading zeros.
+ */
+export function certificateHashData(
+  certificate: string,
+  issuerCertificate?: string,
+  hashAlgorithm: CertificateHashData["hashAlgorithm"] = "SHA256",
+): CertificateHashData {
+  const cert = parseCertificate(certificate);
+  let issuerSpki = cert.spki;
+  if (issuerCertificate) {
+    issuerSpki = parseCertificate(issuerCertificate).spki;
+  } else if (!cert.issuer.equals(cert.subject)) {
+    throw new Error("issuerCertificate is required for a non-root certificate");
+  }
+  const digest = (data: Buffer) =>
+    createHash(hashAlgorithm.toLowerCase()).update(data).digest("hex");
+  return {
+    hashAlgorithm,
+    issuerNameHash: digest(cert.issuer),
+    issuerKeyHash: digest(publicKeyBits(issuerSpki)),
+    serialNumber: cert.serial.toString("hex").replace(/^0+(?=.)/, ""),
+  };
+}
+
+// ─── CRL ─────────────────────────────────────────────────────────
+
+export interface RevokedCertificate {
+  /** Lowercase hex without leading zeros */
+  serialNumber: string;
+  revocationDate: Date;
+}
+
+export interface ParsedCrl {
+  thisUpdate: Date;
+  nextUpdate?: Date;
+  revoked: RevokedCertificate[];
+}
+
+export interface IssueCrlOptions {
+  /** The CA certificate (PEM) the CRL is issued for */
+  issuerCertificate: string;
+  /** The CA's private key */
+  signingKey: KeyObject | string;
+  revoked: Array<{ serialNumber: string; revocationDate?: Date }>;
+  /** (default: now) */
+  thisUpdate?: Date;
+  nextUpdate?: Date;
+}
+
+function decodeTime(buf: Buffer, node: DerNode): Date {
+  const text = contentOf(buf, node).toString("latin1");
+  const full =
+    node.tag === 0x17
+      ? `${Number(text.slice(0, 2)) < 50 ? "20" : "19"}${text}`
+      : text;
+  return new Date(
+    `${full.slice(0, 4)}-${full.slice(4, 6)}-${full.slice(6, 8)}T${full.slice(8, 10)}:${full.slice(10, 12)}:${full.slice(12, 14)}Z`,
+  );
+}
+
+const isTime = (node: DerNode | undefined) =>
+  node?.tag === 0x17 || node?.tag === 0x18;
+
+/**
+ * Parse an X.509 certificate revocation list (PEM or DER). When
+ * `issuerCertificate` is given, the CRL signature is verified against it.
+ *
+ * @throws {Error} if the CRL is malformed or its signature is invalid
+ */
+export function parseCrl(
+  crl: string | Buffer,
+  issuerCertificate?: string,
+): ParsedCrl {
+  const text = typeof crl === "string" ? crl : crl.toString("latin1");
+  const der = text.startsWith("-----") ? pemToDer(text) : Buffer.from(crl);
+  const [tbs, algorithm, signature] = childrenOf(
+    der,
+    expectTag(readNode(der, 0), 0x30),
+  );
+  const fields = childrenOf(der, expectTag(tbs, 0x30));
+  // Skip the optional version, the signature algorithm and the issuer
+  let i = fields[0]?.tag === 0x02 ? 3 : 2;
+
+  const thisUpdate = fields[i++];
+  if (!isTime(thisUpdate)) throw new Error("Unexpected DER structure");
+  const result: ParsedCrl = {
+    thisUpdate: decodeTime(der, thisUpdate),
+    revoked: [],
+  };
+  if (isTime(fields[i])) result.nextUpdate = decodeTime(der, fields[i++]);
+  if (fields[i]?.tag === 0x30) {
+    for (const entry of childrenOf(der, fields[i])) {
+      const [serial, date] = childrenOf(der, expectTag(entry, 0x30));
+      if (!isTime(date)) throw new Error("Unexpected DER structure");
+      result.revoked.push({
+        serialNumber: contentOf(der, expectTag(serial, 0x02))
+          .toString("hex")
+          .replace(/^0+(?=.)/, ""),
+        revocationDate: decodeTime(der, date),
+      });
+    }
+  }
+
+  if (issuerCertificate) {
+    const [algorithmId] = childrenOf(der, expectTag(algorithm, 0x30));
+    const algorithmOid = decodeOid(
+      contentOf(der, expectTag(algorithmId, 0x06)),
+    );
+    if (!(algorithmOid in SIGNATURE_OIDS)) {
+      throw new Error(`Unsupported CRL signature algorithm ${algorithmOid}`);
+    }
+    const valid = verify(
+      SIGNATURE_OIDS[algorithmOid],
+      tlvOf(der, tbs),
+      new X509Certificate(issuerCertificate).publicKey,
+      contentOf(der, expectTag(signature, 0x03)).subarray(1),
+    );
+    if (!valid) throw new Error("Invalid CRL signature");
+  }
+  return result;
+}
+
+/** Issue an X.509 v2 certificate revocation list (PEM). */
+export function issueCrl(options: IssueCrlOptions): string {
+  const signingKey = toPrivateKey(options.signingKey);
+  const issuer = parseCertificate(options.issuerCertificate);
+  const { hash, identifier } = signatureAlgorithm(signingKey);
+  const thisUpdate = options.thisUpdate ?? new Date();
+
+  const entries = options.revoked.map((entry) =>
+    sequence(
+      integer(serialBytes(entry.serialNumber)),
+      time(entry.revocationDate ?? thisUpdate),
+    ),
+  );
+  const tbs = sequence(
+    integer(Buffer.from([1])),
+    identifier,
+    issuer.subject,
+    time(thisUpdate),
+    ...(options.nextUpdate ? [time(options.nextUpdate)] : []),
+    ...(entries.length ? [sequence(...entries)] : []),
+  );
+  return derToPem(
+    sequence(tbs, identifier, bitString(sign(hash, tbs, signingKey))),
+    "X509 CRL",
+  );
+}
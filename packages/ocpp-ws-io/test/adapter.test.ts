@@ -70,6 +70,17 @@ describe("InMemoryAdapter", () => {
     expect(count).toBe(0);
   });
 
+  it("should list presence entries", async () => {
+    const adapter = new InMemoryAdapter();
+    await adapter.setPresence("CP-1", "node-a", 300);
+    await adapter.setPresenceBatch([{ identity: "CP-2", nodeId: "node-b" }]);
+    await adapter.removePresence("CP-1");
+
+    expect(await adapter.listPresence()).toEqual([
+      { identity: "CP-2", nodeId: "node-b" },
+    ]);
+  });
+
   it("should swallow handler errors silently", async () => {
     const adapter = new InMemoryAdapter();
     let secondCalled = false;
@@ -0,0 +1,180 @@
+import {
+  appendFileSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  AUDIT_LOG_GENESIS,
+  auditLogPlugin,
+  FileAuditLog,
+  verifyAuditLog,
+} from "../src/plugins/audit-log.js";
+
+const dirs: string[] = [];
+function tempDir() {
+  const dir = mkdtempSync(join(tmpdir(), "audit-log-"));
+  dirs.push(dir);
+  return dir;
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+const entry = (messageId: string) => ({
+  timestamp: new Date().toISOString(),
+  identity: "CP-1",
+  direction: "IN" as const,
+  type: "CALL" as const,
+  messageId,
+  method: "Heartbeat",
+  message: [2, messageId, "Heartbeat", {}] as any,
+});
+
+async function writeLog(dir: string, count: number, maxFileBytes?: number) {
+  const log = new FileAuditLog({ dir, maxFileBytes });
+  for (let i = 1; i <= count; i++) await log.append(entry(`m${i}`));
+  await log.close();
+}
+
+function lines(dir: string, file: string) {
+  return readFileSync(join(dir, file), "utf8").split("\n").filter(Boolean);
+}
+
+describe("FileAuditLog", () => {
+  it("chains records across rotations and restarts", async () => {
+    const dir = tempDir();
+    await writeLog(dir, 3, 400);
+    // A new instance picks the chain up where the last one stopped
+    await writeLog(dir, 2, 400);
+
+    const files = readdirSync(dir).sort();
+    expect(files.length).toBeGreaterThan(1);
+    expect(files[0]).toBe("audit-000000000001.ndjson");
+
+    const records = files.flatMap((f) => lines(dir, f)).map((l) => JSON.parse(l));
+    expect(records.map((r) => r.seq)).toEqual([1, 2, 3, 4, 5]);
+    expect(records[0].prev).toBe(AUDIT_LOG_GENESIS);
+    for (let i = 1; i < records.length; i++) {
+      expect(records[i].prev).toBe(records[i - 1].hash);
+    }
+
+    const report = await verifyAuditLog(dir);
+    expect(report).toMatchObject({
+      valid: true,
+      files: files.length,
+      records: 5,
+      head: { seq: 5, hash: records[4].hash },
+      issues: [],
+    });
+  });
+
+  it("starts a new file after a torn write", async () => {
+    const dir = tempDir();
+    await writeLog(dir, 2);
+    appendFileSync(join(dir, "audit-000000000001.ndjson"), '{"seq":3,"tor');
+    await writeLog(dir, 1);
+
+    expect(readdirSync(dir).sort()).toEqual([
+      "audit-000000000001.ndjson",
+      "audit-000000000003.ndjson",
+    ]);
+    const report = await verifyAuditLog(dir);
+    expect(report.head.seq).toBe(3);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ kind: "malformed", line: 3 }),
+    ]);
+  });
+});
+
+describe("verifyAuditLog", () => {
+  it("detects modified, removed and truncated records", async () => {
+    const dir = tempDir();
+    await writeLog(dir, 4);
+    const file = join(dir, "audit-000000000001.ndjson");
+    const original = lines(dir, "audit-000000000001.ndjson");
+    const { head } = await verifyAuditLog(dir);
+
+    // Edited payload
+    writeFileSync(
+      file,
+      `${[original[0], original[1].replace('"m2"', '"mX"'), ...original.slice(2)].join("\n")}\n`,
+    );
+    const modified = await verifyAuditLog(dir);
+    expect(modified.valid).toBe(false);
+    expect(modified.issues).toEqual([
+      expect.objectContaining({ kind: "modified", seq: 2, line: 2 }),
+    ]);
+
+    // Removed record
+    writeFileSync(file, `${[original[0], ...original.slice(2)].join("\n")}\n`);
+    const removed = await verifyAuditLog(dir);
+    expect(removed.issues.map((i) => i.kind)).toEqual(["gap", "broken_chain"]);
+
+    // Records cut from the end only show against an anchor
+    writeFileSync(file, `${original.slice(0, 3).join("\n")}\n`);
+    expect((await verifyAuditLog(dir)).valid).toBe(true);
+    const truncated = await verifyAuditLog(dir, { anchor: head });
+    expect(truncated.valid).toBe(false);
+    expect(truncated.issues[0].message).toContain("anchored head (seq 4)");
+
+    unlinkSync(file);
+    expect(await verifyAuditLog(dir)).toMatchObject({ valid: true, records: 0 });
+  });
+});
+
+describe("auditLogPlugin", () => {
+  it("records every CALL, CALLRESULT and CALLERROR", async () => {
+    const dir = tempDir();
+    const plugin = auditLogPlugin({ dir });
+    const client = { identity: "CP-1", protocol: "ocpp2.0.1" } as any;
+    const ctx = (method: string) => ({
+      timestamp: "2026-01-01T00:00:00.000Z",
+      method,
+    });
+
+    plugin.onMessage?.(client, {
+      message: [2, "a", "BootNotification", { reason: "PowerUp" }],
+      direction: "IN",
+      ctx: ctx("BootNotification"),
+    } as any);
+    plugin.onMessage?.(client, {
+      message: [3, "a", { status: "Accepted" }],
+      direction: "OUT",
+      ctx: ctx("BootNotification"),
+    } as any);
+    plugin.onMessage?.(client, {
+      message: [4, "b", "NotImplemented", "", {}],
+      direction: "IN",
+      ctx: ctx("Reset"),
+    } as any);
+
+    await vi.waitFor(async () => expect((await plugin.head()).seq).toBe(3));
+    await plugin.onClose?.();
+
+    const records = lines(dir, "audit-000000000001.ndjson").map((l) =>
+      JSON.parse(l),
+    );
+    expect(records.map((r) => [r.type, r.direction, r.method])).toEqual([
+      ["CALL", "IN", "BootNotification"],
+      ["CALLRESULT", "OUT", "BootNotification"],
+      ["CALLERROR", "IN", "Reset"],
+    ]);
+    expect(records[0]).toMatchObject({
+      identity: "CP-1",
+      protocol: "ocpp2.0.1",
+      messageId: "a",
+      message: [2, "a", "BootNotification", { reason: "PowerUp" }],
+    });
+    expect((await verifyAuditLog(dir)).valid).toBe(true);
+  });
+});
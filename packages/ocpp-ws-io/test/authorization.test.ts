@@ -0,0 +1,352 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  allowListProvider,
+  authorizationPlugin,
+  cachedProvider,
+} from "../src/plugins/authorization.js";
+import {
+  InMemoryTransactionStore,
+  transactionTrackerPlugin,
+} from "../src/plugins/transaction-tracker.js";
+import {
+  callIn,
+  connectStation,
+  exchange,
+  fakeStation,
+  resultOut,
+} from "./helpers/plugins.js";
+
+const providers = [
+  allowListProvider([
+    { idToken: "A", status: "Accepted", groupIdToken: "FLEET" },
+    { idToken: "B", status: "NoCredit" },
+    { idToken: "OLD", status: "Accepted", expiryDate: "2020-01-01T00:00:00Z" },
+  ]),
+];
+
+describe("authorizationPlugin", () => {
+  it("answers 1.6 Authorize and StartTransaction with idTagInfo", async () => {
+    const plugin = authorizationPlugin({
+      providers,
+      transactionStore: new InMemoryTransactionStore(),
+    });
+    const station = fakeStation();
+    plugin.onConnection!(station.client);
+
+    expect(await exchange(plugin, station, "Authorize", { idTag: "A" })).toEqual(
+      { idTagInfo: { status: "Accepted", parentIdTag: "FLEET" } },
+    );
+    // Statuses 1.6 doesn't know become Invalid
+    expect(await exchange(plugin, station, "Authorize", { idTag: "B" })).toEqual(
+      { idTagInfo: { status: "Invalid" } },
+    );
+    expect(
+      await exchange(plugin, station, "Authorize", { idTag: "OLD" }),
+    ).toMatchObject({ idTagInfo: { status: "Expired" } });
+    expect(
+      await exchange(plugin, station, "Authorize", { idTag: "NOPE" }),
+    ).toEqual({ idTagInfo: { status: "Invalid" } });
+
+    const start = await exchange(plugin, station, "StartTransaction", {
+      connectorId: 1,
+      idTag: "A",
+      meterStart: 0,
+      timestamp: new Date().toISOString(),
+    });
+    expect(start).toEqual({
+      transactionId: 1,
+      idTagInfo: { status: "Accepted", parentIdTag: "FLEET" },
+    });
+  });
+
+  it("answers 2.x Authorize and TransactionEvent with idTokenInfo", async () => {
+    const plugin = authorizationPlugin({ providers });
+    const station = fakeStation({ protocol: "ocpp2.0.1" });
+    plugin.onConnection!(station.client);
+    expect(station.handlers.has("StartTransaction")).toBe(false);
+
+    expect(
+      await exchange(plugin, station, "Authorize", {
+        idToken: { idToken: "B", type: "ISO14443" },
+      }),
+    ).toEqual({ idTokenInfo: { status: "NoCredit" } });
+
+    const event = {
+      eventType: "Started",
+      seqNo: 0,
+      timestamp: new Date().toISOString(),
+      triggerReason: "Authorized",
+      transactionInfo: { transactionId: "tx-1" },
+    };
+    expect(
+      await exchange(plugin, station, "TransactionEvent", {
+        ...event,
+        idToken: { idToken: "A", type: "ISO14443" },
+      }),
+    ).toEqual({
+      idTokenInfo: {
+        status: "Accepted",
+        groupIdToken: { idToken: "FLEET", type: "Central" },
+      },
+    });
+    expect(
+      await exchange(plugin, station, "TransactionEvent", {
+        ...event,
+        eventType: "Updated",
+        seqNo: 1,
+      }),
+    ).toEqual({});
+  });
+
+  it("leaves application handlers alone", () => {
+    const plugin = authorizationPlugin({
+      providers,
+      nextTransactionId: () => 1,
+    });
+    const station = fakeStation();
+    station.handlers.set("Authorize", () => ({}));
+    plugin.onConnection!(station.client);
+    expect(station.client.handle).toHaveBeenCalledTimes(1);
+    expect(station.client.handle.mock.calls[0][0]).toBe("StartTransaction");
+  });
+
+  it("handles StartTransaction only with a transaction id source", () => {
+    const plugin = authorizationPlugin({ providers });
+    const station = fakeStation();
+    plugin.onConnection!(station.client);
+    expect([...station.handlers.keys()]).toEqual(["Authorize"]);
+  });
+
+  it("answers a retried StartTransaction with the id it was given", async () => {
+    const transactionStore = new InMemoryTransactionStore();
+    const tracker = transactionTrackerPlugin({ store: transactionStore });
+    const plugin = authorizationPlugin({
+      providers,
+      blockConcurrentTx: true,
+      transactionStore,
+    });
+    const station = fakeStation();
+    plugin.onConnection!(station.client);
+
+    const start = {
+      connectorId: 1,
+      idTag: "A",
+      meterStart: 0,
+      timestamp: new Date().toISOString(),
+    };
+    const startOnce = () =>
+      exchange([plugin, tracker], station, "StartTransaction", start);
+
+    const first = await startOnce();
+    expect(first).toMatchObject({
+      transactionId: 1,
+      idTagInfo: { status: "Accepted" },
+    });
+    await vi.waitFor(async () =>
+      expect(await transactionStore.listActive("CP-1")).toHaveLength(1),
+    );
+
+    // Same id, and its own transaction doesn't make the token ConcurrentTx
+    expect(await startOnce()).toEqual(first);
+  });
+
+  it("keeps a start in flight when the replaced connection closes late", async () => {
+    const plugin = authorizationPlugin({
+      providers,
+      blockConcurrentTx: true,
+      handleMessages: false,
+    });
+    const stale = fakeStation();
+    const fresh = fakeStation();
+
+    const start = callIn("StartTransaction", {
+      connectorId: 1,
+      idTag: "A",
+      meterStart: 0,
+      timestamp: new Date().toISOString(),
+    });
+    plugin.onMessage!(fresh.client, start);
+    plugin.onDisconnect!(stale.client, 1006, "");
+    plugin.onMessage!(
+      fresh.client,
+      resultOut(start, {
+        transactionId: 3,
+        idTagInfo: { status: "Accepted" },
+      }),
+    );
+
+    expect(
+      await plugin.authorize(
+        { idToken: "A" },
+        { identity: "CP-1", protocol: "ocpp1.6", method: "Authorize" },
+      ),
+    ).toMatchObject({ status: "ConcurrentTx" });
+  });
+
+  it("falls through providers and survives a failing one", async () => {
+    const warn = vi.fn();
+    const remote = vi.fn(async (token: { idToken: string }) =>
+      token.idToken === "R" ? { status: "Accepted" as const } : null,
+    );
+    const plugin = authorizationPlugin({
+      providers: [
+        providers[0],
+        () => {
+          throw new Error("down");
+        },
+        remote,
+      ],
+      logger: { warn },
+    });
+    const context = {
+      identity: "CP-1",
+      protocol: "ocpp2.0.1",
+      method: "Authorize",
+    } as const;
+
+    expect(await plugin.authorize({ idToken: "A" }, context)).toMatchObject({
+      status: "Accepted",
+    });
+    expect(remote).not.toHaveBeenCalled();
+    expect(await plugin.authorize({ idToken: "R" }, context)).toEqual({
+      status: "Accepted",
+    });
+    expect(await plugin.authorize({ idToken: "X" }, context)).toEqual({
+      status: "Unknown",
+    });
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("blocks a token already in a transaction", async () => {
+    const plugin = authorizationPlugin({
+      providers,
+      blockConcurrentTx: true,
+      transactionStore: new InMemoryTransactionStore(),
+    });
+    const cp1 = fakeStation({ identity: "CP-1" });
+    const cp2 = fakeStation({ identity: "CP-2", protocol: "ocpp2.0.1" });
+    plugin.onConnection!(cp1.client);
+    plugin.onConnection!(cp2.client);
+
+    const start = await exchange(plugin, cp1, "StartTransaction", {
+      connectorId: 1,
+      idTag: "A",
+      meterStart: 0,
+      timestamp: new Date().toISOString(),
+    });
+    expect(
+      await exchange(plugin, cp1, "Authorize", { idTag: "A" }),
+    ).toMatchObject({ idTagInfo: { status: "ConcurrentTx" } });
+
+    const event = {
+      eventType: "Started",
+      seqNo: 0,
+      timestamp: new Date().toISOString(),
+      triggerReason: "Authorized",
+      transactionInfo: { transactionId: "tx-9" },
+      idToken: { idToken: "A", type: "ISO14443" },
+    };
+    expect(
+      await exchange(plugin, cp2, "TransactionEvent", event),
+    ).toMatchObject({ idTokenInfo: { status: "ConcurrentTx" } });
+
+    await exchange(plugin, cp1, "StopTransaction", {
+      transactionId: start.transactionId,
+      meterStop: 10,
+      timestamp: new Date().toISOString(),
+    });
+    expect(
+      await exchange(plugin, cp2, "TransactionEvent", event),
+    ).toMatchObject({ idTokenInfo: { status: "Accepted" } });
+    // The token's own transaction doesn't count against it
+    expect(
+      await exchange(plugin, cp2, "TransactionEvent", {
+        ...event,
+        eventType: "Updated",
+        seqNo: 1,
+      }),
+    ).toMatchObject({ idTokenInfo: { status: "Accepted" } });
+    expect(
+      await exchange(plugin, cp1, "Authorize", { idTag: "A" }),
+    ).toMatchObject({ idTagInfo: { status: "ConcurrentTx" } });
+  });
+});
+
+describe("authorizationPlugin — through a server", () => {
+  let pair: Awaited<ReturnType<typeof connectStation>> | undefined;
+
+  afterEach(async () => {
+    await pair?.close();
+    pair = undefined;
+  });
+
+  it("answers a 1.6 station and sees its transaction", async () => {
+    const transactionStore = new InMemoryTransactionStore();
+    pair = await connectStation([
+      authorizationPlugin({
+        providers,
+        blockConcurrentTx: true,
+        transactionStore,
+      }),
+      transactionTrackerPlugin({ store: transactionStore }),
+    ]);
+
+    expect(await pair.client.call("Authorize", { idTag: "A" })).toEqual({
+      idTagInfo: { status: "Accepted", parentIdTag: "FLEET" },
+    });
+    expect(
+      await pair.client.call("StartTransaction", {
+        connectorId: 1,
+        idTag: "A",
+        meterStart: 0,
+        timestamp: new Date().toISOString(),
+      }),
+    ).toEqual({
+      transactionId: 1,
+      idTagInfo: { status: "Accepted", parentIdTag: "FLEET" },
+    });
+
+    await vi.waitFor(async () =>
+      expect(await transactionStore.listActive("CP-1")).toHaveLength(1),
+    );
+    expect(await pair.client.call("Authorize", { idTag: "A" })).toMatchObject({
+      idTagInfo: { status: "ConcurrentTx" },
+    });
+  });
+});
+
+describe("cachedProvider", () => {
+  const context = {
+    identity: "CP-1",
+    protocol: "ocpp1.6",
+    method: "Authorize",
+  } as const;
+
+  it("reuses decisions until the TTL and serves stale ones on errors", async () => {
+    vi.useFakeTimers();
+    try {
+      let fail = false;
+      const remote = vi.fn(async () => {
+        if (fail) throw new Error("timeout");
+        return { status: "Accepted" as const };
+      });
+      const cached = cachedProvider(remote, { ttlMs: 1000 });
+
+      await cached({ idToken: "A" }, context);
+      await cached({ idToken: "A" }, context);
+      expect(remote).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1001);
+      fail = true;
+      expect(await cached({ idToken: "A" }, context)).toEqual({
+        status: "Accepted",
+      });
+      expect(remote).toHaveBeenCalledTimes(2);
+      await expect(cached({ idToken: "B" }, context)).rejects.toThrow(
+        "timeout",
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,182 @@
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, test } from "vitest";
+import { InMemoryAdapter } from "../src/adapters/adapter.js";
+import { OCPPClient } from "../src/client.js";
+import { OCPPServer } from "../src/server.js";
+
+describe("broadcast reports", () => {
+  let serverA: OCPPServer;
+  let serverB: OCPPServer;
+  const clients: OCPPClient[] = [];
+
+  afterEach(async () => {
+    for (const c of clients.splice(0)) {
+      await c.close({ force: true }).catch(() => {});
+    }
+    await serverA?.close({ force: true }).catch(() => {});
+    await serverB?.close({ force: true }).catch(() => {});
+    ports.clear();
+  });
+
+  const ports = new Map<OCPPServer, number>();
+
+  async function connect(server: OCPPServer, identity: string) {
+    let port = ports.get(server);
+    if (port === undefined) {
+      const http = await server.listen(0);
+      port = (http.address() as AddressInfo).port;
+      ports.set(server, port);
+    }
+    const client = new OCPPClient({
+      identity,
+      endpoint: `ws://127.0.0.1:${port}`,
+      reconnect: false,
+    });
+    clients.push(client);
+    return client;
+  }
+
+  test("broadcastBatchWithReport reports every outcome per identity", async () => {
+    serverA = new OCPPServer({});
+    const ok = await connect(serverA, "CP-OK");
+    const err = await connect(serverA, "CP-ERR");
+    const slow = await connect(serverA, "CP-SLOW");
+    ok.handle("Reset", () => ({ status: "Accepted" }));
+    err.handle("Reset", () => {
+      throw new Error("boom");
+    });
+    slow.handle("Reset", () => new Promise(() => {}));
+    await Promise.all([ok.connect(), err.connect(), slow.connect()]);
+
+    const report = await serverA.broadcastBatchWithReport(
+      ["CP-OK", "CP-ERR", "CP-SLOW", "CP-MISSING"],
+      "Reset",
+      { type: "Soft" },
+      { timeoutMs: 200, concurrency: 2 },
+    );
+
+    const byId = Object.fromEntries(
+      report.results.map((r) => [r.identity, r]),
+    );
+    expect(byId["CP-OK"]).toMatchObject({
+      status: "accepted",
+      nodeId: serverA.nodeId,
+      result: { status: "Accepted" },
+    });
+    expect(byId["CP-ERR"]).toMatchObject({
+      status: "error",
+      errorCode: "InternalError",
+    });
+    expect(byId["CP-SLOW"].status).toBe("timeout");
+    expect(byId["CP-MISSING"].status).toBe("not-connected");
+    expect(report.summary).toEqual({
+      total: 4,
+      accepted: 1,
+      error: 1,
+      timeout: 1,
+      "not-connected": 1,
+    });
+  });
+
+  test("broadcastBatchWithReport collects remote results via the adapter", async () => {
+    const adapter = new InMemoryAdapter();
+    serverA = new OCPPServer({});
+    serverB = new OCPPServer({});
+    await serverA.setAdapter(adapter);
+    await serverB.setAdapter(adapter);
+
+    const client = await connect(serverA, "CP-REMOTE");
+    client.handle("Reset", () => ({ status: "Accepted" }));
+    await client.connect();
+
+    const report = await serverB.broadcastBatchWithReport(
+      ["CP-REMOTE"],
+      "Reset",
+      { type: "Hard" },
+    );
+    expect(report.results).toEqual([
+      expect.objectContaining({
+        identity: "CP-REMOTE",
+        status: "accepted",
+        nodeId: serverA.nodeId,
+        result: { status: "Accepted" },
+      }),
+    ]);
+  });
+
+  test("a station timing out on another node is reported as timeout", async () => {
+    const adapter = new InMemoryAdapter();
+    serverA = new OCPPServer({});
+    serverB = new OCPPServer({});
+    await serverA.setAdapter(adapter);
+    await serverB.setAdapter(adapter);
+
+    const client = await connect(serverA, "CP-REMOTE-SLOW");
+    client.handle("Reset", () => new Promise(() => {}));
+    await client.connect();
+
+    const report = await serverB.broadcastBatchWithReport(
+      ["CP-REMOTE-SLOW"],
+      "Reset",
+      { type: "Soft" },
+      { timeoutMs: 200 },
+    );
+    expect(report.results[0]).toMatchObject({
+      status: "timeout",
+      nodeId: serverA.nodeId,
+    });
+    // Answered by serverA, not by serverB's own fallback timer
+    expect(report.results[0].durationMs).toBeLessThan(1000);
+    expect(report.summary.timeout).toBe(1);
+
+    await expect(
+      serverB.sendToClient("CP-REMOTE-SLOW", "Reset", { type: "Soft" }, {
+        timeoutMs: 200,
+      }),
+    ).rejects.toMatchObject({ name: "TimeoutError" });
+  });
+
+  test("stale presence is reported as not-connected", async () => {
+    const adapter = new InMemoryAdapter();
+    serverA = new OCPPServer({});
+    serverB = new OCPPServer({});
+    await serverA.setAdapter(adapter);
+    await serverB.setAdapter(adapter);
+    await adapter.setPresence("GHOST", serverA.nodeId, 60);
+
+    const report = await serverB.broadcastBatchWithReport(
+      ["GHOST"],
+      "Reset",
+      { type: "Soft" },
+    );
+    expect(report.results[0].status).toBe("not-connected");
+  });
+
+  test("broadcastWithReport merges per-node replies before the deadline", async () => {
+    const adapter = new InMemoryAdapter();
+    serverA = new OCPPServer({});
+    serverB = new OCPPServer({});
+    await serverA.setAdapter(adapter);
+    await serverB.setAdapter(adapter);
+
+    const remote = await connect(serverA, "CP-A");
+    const local = await connect(serverB, "CP-B");
+    for (const c of [remote, local]) {
+      c.handle("ClearCache", () => ({ status: "Accepted" }));
+    }
+    await Promise.all([remote.connect(), local.connect()]);
+
+    const report = await serverB.broadcastWithReport(
+      "ClearCache",
+      {},
+      { deadlineMs: 1500 },
+    );
+    expect(report.summary.accepted).toBe(2);
+    expect(
+      report.results.map((r) => [r.identity, r.nodeId]).sort(),
+    ).toEqual([
+      ["CP-A", serverA.nodeId],
+      ["CP-B", serverB.nodeId],
+    ]);
+  });
+});
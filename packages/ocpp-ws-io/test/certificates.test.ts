@@ -0,0 +1,246 @@
+import { generateKeyPairSync, X509Certificate } from "node:crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  certificateManagementPlugin,
+  InMemoryCertificateStore,
+  localCaSigner,
+} from "../src/plugins/certificates.js";
+import { certificateHashData, createCsr, issueCertificate } from "../src/x509.js";
+import {
+  callIn,
+  connectStation,
+  exchange,
+  fakeServer,
+  fakeStation,
+  resultOut,
+} from "./helpers/plugins.js";
+
+const caKeys = generateKeyPairSync("ec", { namedCurve: "P-256" });
+const caPem = issueCertificate({
+  subject: { commonName: "CSMS CA", organizationName: "ACME" },
+  publicKey: caKeys.publicKey,
+  signingKey: caKeys.privateKey,
+  isCA: true,
+});
+const signer = localCaSigner({ certificate: caPem, privateKey: caKeys.privateKey });
+
+function csrFor(commonName: string, organizationName = "ACME") {
+  const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  return createCsr({ subject: { commonName, organizationName }, privateKey });
+}
+
+const station201 = (
+  answer?: (method: string, params: any) => unknown,
+) => fakeStation({ protocol: "ocpp2.0.1", answer });
+
+describe("certificateManagementPlugin", () => {
+  it("signs an accepted CSR and pushes CertificateSigned", async () => {
+    const station = station201();
+    const store = new InMemoryCertificateStore();
+    const onIssue = vi.fn();
+    const plugin = certificateManagementPlugin({ signer, store, onIssue });
+    const server = fakeServer(station.client);
+    plugin.onInit!(server);
+    plugin.onConnection!(station.client);
+
+    expect(
+      await exchange(plugin, station, "SignCertificate", {
+        csr: csrFor("CP-1"),
+        certificateType: "ChargingStationCertificate",
+      }),
+    ).toEqual({ status: "Accepted" });
+    await vi.waitFor(() => expect(onIssue).toHaveBeenCalled());
+    plugin.onClose!();
+
+    const [method, params] = station.call.mock.calls[0];
+    expect(method).toBe("CertificateSigned");
+    expect(params.certificateType).toBe("ChargingStationCertificate");
+    const leaf = new X509Certificate(params.certificateChain);
+    expect(leaf.subject).toContain("CN=CP-1");
+    expect(leaf.checkIssued(new X509Certificate(caPem))).toBe(true);
+
+    const result = onIssue.mock.calls[0][0];
+    expect(result).toMatchObject({ identity: "CP-1", status: "Accepted" });
+    expect(server.emit).toHaveBeenCalledWith("certificate:issued", result);
+    expect(await store.getIssued("CP-1")).toEqual([result.certificate]);
+    expect(result.certificate.serialNumber).toBe(leaf.serialNumber);
+  });
+
+  it("rejects CSRs for another identity or organization", async () => {
+    const station = station201();
+    const plugin = certificateManagementPlugin({
+      signer,
+      organizationName: "ACME",
+    });
+    plugin.onInit!(fakeServer(station.client));
+    plugin.onConnection!(station.client);
+
+    expect(
+      await exchange(plugin, station, "SignCertificate", {
+        csr: csrFor("CP-2"),
+      }),
+    ).toMatchObject({
+      status: "Rejected",
+      statusInfo: { reasonCode: "InvalidCSR" },
+    });
+    expect(
+      await exchange(plugin, station, "SignCertificate", {
+        csr: csrFor("CP-1", "Evil Corp"),
+      }),
+    ).toMatchObject({ status: "Rejected" });
+    expect(
+      await exchange(plugin, station, "SignCertificate", {
+        csr: "not a csr",
+      }),
+    ).toMatchObject({ status: "Rejected" });
+    plugin.onClose!();
+    expect(station.call).not.toHaveBeenCalled();
+  });
+
+  it("signs a CSR accepted on the new connection after a late close", async () => {
+    const stale = station201();
+    const fresh = station201();
+    const plugin = certificateManagementPlugin({ signer });
+    plugin.onInit!(fakeServer(fresh.client));
+
+    const request = callIn("SignCertificate", { csr: csrFor("CP-1") });
+    plugin.onMessage!(fresh.client, request);
+    plugin.onDisconnect!(stale.client, 1006, "");
+    plugin.onMessage!(fresh.client, resultOut(request, { status: "Accepted" }));
+
+    await vi.waitFor(() =>
+      expect(fresh.call).toHaveBeenCalledWith(
+        "CertificateSigned",
+        expect.any(Object),
+        undefined,
+      ),
+    );
+    plugin.onClose!();
+  });
+
+  it("triggers a renewal for certificates about to expire", async () => {
+    const station = station201();
+    const store = new InMemoryCertificateStore();
+    const issued = {
+      identity: "CP-1",
+      certificateType: "V2GCertificate" as const,
+      serialNumber: "01",
+      notAfter: new Date(Date.now() + 5 * 86_400_000).toISOString(),
+      fingerprint256: "",
+      certificate: "",
+      issuedAt: 0,
+    };
+    await store.saveIssued(issued);
+    await store.saveIssued({
+      ...issued,
+      certificateType: "ChargingStationCertificate",
+      notAfter: new Date(Date.now() + 90 * 86_400_000).toISOString(),
+    });
+
+    const plugin = certificateManagementPlugin({ signer, store });
+    const server = fakeServer(station.client);
+    plugin.onInit!(server);
+    plugin.onConnection!(station.client);
+    await vi.waitFor(() =>
+      expect(server.emit).toHaveBeenCalledWith(
+        "certificate:renewalRequested",
+        expect.objectContaining({ certificateType: "V2GCertificate" }),
+      ),
+    );
+    expect(station.call.mock.calls).toEqual([
+      [
+        "TriggerMessage",
+        { requestedMessage: "SignV2GCertificate" },
+        undefined,
+      ],
+    ]);
+
+    // Not re-triggered right away
+    plugin.onConnection!(station.client);
+    await new Promise((r) => setTimeout(r, 10));
+    plugin.onClose!();
+    expect(station.call).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the certificate inventory", async () => {
+    const rootHash = certificateHashData(caPem);
+    const other = { ...rootHash, serialNumber: "ff" };
+    const station = station201((method) => {
+      if (method === "GetInstalledCertificateIds") {
+        return {
+          status: "Accepted",
+          certificateHashDataChain: [
+            { certificateType: "V2GRootCertificate", certificateHashData: other },
+          ],
+        };
+      }
+      return { status: "Accepted" };
+    });
+    const plugin = certificateManagementPlugin({
+      signer,
+      handleMessages: false,
+    });
+    plugin.onInit!(fakeServer(station.client));
+
+    expect(await plugin.getInventory("CP-1")).toBeNull();
+    await plugin.refreshInventory("CP-1");
+    expect(
+      await plugin.installCertificate("CP-1", "CSMSRootCertificate", caPem),
+    ).toBe("Accepted");
+    expect(await plugin.getInventory("CP-1")).toEqual([
+      { certificateType: "V2GRootCertificate", certificateHashData: other },
+      { certificateType: "CSMSRootCertificate", certificateHashData: rootHash },
+    ]);
+
+    expect(await plugin.deleteCertificate("CP-1", other)).toBe("Accepted");
+    expect(station.call).toHaveBeenLastCalledWith(
+      "DeleteCertificate",
+      { certificateHashData: other },
+      undefined,
+    );
+    expect(await plugin.getInventory("CP-1")).toEqual([
+      { certificateType: "CSMSRootCertificate", certificateHashData: rootHash },
+    ]);
+    plugin.onClose!();
+  });
+});
+
+describe("certificateManagementPlugin — through a server", () => {
+  let pair: Awaited<ReturnType<typeof connectStation>> | undefined;
+
+  afterEach(async () => {
+    await pair?.close();
+    pair = undefined;
+  });
+
+  it("signs a 2.0.1 station's CSR once it was accepted", async () => {
+    const onIssue = vi.fn();
+    const certificateSigned = vi.fn(() => ({ status: "Accepted" }));
+    pair = await connectStation(
+      [certificateManagementPlugin({ signer, onIssue })],
+      {
+        protocol: "ocpp2.0.1",
+        handlers: { CertificateSigned: certificateSigned },
+      },
+    );
+
+    expect(
+      await pair.client.call("SignCertificate", {
+        csr: csrFor("CP-1"),
+        certificateType: "ChargingStationCertificate",
+      }),
+    ).toEqual({ status: "Accepted" });
+
+    await vi.waitFor(() => expect(onIssue).toHaveBeenCalled());
+    expect(onIssue.mock.calls[0][0]).toMatchObject({
+      identity: "CP-1",
+      status: "Accepted",
+    });
+    const [[{ params }]] = certificateSigned.mock.calls as any[];
+    expect(
+      new X509Certificate(params.certificateChain).checkIssued(
+        new X509Certificate(caPem),
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+import { generateKeyPairSync } from "node:crypto";
+import type { PeerCertificate } from "node:tls";
+import { describe, expect, it } from "vitest";
+import { checkClientCertificate, RevocationList } from "../src/client-cert.js";
+import { issueCertificate, issueCrl } from "../src/x509.js";
+
+const caKeys = generateKeyPairSync("ec", { namedCurve: "P-256" });
+const caPem = issueCertificate({
+  subject: { commonName: "Station CA" },
+  publicKey: caKeys.publicKey,
+  signingKey: caKeys.privateKey,
+  isCA: true,
+});
+
+function peer(fields: Partial<PeerCertificate>): PeerCertificate {
+  return { serialNumber: "0A1B", subject: { CN: "CP-1" }, ...fields } as any;
+}
+
+describe("RevocationList", () => {
+  it("normalizes serials and keeps manual entries across CRL reloads", () => {
+    const list = new RevocationList(["0A:1B"]);
+    expect(list.has("a1b")).toBe(true);
+
+    const crl = issueCrl({
+      issuerCertificate: caPem,
+      signingKey: caKeys.privateKey,
+      revoked: [{ serialNumber: "00ff" }, { serialNumber: "abc" }],
+    });
+    expect(list.loadCrl(crl, caPem)).toBe(2);
+    expect(list.has("FF")).toBe(true);
+    expect(list.has("0abc")).toBe(true);
+    expect(list.size).toBe(3);
+
+    const empty = issueCrl({
+      issuerCertificate: caPem,
+      signingKey: caKeys.privateKey,
+      revoked: [],
+    });
+    list.loadCrl(Buffer.from(empty));
+    expect(list.has("ff")).toBe(false);
+    expect(list.has("a1b")).toBe(true);
+  });
+
+  it("rejects a CRL signed by another key and keeps the old entries", () => {
+    const list = new RevocationList();
+    list.loadCrl(
+      issueCrl({
+        issuerCertificate: caPem,
+        signingKey: caKeys.privateKey,
+        revoked: [{ serialNumber: "01" }],
+      }),
+    );
+    const forged = issueCrl({
+      issuerCertificate: caPem,
+      signingKey: generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey,
+      revoked: [],
+    });
+    expect(() => list.loadCrl(forged, caPem)).toThrow("Invalid CRL signature");
+    expect(list.has("01")).toBe(true);
+  });
+});
+
+describe("checkClientCertificate", () => {
+  it("allows any certificate without a policy", () => {
+    expect(checkClientCertificate(peer({}), "CP-9", {})).toEqual({
+      allowed: true,
+    });
+  });
+
+  it("binds the certificate to the identity", () => {
+    const cert = peer({ subjectaltname: "DNS:cp-1.example.com, URI:urn:CP-2" });
+    expect(
+      checkClientCertificate(cert, "CP-1", { identityMatch: "cn" }).allowed,
+    ).toBe(true);
+    expect(
+      checkClientCertificate(cert, "CP-2", { identityMatch: "cn" }),
+    ).toMatchObject({ allowed: false, type: "CLIENT_CERT_MISMATCH" });
+    expect(
+      checkClientCertificate(cert, "urn:CP-2", { identityMatch: "san" })
+        .allowed,
+    ).toBe(true);
+    expect(
+      checkClientCertificate(cert, "CP-1", { identityMatch: "san" }).allowed,
+    ).toBe(false);
+    expect(
+      checkClientCertificate(cert, "cp-1.example.com", {
+        identityMatch: "cn-or-san",
+      }).allowed,
+    ).toBe(true);
+
+    const mapIdentity = (c: PeerCertificate) =>
+      (c.subject.CN as string).replace("CP-", "STATION-");
+    expect(
+      checkClientCertificate(cert, "STATION-1", {
+        identityMatch: "cn",
+        mapIdentity,
+      }).allowed,
+    ).toBe(true);
+    expect(
+      checkClientCertificate({} as PeerCertificate, "CP-1", {
+        identityMatch: "cn",
+      }),
+    ).toMatchObject({ allowed: false, reason: "No client certificate" });
+  });
+
+  it("rejects revoked certificates", () => {
+    const revocationList = new RevocationList(["0a1b"]);
+    expect(
+      checkClientCertificate(peer({}), "CP-1", {
+        identityMatch: "cn",
+        revocationList,
+      }),
+    ).toMatchObject({ allowed: false, type: "CLIENT_CERT_REVOKED" });
+
+    revocationList.delete("0A1B");
+    expect(
+      checkClientCertificate(peer({}), "CP-1", { revocationList }).allowed,
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { InMemoryAdapter } from "../src/adapters/adapter.js";
+import { OCPPClient } from "../src/client.js";
+import { OCPPServer } from "../src/server.js";
+import type { ServerOptions } from "../src/types.js";
+
+describe("cluster stats", () => {
+  const servers: OCPPServer[] = [];
+  const clients: OCPPClient[] = [];
+
+  afterEach(async () => {
+    for (const c of clients.splice(0)) {
+      await c.close({ force: true }).catch(() => {});
+    }
+    for (const s of servers.splice(0)) {
+      await s.close({ force: true }).catch(() => {});
+    }
+  });
+
+  async function startNode(
+    adapter: InMemoryAdapter,
+    cluster: ServerOptions["cluster"] = { heartbeatIntervalMs: 50 },
+  ) {
+    const server = new OCPPServer({ cluster });
+    servers.push(server);
+    await server.setAdapter(adapter);
+    const http = await server.listen(0);
+    return { server, port: (http.address() as AddressInfo).port };
+  }
+
+  async function connect(port: number, identity: string) {
+    const client = new OCPPClient({
+      identity,
+      endpoint: `ws://127.0.0.1:${port}`,
+      reconnect: false,
+    });
+    clients.push(client);
+    await client.connect();
+    return client;
+  }
+
+  test("lists only this node without cluster membership", async () => {
+    const server = new OCPPServer({});
+    servers.push(server);
+    const http = await server.listen(0);
+    await connect((http.address() as AddressInfo).port, "CP-1");
+
+    const { nodes, totals } = server.clusterStats();
+    expect(nodes.map((n) => n.nodeId)).toEqual([server.nodeId]);
+    expect(nodes[0]!.stats?.connectedClients).toBe(1);
+    expect(totals).toMatchObject({ nodes: 1, activeNodes: 1 });
+    expect(await server.listClusterClients()).toEqual([
+      { identity: "CP-1", nodeId: server.nodeId },
+    ]);
+  });
+
+  test("aggregates the stats of every live node", async () => {
+    const adapter = new InMemoryAdapter();
+    const a = await startNode(adapter);
+    const b = await startNode(adapter);
+    await connect(a.port, "CP-A1");
+    await connect(a.port, "CP-A2");
+    await connect(b.port, "CP-B1");
+
+    await vi.waitFor(() =>
+      expect(b.server.clusterStats().totals.connectedClients).toBe(3),
+    );
+    const { nodes, totals } = b.server.clusterStats();
+    expect(nodes.map((n) => n.nodeId)).toEqual(
+      [a.server.nodeId, b.server.nodeId].sort(),
+    );
+    expect(totals).toMatchObject({ nodes: 2, activeNodes: 2 });
+    expect(totals.memory.rss).toBeGreaterThan(0);
+
+    await vi.waitFor(async () =>
+      expect(
+        (await b.server.listClusterClients()).sort((x, y) =>
+          x.identity < y.identity ? -1 : 1,
+        ),
+      ).toEqual([
+        { identity: "CP-A1", nodeId: a.server.nodeId },
+        { identity: "CP-A2", nodeId: a.server.nodeId },
+        { identity: "CP-B1", nodeId: b.server.nodeId },
+      ]),
+    );
+  });
+
+  test("removes the presence entries of a dead node", async () => {
+    const adapter = new InMemoryAdapter();
+    const a = await startNode(adapter);
+    const b = await startNode(adapter);
+    const cleanups = vi.fn();
+    a.server.on("presenceCleanup", cleanups);
+    b.server.on("presenceCleanup", cleanups);
+
+    await adapter.publish("ocpp:cluster", {
+      type: "heartbeat",
+      nodeId: "node-dead",
+      state: "active",
+      startedAt: new Date().toISOString(),
+    });
+    await adapter.setPresence("CP-GHOST", "node-dead", 300);
+    await adapter.setPresence("CP-MOVED", "node-dead", 300);
+    // Reconnected elsewhere before the node was declared dead
+    const listPresence = adapter.listPresence.bind(adapter);
+    vi.spyOn(adapter, "listPresence").mockImplementationOnce(async () => {
+      const entries = await listPresence();
+      await adapter.setPresence("CP-MOVED", a.server.nodeId, 300);
+      return entries;
+    });
+
+    // Missing heartbeats get it dropped after nodeTimeoutMs
+    await vi.waitFor(() => expect(cleanups).toHaveBeenCalled(), {
+      timeout: 2000,
+    });
+    expect(cleanups).toHaveBeenCalledTimes(1);
+    expect(cleanups).toHaveBeenCalledWith({
+      nodes: ["node-dead"],
+      identities: ["CP-GHOST"],
+    });
+    expect(await adapter.getPresence("CP-GHOST")).toBeNull();
+    expect(await adapter.getPresence("CP-MOVED")).toBe(a.server.nodeId);
+  });
+
+  test("keeps stale presence when cleanup is disabled", async () => {
+    const adapter = new InMemoryAdapter();
+    const a = await startNode(adapter, { cleanupStalePresence: false });
+    const changes = vi.fn();
+    a.server.on("clusterChange", changes);
+
+    await adapter.publish("ocpp:cluster", {
+      type: "heartbeat",
+      nodeId: "node-dead",
+      state: "active",
+      startedAt: new Date().toISOString(),
+    });
+    await adapter.setPresence("CP-GHOST", "node-dead", 300);
+    await adapter.publish("ocpp:cluster", { type: "leave", nodeId: "node-dead" });
+
+    expect(changes).toHaveBeenLastCalledWith(
+      expect.objectContaining({ left: ["node-dead"] }),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(await adapter.getPresence("CP-GHOST")).toBe("node-dead");
+  });
+
+  test("rejects listing when the adapter has no presence listing", async () => {
+    const server = new OCPPServer({});
+    servers.push(server);
+    const adapter = new InMemoryAdapter();
+    (adapter as any).listPresence = undefined;
+    await server.setAdapter(adapter);
+    await expect(server.listClusterClients()).rejects.toThrow(/listPresence/);
+  });
+});
@@ -0,0 +1,207 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  type ClusterMessage,
+  ClusterMembership,
+  type ClusterMembershipOptions,
+  HashRing,
+} from "../src/cluster.js";
+import type { OCPPServerStats } from "../src/types.js";
+
+const identities = Array.from({ length: 2000 }, (_, i) => `CP-${i}`);
+
+describe("HashRing", () => {
+  it("returns null on an empty ring", () => {
+    expect(new HashRing().owner("CP-1")).toBeNull();
+    expect(() => new HashRing(0)).toThrow(/virtualNodes/);
+  });
+
+  it("maps identities the same way regardless of insertion order", () => {
+    const a = new HashRing();
+    const b = new HashRing();
+    a.setNodes(["n1", "n2", "n3"]);
+    b.setNodes(["n3", "n1", "n2", "n1"]);
+    expect(b.nodes).toEqual(["n1", "n2", "n3"]);
+    for (const id of identities) expect(b.owner(id)).toBe(a.owner(id));
+  });
+
+  it("spreads identities evenly across nodes", () => {
+    const ring = new HashRing();
+    ring.setNodes(["n1", "n2", "n3", "n4"]);
+    const counts = new Map<string, number>();
+    for (const id of identities) {
+      const owner = ring.owner(id)!;
+      counts.set(owner, (counts.get(owner) ?? 0) + 1);
+    }
+    expect(counts.size).toBe(4);
+    for (const count of counts.values()) {
+      expect(count).toBeGreaterThan(identities.length / 4 / 1.5);
+      expect(count).toBeLessThan((identities.length / 4) * 1.5);
+    }
+  });
+
+  it("only moves the joining node's share of identities", () => {
+    const ring = new HashRing();
+    ring.setNodes(["n1", "n2", "n3"]);
+    const before = identities.map((id) => ring.owner(id));
+
+    expect(ring.setNodes(["n1", "n2", "n3", "n4"])).toBe(true);
+    expect(ring.setNodes(["n4", "n3", "n2", "n1"])).toBe(false);
+    const moved = identities.filter((id, i) => ring.owner(id) !== before[i]);
+
+    expect(moved.length).toBeGreaterThan(0);
+    expect(moved.length).toBeLessThan(identities.length / 3);
+    for (const id of moved) expect(ring.owner(id)).toBe("n4");
+  });
+});
+
+describe("ClusterMembership", () => {
+  const members: ClusterMembership[] = [];
+
+  afterEach(async () => {
+    await Promise.all(members.splice(0).map((m) => m.stop()));
+    vi.useRealTimers();
+  });
+
+  /** Members wired to each other as if sharing an adapter channel. */
+  function createCluster() {
+    const bus = new Set<ClusterMembership>();
+    return (
+      nodeId: string,
+      extra: Partial<ClusterMembershipOptions> = {},
+    ) => {
+      const onChange = vi.fn();
+      const member = new ClusterMembership({
+        nodeId,
+        ...extra,
+        heartbeatIntervalMs: 1000,
+        publish: async (message: ClusterMessage) => {
+          for (const other of bus) other.handle(message);
+        },
+        onChange,
+      });
+      bus.add(member);
+      members.push(member);
+      return { member, onChange };
+    };
+  }
+
+  it("learns about existing nodes as soon as it starts", () => {
+    const join = createCluster();
+    const a = join("node-a", { url: "wss://a.example.com" });
+    const b = join("node-b");
+    a.member.start();
+    b.member.start();
+
+    expect(a.member.nodes.map((n) => n.nodeId)).toEqual(["node-a", "node-b"]);
+    expect(b.member.nodes.map((n) => n.nodeId)).toEqual(["node-a", "node-b"]);
+    expect(b.member.get("node-a")?.url).toBe("wss://a.example.com");
+    expect(a.onChange).toHaveBeenCalledWith(
+      expect.any(Array),
+      ["node-b"],
+      [],
+    );
+    expect(b.onChange).toHaveBeenCalledWith(
+      expect.any(Array),
+      ["node-a"],
+      [],
+    );
+  });
+
+  it("drops nodes that leave or stop sending heartbeats", async () => {
+    vi.useFakeTimers();
+    const join = createCluster();
+    const a = join("node-a");
+    const b = join("node-b");
+    const c = join("node-c");
+    a.member.start();
+    b.member.start();
+    c.member.start();
+    expect(a.member.nodes).toHaveLength(3);
+
+    await b.member.stop();
+    expect(a.onChange).toHaveBeenLastCalledWith(
+      expect.any(Array),
+      [],
+      ["node-b"],
+    );
+    expect(a.member.nodes.map((n) => n.nodeId)).toEqual(["node-a", "node-c"]);
+
+    // node-c goes silent without saying goodbye
+    c.member.handle = () => {};
+    (c.member as any)._options.publish = async () => {};
+    vi.advanceTimersByTime(4500);
+    expect(a.member.nodes.map((n) => n.nodeId)).toEqual(["node-a"]);
+    expect(a.onChange).toHaveBeenLastCalledWith(
+      [expect.objectContaining({ nodeId: "node-a" })],
+      [],
+      ["node-c"],
+    );
+  });
+
+  it("announces state changes to the other nodes", () => {
+    const join = createCluster();
+    const a = join("node-a");
+    const b = join("node-b");
+    a.member.start();
+    b.member.start();
+    a.onChange.mockClear();
+
+    b.member.setState("draining");
+    expect(a.member.get("node-b")?.state).toBe("draining");
+    expect(a.onChange).toHaveBeenCalledWith(
+      expect.arrayContaining([
+        expect.objectContaining({ nodeId: "node-b", state: "draining" }),
+      ]),
+      [],
+      [],
+    );
+    expect(b.member.get("node-b")?.state).toBe("draining");
+
+    a.onChange.mockClear();
+    b.member.setState("draining");
+    expect(a.onChange).not.toHaveBeenCalled();
+  });
+
+  it("shares each node's stats with its heartbeats", async () => {
+    vi.useFakeTimers();
+    const join = createCluster();
+    let connectedClients = 3;
+    const stats = () =>
+      ({ connectedClients, activeSessions: 1 }) as OCPPServerStats;
+    const a = join("node-a");
+    const b = join("node-b", { stats, startedAt: "2026-01-01T00:00:00.000Z" });
+    a.member.start();
+    b.member.start();
+
+    expect(a.member.get("node-b")).toMatchObject({
+      startedAt: "2026-01-01T00:00:00.000Z",
+      stats: { connectedClients: 3 },
+    });
+    expect(a.member.get("node-a")?.stats).toBeUndefined();
+
+    connectedClients = 5;
+    vi.advanceTimersByTime(1000);
+    expect(a.member.get("node-b")?.stats?.connectedClients).toBe(5);
+    expect(b.member.get("node-b")?.stats?.connectedClients).toBe(5);
+  });
+
+  it("ignores its own and malformed messages", () => {
+    const onChange = vi.fn();
+    const member = new ClusterMembership({
+      nodeId: "node-a",
+      publish: async () => {},
+      onChange,
+    });
+    members.push(member);
+    member.handle({ type: "heartbeat", nodeId: "node-b" });
+    expect(member.nodes).toEqual([]);
+
+    member.start();
+    member.handle({ type: "heartbeat", nodeId: "node-a" });
+    member.handle({ type: "heartbeat" });
+    member.handle("garbage");
+    member.handle({ type: "unknown", nodeId: "node-c" });
+    expect(onChange).not.toHaveBeenCalled();
+    expect(member.nodes.map((n) => n.nodeId)).toEqual(["node-a"]);
+  });
+});
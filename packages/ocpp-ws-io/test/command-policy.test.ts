@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from "vitest";
+import { CommandDeniedError, RPCSecurityError } from "../src/errors.js";
+import { MiddlewareStack } from "../src/middleware.js";
+import {
+  CommandPolicy,
+  commandPolicyPlugin,
+  InMemoryCommandAuditSink,
+} from "../src/plugins/command-policy.js";
+import type { CallOptions, MiddlewareContext } from "../src/types.js";
+
+function fakeStation(identity = "CP-1") {
+  const stack = new MiddlewareStack<MiddlewareContext>();
+  const station = {
+    identity,
+    use: (mw: any) => stack.use(mw),
+    // Mirrors OCPPClient._sendCall: middleware first, then the wire
+    call: (
+      method: string,
+      params: unknown,
+      options: CallOptions = {},
+      wire = vi.fn(async () => ({ status: "Accepted" })),
+    ) =>
+      stack.execute(
+        { type: "outgoing_call", messageId: "m1", method, params, options },
+        wire,
+      ),
+  };
+  return station as any;
+}
+
+describe("CommandPolicy", () => {
+  it("allows matching rules and lets deny rules win", () => {
+    const policy = new CommandPolicy({
+      rules: [
+        { principal: "operator:*", method: ["Reset", "UnlockConnector"] },
+        { name: "admin", principal: "ops-admin", method: "*" },
+        {
+          name: "pilot-freeze",
+          principal: "*",
+          method: "UpdateFirmware",
+          identity: "PILOT-*",
+          effect: "deny",
+        },
+      ],
+    });
+
+    expect(policy.check("operator:alice", "CP-1", "Reset")).toEqual({
+      allowed: true,
+      rule: "0",
+    });
+    expect(policy.check("operator:alice", "CP-1", "UpdateFirmware")).toEqual({
+      allowed: false,
+      reason: "No rule allows operator:alice to send UpdateFirmware to CP-1",
+    });
+    expect(policy.check("ops-admin", "CP-1", "UpdateFirmware").allowed).toBe(
+      true,
+    );
+    expect(policy.check("ops-admin", "PILOT-7", "UpdateFirmware")).toMatchObject({
+      allowed: false,
+      rule: "pilot-freeze",
+    });
+    // Calls without a principal are the application's own by default
+    expect(policy.check(undefined, "CP-1", "Reset").allowed).toBe(true);
+    expect(
+      new CommandPolicy({ unattributed: "deny" }).check(undefined, "CP-1", "Reset"),
+    ).toEqual({ allowed: false, reason: "Call has no principal" });
+
+    policy.setRules([]);
+    expect(policy.check("ops-admin", "CP-1", "Reset").allowed).toBe(false);
+  });
+});
+
+describe("commandPolicyPlugin", () => {
+  it("rejects denied calls before the wire and audits every attempt", async () => {
+    const plugin = commandPolicyPlugin({
+      policy: { rules: [{ principal: "operator:*", method: "Reset" }] },
+      recordParams: true,
+    });
+    const station = fakeStation();
+    plugin.onConnection?.(station);
+
+    const wire = vi.fn(async () => ({ status: "Accepted" }));
+    const denied = station.call(
+      "UpdateFirmware",
+      {},
+      { principal: "operator:bob" },
+      wire,
+    );
+    await expect(denied).rejects.toBeInstanceOf(CommandDeniedError);
+    await expect(denied).rejects.toBeInstanceOf(RPCSecurityError);
+    await expect(denied).rejects.toMatchObject({
+      rpcErrorCode: "SecurityError",
+      details: { principal: "operator:bob", identity: "CP-1" },
+    });
+    expect(wire).not.toHaveBeenCalled();
+
+    await expect(
+      station.call("Reset", { type: "Soft" }, { principal: "operator:bob" }, wire),
+    ).resolves.toEqual({ status: "Accepted" });
+    await expect(
+      station.call(
+        "Reset",
+        { type: "Hard" },
+        { principal: "operator:bob" },
+        vi.fn(async () => {
+          throw new Error("timed out");
+        }),
+      ),
+    ).rejects.toThrow("timed out");
+
+    await vi.waitFor(async () => expect(await plugin.query()).toHaveLength(3));
+    const [failed, ok, refused] = await plugin.query();
+    expect(refused).toMatchObject({
+      principal: "operator:bob",
+      method: "UpdateFirmware",
+      decision: "denied",
+      error: "No rule allows operator:bob to send UpdateFirmware to CP-1",
+    });
+    expect(ok).toMatchObject({
+      decision: "allowed",
+      rule: "0",
+      outcome: "result",
+      params: { type: "Soft" },
+      durationMs: expect.any(Number),
+    });
+    expect(failed).toMatchObject({ outcome: "error", error: "timed out" });
+    expect(await plugin.query({ decision: "denied" })).toHaveLength(1);
+  });
+
+  it("shares a policy instance and leaves params out by default", async () => {
+    const policy = new CommandPolicy({ unattributed: "deny" });
+    const sink = new InMemoryCommandAuditSink();
+    const plugin = commandPolicyPlugin({ policy, sink });
+    expect(plugin.policy).toBe(policy);
+
+    const station = fakeStation("CP-2");
+    plugin.onConnection?.(station);
+    await expect(
+      station.call("SetVariables", { setVariableData: [] }),
+    ).rejects.toThrow("Call has no principal");
+
+    policy.setRules([{ principal: "svc", method: "*" }]);
+    await station.call("SetVariables", { setVariableData: [] }, {
+      principal: "svc",
+    });
+    await vi.waitFor(async () => expect(await sink.query()).toHaveLength(2));
+    for (const record of await sink.query()) {
+      expect(record).not.toHaveProperty("params");
+    }
+  });
+});
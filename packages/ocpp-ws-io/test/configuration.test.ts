@@ -0,0 +1,257 @@
+import { describe, expect, it, vi } from "vitest";
+import { configurationPlugin } from "../src/plugins/configuration.js";
+import type { MessageEventPayload } from "../src/types.js";
+import { matchesPattern } from "../src/utils/pattern.js";
+
+/** Fake 1.6 station answering from a key/value table. */
+function fakeStation(
+  config: Record<string, { value: string; readonly?: boolean }>,
+  changeStatus: (key: string) => string = () => "Accepted",
+  { identity = "CP-1", pathname = "/ocpp/CP-1", protocol = "ocpp1.6" } = {},
+) {
+  const call = vi.fn(async (method: string, params: any) => {
+    if (method === "GetConfiguration") {
+      const keys: string[] = params.key ?? Object.keys(config);
+      return {
+        configurationKey: keys
+          .filter((k) => k in config)
+          .map((k) => ({
+            key: k,
+            value: config[k].value,
+            readonly: !!config[k].readonly,
+          })),
+        unknownKey: keys.filter((k) => !(k in config)),
+      };
+    }
+    if (method === "ChangeConfiguration") {
+      return { status: changeStatus(params.key) };
+    }
+    return { status: "Accepted" };
+  });
+  return { identity, protocol, handshake: { pathname }, call } as any;
+}
+
+function bootAccepted(): MessageEventPayload {
+  return {
+    message: [] as any,
+    direction: "OUT",
+    ctx: {
+      type: "outgoing_result",
+      messageId: "b1",
+      method: "BootNotification",
+      payload: { status: "Accepted" },
+    } as any,
+  };
+}
+
+describe("matchesPattern", () => {
+  it("supports globs, RegExps and arrays", () => {
+    expect(matchesPattern("CP-001", "CP-*")).toBe(true);
+    expect(matchesPattern("CP-001", "CP-00?")).toBe(true);
+    expect(matchesPattern("XCP-001", "CP-*")).toBe(false);
+    expect(matchesPattern("a.b", "a.b")).toBe(true);
+    expect(matchesPattern("axb", "a.b")).toBe(false);
+    expect(matchesPattern("DEPOT-7", /^depot-\d$/i)).toBe(true);
+    expect(matchesPattern("CP-1", ["X-*", "CP-*"])).toBe(true);
+  });
+});
+
+describe("configurationPlugin", () => {
+  it("merges rules by identity and route, later rules winning", () => {
+    const plugin = configurationPlugin({
+      rules: [
+        { keys: { HeartbeatInterval: 300, MeterValueSampleInterval: 60 } },
+        { identity: "DEPOT-*", keys: { MeterValueSampleInterval: 15 } },
+        { route: "/fleet/*", keys: { LocalAuthorizeOffline: true } },
+      ],
+    });
+
+    expect(
+      plugin.desiredFor(
+        fakeStation({}, undefined, {
+          identity: "DEPOT-1",
+          pathname: "/fleet/DEPOT-1",
+        }),
+      ),
+    ).toEqual({
+      HeartbeatInterval: "300",
+      MeterValueSampleInterval: "15",
+      LocalAuthorizeOffline: "true",
+    });
+    expect(plugin.desiredFor(fakeStation({}))).toEqual({
+      HeartbeatInterval: "300",
+      MeterValueSampleInterval: "60",
+    });
+  });
+
+  it("reconciles after an accepted BootNotification", async () => {
+    const onReport = vi.fn();
+    const emit = vi.fn();
+    const plugin = configurationPlugin({
+      rules: [
+        {
+          keys: {
+            HeartbeatInterval: 300,
+            MeterValueSampleInterval: 60,
+            ConnectionTimeOut: 90,
+            NumberOfConnectors: 4,
+            WebSocketPingInterval: 30,
+            Unknown: 1,
+          },
+        },
+      ],
+      onReport,
+    });
+    plugin.onInit!({ emit } as any);
+
+    const client = fakeStation(
+      {
+        HeartbeatInterval: { value: "300" },
+        MeterValueSampleInterval: { value: "0" },
+        ConnectionTimeOut: { value: "60" },
+        NumberOfConnectors: { value: "2", readonly: true },
+        WebSocketPingInterval: { value: "0" },
+      },
+      (key) => (key === "WebSocketPingInterval" ? "RebootRequired" : "Accepted"),
+    );
+    plugin.onMessage!(client, bootAccepted());
+
+    await vi.waitFor(() => expect(onReport).toHaveBeenCalledTimes(1));
+    const report = onReport.mock.calls[0][0];
+    expect(
+      Object.fromEntries(report.results.map((r: any) => [r.key, r.status])),
+    ).toEqual({
+      HeartbeatInterval: "Unchanged",
+      MeterValueSampleInterval: "Accepted",
+      ConnectionTimeOut: "Accepted",
+      NumberOfConnectors: "ReadOnly",
+      WebSocketPingInterval: "RebootRequired",
+      Unknown: "NotSupported",
+    });
+    expect(report.rebootRequired).toBe(true);
+    expect(emit).toHaveBeenCalledWith("configuration:reconciled", report);
+
+    const changed = client.call.mock.calls
+      .filter(([method]: any[]) => method === "ChangeConfiguration")
+      .map(([, params]: any[]) => params.key);
+    expect(changed).toEqual([
+      "MeterValueSampleInterval",
+      "ConnectionTimeOut",
+      "WebSocketPingInterval",
+    ]);
+    // Reset is opt-in
+    expect(client.call).not.toHaveBeenCalledWith(
+      "Reset",
+      expect.anything(),
+      undefined,
+    );
+  });
+
+  it("resets when a change requires a reboot and it is enabled", async () => {
+    const onReport = vi.fn();
+    const plugin = configurationPlugin({
+      rules: [{ keys: { WebSocketPingInterval: 30 } }],
+      resetOnRebootRequired: "Soft",
+      onReport,
+    });
+    const client = fakeStation(
+      { WebSocketPingInterval: { value: "0" } },
+      () => "RebootRequired",
+    );
+    plugin.onMessage!(client, bootAccepted());
+
+    await vi.waitFor(() => expect(onReport).toHaveBeenCalled());
+    expect(client.call).toHaveBeenLastCalledWith(
+      "Reset",
+      { type: "Soft" },
+      undefined,
+    );
+  });
+
+  it("ignores rejected boots and non-1.6 stations", async () => {
+    const plugin = configurationPlugin({
+      rules: [{ keys: { HeartbeatInterval: 300 } }],
+    });
+
+    const pending = fakeStation({});
+    const msg = bootAccepted();
+    (msg.ctx as any).payload = { status: "Pending" };
+    plugin.onMessage!(pending, msg);
+
+    const v201 = fakeStation({}, undefined, { protocol: "ocpp2.0.1" });
+    plugin.onMessage!(v201, bootAccepted());
+
+    await new Promise((r) => setTimeout(r, 10));
+    expect(pending.call).not.toHaveBeenCalled();
+    expect(v201.call).not.toHaveBeenCalled();
+  });
+
+  it("falls back to an unfiltered read and reports read failures", async () => {
+    const plugin = configurationPlugin({
+      rules: [{ keys: { HeartbeatInterval: 300 } }],
+    });
+    const client = fakeStation({ HeartbeatInterval: { value: "60" } });
+    const answer = client.call.getMockImplementation();
+    client.call.mockImplementation(async (method: string, params: any) => {
+      if (method === "GetConfiguration" && params.key) {
+        throw new Error("NotSupported");
+      }
+      return answer(method, params);
+    });
+    client.protocol = "ocpp1.6";
+    plugin.onInit!({
+      emit: vi.fn(),
+      getLocalClient: () => client,
+    } as any);
+
+    const report = await plugin.reconcile("CP-1");
+    expect(report.results).toEqual([
+      {
+        key: "HeartbeatInterval",
+        desired: "300",
+        actual: "60",
+        status: "Accepted",
+      },
+    ]);
+
+    client.call.mockRejectedValue(new Error("Timeout"));
+    const failed = await plugin.reconcile("CP-1");
+    expect(failed).toMatchObject({ error: "Timeout", results: [] });
+  });
+
+  it("delays reconciliation and cancels it on disconnect", async () => {
+    const plugin = configurationPlugin({
+      rules: [{ keys: { HeartbeatInterval: 300 } }],
+      delayMs: 20,
+    });
+    const client = fakeStation({ HeartbeatInterval: { value: "60" } });
+    plugin.onMessage!(client, bootAccepted());
+    plugin.onDisconnect!(client, 1000, "");
+
+    await new Promise((r) => setTimeout(r, 40));
+    expect(client.call).not.toHaveBeenCalled();
+  });
+
+  it("keeps the new connection's reconciliation when the old one disconnects late", async () => {
+    const plugin = configurationPlugin({
+      rules: [{ keys: { HeartbeatInterval: 300 } }],
+      delayMs: 20,
+    });
+    const config = { HeartbeatInterval: { value: "60" } };
+    const stale = fakeStation(config);
+    const fresh = fakeStation(config);
+    plugin.onMessage!(stale, bootAccepted());
+    plugin.onMessage!(fresh, bootAccepted());
+    // The replaced connection's close arrives after the new boot
+    plugin.onDisconnect!(stale, 1000, "");
+
+    await vi.waitFor(() =>
+      expect(fresh.call).toHaveBeenCalledWith(
+        "ChangeConfiguration",
+        { key: "HeartbeatInterval", value: "300" },
+        undefined,
+      ),
+    );
+    expect(stale.call).not.toHaveBeenCalled();
+  });
+});
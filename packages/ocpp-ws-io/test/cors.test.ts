@@ -1,9 +1,29 @@
 import { describe, it, expect } from "vitest";
-import { isIPAllowed } from "../src/utils/cidr.js";
+import { canonicalIP, isIPAllowed } from "../src/utils/cidr.js";
 import { checkCORS } from "../src/cors.js";
+import { IPPolicy } from "../src/ip-policy.js";
 import type { IncomingMessage } from "node:http";
 import { TLSSocket } from "node:tls";
 
+describe("CORS Utilities - canonicalIP", () => {
+  it("gives every address one spelling", () => {
+    expect(canonicalIP("192.0.2.1")).toBe("192.0.2.1");
+    expect(canonicalIP("::ffff:192.0.2.1")).toBe("192.0.2.1");
+    expect(canonicalIP("::FFFF:c000:201")).toBe("192.0.2.1");
+    expect(canonicalIP("2001:0DB8:0:0:1:0:0:1")).toBe("2001:db8::1:0:0:1");
+    expect(canonicalIP("fe80::1%eth0")).toBe("fe80::1");
+    expect(canonicalIP("::")).toBe("::");
+    expect(canonicalIP("2001:db8:0::/48")).toBe("2001:db8::/48");
+    expect(canonicalIP("::ffff:10.0.0.0/104")).toBe("10.0.0.0/8");
+    expect(canonicalIP("not-an-ip")).toBe("not-an-ip");
+  });
+
+  it("matches exact entries written differently", () => {
+    expect(isIPAllowed("2001:db8::1", ["2001:DB8:0::1"])).toBe(true);
+    expect(isIPAllowed("::ffff:c000:201", ["192.0.2.1"])).toBe(true);
+  });
+});
+
 describe("CORS Utilities - isIPAllowed", () => {
   it("should match exact IPv4 addresses", () => {
     expect(isIPAllowed("192.168.1.5", ["192.168.1.5"])).toBe(true);
@@ -91,6 +111,26 @@ describe("CORS Utilities - checkCORS", () => {
     expect(checkCORS(req, { allowedIPs: ["10.0.0.0/8"] }).allowed).toBe(false);
   });
 
+  it("should let deniedIPs override allowedIPs and resolve @groups", () => {
+    const req = mockRequest({ socket: { remoteAddress: "192.168.1.5" } });
+    const policy = new IPPolicy({ groups: { lan: ["192.168.0.0/16"] } });
+
+    expect(
+      checkCORS(req, { allowedIPs: ["@lan"] }, policy).allowed,
+    ).toBe(true);
+    expect(
+      checkCORS(
+        req,
+        { allowedIPs: ["@lan"], deniedIPs: ["192.168.1.0/24"] },
+        policy,
+      ),
+    ).toEqual({ allowed: false, reason: "IP address denied" });
+    // Unknown groups match nothing
+    expect(
+      checkCORS(req, { allowedIPs: ["@depots"] }, policy).allowed,
+    ).toBe(false);
+  });
+
   it("should enforce allowedSchemes via socket instanceof TLSSocket", () => {
     // mockRequest uses object spread for overrides which destroys prototype chains.
     // We instantiate the mock request normally, then explicitly swap the socket reference.
@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  basicAuth,
+  CredentialManager,
+  hashPassword,
+  InMemoryCredentialStore,
+  verifyPassword,
+} from "../src/auth/credential-store.js";
+
+const scrypt = { N: 1024 };
+
+function fakeStation(protocol: string, status = "Accepted") {
+  return {
+    identity: "CP-1",
+    protocol,
+    call: vi.fn(async (method: string) =>
+      method === "SetVariables"
+        ? { setVariableResult: [{ attributeStatus: status }] }
+        : { status },
+    ),
+  } as any;
+}
+
+describe("hashPassword / verifyPassword", () => {
+  it("hashes with a random salt and verifies", async () => {
+    const hash = await hashPassword("correct horse", scrypt);
+    expect(hash).toMatch(/^scrypt\$1024\$8\$1\$[^$]+\$[^$]+$/);
+    expect(await hashPassword("correct horse", scrypt)).not.toBe(hash);
+
+    expect(await verifyPassword("correct horse", hash)).toBe(true);
+    expect(await verifyPassword(Buffer.from("correct horse"), hash)).toBe(true);
+    expect(await verifyPassword("correct horse!", hash)).toBe(false);
+    expect(await verifyPassword("correct horse", "plain")).toBe(false);
+    expect(
+      await verifyPassword("correct horse", hash.replace("$1024$", "$1000$")),
+    ).toBe(false);
+  });
+});
+
+describe("CredentialManager", () => {
+  it("rotates a 1.6 AuthorizationKey and honours the grace window", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const store = new InMemoryCredentialStore();
+      const credentials = new CredentialManager({
+        store,
+        graceMs: 60_000,
+        scrypt,
+      });
+      await credentials.setPassword("CP-1", "old-password");
+      const station = fakeStation("ocpp1.6");
+
+      const { password, previousExpiresAt } = await credentials.rotate(station);
+      expect(password).toMatch(/^[0-9a-f]{40}$/);
+      expect(previousExpiresAt).toBe(Date.now() + 60_000);
+      expect(station.call).toHaveBeenCalledWith(
+        "ChangeConfiguration",
+        { key: "AuthorizationKey", value: password },
+        undefined,
+      );
+      expect(await credentials.verify("CP-1", password)).toBe(true);
+      expect(await credentials.verify("CP-1", "old-password")).toBe(true);
+
+      vi.advanceTimersByTime(60_000);
+      expect(await credentials.verify("CP-1", "old-password")).toBe(false);
+      expect(await credentials.verify("CP-1", Buffer.from(password))).toBe(
+        true,
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("restores the old password when a 2.x station rejects it", async () => {
+    const credentials = new CredentialManager({ scrypt });
+    await credentials.setPassword("CP-1", "old-password");
+    const station = fakeStation("ocpp2.0.1", "Rejected");
+
+    await expect(credentials.rotate(station)).rejects.toThrow(
+      "Password change Rejected by CP-1",
+    );
+    const [method, params] = station.call.mock.calls[0];
+    expect(method).toBe("SetVariables");
+    expect(params.setVariableData[0]).toMatchObject({
+      component: { name: "SecurityCtrlr" },
+      variable: { name: "BasicAuthPassword" },
+    });
+    const rejected = params.setVariableData[0].attributeValue;
+    expect(await credentials.verify("CP-1", rejected)).toBe(false);
+    expect(await credentials.verify("CP-1", "old-password")).toBe(true);
+  });
+
+  it("keeps both passwords when the outcome is unknown", async () => {
+    const credentials = new CredentialManager({ scrypt });
+    await credentials.setPassword("CP-1", "old-password");
+    const station = fakeStation("ocpp1.6");
+    station.call.mockRejectedValueOnce(new Error("Call timeout"));
+
+    await expect(credentials.rotate(station)).rejects.toThrow("Call timeout");
+    const pushed = station.call.mock.calls[0][1].value;
+    expect(await credentials.verify("CP-1", pushed)).toBe(true);
+    expect(await credentials.verify("CP-1", "old-password")).toBe(true);
+  });
+
+  it("tracks password age", async () => {
+    const credentials = new CredentialManager({ scrypt });
+    expect(await credentials.needsRotation("CP-1", 1000)).toBe(true);
+    await credentials.setPassword("CP-1", "pw");
+    expect(await credentials.needsRotation("CP-1", 1000)).toBe(false);
+  });
+});
+
+describe("basicAuth", () => {
+  it("accepts matching passwords and rejects the rest", async () => {
+    const credentials = new CredentialManager({ scrypt });
+    await credentials.setPassword("CP-1", "secret");
+    const auth = basicAuth(credentials);
+
+    const attempt = async (identity: string, password?: string) => {
+      const ctx = {
+        handshake: {
+          identity,
+          password: password === undefined ? undefined : Buffer.from(password),
+        },
+        accept: vi.fn(),
+        reject: vi.fn((code: number) => {
+          throw code;
+        }),
+      } as any;
+      try {
+        await auth(ctx);
+      } catch (code) {
+        return code;
+      }
+      return ctx.accept.mock.calls.length ? "accepted" : "none";
+    };
+
+    expect(await attempt("CP-1", "secret")).toBe("accepted");
+    expect(await attempt("CP-1", "wrong")).toBe(401);
+    expect(await attempt("CP-1")).toBe(401);
+    expect(await attempt("CP-2", "secret")).toBe(401);
+  });
+});
@@ -0,0 +1,336 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  deviceModelPlugin,
+  deviceVariableKey,
+} from "../src/plugins/device-model.js";
+import type { MessageEventPayload } from "../src/types.js";
+
+function fakeClient(identity = "CP-201") {
+  return {
+    identity,
+    hasHandler: vi.fn(() => false),
+    handle: vi.fn(),
+  } as any;
+}
+
+function msg(
+  direction: "IN" | "OUT",
+  ctx: Record<string, unknown>,
+): MessageEventPayload {
+  return { message: [] as any, direction, ctx: ctx as any };
+}
+
+describe("deviceVariableKey", () => {
+  it("includes instances and EVSE addressing", () => {
+    expect(deviceVariableKey("OCPPCommCtrlr", "HeartbeatInterval")).toBe(
+      "OCPPCommCtrlr/HeartbeatInterval",
+    );
+    expect(
+      deviceVariableKey(
+        { name: "Connector", evse: { id: 1, connectorId: 2 } },
+        { name: "Available", instance: "x" },
+      ),
+    ).toBe("Connector.evse(1:2)/Available[x]");
+  });
+});
+
+describe("deviceModelPlugin", () => {
+  it("answers NotifyReport unless the app handles it", () => {
+    const plugin = deviceModelPlugin();
+    const client = fakeClient();
+    plugin.onConnection!(client);
+    expect(client.handle).toHaveBeenCalledWith(
+      "NotifyReport",
+      expect.any(Function),
+    );
+
+    const handled = fakeClient();
+    handled.hasHandler.mockReturnValue(true);
+    plugin.onConnection!(handled);
+    expect(handled.handle).not.toHaveBeenCalled();
+  });
+
+  it("caches NotifyReport data per attribute type", async () => {
+    const plugin = deviceModelPlugin();
+    const client = fakeClient();
+
+    plugin.onMessage!(
+      client,
+      msg("IN", {
+        type: "incoming_call",
+        method: "NotifyReport",
+        messageId: "m1",
+        params: {
+          requestId: 1,
+          generatedAt: new Date().toISOString(),
+          seqNo: 0,
+          reportData: [
+            {
+              component: { name: "OCPPCommCtrlr" },
+              variable: { name: "HeartbeatInterval" },
+              variableAttribute: [
+                { value: "60", mutability: "ReadWrite" },
+                { type: "MaxSet", value: "3600" },
+              ],
+              variableCharacteristics: { dataType: "integer", unit: "s" },
+            },
+          ],
+        },
+      }),
+    );
+
+    await vi.waitFor(async () => {
+      expect(
+        await plugin.getVariable("CP-201", "OCPPCommCtrlr", "HeartbeatInterval"),
+      ).toBe("60");
+    });
+    expect(
+      await plugin.getVariable(
+        "CP-201",
+        "OCPPCommCtrlr",
+        "HeartbeatInterval",
+        "MaxSet",
+      ),
+    ).toBe("3600");
+    const [entry] = await plugin.getDeviceModel("CP-201");
+    expect(entry.characteristics).toEqual({ dataType: "integer", unit: "s" });
+  });
+
+  it("syncs accepted SetVariables observed on the wire", async () => {
+    const plugin = deviceModelPlugin();
+    const client = fakeClient();
+
+    plugin.onMessage!(
+      client,
+      msg("OUT", {
+        type: "outgoing_call",
+        method: "SetVariables",
+        messageId: "s1",
+        options: {},
+        params: {
+          setVariableData: [
+            {
+              component: { name: "OCPPCommCtrlr" },
+              variable: { name: "HeartbeatInterval" },
+              attributeValue: "300",
+            },
+            {
+              component: { name: "AuthCtrlr" },
+              variable: { name: "Enabled" },
+              attributeValue: "false",
+            },
+          ],
+        },
+      }),
+    );
+    plugin.onMessage!(
+      client,
+      msg("IN", {
+        type: "incoming_result",
+        method: "SetVariables",
+        messageId: "s1",
+        payload: {
+          setVariableResult: [
+            {
+              component: { name: "OCPPCommCtrlr" },
+              variable: { name: "HeartbeatInterval" },
+              attributeStatus: "Accepted",
+            },
+            {
+              component: { name: "AuthCtrlr" },
+              variable: { name: "Enabled" },
+              attributeStatus: "Rejected",
+            },
+          ],
+        },
+      }),
+    );
+
+    await vi.waitFor(async () => {
+      expect(
+        await plugin.getVariable("CP-201", "OCPPCommCtrlr", "HeartbeatInterval"),
+      ).toBe("300");
+    });
+    expect(
+      await plugin.getVariable("CP-201", "AuthCtrlr", "Enabled"),
+    ).toBeUndefined();
+  });
+
+  it("keeps the new connection's calls when the old one disconnects late", async () => {
+    const plugin = deviceModelPlugin();
+    const stale = fakeClient();
+    const fresh = fakeClient();
+    const variable = {
+      component: { name: "OCPPCommCtrlr" },
+      variable: { name: "HeartbeatInterval" },
+    };
+
+    plugin.onMessage!(
+      fresh,
+      msg("OUT", {
+        type: "outgoing_call",
+        method: "SetVariables",
+        messageId: "s1",
+        options: {},
+        params: { setVariableData: [{ ...variable, attributeValue: "120" }] },
+      }),
+    );
+    plugin.onDisconnect!(stale, 1006, "");
+    plugin.onMessage!(
+      fresh,
+      msg("IN", {
+        type: "incoming_result",
+        method: "SetVariables",
+        messageId: "s1",
+        payload: {
+          setVariableResult: [{ ...variable, attributeStatus: "Accepted" }],
+        },
+      }),
+    );
+
+    await vi.waitFor(async () => {
+      expect(
+        await plugin.getVariable("CP-201", "OCPPCommCtrlr", "HeartbeatInterval"),
+      ).toBe("120");
+    });
+  });
+
+  it("forgets tracked calls that never get a result", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const plugin = deviceModelPlugin({ requestTtlMs: 1000 });
+      const client = fakeClient();
+      const send = (direction: "IN" | "OUT", ctx: Record<string, unknown>) =>
+        plugin.onMessage!(client, msg(direction, ctx));
+      const call = (messageId: string, options = {}) =>
+        send("OUT", {
+          type: "outgoing_call",
+          method: "GetVariables",
+          messageId,
+          options,
+          params: { getVariableData: [] },
+        });
+      const result = (messageId: string, variable: string) =>
+        send("IN", {
+          type: "incoming_result",
+          method: "GetVariables",
+          messageId,
+          payload: {
+            getVariableResult: [
+              {
+                attributeStatus: "Accepted",
+                component: { name: "OCPPCommCtrlr" },
+                variable: { name: variable },
+                attributeValue: "1",
+              },
+            ],
+          },
+        });
+
+      call("g1");
+      call("g2", { timeoutMs: 5000 });
+      vi.setSystemTime(Date.now() + 1500);
+      // The next call sweeps g1, which outlived requestTtlMs
+      call("g3");
+      result("g1", "HeartbeatInterval");
+      result("g2", "OfflineThreshold");
+
+      await vi.waitFor(async () => {
+        expect(
+          await plugin.getVariable("CP-201", "OCPPCommCtrlr", "OfflineThreshold"),
+        ).toBe("1");
+      });
+      expect(
+        await plugin.getVariable("CP-201", "OCPPCommCtrlr", "HeartbeatInterval"),
+      ).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("setVariables diffs against the cache and batches the rest", async () => {
+    const plugin = deviceModelPlugin();
+    const sendToClient = vi.fn(async (_id, _method, params: any) => ({
+      setVariableResult: params.setVariableData.map((d: any) => ({
+        component: d.component,
+        variable: d.variable,
+        attributeStatus:
+          d.variable.name === "Broken" ? "UnknownVariable" : "Accepted",
+      })),
+    }));
+    plugin.onInit!({ sendToClient } as any);
+
+    // Seed the cache through a GetVariables result
+    const client = fakeClient();
+    plugin.onMessage!(
+      client,
+      msg("OUT", {
+        type: "outgoing_call",
+        method: "GetVariables",
+        messageId: "g1",
+        options: {},
+        params: {},
+      }),
+    );
+    plugin.onMessage!(
+      client,
+      msg("IN", {
+        type: "incoming_result",
+        method: "GetVariables",
+        messageId: "g1",
+        payload: {
+          getVariableResult: [
+            {
+              attributeStatus: "Accepted",
+              component: { name: "OCPPCommCtrlr" },
+              variable: { name: "HeartbeatInterval" },
+              attributeValue: "300",
+            },
+          ],
+        },
+      }),
+    );
+    await vi.waitFor(async () => {
+      expect(
+        await plugin.getVariable("CP-201", "OCPPCommCtrlr", "HeartbeatInterval"),
+      ).toBe("300");
+    });
+
+    const outcomes = await plugin.setVariables(
+      "CP-201",
+      [
+        { component: "OCPPCommCtrlr", variable: "HeartbeatInterval", value: "300" },
+        { component: "SampledDataCtrlr", variable: "TxUpdatedInterval", value: "60" },
+        { component: "SampledDataCtrlr", variable: "TxEndedInterval", value: "60" },
+        { component: "SampledDataCtrlr", variable: "Broken", value: "1" },
+      ],
+      { batchSize: 2 },
+    );
+
+    expect(outcomes.map((o) => o.status)).toEqual([
+      "Unchanged",
+      "Accepted",
+      "Accepted",
+      "UnknownVariable",
+    ]);
+    expect(sendToClient).toHaveBeenCalledTimes(2);
+    expect(
+      await plugin.getVariable("CP-201", "SampledDataCtrlr", "TxUpdatedInterval"),
+    ).toBe("60");
+    expect(
+      await plugin.getVariable("CP-201", "SampledDataCtrlr", "Broken"),
+    ).toBeUndefined();
+  });
+
+  it("reports Failed when the SetVariables call fails", async () => {
+    const plugin = deviceModelPlugin();
+    plugin.onInit!({
+      sendToClient: vi.fn().mockRejectedValue(new Error("offline")),
+    } as any);
+
+    const [outcome] = await plugin.setVariables("CP-201", [
+      { component: "OCPPCommCtrlr", variable: "HeartbeatInterval", value: "1" },
+    ]);
+    expect(outcome).toMatchObject({ status: "Failed", error: "offline" });
+  });
+});
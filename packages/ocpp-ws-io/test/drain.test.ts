@@ -0,0 +1,129 @@
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { InMemoryAdapter } from "../src/adapters/adapter.js";
+import { OCPPClient } from "../src/client.js";
+import { OCPPServer } from "../src/server.js";
+import type { OCPPPlugin } from "../src/types.js";
+
+describe("server.drain()", () => {
+  let server: OCPPServer;
+  const clients: OCPPClient[] = [];
+
+  afterEach(async () => {
+    for (const c of clients.splice(0)) {
+      await c.close({ force: true }).catch(() => {});
+    }
+    await server?.close({ force: true }).catch(() => {});
+  });
+
+  async function connect(port: number, identity: string) {
+    const client = new OCPPClient({
+      identity,
+      endpoint: `ws://127.0.0.1:${port}`,
+      reconnect: false,
+    });
+    clients.push(client);
+    await client.connect();
+    const closed = new Promise<{ code: number; reason: string }>((resolve) =>
+      client.once("close", resolve),
+    );
+    return { client, closed };
+  }
+
+  test("refuses upgrades and disconnects stations with 1012", async () => {
+    server = new OCPPServer({});
+    const plugin = {
+      name: "drain-observer",
+      onClosing: vi.fn(),
+      onDrainProgress: vi.fn(),
+    } satisfies OCPPPlugin;
+    server.plugin(plugin);
+    const http = await server.listen(0);
+    const port = (http.address() as AddressInfo).port;
+
+    const a = await connect(port, "CP-1");
+    const b = await connect(port, "CP-2");
+    const progress = vi.fn();
+    server.on("draining", progress);
+
+    const drained = server.drain({ rate: 1 });
+    expect(server.state).toBe("DRAINING");
+    expect(server.drain()).toBe(drained);
+
+    const late = new OCPPClient({
+      identity: "CP-3",
+      endpoint: `ws://127.0.0.1:${port}`,
+      reconnect: false,
+    });
+    clients.push(late);
+    await expect(late.connect()).rejects.toMatchObject({ statusCode: 503 });
+
+    const report = await drained;
+    expect(report).toMatchObject({ total: 2, closed: 2, remaining: 0 });
+    expect(await a.closed).toEqual({ code: 1012, reason: "Server draining" });
+    expect((await b.closed).code).toBe(1012);
+    expect(progress).toHaveBeenCalledWith(
+      expect.objectContaining({ total: 2, closed: 0 }),
+    );
+    expect(progress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ closed: 2 }),
+    );
+    expect(plugin.onDrainProgress).toHaveBeenCalled();
+
+    await server.close();
+    expect(server.state).toBe("CLOSED");
+    // onClosing runs once, for the drain
+    expect(plugin.onClosing).toHaveBeenCalledTimes(1);
+    expect(plugin.onClosing).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: "drain" }),
+    );
+  });
+
+  test("lets in-flight calls finish before disconnecting", async () => {
+    server = new OCPPServer({});
+    const http = await server.listen(0);
+    const port = (http.address() as AddressInfo).port;
+
+    const { client, closed } = await connect(port, "CP-SLOW");
+    client.handle("Reset", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      return { status: "Accepted" };
+    });
+
+    const reset = server.sendToClient("CP-SLOW", "Reset", { type: "Soft" });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await server.drain();
+
+    await expect(reset).resolves.toEqual({ status: "Accepted" });
+    expect((await closed).code).toBe(1012);
+  });
+
+  test("hands the presence entry over instead of deleting it later", async () => {
+    const adapter = new InMemoryAdapter();
+    server = new OCPPServer({});
+    await server.setAdapter(adapter);
+    const http = await server.listen(0);
+    const port = (http.address() as AddressInfo).port;
+
+    const { client } = await connect(port, "CP-MOVE");
+    await vi.waitFor(async () =>
+      expect(await adapter.getPresence("CP-MOVE")).toBe(server.nodeId),
+    );
+
+    const removePresence = vi.spyOn(adapter, "removePresence");
+    // The station is back on another node as soon as it is disconnected
+    client.once("close", () => {
+      adapter.setPresence("CP-MOVE", "node-b", 60);
+    });
+    await server.drain();
+
+    expect(removePresence).toHaveBeenCalledTimes(1);
+    expect(await adapter.getPresence("CP-MOVE")).toBe("node-b");
+  });
+
+  test("is rejected once the server is closing", async () => {
+    server = new OCPPServer({});
+    await server.close();
+    await expect(server.drain()).rejects.toThrow(/Cannot drain/);
+  });
+});
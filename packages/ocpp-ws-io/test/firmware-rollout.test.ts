@@ -0,0 +1,214 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { firmwareRolloutPlugin } from "../src/plugins/firmware-rollout.js";
+import {
+  callIn,
+  connectStation,
+  fakeServer,
+  fakeStation,
+} from "./helpers/plugins.js";
+
+const status = (s: string, requestId?: number) =>
+  callIn("FirmwareStatusNotification", { status: s, requestId });
+const boot16 = (firmwareVersion: string) =>
+  callIn("BootNotification", {
+    chargePointVendor: "V",
+    chargePointModel: "M",
+    firmwareVersion,
+  });
+
+const firmware = { location: "https://fw/v2.bin", version: "2.0" };
+
+describe("firmwareRolloutPlugin", () => {
+  afterEach(() => vi.useRealTimers());
+
+  it("follows status notifications and verifies the version on boot", async () => {
+    const cp = fakeStation();
+    const plugin = firmwareRolloutPlugin();
+    plugin.onInit!(fakeServer(cp.client));
+    const statuses: string[] = [];
+    plugin.on("targetUpdated", ({ target }) => statuses.push(target.status));
+
+    const rollout = await plugin.start({ firmware, identities: ["CP-1"] });
+    expect(cp.call).toHaveBeenCalledWith(
+      "UpdateFirmware",
+      { location: firmware.location, retrieveDate: expect.any(String) },
+      undefined,
+    );
+
+    for (const s of ["Downloading", "Downloaded", "Installing", "Installed"]) {
+      plugin.onMessage!(cp.client, status(s));
+    }
+    plugin.onMessage!(cp.client, boot16("2.0"));
+
+    const report = await plugin.wait(rollout.id);
+    expect(statuses).toEqual([
+      "requested",
+      "downloading",
+      "downloaded",
+      "installing",
+      "installed",
+      "verified",
+    ]);
+    expect(report).toMatchObject({
+      status: "completed",
+      verified: 1,
+      targets: { "CP-1": { firmwareVersion: "2.0" } },
+    });
+  });
+
+  it("sends the signed 2.x request and matches the requestId", async () => {
+    const cp = fakeStation({ identity: "CP-2", protocol: "ocpp2.0.1" });
+    const plugin = firmwareRolloutPlugin();
+    plugin.onInit!(fakeServer(cp.client));
+
+    const rollout = await plugin.start({
+      firmware: {
+        ...firmware,
+        retrieveDate: "2026-01-01T00:00:00Z",
+        signingCertificate: "PEM",
+        signature: "SIG",
+      },
+      identities: ["CP-2"],
+    });
+    const { requestId } = rollout.targets["CP-2"];
+    expect(cp.call.mock.calls[0][1]).toEqual({
+      requestId,
+      firmware: {
+        location: firmware.location,
+        retrieveDateTime: "2026-01-01T00:00:00Z",
+        signingCertificate: "PEM",
+        signature: "SIG",
+      },
+    });
+
+    // Some other update's notification
+    plugin.onMessage!(
+      cp.client,
+      status("InvalidSignature", requestId! + 100),
+    );
+    expect(plugin.get(rollout.id)!.targets["CP-2"].status).toBe("requested");
+
+    plugin.onMessage!(cp.client, status("InvalidSignature", requestId));
+    expect(await plugin.wait(rollout.id)).toMatchObject({
+      failed: 1,
+      targets: { "CP-2": { status: "failed", reason: "InvalidSignature" } },
+    });
+  });
+
+  it("rolls out in waves and halts on the failure threshold", async () => {
+    const stations = ["A", "B", "C", "D", "E"].map((identity) =>
+      fakeStation({ identity }),
+    );
+    const plugin = firmwareRolloutPlugin();
+    plugin.onInit!(fakeServer(...stations.map((s) => s.client)));
+    const waves: string[][] = [];
+    plugin.on("waveStarted", ({ identities }) => waves.push(identities));
+
+    const rollout = await plugin.start({
+      firmware,
+      identities: ["A", "B", "C", "D", "E"],
+      waves: [1, 2],
+      maxFailureRate: 0.4,
+    });
+    expect(waves).toEqual([["A"]]);
+
+    plugin.onMessage!(stations[0].client, boot16("2.0"));
+    expect(waves).toEqual([["A"], ["B", "C"]]);
+    await vi.waitFor(() => expect(stations[2].call).toHaveBeenCalled());
+
+    plugin.onMessage!(stations[1].client, status("Installing"));
+    plugin.onMessage!(stations[1].client, boot16("1.9"));
+    const report = await plugin.wait(rollout.id);
+    expect(report).toMatchObject({
+      status: "halted",
+      verified: 1,
+      failed: 1,
+      inProgress: 1,
+      pending: 2,
+      targets: { B: { reason: "VersionMismatch" } },
+    });
+    expect(waves).toHaveLength(2);
+    expect(stations[3].call).not.toHaveBeenCalled();
+  });
+
+  it("times out stuck stations and skips offline ones", async () => {
+    vi.useFakeTimers();
+    const cp = fakeStation();
+    const plugin = firmwareRolloutPlugin();
+    plugin.onInit!(fakeServer(cp.client));
+
+    const rollout = await plugin.start({
+      firmware,
+      identities: ["CP-1", "OFFLINE"],
+      stuckTimeoutMs: 60_000,
+    });
+    plugin.onMessage!(cp.client, status("Downloading"));
+    vi.advanceTimersByTime(59_000);
+    plugin.onMessage!(cp.client, status("Downloaded"));
+    vi.advanceTimersByTime(59_000);
+    expect(plugin.get(rollout.id)!.targets["CP-1"].status).toBe("downloaded");
+
+    vi.advanceTimersByTime(1_000);
+    expect(await plugin.wait(rollout.id)).toMatchObject({
+      status: "completed",
+      targets: {
+        "CP-1": { status: "failed", reason: "Timeout" },
+        OFFLINE: { status: "skipped", reason: "NotConnected" },
+      },
+    });
+  });
+
+  it("refuses stations already updating", async () => {
+    const plugin = firmwareRolloutPlugin();
+    plugin.onInit!(fakeServer(fakeStation().client));
+    await plugin.start({ firmware, identities: ["CP-1"] });
+    await expect(
+      plugin.start({ firmware, identities: ["CP-1"] }),
+    ).rejects.toThrow("already updating");
+  });
+});
+
+describe("firmwareRolloutPlugin — through a server", () => {
+  let pair: Awaited<ReturnType<typeof connectStation>> | undefined;
+
+  afterEach(async () => {
+    await pair?.close();
+    pair = undefined;
+  });
+
+  it("updates a 1.6 station and verifies it on boot", async () => {
+    const plugin = firmwareRolloutPlugin();
+    const updateFirmware = vi.fn(() => ({}));
+    pair = await connectStation([plugin], {
+      handlers: { UpdateFirmware: updateFirmware },
+    });
+    pair.serverClient.handle("FirmwareStatusNotification", () => ({}));
+    pair.serverClient.handle("BootNotification", () => ({
+      status: "Accepted",
+      currentTime: new Date().toISOString(),
+      interval: 300,
+    }));
+
+    const rollout = await plugin.start({ firmware, identities: ["CP-1"] });
+    expect(updateFirmware).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: { location: firmware.location, retrieveDate: expect.any(String) },
+      }),
+    );
+
+    for (const s of ["Downloading", "Downloaded", "Installing", "Installed"]) {
+      await pair.client.call("FirmwareStatusNotification", { status: s });
+    }
+    await pair.client.call("BootNotification", {
+      chargePointVendor: "V",
+      chargePointModel: "M",
+      firmwareVersion: "2.0",
+    });
+
+    expect(await plugin.wait(rollout.id)).toMatchObject({
+      status: "completed",
+      verified: 1,
+      targets: { "CP-1": { status: "verified", firmwareVersion: "2.0" } },
+    });
+  });
+});
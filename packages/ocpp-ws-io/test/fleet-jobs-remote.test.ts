@@ -0,0 +1,55 @@
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, test } from "vitest";
+import { InMemoryAdapter } from "../src/adapters/adapter.js";
+import { OCPPClient } from "../src/client.js";
+import { FleetJobManager } from "../src/fleet-jobs.js";
+import { OCPPServer } from "../src/server.js";
+
+describe("FleetJobManager across nodes", () => {
+  let serverA: OCPPServer;
+  let serverB: OCPPServer;
+  let client: OCPPClient;
+  let manager: FleetJobManager;
+
+  afterEach(async () => {
+    manager?.close();
+    await client?.close({ force: true }).catch(() => {});
+    await serverA?.close({ force: true }).catch(() => {});
+    await serverB?.close({ force: true }).catch(() => {});
+  });
+
+  test("retries a station that timed out on another node", async () => {
+    const adapter = new InMemoryAdapter();
+    serverA = new OCPPServer({});
+    serverB = new OCPPServer({});
+    await serverA.setAdapter(adapter);
+    await serverB.setAdapter(adapter);
+    const http = await serverA.listen(0);
+
+    client = new OCPPClient({
+      identity: "CP-REMOTE",
+      endpoint: `ws://127.0.0.1:${(http.address() as AddressInfo).port}`,
+      reconnect: false,
+    });
+    let calls = 0;
+    client.handle("Reset", () =>
+      ++calls === 1 ? new Promise(() => {}) : { status: "Accepted" },
+    );
+    await client.connect();
+
+    manager = new FleetJobManager(serverB);
+    const job = await manager.submit({
+      method: "Reset",
+      params: { type: "Soft" },
+      identities: ["CP-REMOTE"],
+      callOptions: { timeoutMs: 200 },
+    });
+    const report = await manager.wait(job.id);
+
+    expect(report.targets["CP-REMOTE"]).toMatchObject({
+      status: "accepted",
+      attempts: 2,
+      nodeId: serverA.nodeId,
+    });
+  });
+});
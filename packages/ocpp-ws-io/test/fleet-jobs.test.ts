@@ -0,0 +1,201 @@
+import { EventEmitter } from "node:events";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import {
+  type FleetJobHost,
+  FleetJobManager,
+  InMemoryFleetJobStore,
+} from "../src/fleet-jobs.js";
+import type { BroadcastOutcome, BroadcastResultEntry } from "../src/types.js";
+
+/** Fake server: `online` stations answer with `answer(identity)`. */
+function createHost(answer: (identity: string) => BroadcastResultEntry) {
+  const emitter = new EventEmitter();
+  const online = new Set<string>();
+  const calls: string[][] = [];
+  const host = Object.assign(emitter, {
+    broadcastBatchWithReport: vi.fn(async (identities: string[]) => {
+      calls.push(identities);
+      const results = identities.map((identity) =>
+        online.has(identity)
+          ? answer(identity)
+          : {
+              identity,
+              status: "not-connected" as BroadcastOutcome,
+              durationMs: 0,
+            },
+      );
+      return { method: "", results, summary: {} as any, durationMs: 0 };
+    }),
+  });
+  return { host: host as unknown as FleetJobHost, emitter, online, calls };
+}
+
+const accepted = (identity: string): BroadcastResultEntry => ({
+  identity,
+  status: "accepted",
+  nodeId: "node-1",
+  result: { status: "Accepted" },
+  durationMs: 1,
+});
+
+describe("FleetJobManager", () => {
+  let manager: FleetJobManager;
+
+  afterEach(() => manager?.close());
+
+  test("dispatches in chunks of `concurrency` and reports", async () => {
+    const { host, online, calls } = createHost(accepted);
+    for (const id of ["CP-1", "CP-2", "CP-3"]) online.add(id);
+    manager = new FleetJobManager(host);
+
+    const progress: number[] = [];
+    manager.on("progress", (p) => progress.push(p.accepted));
+
+    const job = await manager.submit({
+      method: "UpdateFirmware",
+      params: { location: "https://fw" },
+      identities: ["CP-1", "CP-2", "CP-3"],
+      concurrency: 2,
+    });
+    const report = await manager.wait(job.id);
+
+    expect(calls).toEqual([["CP-1", "CP-2"], ["CP-3"]]);
+    expect(progress).toEqual([2, 3]);
+    expect(report).toMatchObject({
+      status: "completed",
+      total: 3,
+      accepted: 3,
+      failed: 0,
+    });
+  });
+
+  test("retries offline stations when they connect", async () => {
+    const { host, emitter, online } = createHost(accepted);
+    online.add("CP-1");
+    manager = new FleetJobManager(host);
+
+    const job = await manager.submit({
+      method: "Reset",
+      params: { type: "Soft" },
+      identities: ["CP-1", "CP-2"],
+    });
+    await vi.waitFor(async () => {
+      expect((await manager.get(job.id))?.targets["CP-2"].status).toBe(
+        "offline",
+      );
+    });
+
+    online.add("CP-2");
+    emitter.emit("client", { identity: "CP-2" });
+
+    const report = await manager.wait(job.id);
+    expect(report.accepted).toBe(2);
+  });
+
+  test("aborts when the failure rate is exceeded", async () => {
+    const { host, online } = createHost((identity) => ({
+      identity,
+      status: "accepted",
+      result: { status: "Rejected" },
+      durationMs: 1,
+    }));
+    const identities = Array.from({ length: 20 }, (_, i) => `CP-${i}`);
+    for (const id of identities) online.add(id);
+    manager = new FleetJobManager(host);
+
+    const job = await manager.submit({
+      method: "ChangeConfiguration",
+      params: { key: "HeartbeatInterval", value: "300" },
+      identities,
+      concurrency: 5,
+      maxFailureRate: 0.1,
+      minSamples: 5,
+    });
+    const report = await manager.wait(job.id);
+
+    expect(report.status).toBe("aborted");
+    expect(report.failed).toBe(5);
+    expect(report.pending).toBe(15);
+  });
+
+  test("timeouts are retried up to maxAttempts", async () => {
+    const { host, online } = createHost((identity) => ({
+      identity,
+      status: "timeout",
+      nodeId: "node-1",
+      durationMs: 1,
+    }));
+    online.add("CP-1");
+    manager = new FleetJobManager(host);
+
+    const job = await manager.submit({
+      method: "Reset",
+      params: { type: "Soft" },
+      identities: ["CP-1"],
+      maxAttempts: 2,
+    });
+    const report = await manager.wait(job.id);
+
+    expect(report.targets["CP-1"]).toMatchObject({
+      status: "failed",
+      attempts: 2,
+    });
+  });
+
+  test("close() rejects pending wait() calls", async () => {
+    const { host } = createHost(accepted);
+    manager = new FleetJobManager(host);
+    const job = await manager.submit({
+      method: "Reset",
+      params: { type: "Soft" },
+      identities: ["CP-1"],
+    });
+
+    const waiting = manager.wait(job.id);
+    manager.close();
+    await expect(waiting).rejects.toThrow(/closed before job/);
+  });
+
+  test("resume() continues running jobs from the store", async () => {
+    const store = new InMemoryFleetJobStore();
+    const first = createHost(accepted);
+    manager = new FleetJobManager(first.host, { store });
+    const job = await manager.submit({
+      method: "Reset",
+      params: { type: "Soft" },
+      identities: ["CP-1"],
+    });
+    await vi.waitFor(async () => {
+      expect((await store.get(job.id))?.targets["CP-1"].status).toBe(
+        "offline",
+      );
+    });
+    manager.close();
+
+    // "Restart": a new manager on a fresh host where the station is online
+    const second = createHost(accepted);
+    second.online.add("CP-1");
+    manager = new FleetJobManager(second.host, { store });
+    expect(await manager.resume()).toBe(1);
+
+    const report = await manager.wait(job.id);
+    expect(report.status).toBe("completed");
+    expect(report.accepted).toBe(1);
+  });
+
+  test("expires stations still offline after offlineTimeoutMs", async () => {
+    const { host } = createHost(accepted);
+    manager = new FleetJobManager(host, { retryIntervalMs: 20 });
+
+    const job = await manager.submit({
+      method: "Reset",
+      params: { type: "Soft" },
+      identities: ["CP-1"],
+      offlineTimeoutMs: 50,
+    });
+    const report = await manager.wait(job.id);
+
+    expect(report.status).toBe("completed");
+    expect(report.expired).toBe(1);
+  });
+});
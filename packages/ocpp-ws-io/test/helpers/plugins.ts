@@ -0,0 +1,194 @@
+import { EventEmitter } from "node:events";
+import type { Server } from "node:http";
+import { vi } from "vitest";
+import { OCPPClient } from "../../src/client.js";
+import { OCPPServer } from "../../src/server.js";
+import type { OCPPServerClient } from "../../src/server-client.js";
+import {
+  type ClientOptions,
+  ConnectionState,
+  type MessageEventPayload,
+  type OCPPPlugin,
+  type ServerOptions,
+} from "../../src/types.js";
+
+// ─── Fakes ────────────────────────────────────────────────────────
+
+export interface FakeStationOptions {
+  identity?: string;
+  protocol?: string;
+  /** Answers the server's `call()`s. Defaults to `{ status: "Accepted" }`. */
+  answer?: (method: string, params: any) => unknown;
+  handshake?: Record<string, unknown>;
+}
+
+/**
+ * A server-side client: `call()` goes through `answer`, and handlers
+ * registered with `handle()` land in `handlers`.
+ */
+export function fakeStation(options: FakeStationOptions = {}) {
+  const { answer = () => ({ status: "Accepted" }) } = options;
+  const handlers = new Map<string, (ctx: any) => any>();
+  const call = vi.fn(async (method: string, params: any, _opts?: unknown) =>
+    answer(method, params),
+  );
+  const client = {
+    identity: options.identity ?? "CP-1",
+    protocol: options.protocol ?? "ocpp1.6",
+    state: ConnectionState.OPEN as ConnectionState,
+    handshake: { remoteAddress: "10.0.0.7", ...options.handshake },
+    call,
+    hasHandler: vi.fn((method: string) => handlers.has(method)),
+    handle: vi.fn((method: string, handler: (ctx: any) => any) => {
+      handlers.set(method, handler);
+    }),
+  } as any;
+  return { client, handlers, call };
+}
+
+export type FakeStation = ReturnType<typeof fakeStation>;
+
+/** The bits of `OCPPServer` the plugins use, over a plain client set. */
+export function fakeServer(...clients: any[]) {
+  const srv = new EventEmitter() as any;
+  srv.clients = new Set(clients);
+  srv.getLocalClient = (identity: string) =>
+    [...srv.clients].find((c: any) => c.identity === identity);
+  srv.emitSecurityEvent = vi.fn((evt: any) => srv.emit("securityEvent", evt));
+  /** The station drops and comes back on this server. */
+  srv.reconnect = (next: any) => {
+    for (const c of srv.clients) {
+      if (c.identity !== next.identity) continue;
+      c.state = ConnectionState.CLOSED;
+      srv.clients.delete(c);
+    }
+    srv.clients.add(next);
+    srv.emit("client", next);
+  };
+  vi.spyOn(srv, "emit");
+  return srv;
+}
+
+// ─── Messages ─────────────────────────────────────────────────────
+
+let seq = 0;
+
+export function callIn(method: string, params: unknown): MessageEventPayload {
+  return {
+    message: [] as any,
+    direction: "IN",
+    ctx: {
+      type: "incoming_call",
+      messageId: `m${++seq}`,
+      method,
+      params,
+      protocol: "",
+    } as any,
+  };
+}
+
+export function resultOut(
+  call: MessageEventPayload,
+  payload: unknown,
+): MessageEventPayload {
+  return {
+    message: [] as any,
+    direction: "OUT",
+    ctx: {
+      type: "outgoing_result",
+      messageId: (call.ctx as any).messageId,
+      method: (call.ctx as any).method,
+      payload,
+    } as any,
+  };
+}
+
+/** Run a call through `onMessage` and the registered handler, like the server. */
+export async function exchange(
+  plugins: OCPPPlugin | OCPPPlugin[],
+  station: FakeStation,
+  method: string,
+  params: unknown,
+) {
+  const list = Array.isArray(plugins) ? plugins : [plugins];
+  const call = callIn(method, params);
+  for (const plugin of list) plugin.onMessage?.(station.client, call);
+  const payload = await station.handlers.get(method)?.({ params });
+  const result = resultOut(call, payload);
+  for (const plugin of list) plugin.onMessage?.(station.client, result);
+  return payload;
+}
+
+// ─── Real server ──────────────────────────────────────────────────
+
+export interface StationPairOptions {
+  identity?: string;
+  protocol?: string;
+  serverOptions?: Partial<ServerOptions>;
+  clientOptions?: Partial<ClientOptions>;
+  /** Station-side handlers, registered before it connects. */
+  handlers?: Record<string, (ctx: any) => any>;
+  /** Use an already listening server instead of starting one. */
+  server?: OCPPServer;
+}
+
+const getPort = (srv: Server): number => {
+  const addr = srv.address();
+  if (addr && typeof addr !== "string") return addr.port;
+  return 0;
+};
+
+const ports = new WeakMap<OCPPServer, number>();
+
+/** Start an `OCPPServer` with the plugins installed. */
+export async function startServer(
+  plugins: OCPPPlugin[],
+  serverOptions: Partial<ServerOptions> = {},
+) {
+  const server = new OCPPServer({
+    protocols: ["ocpp1.6", "ocpp2.0.1"],
+    ...serverOptions,
+  });
+  server.plugin(...plugins);
+  ports.set(server, getPort(await server.listen(0)));
+  return server;
+}
+
+/**
+ * Connect a real `OCPPClient` to a real `OCPPServer` running the plugins.
+ * Caller must `close()` in afterEach.
+ */
+export async function connectStation(
+  plugins: OCPPPlugin[],
+  options: StationPairOptions = {},
+) {
+  const protocol = options.protocol ?? "ocpp1.6";
+  const server =
+    options.server ?? (await startServer(plugins, options.serverOptions));
+  const client = new OCPPClient({
+    identity: options.identity ?? "CP-1",
+    endpoint: `ws://localhost:${ports.get(server)}`,
+    protocols: [protocol],
+    reconnect: false,
+    ...options.clientOptions,
+  });
+  for (const [method, handler] of Object.entries(options.handlers ?? {})) {
+    client.handle(method as any, handler);
+  }
+
+  const connected = new Promise<OCPPServerClient>((resolve) =>
+    server.once("client", (sc) => resolve(sc as OCPPServerClient)),
+  );
+  await client.connect();
+  const serverClient = await connected;
+
+  return {
+    server,
+    client,
+    serverClient,
+    close: async () => {
+      await client.close({ force: true }).catch(() => {});
+      await server.close({ force: true }).catch(() => {});
+    },
+  };
+}
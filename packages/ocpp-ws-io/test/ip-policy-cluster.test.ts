@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { InMemoryAdapter } from "../src/adapters/adapter.js";
+import { OCPPServer } from "../src/server.js";
+
+describe("IP policy across nodes", () => {
+  let serverA: OCPPServer;
+  let serverB: OCPPServer;
+
+  afterEach(async () => {
+    await serverA?.close({ force: true }).catch(() => {});
+    await serverB?.close({ force: true }).catch(() => {});
+  });
+
+  test("a node joining later receives the active bans", async () => {
+    const adapter = new InMemoryAdapter();
+    serverA = new OCPPServer({ ipPolicy: {} });
+    serverB = new OCPPServer({ ipPolicy: {} });
+    await serverA.setAdapter(adapter);
+    serverA.ipPolicy.ban("203.0.113.7", { reason: "abuse" });
+    serverA.ipPolicy.ban("2001:db8::/32");
+
+    await serverB.setAdapter(adapter);
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect(serverB.ipPolicy.isBanned("::ffff:203.0.113.7")).toMatchObject({
+      reason: "abuse",
+    });
+    expect(serverB.ipPolicy.isBanned("2001:DB8:0:0::1")).toBeDefined();
+
+    // Later changes still replicate as deltas
+    serverB.ipPolicy.unban("203.0.113.7");
+    await new Promise((r) => setTimeout(r, 20));
+    expect(serverA.ipPolicy.isBanned("203.0.113.7")).toBeUndefined();
+  });
+
+  test("a node joining later receives groups and allow/deny lists", async () => {
+    const adapter = new InMemoryAdapter();
+    serverA = new OCPPServer({
+      ipPolicy: { groups: { depot: ["10.1.0.0/16"] }, allow: ["@depot"] },
+    });
+    serverB = new OCPPServer({ ipPolicy: {} });
+    await serverA.setAdapter(adapter);
+    serverA.ipPolicy.setDeny(["10.1.9.0/24"]);
+
+    await serverB.setAdapter(adapter);
+    await new Promise((r) => setTimeout(r, 20));
+
+    expect(serverB.ipPolicy.getGroup("depot")).toEqual(["10.1.0.0/16"]);
+    expect(serverB.ipPolicy.check("10.1.2.3")).toEqual({ allowed: true });
+    expect(serverB.ipPolicy.check("10.1.9.3")).toMatchObject({
+      reason: "denied",
+    });
+    expect(serverB.ipPolicy.check("192.0.2.1")).toMatchObject({
+      reason: "not_allowed",
+    });
+  });
+
+  test("servers without an IP policy don't replicate", async () => {
+    const adapter = new InMemoryAdapter();
+    const subscribe = vi.spyOn(adapter, "subscribe");
+    const publish = vi.spyOn(adapter, "publish");
+    serverA = new OCPPServer({});
+    await serverA.setAdapter(adapter);
+    serverA.ipPolicy.ban("203.0.113.7");
+
+    const channels = [...subscribe.mock.calls, ...publish.mock.calls].map(
+      ([channel]) => channel,
+    );
+    expect(channels).not.toContain("ocpp:ip-policy");
+  });
+
+  test("malformed remote changes are ignored", async () => {
+    const adapter = new InMemoryAdapter();
+    serverA = new OCPPServer({ ipPolicy: {} });
+    await serverA.setAdapter(adapter);
+
+    await adapter.publish("ocpp:ip-policy", {
+      source: "node-x",
+      change: { type: "ban", ban: { ip: "not-an-ip" } },
+    });
+    await adapter.publish("ocpp:ip-policy", {
+      source: "node-x",
+      target: serverA.nodeId,
+      changes: [
+        { type: "ban", ban: { ip: 42 } },
+        { type: "ban", ban: { ip: "198.51.100.1" } },
+      ],
+    });
+    await adapter.publish("ocpp:ip-policy", {
+      source: "node-x",
+      target: "node-y",
+      changes: [{ type: "ban", ban: { ip: "198.51.100.2" } }],
+    });
+
+    expect(serverA.ipPolicy.bans()).toEqual([{ ip: "198.51.100.1" }]);
+  });
+});
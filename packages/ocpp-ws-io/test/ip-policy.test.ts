@@ -0,0 +1,154 @@
+import { describe, expect, it, vi } from "vitest";
+import { IPPolicy } from "../src/ip-policy.js";
+import { anomalyPlugin } from "../src/plugins/anomaly.js";
+
+describe("IPPolicy", () => {
+  it("applies bans, then the denylist, then the allowlist", () => {
+    const policy = new IPPolicy({
+      groups: { depots: ["10.20.0.0/16", "2001:db8::/32"] },
+      allow: ["@depots"],
+      deny: ["10.20.99.0/24"],
+    });
+
+    expect(policy.check("10.20.1.1")).toEqual({ allowed: true });
+    expect(policy.check("::ffff:10.20.1.1")).toEqual({ allowed: true });
+    expect(policy.check("2001:db8::7")).toEqual({ allowed: true });
+    expect(policy.check("10.20.99.4")).toEqual({
+      allowed: false,
+      reason: "denied",
+    });
+    expect(policy.check("192.0.2.1")).toEqual({
+      allowed: false,
+      reason: "not_allowed",
+    });
+
+    policy.ban("10.20.1.0/24", { reason: "compromised depot" });
+    expect(policy.check("10.20.1.1")).toMatchObject({
+      allowed: false,
+      reason: "banned",
+      ban: { ip: "10.20.1.0/24", reason: "compromised depot" },
+    });
+    expect(policy.unban("10.20.1.0/24")).toBe(true);
+    expect(policy.unban("10.20.1.0/24")).toBe(false);
+
+    // Groups are live
+    policy.setGroup("depots", ["10.30.0.0/16"]);
+    expect(policy.check("10.20.1.1").allowed).toBe(false);
+    expect(policy.check("10.30.0.1").allowed).toBe(true);
+  });
+
+  it("expires bans after their TTL", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const policy = new IPPolicy();
+      const ban = policy.ban("::ffff:203.0.113.7", { ttlMs: 60_000 });
+      expect(ban).toEqual({ ip: "203.0.113.7", expiresAt: Date.now() + 60_000 });
+      expect(policy.isBanned("203.0.113.7")).toEqual(ban);
+      vi.advanceTimersByTime(60_000);
+      expect(policy.isBanned("203.0.113.7")).toBeUndefined();
+      expect(policy.bans()).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("reports local changes and applies remote ones without echoing them", () => {
+    const a = new IPPolicy();
+    const b = new IPPolicy();
+    const seen: string[] = [];
+    a.onChange((change) => b.applyChange(change));
+    const stop = b.onChange((change, origin) =>
+      seen.push(`${change.type}:${origin}`),
+    );
+
+    a.ban("198.51.100.1");
+    a.setDeny(["198.51.100.0/24"]);
+    expect(b.isBanned("198.51.100.1")).toEqual({ ip: "198.51.100.1" });
+    expect(b.check("198.51.100.2").allowed).toBe(false);
+    expect(seen).toEqual(["ban:remote", "deny:remote"]);
+
+    stop();
+    a.unban("198.51.100.1");
+    expect(seen).toHaveLength(2);
+  });
+
+  it("matches bans however the address is written", () => {
+    const policy = new IPPolicy();
+    policy.ban("2001:DB8:0:0::7");
+    policy.ban("::ffff:c000:0201");
+    expect(policy.bans().map((b) => b.ip)).toEqual(["2001:db8::7", "192.0.2.1"]);
+
+    expect(policy.isBanned("2001:db8::7")).toBeDefined();
+    expect(policy.isBanned("2001:0db8:0000:0000:0000:0000:0000:0007")).toBeDefined();
+    expect(policy.isBanned("192.0.2.1")).toBeDefined();
+    expect(policy.isBanned("::FFFF:192.0.2.1")).toBeDefined();
+    expect(policy.isBanned("0:0:0:0:0:ffff:192.0.2.1")).toBeDefined();
+    expect(policy.isBanned("2001:db8::8")).toBeUndefined();
+
+    policy.ban("2001:db8:1::/48");
+    expect(policy.isBanned("2001:DB8:1:0::9")).toMatchObject({
+      ip: "2001:db8:1::/48",
+    });
+    expect(policy.unban("2001:0db8:0000:0000:0000:0000:0000:0007")).toBe(true);
+  });
+
+  it("rejects malformed remote changes", () => {
+    const policy = new IPPolicy();
+    const listener = vi.fn();
+    policy.onChange(listener);
+    const apply = (change: unknown) => () => policy.applyChange(change as any);
+
+    expect(apply(null)).toThrow("Invalid IP policy change");
+    expect(apply({ type: "ban", ban: { ip: 42 } })).toThrow();
+    expect(apply({ type: "ban", ban: { ip: "nope" } })).toThrow();
+    expect(
+      apply({ type: "ban", ban: { ip: "10.0.0.1", expiresAt: "soon" } }),
+    ).toThrow();
+    expect(apply({ type: "deny", entries: "10.0.0.0/8" })).toThrow();
+    expect(apply({ type: "allow", entries: ["10.0.0.0/99"] })).toThrow();
+    expect(apply({ type: "group", name: "x", entries: [1] })).toThrow();
+    expect(apply({ type: "reset" })).toThrow();
+    expect(listener).not.toHaveBeenCalled();
+
+    policy.applyChange({
+      type: "ban",
+      ban: { ip: "::ffff:10.0.0.1", reason: "remote" },
+      extra: true,
+    } as any);
+    expect(policy.bans()).toEqual([{ ip: "10.0.0.1", reason: "remote" }]);
+  });
+
+  it("rejects malformed entries", () => {
+    const policy = new IPPolicy();
+    expect(() => policy.ban("unknown")).toThrow("Invalid IP address");
+    expect(() => policy.ban("10.0.0.0/33")).toThrow("Invalid IP address");
+    expect(() => policy.setGroup("x", ["10.0.0.0/8", "nope"])).toThrow(
+      "Invalid IP address",
+    );
+    expect(() => policy.setAllow(["@x", "10.0.0.0/8"])).not.toThrow();
+  });
+});
+
+describe("anomalyPlugin autoBanMs", () => {
+  it("bans an IP after ANOMALY_AUTH_BRUTE_FORCE", () => {
+    const ipPolicy = new IPPolicy();
+    const server = { emit: vi.fn(), ipPolicy } as any;
+    const plugin = anomalyPlugin({ authFailureThreshold: 2, autoBanMs: 60_000 });
+    plugin.onInit?.(server);
+
+    const handshake = { remoteAddress: "203.0.113.9", identity: "CP-1" } as any;
+    plugin.onAuthFailed?.(handshake, 401, "Invalid credentials");
+    plugin.onAuthFailed?.(handshake, 401, "Invalid credentials");
+    expect(ipPolicy.isBanned("203.0.113.9")).toBeUndefined();
+
+    plugin.onAuthFailed?.(handshake, 401, "Invalid credentials");
+    expect(server.emit).toHaveBeenCalledWith(
+      "securityEvent",
+      expect.objectContaining({ type: "ANOMALY_AUTH_BRUTE_FORCE" }),
+    );
+    expect(ipPolicy.isBanned("203.0.113.9")).toMatchObject({
+      reason: "ANOMALY_AUTH_BRUTE_FORCE",
+    });
+    plugin.onClose?.();
+  });
+});
@@ -0,0 +1,215 @@
+import { createHmac, generateKeyPairSync, type KeyObject, sign } from "node:crypto";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { JwtVerifier, jwtAuth } from "../src/auth/jwt.js";
+
+const b64 = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+function hs256(claims: Record<string, unknown>, secret: string) {
+  const data = `${b64({ alg: "HS256", typ: "JWT" })}.${b64(claims)}`;
+  const sig = createHmac("sha256", secret).update(data).digest("base64url");
+  return `${data}.${sig}`;
+}
+
+function signed(
+  alg: "RS256" | "ES256",
+  claims: Record<string, unknown>,
+  key: KeyObject,
+  kid?: string,
+) {
+  const data = `${b64({ alg, typ: "JWT", ...(kid && { kid }) })}.${b64(claims)}`;
+  const sig = sign(
+    "sha256",
+    Buffer.from(data),
+    alg === "ES256" ? { key, dsaEncoding: "ieee-p1363" } : key,
+  );
+  return `${data}.${sig.toString("base64url")}`;
+}
+
+const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe("JwtVerifier", () => {
+  it("verifies HS256 tokens and checks time, issuer and audience", async () => {
+    const verifier = new JwtVerifier({
+      secret: "s3cret",
+      issuer: "gateway",
+      audience: "csms",
+    });
+    const claims = { sub: "CP-1", iss: "gateway", aud: ["csms"], exp: inAnHour() };
+
+    await expect(verifier.verify(hs256(claims, "s3cret"))).resolves.toMatchObject(
+      { sub: "CP-1" },
+    );
+    await expect(verifier.verify(hs256(claims, "other"))).rejects.toThrow(
+      "Invalid signature",
+    );
+    await expect(
+      verifier.verify(hs256({ ...claims, exp: 1 }, "s3cret")),
+    ).rejects.toThrow("Token expired");
+    await expect(
+      verifier.verify(hs256({ ...claims, nbf: inAnHour() }, "s3cret")),
+    ).rejects.toThrow("Token not yet valid");
+    await expect(
+      verifier.verify(hs256({ ...claims, iss: "elsewhere" }, "s3cret")),
+    ).rejects.toThrow("Unexpected issuer");
+    await expect(
+      verifier.verify(hs256({ ...claims, aud: "billing" }, "s3cret")),
+    ).rejects.toThrow("Unexpected audience");
+    await expect(verifier.verify("not.a-token")).rejects.toThrow(
+      "Malformed token",
+    );
+
+    const unsigned = `${b64({ alg: "none" })}.${b64(claims)}.`;
+    await expect(verifier.verify(unsigned)).rejects.toThrow(
+      "Algorithm none not allowed",
+    );
+  });
+
+  it("verifies RS256 / ES256 tokens and refuses algorithm confusion", async () => {
+    const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    const ec = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+    const rsaPem = rsa.publicKey.export({ type: "spki", format: "pem" }) as string;
+    const verifier = new JwtVerifier({ publicKey: [rsaPem, ec.publicKey] });
+    const claims = { sub: "CP-1", exp: inAnHour() };
+
+    await expect(
+      verifier.verify(signed("RS256", claims, rsa.privateKey)),
+    ).resolves.toMatchObject(claims);
+    await expect(
+      verifier.verify(signed("ES256", claims, ec.privateKey)),
+    ).resolves.toMatchObject(claims);
+
+    // HS256 signed with the public key as the "secret" must not pass
+    await expect(verifier.verify(hs256(claims, rsaPem))).rejects.toThrow(
+      "Algorithm HS256 not allowed",
+    );
+    const loose = new JwtVerifier({
+      publicKey: rsaPem,
+      algorithms: ["HS256", "RS256"],
+    });
+    await expect(loose.verify(hs256(claims, rsaPem))).rejects.toThrow(
+      "No key for token",
+    );
+  });
+
+  it("loads JWKS from a file or loader and reloads for unknown kids", async () => {
+    const first = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+    const second = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+    const jwk = (key: KeyObject, kid: string) => ({
+      ...key.export({ format: "jwk" }),
+      kid,
+      alg: "ES256",
+      use: "sig",
+    });
+    const claims = { sub: "CP-1" };
+
+    const dir = mkdtempSync(join(tmpdir(), "jwks-"));
+    const file = join(dir, "jwks.json");
+    writeFileSync(file, JSON.stringify({ keys: [jwk(first.publicKey, "k1")] }));
+    const fromFile = new JwtVerifier({ jwks: file });
+    await expect(
+      fromFile.verify(signed("ES256", claims, first.privateKey, "k1")),
+    ).resolves.toMatchObject(claims);
+    // A kid only verifies with that key
+    await expect(
+      fromFile.verify(signed("ES256", claims, second.privateKey, "k1")),
+    ).rejects.toThrow("Invalid signature");
+
+    let keys = [jwk(first.publicKey, "k1")];
+    const loader = vi.fn(() => ({ keys }));
+    const rotating = new JwtVerifier({ jwks: loader, jwksCacheMs: 0 });
+    await rotating.verify(signed("ES256", claims, first.privateKey, "k1"));
+    keys = [jwk(first.publicKey, "k1"), jwk(second.publicKey, "k2")];
+    await expect(
+      rotating.verify(signed("ES256", claims, second.privateKey, "k2")),
+    ).resolves.toMatchObject(claims);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("jwtAuth", () => {
+  const attempt = async (
+    auth: ReturnType<typeof jwtAuth>,
+    handshake: {
+      identity: string;
+      headers?: Record<string, string>;
+      query?: string;
+    },
+  ) => {
+    const ctx = {
+      handshake: {
+        identity: handshake.identity,
+        headers: handshake.headers ?? {},
+        query: new URLSearchParams(handshake.query),
+      },
+      accept: vi.fn(),
+      reject: vi.fn((code: number) => {
+        throw code;
+      }),
+    } as any;
+    try {
+      await auth(ctx);
+    } catch (code) {
+      return code;
+    }
+    return ctx.accept.mock.calls.length ? ctx.accept.mock.calls[0][0] : "none";
+  };
+
+  it("accepts tokens for the station identity and maps claims to the session", async () => {
+    const auth = jwtAuth({
+      secret: "s3cret",
+      session: (claims) => ({ tenant: claims.tenant }),
+    });
+    const token = hs256({ sub: "CP-1", tenant: "acme" }, "s3cret");
+
+    expect(
+      await attempt(auth, {
+        identity: "CP-1",
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    ).toEqual({ session: { tenant: "acme" } });
+    expect(
+      await attempt(auth, { identity: "CP-1", query: `access_token=${token}` }),
+    ).toEqual({ session: { tenant: "acme" } });
+    expect(
+      await attempt(auth, {
+        identity: "CP-2",
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    ).toBe(403);
+    expect(
+      await attempt(auth, {
+        identity: "CP-1",
+        headers: { authorization: "Bearer garbage" },
+      }),
+    ).toBe(401);
+    expect(await attempt(auth, { identity: "CP-1" })).toBe(401);
+  });
+
+  it("reads custom headers and defers when optional", async () => {
+    const token = hs256({ station: "CP-1" }, "s3cret");
+    const auth = jwtAuth({
+      secret: "s3cret",
+      header: "X-Gateway-Token",
+      queryParam: false,
+      identityClaim: "station",
+    });
+    expect(
+      await attempt(auth, {
+        identity: "CP-1",
+        headers: { "x-gateway-token": token },
+      }),
+    ).toEqual({ session: { claims: { station: "CP-1" } } });
+
+    const optional = jwtAuth({ secret: "s3cret", optional: true });
+    expect(
+      await attempt(optional, {
+        identity: "CP-1",
+        headers: { authorization: "Basic Q1AtMTpwdw==" },
+      }),
+    ).toBe("none");
+  });
+});
@@ -0,0 +1,368 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  InMemoryLocalListStore,
+  localListPlugin,
+} from "../src/plugins/local-list.js";
+import {
+  connectStation,
+  fakeServer,
+  fakeStation,
+} from "./helpers/plugins.js";
+
+/**
+ * Fake station keeping its own list. Like a compliant station, it answers
+ * `VersionMismatch` to a Differential update that doesn't raise its
+ * version. `answer` may override the SendLocalList status.
+ */
+function listStation(
+  protocol = "ocpp1.6",
+  identity = "CP-1",
+  answer?: (request: any) => string | undefined,
+) {
+  const state = { version: 0, list: new Map<string, any>() };
+  const sent: any[] = [];
+  const station = fakeStation({
+    identity,
+    protocol,
+    answer: (method, params) => {
+      if (method === "GetLocalListVersion") {
+        return protocol === "ocpp1.6"
+          ? { listVersion: state.version }
+          : { versionNumber: state.version };
+      }
+      if (method === "SendLocalList") {
+        sent.push(params);
+        const forced = answer?.(params);
+        if (forced) return { status: forced };
+        const version = params.listVersion ?? params.versionNumber;
+        if (params.updateType === "Differential" && version <= state.version) {
+          return { status: "VersionMismatch" };
+        }
+        if (params.updateType === "Full") state.list.clear();
+        for (const item of params.localAuthorizationList ?? []) {
+          const id = item.idTag ?? item.idToken.idToken;
+          const info = item.idTagInfo ?? item.idTokenInfo;
+          if (info) state.list.set(id, info);
+          else state.list.delete(id);
+        }
+        state.version = version;
+        return { status: "Accepted" };
+      }
+      throw new Error(`unexpected ${method}`);
+    },
+  });
+  return { ...station, state, sent };
+}
+
+describe("localListPlugin", () => {
+  it("sends a Full update first and Differential updates after", async () => {
+    const station = listStation();
+    const plugin = localListPlugin({ autoPush: false });
+    plugin.onInit!(fakeServer(station.client));
+
+    await plugin.update({
+      upsert: [
+        { idToken: "A", status: "Accepted" },
+        { idToken: "B", status: "NoCredit", groupIdToken: "G" },
+      ],
+    });
+    const first = await plugin.sync("CP-1");
+    expect(first).toMatchObject({
+      status: "Accepted",
+      updateType: "Full",
+      toVersion: 1,
+      items: 2,
+    });
+    // 1.6 shape; statuses 1.6 doesn't know become Invalid
+    expect(station.sent[0].localAuthorizationList).toEqual([
+      { idTag: "A", idTagInfo: { status: "Accepted" } },
+      { idTag: "B", idTagInfo: { status: "Invalid", parentIdTag: "G" } },
+    ]);
+
+    await plugin.update({
+      upsert: [{ idToken: "C", status: "Accepted" }],
+      remove: ["A"],
+    });
+    const second = await plugin.sync("CP-1");
+    expect(second).toMatchObject({
+      status: "Accepted",
+      updateType: "Differential",
+      fromVersion: 1,
+      toVersion: 2,
+    });
+    expect(station.sent[1].localAuthorizationList).toEqual([
+      { idTag: "C", idTagInfo: { status: "Accepted" } },
+      { idTag: "A" },
+    ]);
+    expect([...station.state.list.keys()].sort()).toEqual(["B", "C"]);
+
+    expect(await plugin.sync("CP-1")).toMatchObject({ status: "UpToDate" });
+    expect(station.sent).toHaveLength(2);
+  });
+
+  it("uses the 2.x idToken shape", async () => {
+    const station = listStation("ocpp2.0.1");
+    const plugin = localListPlugin({ autoPush: false });
+    plugin.onInit!(fakeServer(station.client));
+    await plugin.update({
+      upsert: [
+        {
+          idToken: "EMAID1",
+          type: "eMAID",
+          status: "Accepted",
+          expiryDate: "2027-01-01T00:00:00Z",
+          groupIdToken: "G",
+        },
+      ],
+    });
+
+    await plugin.sync("CP-1");
+    expect(station.sent[0]).toEqual({
+      versionNumber: 1,
+      updateType: "Full",
+      localAuthorizationList: [
+        {
+          idToken: { idToken: "EMAID1", type: "eMAID" },
+          idTokenInfo: {
+            status: "Accepted",
+            cacheExpiryDateTime: "2027-01-01T00:00:00Z",
+            groupIdToken: { idToken: "G", type: "Central" },
+          },
+        },
+      ],
+    });
+  });
+
+  it("falls back to a Full update on VersionMismatch", async () => {
+    let mismatch = true;
+    const station = listStation("ocpp1.6", "CP-1", (req) => {
+      if (req.updateType === "Differential" && mismatch) {
+        mismatch = false;
+        return "VersionMismatch";
+      }
+      return undefined;
+    });
+    const store = new InMemoryLocalListStore();
+    const plugin = localListPlugin({
+      store,
+      autoPush: false,
+      verifyVersion: false,
+    });
+    plugin.onInit!(fakeServer(station.client));
+
+    await plugin.update({ upsert: [{ idToken: "A", status: "Accepted" }] });
+    await plugin.sync("CP-1");
+    await plugin.update({ upsert: [{ idToken: "B", status: "Accepted" }] });
+
+    const result = await plugin.sync("CP-1");
+    expect(result).toMatchObject({
+      status: "Accepted",
+      updateType: "Full",
+      fellBackToFull: true,
+      items: 2,
+    });
+    expect(await store.getStationVersion("CP-1")).toBe(2);
+  });
+
+  it("catches a reconnecting station up on connect", async () => {
+    const station = listStation();
+    const server = fakeServer();
+    const onSync = vi.fn();
+    const plugin = localListPlugin({ onSync });
+    plugin.onInit!(server);
+
+    await plugin.update({ upsert: [{ idToken: "A", status: "Accepted" }] });
+    server.clients.add(station.client);
+    plugin.onConnection!(station.client);
+    await vi.waitFor(() => expect(onSync).toHaveBeenCalledTimes(1));
+
+    // Offline for a while — the list moves on without it
+    server.clients.clear();
+    await plugin.update({ upsert: [{ idToken: "B", status: "Blocked" }] });
+    await plugin.update({ remove: ["A"] });
+    expect(station.sent).toHaveLength(1);
+
+    server.clients.add(station.client);
+    plugin.onConnection!(station.client);
+    await vi.waitFor(() => expect(onSync).toHaveBeenCalledTimes(2));
+
+    expect(onSync.mock.calls[1][0]).toMatchObject({
+      status: "Accepted",
+      updateType: "Differential",
+      fromVersion: 1,
+      toVersion: 3,
+    });
+    expect(server.emit).toHaveBeenCalledWith(
+      "localList:synced",
+      onSync.mock.calls[1][0],
+    );
+    expect([...station.state.list.keys()]).toEqual(["B"]);
+  });
+
+  it("keeps the new connection's sync when the old one disconnects late", async () => {
+    const stale = listStation();
+    const fresh = listStation();
+    const plugin = localListPlugin({ delayMs: 20 });
+    plugin.onInit!(fakeServer(fresh.client));
+    await plugin.update({ upsert: [{ idToken: "A", status: "Accepted" }] });
+
+    plugin.onConnection!(stale.client);
+    plugin.onConnection!(fresh.client);
+    // The replaced connection's close arrives after the new connection
+    plugin.onDisconnect!(stale.client, 1000, "");
+
+    await vi.waitFor(() => expect(fresh.state.version).toBe(1));
+    expect(stale.call).not.toHaveBeenCalled();
+  });
+
+  it("sends a Full update when the station's version is unexpected", async () => {
+    const station = listStation();
+    const plugin = localListPlugin({ autoPush: false });
+    plugin.onInit!(fakeServer(station.client));
+    await plugin.update({ upsert: [{ idToken: "A", status: "Accepted" }] });
+    await plugin.sync("CP-1");
+
+    // Station factory-reset its list
+    station.state.version = 0;
+    station.state.list.clear();
+    await plugin.update({ upsert: [{ idToken: "B", status: "Accepted" }] });
+
+    expect(await plugin.sync("CP-1")).toMatchObject({
+      updateType: "Full",
+      fromVersion: 0,
+      items: 2,
+    });
+  });
+
+  it("splits large updates into chunks with increasing versions", async () => {
+    const station = listStation();
+    const plugin = localListPlugin({ autoPush: false, itemsPerMessage: 2 });
+    plugin.onInit!(fakeServer(station.client));
+    for (const idToken of ["A", "B", "C", "D", "E"]) {
+      await plugin.update({ upsert: [{ idToken, status: "Accepted" }] });
+    }
+
+    expect(await plugin.sync("CP-1")).toMatchObject({
+      status: "Accepted",
+      updateType: "Full",
+      toVersion: 5,
+    });
+    expect(station.sent.map((r) => [r.updateType, r.listVersion])).toEqual([
+      ["Full", 3],
+      ["Differential", 4],
+      ["Differential", 5],
+    ]);
+    expect(station.state).toMatchObject({ version: 5 });
+    expect(station.state.list.size).toBe(5);
+  });
+
+  it("sends an update whole when there are fewer versions than chunks", async () => {
+    const station = listStation();
+    const plugin = localListPlugin({ autoPush: false, itemsPerMessage: 2 });
+    plugin.onInit!(fakeServer(station.client));
+    const entries = (ids: string[]) =>
+      ids.map((idToken) => ({ idToken, status: "Accepted" as const }));
+
+    await plugin.replace(entries(["A", "B", "C", "D", "E"]));
+    expect(await plugin.sync("CP-1")).toMatchObject({ status: "Accepted" });
+    await plugin.update({ upsert: entries(["F", "G", "H"]) });
+    expect(await plugin.sync("CP-1")).toMatchObject({
+      status: "Accepted",
+      updateType: "Differential",
+    });
+
+    expect(
+      station.sent.map((r) => [
+        r.updateType,
+        r.listVersion,
+        r.localAuthorizationList.length,
+      ]),
+    ).toEqual([
+      ["Full", 1, 5],
+      ["Differential", 2, 3],
+    ]);
+    expect(station.state.list.size).toBe(8);
+  });
+
+  it("skips stations without a list", async () => {
+    const unsupported = listStation("ocpp1.6", "CP-2");
+    unsupported.state.version = -1;
+    const other = localListPlugin({ autoPush: false });
+    other.onInit!(fakeServer(unsupported.client));
+    await other.update({ upsert: [{ idToken: "A", status: "Accepted" }] });
+    expect(await other.sync("CP-2")).toMatchObject({
+      status: "NotSupported",
+    });
+    expect(unsupported.sent).toHaveLength(0);
+  });
+});
+
+describe("InMemoryLocalListStore", () => {
+  it("requires a Full update once tombstones were dropped", async () => {
+    const store = new InMemoryLocalListStore({ maxTombstones: 1 });
+    await store.apply({
+      upsert: [
+        { idToken: "A", status: "Accepted" },
+        { idToken: "B", status: "Accepted" },
+      ],
+    });
+    await store.apply({ remove: ["A"] });
+    expect(await store.changesSince(1)).toEqual({
+      entries: [],
+      removed: ["A"],
+    });
+
+    await store.apply({ remove: ["B"] });
+    expect(await store.changesSince(1)).toBeNull();
+    expect(await store.changesSince(2)).toEqual({
+      entries: [],
+      removed: ["B"],
+    });
+  });
+});
+
+describe("localListPlugin — through a server", () => {
+  let pair: Awaited<ReturnType<typeof connectStation>> | undefined;
+
+  afterEach(async () => {
+    await pair?.close();
+    pair = undefined;
+  });
+
+  it("catches a station up on connect and pushes later updates", async () => {
+    const onSync = vi.fn();
+    const plugin = localListPlugin({ onSync });
+    await plugin.update({ upsert: [{ idToken: "A", status: "Accepted" }] });
+
+    const station = { version: 0, idTags: [] as string[] };
+    pair = await connectStation([plugin], {
+      handlers: {
+        GetLocalListVersion: () => ({ listVersion: station.version }),
+        SendLocalList: ({ params }) => {
+          station.version = params.listVersion;
+          for (const item of params.localAuthorizationList) {
+            station.idTags.push(item.idTag);
+          }
+          return { status: "Accepted" };
+        },
+      },
+    });
+
+    await vi.waitFor(() => expect(onSync).toHaveBeenCalledTimes(1));
+    expect(onSync.mock.calls[0][0]).toMatchObject({
+      identity: "CP-1",
+      status: "Accepted",
+      updateType: "Full",
+      toVersion: 1,
+    });
+
+    await plugin.update({ upsert: [{ idToken: "B", status: "Accepted" }] });
+    await vi.waitFor(() => expect(onSync).toHaveBeenCalledTimes(2));
+    expect(onSync.mock.calls[1][0]).toMatchObject({
+      status: "Accepted",
+      updateType: "Differential",
+      toVersion: 2,
+    });
+    expect(station).toEqual({ version: 2, idTags: ["A", "B"] });
+  });
+});
@@ -0,0 +1,309 @@
+import { generateKeyPairSync, sign } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { SignatureVerifier } from "../src/meter-signatures.js";
+import { createStandardValidators } from "../src/standard-validators.js";
+
+function meterKey(namedCurve = "prime256v1") {
+  const { publicKey, privateKey } = generateKeyPairSync("ec", { namedCurve });
+  return {
+    privateKey,
+    pem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+    hex: publicKey.export({ type: "spki", format: "der" }).toString("hex"),
+  };
+}
+
+function ocmf(privateKey: ReturnType<typeof meterKey>["privateKey"], wh = 12) {
+  const payload = JSON.stringify({
+    FV: "1.0",
+    GI: "ACME Meter",
+    RD: [{ TM: "2026-01-01T10:00:00,000+0000 S", RV: wh, RI: "1-b:1.8.0", RU: "kWh" }],
+  });
+  const sd = sign("sha256", Buffer.from(payload), {
+    key: privateKey,
+    dsaEncoding: "der",
+  }).toString("hex");
+  return `OCMF|${payload}|${JSON.stringify({ SA: "ECDSA-secp256r1-SHA256", SD: sd })}`;
+}
+
+/** EDL40 signed data set followed by its raw secp192r1 signature. */
+function edl(privateKey: ReturnType<typeof meterKey>["privateKey"], wh = 12) {
+  const data = Buffer.alloc(173);
+  Buffer.from("0a01454d480000a1b2c3", "hex").copy(data, 0); // serverId
+  data.writeUInt32BE(1_767_261_600, 10); // 2026-01-01T10:00:00Z
+  data.writeUInt32BE(42, 19); // paginationId
+  Buffer.from([1, 0, 1, 8, 0, 255]).copy(data, 23); // OBIS 1-0:1.8.0*255
+  data.writeUInt8(30, 29); // unit: Wh
+  data.writeInt8(0, 30); // scaler
+  data.writeBigInt64BE(BigInt(wh), 31);
+  data.write("DE*ACM*C12345", 41, "utf8"); // contractId
+  const signature = sign("sha256", data, {
+    key: privateKey,
+    dsaEncoding: "ieee-p1363",
+  });
+  return Buffer.concat([data, signature]).toString("hex");
+}
+
+const meterValues = (samples: unknown[]) => ({
+  evseId: 1,
+  meterValue: [{ timestamp: "2026-01-01T10:00:00.000Z", sampledValue: samples }],
+});
+
+const signedSample = (signedMeterData: string, publicKey?: string) => ({
+  value: 12,
+  signedMeterValue: {
+    signedMeterData,
+    signingMethod: "ECDSA-secp256r1-SHA256",
+    encodingMethod: "OCMF",
+    ...(publicKey && { publicKey }),
+  },
+});
+
+describe("SignatureVerifier", () => {
+  it("verifies OCMF readings against the station's keys", async () => {
+    const meter = meterKey();
+    const verifier = new SignatureVerifier({ keys: { "CP-1": meter.hex } });
+    const data = ocmf(meter.privateKey);
+
+    const report = await verifier.verify(
+      "CP-1",
+      "MeterValues",
+      meterValues([signedSample(data)]),
+    );
+    expect(report).toMatchObject({
+      identity: "CP-1",
+      method: "MeterValues",
+      verified: true,
+      results: [
+        {
+          path: "meterValue[0].sampledValue[0]",
+          status: "valid",
+          encodingMethod: "OCMF",
+          data: { GI: "ACME Meter" },
+        },
+      ],
+    });
+
+    // Base64-wrapped OCMF is accepted too
+    const wrapped = await verifier.verify(
+      "CP-1",
+      "TransactionEvent",
+      meterValues([signedSample(Buffer.from(data).toString("base64"))]),
+    );
+    expect(wrapped?.verified).toBe(true);
+
+    // Tampered reading: same signature, different value
+    const tampered = data.replace('"RV":12', '"RV":1200');
+    const bad = await verifier.verify(
+      "CP-1",
+      "MeterValues",
+      meterValues([signedSample(tampered)]),
+    );
+    expect(bad?.verified).toBe(false);
+    expect(bad?.results[0]).toMatchObject({
+      status: "invalid",
+      reason: "Signature mismatch",
+    });
+
+    // Signed with another meter's key
+    const other = meterKey();
+    const foreign = await verifier.verify(
+      "CP-1",
+      "MeterValues",
+      meterValues([signedSample(ocmf(other.privateKey))]),
+    );
+    expect(foreign?.results[0].status).toBe("invalid");
+
+    // Nothing signed, nothing required
+    expect(
+      await verifier.verify("CP-1", "MeterValues", meterValues([{ value: 1 }])),
+    ).toBeUndefined();
+    expect(await verifier.verify("CP-1", "Heartbeat", {})).toBeUndefined();
+  });
+
+  it("verifies EDL readings and decodes the signed data set", async () => {
+    const meter = meterKey("prime192v1");
+    const verifier = new SignatureVerifier({ keys: { "CP-1": meter.pem } });
+    const edlSample = (signedMeterData: string) => ({
+      value: 12,
+      signedMeterValue: {
+        signedMeterData,
+        signingMethod: "ECDSA-secp192r1-SHA256",
+        encodingMethod: "EDL",
+      },
+    });
+    const data = edl(meter.privateKey);
+
+    const report = await verifier.verify(
+      "CP-1",
+      "MeterValues",
+      meterValues([edlSample(data)]),
+    );
+    expect(report).toMatchObject({
+      verified: true,
+      results: [
+        {
+          status: "valid",
+          encodingMethod: "EDL",
+          data: {
+            serverId: "0a01454d480000a1b2c3",
+            timestamp: "2026-01-01T10:00:00.000Z",
+            paginationId: 42,
+            obis: "1-0:1.8.0*255",
+            unit: 30,
+            scaler: 0,
+            value: 12,
+            contractId: "DE*ACM*C12345",
+          },
+        },
+      ],
+    });
+
+    // Base64 works too; a changed value breaks the signature
+    const base64 = Buffer.from(data, "hex").toString("base64");
+    expect(
+      (await verifier.verify("CP-1", "MeterValues", meterValues([edlSample(base64)])))
+        ?.verified,
+    ).toBe(true);
+    // value is bytes 31–38 of the data set (hex chars 62–77)
+    const tampered = `${data.slice(0, 62)}00000000000004b0${data.slice(78)}`;
+    expect(
+      (
+        await verifier.verify(
+          "CP-1",
+          "MeterValues",
+          meterValues([edlSample(tampered)]),
+        )
+      )?.results[0],
+    ).toMatchObject({ status: "invalid", reason: "Signature mismatch", data: { value: 1200 } });
+
+    // Key on another curve than the signing method
+    const p256 = new SignatureVerifier({ keys: { "CP-1": meterKey().pem } });
+    expect(
+      (await p256.verify("CP-1", "MeterValues", meterValues([edlSample(data)])))
+        ?.results[0].status,
+    ).toBe("invalid");
+  });
+
+  it("reports unknown keys, unsupported formats and unsigned readings", async () => {
+    const meter = meterKey();
+    const verifier = new SignatureVerifier({ requireSigned: true });
+    const data = ocmf(meter.privateKey);
+
+    const report = await verifier.verify(
+      "CP-9",
+      "MeterValues",
+      meterValues([
+        signedSample(data, meter.pem),
+        {
+          value: 5,
+          signedMeterValue: {
+            signedMeterData: "AQID",
+            signingMethod: "",
+            encodingMethod: "ACME",
+          },
+        },
+      ]),
+    );
+    expect(report?.results.map((r) => r.status)).toEqual([
+      "unknown_key",
+      "unsupported_format",
+    ]);
+
+    // A sample group with the required register but no signature
+    const unsigned = await verifier.verify(
+      "CP-9",
+      "MeterValues",
+      meterValues([{ value: 12, measurand: "Energy.Active.Import.Register" }]),
+    );
+    expect(unsigned?.results).toEqual([
+      {
+        path: "meterValue[0]",
+        status: "unsigned",
+        reason: "No signed value in the sample group",
+      },
+    ]);
+
+    // Embedded keys only count when trusted
+    const trusting = new SignatureVerifier({ trustEmbeddedKeys: true });
+    const embedded = await trusting.verify(
+      "CP-9",
+      "MeterValues",
+      meterValues([signedSample(data, meter.pem)]),
+    );
+    expect(embedded?.verified).toBe(true);
+  });
+
+  it("supports 1.6 SignedData samples, key resolvers and custom formats", async () => {
+    const meter = meterKey();
+    const verifier = new SignatureVerifier({
+      resolveKeys: async (identity) =>
+        identity === "CP-16" ? [meter.pem] : undefined,
+      formats: {
+        EDL: (value) => ({ valid: value.signedMeterData === "trusted" }),
+      },
+    });
+
+    const report = await verifier.verify("CP-16", "StopTransaction", {
+      transactionId: 1,
+      meterStop: 12,
+      timestamp: "2026-01-01T10:00:00.000Z",
+      transactionData: [
+        {
+          timestamp: "2026-01-01T10:00:00.000Z",
+          sampledValue: [
+            { value: ocmf(meter.privateKey), format: "SignedData" },
+            { value: "12", format: "Raw" },
+          ],
+        },
+      ],
+    });
+    expect(report?.results).toMatchObject([
+      { path: "transactionData[0].sampledValue[0]", status: "valid" },
+    ]);
+
+    const edl = await verifier.verify(
+      "CP-16",
+      "MeterValues",
+      meterValues([
+        {
+          value: 1,
+          signedMeterValue: {
+            signedMeterData: "trusted",
+            signingMethod: "",
+            encodingMethod: "EDL",
+          },
+        },
+      ]),
+    );
+    expect(edl?.verified).toBe(true);
+
+    expect(() => verifier.registerKey("CP-1", "not a key")).toThrow();
+    verifier.registerKey("CP-1", meter.pem);
+    verifier.registerKey("CP-1", meter.pem);
+    expect(verifier.getKeys("CP-1")).toEqual([meter.pem]);
+    verifier.removeKey("CP-1", meter.pem);
+    expect(verifier.getKeys("CP-1")).toEqual([]);
+  });
+});
+
+describe("Validator signature stage", () => {
+  it("runs the attached verifier per subprotocol", async () => {
+    const meter = meterKey();
+    const signatureVerifier = new SignatureVerifier({
+      keys: { "CP-1": meter.pem },
+    });
+    const validators = createStandardValidators({ signatureVerifier });
+    const v21 = validators.find((v) => v.subprotocol === "ocpp2.1")!;
+    expect(v21.signatureVerifier).toBe(signatureVerifier);
+
+    const params = meterValues([signedSample(ocmf(meter.privateKey))]);
+    v21.validate("urn:MeterValues.req", params);
+    const report = await v21.verifySignatures("CP-1", "MeterValues", params);
+    expect(report?.verified).toBe(true);
+
+    const [plain] = createStandardValidators();
+    expect(
+      await plain.verifySignatures("CP-1", "MeterValues", params),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,329 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  accumulateEnergy,
+  createEnergyState,
+  energyRegisterSample,
+  meterValuesOf,
+  normalizeMeterValues,
+} from "../src/meter-values.js";
+import { meterValuesPlugin } from "../src/plugins/meter-values.js";
+import type { MessageEventPayload } from "../src/types.js";
+
+const T = "2026-01-01T10:00:00Z";
+
+describe("normalizeMeterValues", () => {
+  it("normalizes 1.6 string values, defaults and kilo units", () => {
+    const samples = normalizeMeterValues([
+      {
+        timestamp: T,
+        sampledValue: [
+          { value: "12.5", unit: "kWh", context: "Sample.Periodic" },
+          { value: "1200" },
+          { value: "7.4", measurand: "Power.Active.Import", unit: "kW" },
+          { value: "16", measurand: "Current.Import", phase: "L1" },
+          { value: "230", measurand: "Voltage", phase: "L1-N" },
+          { value: "55", measurand: "SoC", location: "EV" },
+          { value: "31", measurand: "Temperature", unit: "Celcius" },
+          { value: "0xDEADBEEF", format: "SignedData" },
+        ],
+      },
+    ]);
+
+    expect(samples).toEqual([
+      {
+        timestamp: T,
+        measurand: "Energy.Active.Import.Register",
+        value: 12500,
+        unit: "Wh",
+        context: "Sample.Periodic",
+      },
+      {
+        timestamp: T,
+        measurand: "Energy.Active.Import.Register",
+        value: 1200,
+        unit: "Wh",
+      },
+      {
+        timestamp: T,
+        measurand: "Power.Active.Import",
+        value: 7400,
+        unit: "W",
+      },
+      {
+        timestamp: T,
+        measurand: "Current.Import",
+        value: 16,
+        unit: "A",
+        phase: "L1",
+      },
+      {
+        timestamp: T,
+        measurand: "Voltage",
+        value: 230,
+        unit: "V",
+        phase: "L1-N",
+      },
+      {
+        timestamp: T,
+        measurand: "SoC",
+        value: 55,
+        unit: "Percent",
+        location: "EV",
+      },
+      {
+        timestamp: T,
+        measurand: "Temperature",
+        value: 31,
+        unit: "Celsius",
+      },
+    ]);
+  });
+
+  it("applies the 2.x unitOfMeasure multiplier", () => {
+    const samples = normalizeMeterValues([
+      {
+        timestamp: T,
+        sampledValue: [
+          { value: 12.5, unitOfMeasure: { unit: "kWh" } },
+          { value: 74, unitOfMeasure: { unit: "W", multiplier: 2 } },
+          {
+            value: 3,
+            measurand: "Power.Active.Import",
+            unitOfMeasure: { multiplier: 3 },
+          },
+          {
+            value: 1000,
+            signedMeterValue: {
+              signedMeterData: "...",
+              signingMethod: "",
+              encodingMethod: "OCMF",
+              publicKey: "",
+            },
+          },
+        ],
+      },
+    ]);
+
+    expect(samples.map((s) => [s.value, s.unit, s.signed])).toEqual([
+      [12500, "Wh", undefined],
+      [7400, "W", undefined],
+      [3000, "W", undefined],
+      [1000, "Wh", true],
+    ]);
+  });
+
+  it("finds the meter values of each carrying call", () => {
+    const mv = [{ timestamp: T, sampledValue: [] }];
+    expect(meterValuesOf("MeterValues", { meterValue: mv })).toBe(mv);
+    expect(meterValuesOf("TransactionEvent", { meterValue: mv })).toBe(mv);
+    expect(meterValuesOf("StopTransaction", { transactionData: mv })).toBe(mv);
+    expect(meterValuesOf("Heartbeat", {})).toBeUndefined();
+  });
+});
+
+describe("accumulateEnergy", () => {
+  const reg = (wh: number) => energyRegisterSample(wh, T);
+
+  it("sums register increases and ignores phase / other measurands", () => {
+    const { state, anomalies } = accumulateEnergy(createEnergyState(), [
+      reg(1000),
+      { ...reg(999_999), phase: "L1" },
+      { ...reg(5), measurand: "Power.Active.Import", unit: "W" },
+      reg(1500),
+      reg(2500),
+    ]);
+    expect(state).toEqual({
+      startWh: 1000,
+      lastWh: 2500,
+      energyWh: 1500,
+      rollovers: 0,
+    });
+    expect(anomalies).toEqual([]);
+  });
+
+  it("counts across a register rollover", () => {
+    const { state, anomalies } = accumulateEnergy(createEnergyState(), [
+      reg(999_999_000),
+      reg(500),
+    ]);
+    expect(state.energyWh).toBe(1500);
+    expect(state.rollovers).toBe(1);
+    expect(anomalies).toMatchObject([
+      { kind: "rollover", previousWh: 999_999_000, wrapAtWh: 1e9 },
+    ]);
+  });
+
+  it("re-baselines a decreasing register", () => {
+    const state = createEnergyState();
+    accumulateEnergy(state, [reg(5000), reg(6000)]);
+    const { anomalies } = accumulateEnergy(state, [reg(100), reg(400)]);
+    expect(state.energyWh).toBe(1300);
+    expect(anomalies).toMatchObject([
+      { kind: "registerDecreased", previousWh: 6000, currentWh: 100 },
+    ]);
+  });
+});
+
+describe("meterValuesPlugin", () => {
+  let seq = 0;
+  const client = { identity: "CP-1", protocol: "ocpp1.6" } as any;
+  const callIn = (method: string, params: unknown): MessageEventPayload => ({
+    message: [] as any,
+    direction: "IN",
+    ctx: {
+      type: "incoming_call",
+      messageId: `m${++seq}`,
+      method,
+      params,
+    } as any,
+  });
+
+  it("emits normalized samples with per-transaction energy", () => {
+    const plugin = meterValuesPlugin();
+    const reports: any[] = [];
+    const anomalies: any[] = [];
+    plugin.on("meterValues", (r) => reports.push(r));
+    plugin.on("energyAnomaly", (a) => anomalies.push(a));
+
+    const start = callIn("StartTransaction", {
+      connectorId: 2,
+      idTag: "TAG",
+      meterStart: 999_999_500,
+      timestamp: T,
+    });
+    plugin.onMessage!(client, start);
+    plugin.onMessage!(client, {
+      message: [] as any,
+      direction: "OUT",
+      ctx: {
+        type: "outgoing_result",
+        messageId: (start.ctx as any).messageId,
+        method: "StartTransaction",
+        payload: { transactionId: 9 },
+      } as any,
+    });
+    plugin.onMessage!(
+      client,
+      callIn("MeterValues", {
+        connectorId: 2,
+        transactionId: 9,
+        meterValue: [
+          {
+            timestamp: T,
+            sampledValue: [
+              { value: "300" },
+              { value: "11", measurand: "Power.Active.Import", unit: "kW" },
+            ],
+          },
+        ],
+      }),
+    );
+    expect(plugin.getEnergy("CP-1", 9)?.energyWh).toBe(800);
+
+    plugin.onMessage!(
+      client,
+      callIn("StopTransaction", {
+        transactionId: 9,
+        meterStop: 1300,
+        timestamp: T,
+      }),
+    );
+
+    expect(reports.map((r) => [r.method, r.energy?.energyWh])).toEqual([
+      ["StartTransaction", 0],
+      ["MeterValues", 800],
+      ["StopTransaction", 1800],
+    ]);
+    expect(reports[1]).toMatchObject({ connectorId: 2, transactionId: "9" });
+    expect(reports[1].samples[1]).toMatchObject({ value: 11000, unit: "W" });
+    expect(anomalies).toMatchObject([
+      { kind: "rollover", identity: "CP-1", transactionId: "9" },
+    ]);
+    expect(plugin.getEnergy("CP-1", 9)).toBeUndefined();
+  });
+
+  it("reports samples without a transaction and skips empty calls", () => {
+    const plugin = meterValuesPlugin();
+    const listener = vi.fn();
+    plugin.on("meterValues", listener);
+    const v201 = { identity: "CP-2", protocol: "ocpp2.0.1" } as any;
+
+    plugin.onMessage!(
+      v201,
+      callIn("MeterValues", {
+        evseId: 1,
+        meterValue: [{ timestamp: T, sampledValue: [{ value: 42 }] }],
+      }),
+    );
+    plugin.onMessage!(
+      v201,
+      callIn("TransactionEvent", {
+        eventType: "Updated",
+        seqNo: 1,
+        timestamp: T,
+        triggerReason: "ChargingStateChanged",
+        transactionInfo: { transactionId: "tx" },
+      }),
+    );
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toMatchObject({
+      evseId: 1,
+      energy: undefined,
+      samples: [{ value: 42, unit: "Wh" }],
+    });
+  });
+
+  it("keeps a start queued across a reconnect", () => {
+    const plugin = meterValuesPlugin();
+    const stale = { identity: "CP-3", protocol: "ocpp1.6" } as any;
+    const fresh = { identity: "CP-3", protocol: "ocpp1.6" } as any;
+    const start = callIn("StartTransaction", {
+      connectorId: 1,
+      idTag: "TAG",
+      meterStart: 100,
+      timestamp: T,
+    });
+    plugin.onMessage!(fresh, start);
+    // The replaced connection finishes closing after the flushed start
+    plugin.onDisconnect!(stale, 1006, "");
+    plugin.onMessage!(fresh, {
+      message: [] as any,
+      direction: "OUT",
+      ctx: {
+        type: "outgoing_result",
+        messageId: (start.ctx as any).messageId,
+        method: "StartTransaction",
+        payload: { transactionId: 4 },
+      } as any,
+    });
+
+    expect(plugin.getEnergy("CP-3", 4)).toMatchObject({ energyWh: 0 });
+  });
+
+  it("forgets 2.x transactions on reboot", () => {
+    const plugin = meterValuesPlugin();
+    const v201 = { identity: "CP-4", protocol: "ocpp2.0.1" } as any;
+    plugin.onMessage!(
+      v201,
+      callIn("TransactionEvent", {
+        eventType: "Started",
+        seqNo: 0,
+        timestamp: T,
+        triggerReason: "Authorized",
+        transactionInfo: { transactionId: "tx" },
+        meterValue: [{ timestamp: T, sampledValue: [{ value: 5000 }] }],
+      }),
+    );
+    expect(plugin.getEnergy("CP-4", "tx")).toBeDefined();
+
+    plugin.onMessage!(
+      v201,
+      callIn("BootNotification", {
+        reason: "PowerUp",
+        chargingStation: { model: "M", vendorName: "V" },
+      }),
+    );
+    expect(plugin.getEnergy("CP-4", "tx")).toBeUndefined();
+  });
+});
@@ -0,0 +1,376 @@
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { NatsAdapter } from "../src/adapters/nats/index.js";
+import { OCPPClient } from "../src/client.js";
+import { OCPPServer } from "../src/server.js";
+
+// ─── In-process NATS fake ───────────────────────────────────────
+// Core Pub/Sub, a JetStream with durable explicit-ack consumers, and a
+// KV bucket with a TTL — just the parts NatsAdapter relies on.
+
+type Waiter = () => void;
+
+function createFakeNats(options: { kvTtlMs?: number } = {}) {
+  const subs = new Set<{ subject: string; callback: Function }>();
+  const streams = new Map<
+    string,
+    { config: any; messages: { seq: number; subject: string; data: Uint8Array }[] }
+  >();
+  const consumers = new Map<
+    string,
+    { config: any; acked: Set<number>; delivered: Set<number>; wake?: Waiter }
+  >();
+  const kv = new Map<string, { value: Uint8Array; expiresAt: number }>();
+  let seq = 0;
+
+  const matches = (filter: string, subject: string) =>
+    filter.endsWith(".*")
+      ? subject.startsWith(filter.slice(0, -1)) &&
+        !subject.slice(filter.length - 1).includes(".")
+      : filter === subject;
+
+  const connection = {
+    publish: vi.fn((subject: string, data: Uint8Array) => {
+      for (const sub of subs) {
+        if (sub.subject === subject) sub.callback(null, { subject, data });
+      }
+    }),
+    subscribe: vi.fn((subject: string, opts: any) => {
+      const sub = { subject, callback: opts.callback };
+      subs.add(sub);
+      return { unsubscribe: () => subs.delete(sub) };
+    }),
+    drain: vi.fn(async () => {
+      subs.clear();
+    }),
+  };
+
+  const jetstreamManager = {
+    streams: {
+      info: vi.fn(async (name: string) => {
+        const stream = streams.get(name);
+        if (!stream) throw new Error("stream not found");
+        return { config: stream.config };
+      }),
+      add: vi.fn(async (config: any) => {
+        streams.set(config.name, { config, messages: [] });
+        return { config };
+      }),
+    },
+    consumers: {
+      add: vi.fn(async (stream: string, config: any) => {
+        if (!streams.has(stream)) throw new Error("stream not found");
+        const key = `${stream}/${config.durable_name}`;
+        if (!consumers.has(key)) {
+          consumers.set(key, { config, acked: new Set(), delivered: new Set() });
+        }
+        return { config };
+      }),
+    },
+  };
+
+  const jetstream = {
+    publish: vi.fn(async (subject: string, data: Uint8Array) => {
+      const entry = [...streams].find(([, s]) =>
+        s.config.subjects.some((f: string) => matches(f, subject)),
+      );
+      if (!entry) throw new Error("no responders");
+      const message = { seq: ++seq, subject, data };
+      entry[1].messages.push(message);
+      for (const consumer of consumers.values()) consumer.wake?.();
+      return { stream: entry[0], seq: message.seq };
+    }),
+    consumers: {
+      get: vi.fn(async (streamName: string, durable: string) => {
+        const stream = streams.get(streamName);
+        const consumer = consumers.get(`${streamName}/${durable}`);
+        if (!stream || !consumer) throw new Error("consumer not found");
+        const pending = () =>
+          stream.messages.filter(
+            (m) =>
+              matches(consumer.config.filter_subject, m.subject) &&
+              !consumer.acked.has(m.seq),
+          );
+        return {
+          info: async () => ({ num_pending: pending().length }),
+          consume: async () => {
+            let stopped = false;
+            // A new consume() redelivers everything not yet acked
+            consumer.delivered.clear();
+            const iterator = async function* () {
+              while (!stopped) {
+                const next = pending().find((m) => !consumer.delivered.has(m.seq));
+                if (!next) {
+                  await new Promise<void>((resolve) => {
+                    consumer.wake = resolve;
+                  });
+                  continue;
+                }
+                consumer.delivered.add(next.seq);
+                yield { ...next, ack: () => consumer.acked.add(next.seq) };
+              }
+            };
+            return Object.assign(iterator(), {
+              stop: () => {
+                stopped = true;
+                consumer.wake?.();
+              },
+            });
+          },
+        };
+      }),
+    },
+  };
+
+  const bucket = {
+    put: vi.fn(async (key: string, value: Uint8Array) => {
+      kv.set(key, { value, expiresAt: Date.now() + (options.kvTtlMs ?? 60_000) });
+    }),
+    get: vi.fn(async (key: string) => {
+      const entry = kv.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) return null;
+      return { value: entry.value, operation: "PUT" as const };
+    }),
+    delete: vi.fn(async (key: string) => {
+      kv.delete(key);
+    }),
+    keys: vi.fn(async () =>
+      (async function* () {
+        yield* kv.keys();
+      })(),
+    ),
+  };
+
+  return { connection, jetstream, jetstreamManager, kv: bucket, streams, consumers };
+}
+
+const adapters: NatsAdapter[] = [];
+function createAdapter(nats: ReturnType<typeof createFakeNats>, prefix?: string) {
+  const adapter = new NatsAdapter({ ...nats, prefix });
+  adapters.push(adapter);
+  return adapter;
+}
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await Promise.all(adapters.splice(0).map((a) => a.disconnect()));
+});
+
+describe("NatsAdapter", () => {
+  it("broadcasts over core Pub/Sub with prefixed, escaped subjects", async () => {
+    const nats = createFakeNats();
+    const a = createAdapter(nats, "test");
+    const b = createAdapter(nats, "test");
+
+    const received: unknown[] = [];
+    await b.subscribe("ocpp:broadcast", (data) => received.push(data));
+    await b.subscribe("ocpp:broadcast", (data) => received.push(["again", data]));
+    await a.publish("ocpp:broadcast", { hello: "world" });
+
+    expect(nats.connection.publish).toHaveBeenCalledWith(
+      "test.bus.ocpp:broadcast",
+      expect.any(Uint8Array),
+    );
+    expect(received).toEqual([{ hello: "world" }, ["again", { hello: "world" }]]);
+
+    await b.subscribe("my.channel *", vi.fn());
+    expect(nats.connection.subscribe).toHaveBeenLastCalledWith(
+      "test.bus.my%2Echannel%20%2A",
+      expect.anything(),
+    );
+
+    await b.unsubscribe("ocpp:broadcast");
+    await a.publish("ocpp:broadcast", { hello: "again" });
+    expect(received).toHaveLength(2);
+  });
+
+  it("passes non-JSON payloads through and swallows handler errors", async () => {
+    const nats = createFakeNats();
+    const adapter = createAdapter(nats);
+    const handler = vi.fn();
+    await adapter.subscribe("raw", () => {
+      throw new Error("Handler failed");
+    });
+    await adapter.subscribe("raw", handler);
+
+    expect(() =>
+      nats.connection.publish(
+        "ocpp-ws-io.bus.raw",
+        new TextEncoder().encode("invalid-json{"),
+      ),
+    ).not.toThrow();
+    expect(handler).toHaveBeenCalledWith("invalid-json{");
+  });
+
+  it("delivers node unicast through a durable JetStream consumer", async () => {
+    const nats = createFakeNats();
+    const sender = createAdapter(nats);
+    const receiver = createAdapter(nats);
+
+    const received: unknown[] = [];
+    await receiver.subscribe("ocpp:node:node-1", (data) => received.push(data));
+    expect(nats.jetstreamManager.streams.add).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "OCPP_WS_IO_NODES",
+        subjects: ["ocpp-ws-io.node.*"],
+        max_msgs_per_subject: 1000,
+      }),
+    );
+    expect(nats.jetstreamManager.consumers.add).toHaveBeenCalledWith(
+      "OCPP_WS_IO_NODES",
+      expect.objectContaining({
+        filter_subject: "ocpp-ws-io.node.node-1",
+        ack_policy: "explicit",
+      }),
+    );
+
+    await sender.publish("ocpp:node:node-1", { method: "Reset" });
+    await sender.publish("ocpp:node:node-2", { method: "Other" });
+    await vi.waitFor(() => expect(received).toEqual([{ method: "Reset" }]));
+    // Unicast never touches core Pub/Sub
+    expect(nats.connection.publish).not.toHaveBeenCalled();
+
+    // Sent while the node is away, delivered once it is back
+    await receiver.unsubscribe("ocpp:node:node-1");
+    await sender.publish("ocpp:node:node-1", { method: "WhileDown" });
+    const restarted = createAdapter(nats);
+    await restarted.subscribe("ocpp:node:node-1", (data) => received.push(data));
+    await vi.waitFor(() =>
+      expect(received).toEqual([{ method: "Reset" }, { method: "WhileDown" }]),
+    );
+
+    // The stream is only created once
+    expect(nats.jetstreamManager.streams.add).toHaveBeenCalledTimes(1);
+    expect(await restarted.metrics()).toEqual({
+      pendingMessages: 0,
+      activeStreams: 1,
+      streamDetails: { "node-bm9kZS0x": 0 },
+    });
+  });
+
+  it("publishes batches of unicast and broadcast messages", async () => {
+    const nats = createFakeNats();
+    const adapter = createAdapter(nats);
+
+    await adapter.publishBatch([
+      { channel: "ocpp:node:n1", data: { m: "unicast" } },
+      { channel: "ocpp:node:n2", data: { m: "unicast" } },
+      { channel: "ocpp:broadcast", data: { m: "bcast" } },
+    ]);
+
+    expect(nats.jetstream.publish).toHaveBeenCalledTimes(2);
+    expect(nats.connection.publish).toHaveBeenCalledTimes(1);
+    expect(nats.streams.get("OCPP_WS_IO_NODES")?.messages).toHaveLength(2);
+  });
+
+  it("keeps presence in the KV bucket", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const nats = createFakeNats({ kvTtlMs: 300_000 });
+    const adapter = createAdapter(nats);
+
+    await adapter.setPresence("CP/1 ü", "node-a", 300);
+    expect(nats.kv.put).toHaveBeenCalledWith("Q1AvMSDDvA", expect.any(Uint8Array));
+    expect(await adapter.getPresence("CP/1 ü")).toBe("node-a");
+
+    await adapter.setPresenceBatch([
+      { identity: "CP-2", nodeId: "node-b", ttl: 60 },
+      { identity: "CP-3", nodeId: "node-c" },
+    ]);
+    expect(await adapter.getPresenceBatch(["CP-2", "CP-9", "CP-3"])).toEqual([
+      "node-b",
+      null,
+      "node-c",
+    ]);
+    expect(await adapter.getPresenceBatch([])).toEqual([]);
+
+    await adapter.removePresence("CP-2");
+    expect(await adapter.getPresence("CP-2")).toBeNull();
+    expect(await adapter.listPresence()).toEqual([
+      { identity: "CP/1 ü", nodeId: "node-a" },
+      { identity: "CP-3", nodeId: "node-c" },
+    ]);
+
+    // Expiry is the bucket's
+    vi.setSystemTime(Date.now() + 300_001);
+    expect(await adapter.getPresence("CP-3")).toBeNull();
+  });
+
+  it("treats deleted KV entries as absent", async () => {
+    const nats = createFakeNats();
+    nats.kv.get.mockResolvedValueOnce({
+      value: new Uint8Array(),
+      operation: "DEL" as any,
+    });
+    const adapter = createAdapter(nats);
+    expect(await adapter.getPresence("CP-1")).toBeNull();
+  });
+
+  it("stops consumers and drains the connection on disconnect", async () => {
+    const nats = createFakeNats();
+    const adapter = createAdapter(nats);
+    const handler = vi.fn();
+    await adapter.subscribe("ocpp:broadcast", handler);
+    await adapter.subscribe("ocpp:node:n1", handler);
+
+    await adapter.disconnect();
+    expect(nats.connection.drain).toHaveBeenCalled();
+
+    const other = createAdapter(nats);
+    await other.publish("ocpp:node:n1", { late: true });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe("NatsAdapter cross-node routing", () => {
+  let serverA: OCPPServer;
+  let serverB: OCPPServer;
+  let client: OCPPClient;
+
+  afterEach(async () => {
+    await client?.close({ force: true }).catch(() => {});
+    await serverA?.close({ force: true }).catch(() => {});
+    await serverB?.close({ force: true }).catch(() => {});
+  });
+
+  it("shares presence and routes sendToClient and broadcast between nodes", async () => {
+    const nats = createFakeNats();
+    serverA = new OCPPServer({ nodeId: "node-a" });
+    await serverA.setAdapter(createAdapter(nats));
+    const http = await serverA.listen(0);
+    const port = (http.address() as AddressInfo).port;
+
+    serverB = new OCPPServer({ nodeId: "node-b" });
+    await serverB.setAdapter(createAdapter(nats));
+
+    client = new OCPPClient({
+      identity: "CP-NATS",
+      endpoint: `ws://127.0.0.1:${port}`,
+      reconnect: false,
+    });
+    client.handle("Reset", () => ({ status: "Accepted" }));
+    const changes: unknown[] = [];
+    client.handle("ChangeAvailability", ({ params }) => {
+      changes.push(params);
+      return { status: "Accepted" };
+    });
+    await client.connect();
+
+    await vi.waitFor(async () =>
+      expect(await serverB.listClusterClients()).toEqual([
+        { identity: "CP-NATS", nodeId: "node-a" },
+      ]),
+    );
+
+    const res = await serverB.sendToClient("CP-NATS", "Reset", { type: "Soft" });
+    expect(res).toEqual({ status: "Accepted" });
+
+    await serverB.broadcast("ChangeAvailability", {
+      connectorId: 0,
+      type: "Inoperative",
+    });
+    await vi.waitFor(() =>
+      expect(changes).toEqual([{ connectorId: 0, type: "Inoperative" }]),
+    );
+  });
+});
@@ -1,5 +1,6 @@
-import { describe, expect, test } from "vitest";
+import { describe, expect, test, vi } from "vitest";
 import { OCPPClient } from "../src/client.js";
+import { InMemoryOfflineQueueStore } from "../src/offline-queue.js";
 
 describe("offline queue overflow (H2)", () => {
   test("oldest queued call is rejected, not stranded", async () => {
@@ -17,4 +18,71 @@ describe("offline queue overflow (H2)", () => {
 
     await expect(p1).rejects.toThrow(/overflow/i);
   });
+
+  test("a call ranking below everything queued is rejected instead", async () => {
+    const client = new OCPPClient({
+      identity: "CP-OQ-PRIORITY",
+      endpoint: "ws://127.0.0.1:1",
+      reconnect: false,
+      offlineQueue: true,
+      offlineQueueMaxSize: 1,
+    });
+    const drops: string[] = [];
+    client.on("offlineQueueDrop", (e) => drops.push(e.method));
+
+    const stop = client.call("StopTransaction", { transactionId: 1 });
+    stop.catch(() => {});
+    await expect(
+      client.call("StatusNotification", { connectorId: 1 }),
+    ).rejects.toThrow(/overflow/i);
+    expect(drops).toEqual(["StatusNotification"]);
+  });
+
+  test("the persistent queue is uncapped unless a limit is set", async () => {
+    const store = new InMemoryOfflineQueueStore();
+    const client = new OCPPClient({
+      identity: "CP-OQ-DURABLE",
+      endpoint: "ws://127.0.0.1:1",
+      reconnect: false,
+      offlineQueueStore: store,
+    });
+
+    for (let i = 0; i < 150; i++) {
+      client.call("MeterValues", { connectorId: 1 }).catch(() => {});
+    }
+    await vi.waitFor(async () => expect(await store.list()).toHaveLength(150));
+  });
+
+  test("a call the store can't persist is rejected", async () => {
+    const store = new InMemoryOfflineQueueStore();
+    store.put = async () => {
+      throw new Error("disk full");
+    };
+    const client = new OCPPClient({
+      identity: "CP-OQ-STORE",
+      endpoint: "ws://127.0.0.1:1",
+      reconnect: false,
+      offlineQueueStore: store,
+    });
+
+    await expect(client.call("Heartbeat", {})).rejects.toThrow("disk full");
+    expect(await store.list()).toEqual([]);
+  });
+
+  test("an offlineQueueDrop listener error rejects the new call", async () => {
+    const client = new OCPPClient({
+      identity: "CP-OQ-LISTENER",
+      endpoint: "ws://127.0.0.1:1",
+      reconnect: false,
+      offlineQueue: true,
+      offlineQueueMaxSize: 1,
+    });
+    client.on("offlineQueueDrop", () => {
+      throw new Error("listener failed");
+    });
+
+    const p1 = client.call("First", {});
+    p1.catch(() => {});
+    await expect(client.call("Second", {})).rejects.toThrow("listener failed");
+  });
 });
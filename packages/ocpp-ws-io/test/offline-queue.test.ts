@@ -0,0 +1,156 @@
+import {
+  appendFileSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+  FileOfflineQueueStore,
+  InMemoryOfflineQueueStore,
+  type OfflineQueueEntry,
+  sortOfflineQueueEntries,
+} from "../src/offline-queue.js";
+
+function entry(
+  id: string,
+  overrides: Partial<OfflineQueueEntry> = {},
+): OfflineQueueEntry {
+  return {
+    id,
+    method: "StatusNotification",
+    params: { connectorId: 1 },
+    priority: 0,
+    seq: 0,
+    enqueuedAt: 1_700_000_000_000,
+    attempts: 0,
+    ...overrides,
+  };
+}
+
+describe("sortOfflineQueueEntries", () => {
+  test("orders by priority, then insertion sequence", () => {
+    const sorted = sortOfflineQueueEntries([
+      entry("a", { seq: 0 }),
+      entry("b", { seq: 1, priority: 10 }),
+      entry("c", { seq: 2 }),
+      entry("d", { seq: 3, priority: 10 }),
+    ]);
+    expect(sorted.map((e) => e.id)).toEqual(["b", "d", "a", "c"]);
+  });
+});
+
+describe("InMemoryOfflineQueueStore", () => {
+  test("put is an upsert keyed by id", async () => {
+    const store = new InMemoryOfflineQueueStore();
+    await store.put(entry("a"));
+    await store.put(entry("a", { attempts: 2 }));
+    await store.put(entry("b"));
+    await store.remove("b");
+
+    const list = await store.list();
+    expect(list).toHaveLength(1);
+    expect(list[0].attempts).toBe(2);
+  });
+});
+
+describe("FileOfflineQueueStore", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ocpp-oq-"));
+    path = join(dir, "queue", "offline.ndjson");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("entries survive a new store instance (process restart)", async () => {
+    const store = new FileOfflineQueueStore({ path, fsync: false });
+    await store.put(entry("a", { method: "StopTransaction", priority: 10 }));
+    await store.put(entry("b", { seq: 1 }));
+    await store.put(entry("a", { method: "StopTransaction", attempts: 1 }));
+    await store.remove("b");
+    await store.close();
+
+    const reopened = new FileOfflineQueueStore({ path, fsync: false });
+    const list = await reopened.list();
+    expect(list).toHaveLength(1);
+    expect(list[0]).toMatchObject({
+      id: "a",
+      method: "StopTransaction",
+      attempts: 1,
+    });
+    await reopened.close();
+  });
+
+  test("ignores a torn final line and keeps appending cleanly", async () => {
+    const store = new FileOfflineQueueStore({ path, fsync: false });
+    await store.put(entry("a"));
+    await store.close();
+    appendFileSync(path, '{"op":"put","entry":{"id":"b"');
+
+    const recovered = new FileOfflineQueueStore({ path, fsync: false });
+    expect((await recovered.list()).map((e) => e.id)).toEqual(["a"]);
+    await recovered.put(entry("c"));
+    await recovered.close();
+
+    const reopened = new FileOfflineQueueStore({ path, fsync: false });
+    expect((await reopened.list()).map((e) => e.id).sort()).toEqual([
+      "a",
+      "c",
+    ]);
+    await reopened.close();
+  });
+
+  test("compacts superseded records", async () => {
+    const store = new FileOfflineQueueStore({
+      path,
+      fsync: false,
+      compactThreshold: 3,
+    });
+    await store.put(entry("a"));
+    await store.put(entry("b"));
+    await store.remove("a");
+    await store.put(entry("b", { attempts: 1 }));
+    await store.put(entry("c"));
+    await store.close();
+
+    const lines = readFileSync(path, "utf8").trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(lines.map((l) => JSON.parse(l).entry.id)).toEqual(["b", "c"]);
+  });
+
+  test("a put that fails to reach the log is not queued", async () => {
+    const store = new FileOfflineQueueStore({ path, fsync: false });
+    expect(await store.list()).toEqual([]);
+    // The log's directory can't be created once a file takes its name
+    writeFileSync(join(dir, "queue"), "");
+
+    await expect(store.put(entry("a"))).rejects.toThrow();
+    expect(await store.list()).toEqual([]);
+    await store.close();
+  });
+
+  test("clear empties the log", async () => {
+    const store = new FileOfflineQueueStore({ path, fsync: false });
+    await store.put(entry("a"));
+    await store.clear();
+    expect(await store.list()).toEqual([]);
+    await store.close();
+
+    expect(readFileSync(path, "utf8")).toBe("");
+  });
+
+  test("clear works before the first append", async () => {
+    const store = new FileOfflineQueueStore({ path, fsync: false });
+    await store.clear();
+    expect(await store.list()).toEqual([]);
+    await store.close();
+  });
+});
@@ -0,0 +1,331 @@
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { PostgresAdapter } from "../src/adapters/postgres/index.js";
+import { OCPPClient } from "../src/client.js";
+import { OCPPServer } from "../src/server.js";
+
+// ─── In-process Postgres fake ───────────────────────────────────
+// Answers exactly the statements PostgresAdapter issues, with NOTIFY
+// delivered asynchronously to every connection that LISTENs.
+
+function createFakePostgres() {
+  const queue: {
+    id: string;
+    node_id: string;
+    payload: string;
+    created_at: number;
+  }[] = [];
+  const presence = new Map<string, { node_id: string; expires_at: number }>();
+  const listeners = new Map<string, Set<(msg: any) => void>>();
+  let seq = 0;
+
+  const notify = (channel: string, payload: string) => {
+    setImmediate(() => {
+      for (const listener of listeners.get(channel) ?? []) {
+        listener({ channel, payload });
+      }
+    });
+  };
+
+  const run = async (text: string, values: any[] = []) => {
+    const sql = text.replace(/\s+/g, " ").trim();
+    let m: RegExpMatchArray | null;
+    if (sql.startsWith("CREATE ")) return { rows: [] };
+    if (sql === "SELECT pg_notify($1, $2)") {
+      notify(values[0], values[1]);
+      return { rows: [{}] };
+    }
+    if (sql.startsWith("WITH queued AS")) {
+      const [nodeIds, payloads, channel] = values;
+      nodeIds.forEach((node_id: string, i: number) => {
+        queue.push({
+          id: String(++seq),
+          node_id,
+          payload: payloads[i],
+          created_at: Date.now(),
+        });
+      });
+      for (const nodeId of new Set<string>(nodeIds)) notify(channel, nodeId);
+      return { rows: [] };
+    }
+    if (sql.startsWith("SELECT id, payload FROM")) {
+      const rows = queue
+        .filter((r) => r.node_id === values[0])
+        .slice(0, values[1])
+        .map(({ id, payload }) => ({ id, payload }));
+      return { rows };
+    }
+    if (/^DELETE FROM \w+_queue WHERE id = ANY/.test(sql)) {
+      for (const id of values[0]) {
+        const i = queue.findIndex((r) => r.id === id);
+        if (i >= 0) queue.splice(i, 1);
+      }
+      return { rows: [] };
+    }
+    if (/^DELETE FROM \w+_queue WHERE created_at/.test(sql)) {
+      const cutoff = Date.now() - values[0] * 1000;
+      for (let i = queue.length - 1; i >= 0; i--) {
+        if (queue[i].created_at < cutoff) queue.splice(i, 1);
+      }
+      return { rows: [] };
+    }
+    if (/^INSERT INTO \w+_presence/.test(sql)) {
+      const [identities, nodeIds, ttls] = values;
+      identities.forEach((identity: string, i: number) => {
+        presence.set(identity, {
+          node_id: nodeIds[i],
+          expires_at: Date.now() + ttls[i] * 1000,
+        });
+      });
+      return { rows: [] };
+    }
+    if (sql.startsWith("SELECT identity, node_id FROM")) {
+      const rows = (values?.[0] ?? [...presence.keys()])
+        .filter((id: string) => (presence.get(id)?.expires_at ?? 0) > Date.now())
+        .map((id: string) => ({ identity: id, node_id: presence.get(id)?.node_id }));
+      return { rows };
+    }
+    if ((m = sql.match(/^DELETE FROM \w+_presence WHERE (\w+)/))) {
+      if (m[1] === "identity") presence.delete(values[0]);
+      else {
+        for (const [id, row] of presence) {
+          if (row.expires_at < Date.now()) presence.delete(id);
+        }
+      }
+      return { rows: [] };
+    }
+    if (sql.startsWith("SELECT node_id, count(*)")) {
+      const counts = new Map<string, number>();
+      for (const r of queue) {
+        if (values[0].includes(r.node_id)) {
+          counts.set(r.node_id, (counts.get(r.node_id) ?? 0) + 1);
+        }
+      }
+      return {
+        rows: [...counts].map(([node_id, pending]) => ({ node_id, pending })),
+      };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  const pool = () => ({ query: vi.fn(run) });
+
+  const listenClient = () => {
+    const handlers = new Set<(msg: any) => void>();
+    const client = {
+      query: vi.fn(async (text: string, values?: any[]) => {
+        const m = text.match(/^LISTEN (\w+)$/);
+        if (!m) return run(text, values);
+        if (!listeners.has(m[1])) listeners.set(m[1], new Set());
+        for (const handler of handlers) listeners.get(m[1])?.add(handler);
+        return { rows: [] };
+      }),
+      on: vi.fn((_event: string, handler: (msg: any) => void) => {
+        handlers.add(handler);
+      }),
+      removeListener: vi.fn((_event: string, handler: (msg: any) => void) => {
+        handlers.delete(handler);
+        for (const set of listeners.values()) set.delete(handler);
+      }),
+      end: vi.fn(async () => {}),
+    };
+    return client;
+  };
+
+  return { queue, presence, pool, listenClient };
+}
+
+const adapters: PostgresAdapter[] = [];
+function createAdapter(
+  pg: ReturnType<typeof createFakePostgres>,
+  options: Partial<ConstructorParameters<typeof PostgresAdapter>[0]> = {},
+) {
+  const adapter = new PostgresAdapter({
+    pool: pg.pool(),
+    listenClient: pg.listenClient(),
+    ...options,
+  });
+  adapters.push(adapter);
+  return adapter;
+}
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await Promise.all(adapters.splice(0).map((a) => a.disconnect()));
+});
+
+describe("PostgresAdapter", () => {
+  it("rejects table prefixes that aren't plain identifiers", () => {
+    const pg = createFakePostgres();
+    expect(
+      () =>
+        new PostgresAdapter({
+          pool: pg.pool(),
+          listenClient: pg.listenClient(),
+          tablePrefix: "ocpp; DROP TABLE x; --",
+        }),
+    ).toThrow(/tablePrefix/);
+  });
+
+  it("broadcasts over LISTEN/NOTIFY", async () => {
+    const pg = createFakePostgres();
+    const a = createAdapter(pg);
+    const b = createAdapter(pg);
+
+    const received: unknown[] = [];
+    await b.subscribe("ocpp:broadcast", (data) => received.push(data));
+    await b.subscribe("ocpp:other", () => {
+      throw new Error("Handler failed");
+    });
+    await a.publish("ocpp:broadcast", { hello: "world" });
+    await a.publish("ocpp:other", { ignored: true });
+    await vi.waitFor(() => expect(received).toEqual([{ hello: "world" }]));
+
+    await b.unsubscribe("ocpp:broadcast");
+    await a.publish("ocpp:broadcast", { hello: "again" });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(received).toHaveLength(1);
+
+    await expect(
+      a.publish("ocpp:broadcast", { blob: "x".repeat(8000) }),
+    ).rejects.toThrow(/NOTIFY limit/);
+  });
+
+  it("queues node unicast and delivers it at least once", async () => {
+    const pg = createFakePostgres();
+    const sender = createAdapter(pg);
+    const receiver = createAdapter(pg);
+
+    const received: unknown[] = [];
+    await receiver.subscribe("ocpp:node:n1", (data) => received.push(data));
+    await sender.publishBatch([
+      { channel: "ocpp:node:n1", data: { m: 1 } },
+      { channel: "ocpp:node:n2", data: { m: 2 } },
+      { channel: "ocpp:node:n1", data: { m: 3 } },
+    ]);
+    await vi.waitFor(() => expect(received).toEqual([{ m: 1 }, { m: 3 }]));
+    await vi.waitFor(() => expect(pg.queue.map((r) => r.node_id)).toEqual(["n2"]));
+    expect(await receiver.metrics()).toEqual({
+      pendingMessages: 0,
+      activeStreams: 1,
+      streamDetails: { n1: 0 },
+    });
+
+    // Sent while the node is away, delivered once it is back
+    await receiver.unsubscribe("ocpp:node:n1");
+    await sender.publish("ocpp:node:n1", { m: 4 });
+    const restarted = createAdapter(pg);
+    await restarted.subscribe("ocpp:node:n1", (data) => received.push(data));
+    await vi.waitFor(() => expect(received).toHaveLength(3));
+    expect(received[2]).toEqual({ m: 4 });
+  });
+
+  it("redelivers rows whose delete failed", async () => {
+    const pg = createFakePostgres();
+    const pool = pg.pool();
+    const query = pool.query.getMockImplementation()!;
+    let failed = false;
+    pool.query.mockImplementation(async (text: string, values?: any[]) => {
+      if (/DELETE FROM \w+_queue WHERE id/.test(text) && !failed) {
+        failed = true;
+        throw new Error("connection lost");
+      }
+      return query(text, values);
+    });
+    const adapter = createAdapter(pg, { pool, pollIntervalMs: 20 });
+
+    const handler = vi.fn();
+    await adapter.subscribe("ocpp:node:n1", handler);
+    await adapter.publish("ocpp:node:n1", { m: 1 });
+
+    await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+    expect(handler).toHaveBeenNthCalledWith(2, { m: 1 });
+    await vi.waitFor(() => expect(pg.queue).toHaveLength(0));
+  });
+
+  it("keeps presence with expiry timestamps", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const pg = createFakePostgres();
+    const adapter = createAdapter(pg, { presenceTtlSeconds: 30 });
+
+    await adapter.setPresence("CP-1", "node-a", 60);
+    expect(await adapter.getPresence("CP-1")).toBe("node-a");
+
+    await adapter.setPresenceBatch([
+      { identity: "CP-2", nodeId: "node-b" },
+      { identity: "CP-3", nodeId: "node-b", ttl: 120 },
+      { identity: "CP-3", nodeId: "node-c", ttl: 120 },
+    ]);
+    expect(await adapter.getPresenceBatch(["CP-2", "CP-9", "CP-3"])).toEqual([
+      "node-b",
+      null,
+      "node-c",
+    ]);
+    expect(await adapter.getPresenceBatch([])).toEqual([]);
+
+    vi.setSystemTime(Date.now() + 31_000);
+    expect(await adapter.getPresence("CP-2")).toBeNull();
+    expect(await adapter.getPresence("CP-1")).toBe("node-a");
+    expect(await adapter.listPresence()).toEqual([
+      { identity: "CP-1", nodeId: "node-a" },
+      { identity: "CP-3", nodeId: "node-c" },
+    ]);
+
+    await adapter.removePresence("CP-1");
+    expect(await adapter.getPresence("CP-1")).toBeNull();
+  });
+
+  it("closes only the LISTEN connection on disconnect", async () => {
+    const pg = createFakePostgres();
+    const pool = pg.pool();
+    const listenClient = pg.listenClient();
+    const adapter = new PostgresAdapter({ pool, listenClient });
+    const handler = vi.fn();
+    await adapter.subscribe("ocpp:broadcast", handler);
+
+    await adapter.disconnect();
+    expect(listenClient.end).toHaveBeenCalled();
+    expect(listenClient.removeListener).toHaveBeenCalled();
+
+    await createAdapter(pg).publish("ocpp:broadcast", {});
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe("PostgresAdapter cross-node routing", () => {
+  let serverA: OCPPServer;
+  let serverB: OCPPServer;
+  let client: OCPPClient;
+
+  afterEach(async () => {
+    await client?.close({ force: true }).catch(() => {});
+    await serverA?.close({ force: true }).catch(() => {});
+    await serverB?.close({ force: true }).catch(() => {});
+  });
+
+  it("routes sendToClient to the node holding the connection", async () => {
+    const pg = createFakePostgres();
+    serverA = new OCPPServer({});
+    await serverA.setAdapter(createAdapter(pg));
+    const http = await serverA.listen(0);
+    const port = (http.address() as AddressInfo).port;
+
+    serverB = new OCPPServer({});
+    await serverB.setAdapter(createAdapter(pg));
+
+    client = new OCPPClient({
+      identity: "CP-PG",
+      endpoint: `ws://127.0.0.1:${port}`,
+      reconnect: false,
+    });
+    client.handle("Reset", () => ({ status: "Accepted" }));
+    await client.connect();
+
+    await vi.waitFor(() =>
+      expect(pg.presence.get("CP-PG")?.node_id).toBe((serverA as any)._nodeId),
+    );
+    const res = await serverB.sendToClient("CP-PG", "Reset", { type: "Soft" });
+    expect(res).toEqual({ status: "Accepted" });
+  });
+});
@@ -390,6 +390,42 @@ describe("RedisAdapter Presence", () => {
     expect(pub.pipeline).toHaveBeenCalled();
   });
 
+  it("should list presence with SCAN", async () => {
+    const pub = {
+      ...createPresenceMock(),
+      scan: vi
+        .fn()
+        .mockResolvedValueOnce(["17", ["p:presence:CP-1"]])
+        .mockResolvedValueOnce(["0", ["p:presence:CP-2", "p:presence:CP-1"]]),
+    };
+    const sub = createPresenceMock();
+    const adapter = new RedisAdapter({
+      pubClient: pub,
+      subClient: sub,
+      prefix: "p:",
+    });
+
+    pub.mget.mockResolvedValue(["node-a", null]);
+    expect(await adapter.listPresence()).toEqual([
+      { identity: "CP-1", nodeId: "node-a" },
+    ]);
+    expect(pub.scan).toHaveBeenCalledWith(
+      "0",
+      "MATCH",
+      "p:presence:*",
+      "COUNT",
+      1000,
+    );
+    expect(pub.scan).toHaveBeenLastCalledWith(
+      "17",
+      "MATCH",
+      "p:presence:*",
+      "COUNT",
+      1000,
+    );
+    expect(pub.mget).toHaveBeenCalledWith("p:presence:CP-1", "p:presence:CP-2");
+  });
+
   it("should return early for empty setPresenceBatch", async () => {
     const pub = createPresenceMock();
     const sub = createPresenceMock();
@@ -0,0 +1,213 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  InMemorySecurityAuditSink,
+  securityAuditPlugin,
+} from "../src/plugins/security-audit.js";
+import {
+  classifySecurityEvent,
+  fromSecurityEventNotification,
+} from "../src/security-events.js";
+import {
+  callIn,
+  connectStation,
+  fakeServer,
+  fakeStation,
+} from "./helpers/plugins.js";
+
+function auditStation(handlers: string[] = []) {
+  const station = fakeStation({ protocol: "ocpp2.0.1" });
+  for (const method of handlers) station.handlers.set(method, () => ({}));
+  return station.client;
+}
+
+const notification = (type: string, techInfo?: string) =>
+  callIn("SecurityEventNotification", {
+    type,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    techInfo,
+  });
+
+describe("security event taxonomy", () => {
+  it("classifies server and station events", () => {
+    const at = new Date().toISOString();
+    expect(classifySecurityEvent({ type: "AUTH_FAILED", timestamp: at })).toEqual(
+      { category: "authentication", severity: "medium" },
+    );
+    expect(
+      classifySecurityEvent({ type: "CLIENT_CERT_REVOKED", timestamp: at }),
+    ).toEqual({ category: "certificate", severity: "high" });
+    // An explicit severity wins
+    expect(
+      classifySecurityEvent({
+        type: "INVALID_PAYLOAD",
+        severity: "high",
+        timestamp: at,
+      }).severity,
+    ).toBe("high");
+
+    const tamper = fromSecurityEventNotification("CP-1", {
+      type: "TamperDetectionActivated",
+      timestamp: at,
+      techInfo: "Door sensor",
+    });
+    expect(tamper).toMatchObject({
+      type: "STATION_SECURITY_EVENT",
+      source: "station",
+      severity: "critical",
+      identity: "CP-1",
+      details: { stationType: "TamperDetectionActivated", techInfo: "Door sensor" },
+    });
+    expect(classifySecurityEvent(tamper).category).toBe("tamper");
+    // 1.6 names map like their 2.x counterparts; unknown types are medium
+    expect(
+      fromSecurityEventNotification("CP-1", {
+        type: "InvalidCentralSystemCertificate",
+        timestamp: at,
+      }).severity,
+    ).toBe("high");
+    expect(
+      classifySecurityEvent(
+        fromSecurityEventNotification("CP-1", {
+          type: "VendorSpecificThing",
+          timestamp: at,
+        }),
+      ),
+    ).toEqual({ category: "other", severity: "medium" });
+  });
+});
+
+describe("securityAuditPlugin", () => {
+  it("forwards station notifications and records every security event", async () => {
+    const sink = new InMemorySecurityAuditSink();
+    const plugin = securityAuditPlugin({ sink });
+    const server = fakeServer();
+    plugin.onInit?.(server);
+
+    const station = auditStation();
+    plugin.onConnection?.(station);
+    expect(station.handle).toHaveBeenCalledWith(
+      "SecurityEventNotification",
+      expect.any(Function),
+    );
+    expect(station.handle.mock.calls[0][1]()).toEqual({});
+
+    plugin.onMessage?.(station, notification("SecurityLogWasCleared"));
+    expect(server.emitSecurityEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "STATION_SECURITY_EVENT",
+        ip: "10.0.0.7",
+      }),
+    );
+    // Emitted straight on the server, like anomalyPlugin does
+    server.emit("securityEvent", {
+      type: "ANOMALY_RAPID_RECONNECT",
+      identity: "CP-2",
+      timestamp: new Date().toISOString(),
+    });
+
+    await vi.waitFor(async () =>
+      expect(await plugin.query()).toHaveLength(2),
+    );
+    const [anomaly, stationEvent] = await plugin.query();
+    expect(anomaly).toMatchObject({
+      source: "server",
+      severity: "high",
+      category: "anomaly",
+      id: expect.any(String),
+    });
+    expect(stationEvent).toMatchObject({
+      source: "station",
+      severity: "critical",
+      category: "tamper",
+    });
+    expect(
+      await plugin.query({ minSeverity: "critical", identity: "CP-1" }),
+    ).toHaveLength(1);
+    expect(await plugin.query({ source: "server", category: "tamper" })).toEqual(
+      [],
+    );
+
+    plugin.onClose?.();
+    expect(server.listenerCount("securityEvent")).toBe(0);
+  });
+
+  it("leaves application handlers alone and survives sink failures", async () => {
+    const warn = vi.fn();
+    const plugin = securityAuditPlugin({
+      sink: { write: () => Promise.reject(new Error("disk full")) },
+      logger: { warn },
+    });
+    const server = fakeServer();
+    plugin.onInit?.(server);
+
+    const station = auditStation(["SecurityEventNotification"]);
+    plugin.onConnection?.(station);
+    expect(station.handle).not.toHaveBeenCalled();
+
+    plugin.onMessage?.(station, notification("StartupOfTheDevice"));
+    await vi.waitFor(() =>
+      expect(warn).toHaveBeenCalledWith(
+        "security-audit: sink write failed",
+        expect.objectContaining({ error: "disk full" }),
+      ),
+    );
+    await expect(plugin.query()).rejects.toThrow("does not support queries");
+  });
+
+  it("keeps the newest entries in memory", async () => {
+    const sink = new InMemorySecurityAuditSink(2);
+    for (const id of ["a", "b", "c"]) {
+      sink.write({
+        id,
+        type: "AUTH_FAILED",
+        source: "server",
+        severity: "medium",
+        category: "authentication",
+        timestamp: new Date().toISOString(),
+      });
+    }
+    expect((await sink.query()).map((r) => r.id)).toEqual(["c", "b"]);
+    expect((await sink.query({ limit: 1 })).map((r) => r.id)).toEqual(["c"]);
+  });
+});
+
+describe("securityAuditPlugin — through a server", () => {
+  let pair: Awaited<ReturnType<typeof connectStation>> | undefined;
+
+  afterEach(async () => {
+    await pair?.close();
+    pair = undefined;
+  });
+
+  it("records station notifications and server events", async () => {
+    const plugin = securityAuditPlugin();
+    pair = await connectStation([plugin], { protocol: "ocpp2.0.1" });
+
+    expect(
+      await pair.client.call("SecurityEventNotification", {
+        type: "TamperDetectionActivated",
+        timestamp: new Date().toISOString(),
+      }),
+    ).toEqual({});
+    pair.server.emitSecurityEvent({
+      type: "AUTH_FAILED",
+      identity: "CP-9",
+      timestamp: new Date().toISOString(),
+    });
+
+    await vi.waitFor(async () =>
+      expect(await plugin.query()).toHaveLength(2),
+    );
+    expect(await plugin.query({ identity: "CP-1" })).toMatchObject([
+      {
+        type: "STATION_SECURITY_EVENT",
+        source: "station",
+        category: "tamper",
+        details: { stationType: "TamperDetectionActivated" },
+      },
+    ]);
+    expect(await plugin.query({ source: "server" })).toMatchObject([
+      { type: "AUTH_FAILED", category: "authentication" },
+    ]);
+  });
+});
@@ -0,0 +1,344 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { upgradeSecurityProfile } from "../src/security-profile.js";
+import type { OCPPServer } from "../src/server.js";
+import { SecurityProfile } from "../src/types.js";
+import {
+  connectStation,
+  fakeServer,
+  fakeStation,
+  startServer,
+} from "./helpers/plugins.js";
+
+function profileStation(
+  securityProfile: SecurityProfile,
+  protocol = "ocpp2.0.1",
+  answer: (method: string, params: any) => unknown = defaultAnswer,
+) {
+  return fakeStation({ protocol, answer, handshake: { securityProfile } })
+    .client;
+}
+
+function defaultAnswer(method: string) {
+  switch (method) {
+    case "GetVariables":
+      return {
+        getVariableResult: [
+          { attributeStatus: "Accepted", attributeValue: "0,1" },
+        ],
+      };
+    case "SetVariables":
+      return { setVariableResult: [{ attributeStatus: "Accepted" }] };
+    case "Reset":
+      return { status: "Scheduled" };
+    default:
+      return { status: "Accepted" };
+  }
+}
+
+const networkProfile = {
+  configurationSlot: 2,
+  connectionData: {
+    ocppVersion: "OCPP20",
+    ocppTransport: "JSON",
+    ocppCsmsUrl: "wss://csms.example.com/ocpp",
+    messageTimeout: 30,
+    ocppInterface: "Wired0",
+  } as const,
+};
+
+describe("upgradeSecurityProfile", () => {
+  it("pushes the 2.x network profile and verifies the reconnect", async () => {
+    const old = profileStation(SecurityProfile.BASIC_AUTH);
+    const server = fakeServer(old);
+    const tlsServer = fakeServer();
+
+    const pending = upgradeSecurityProfile(server, "CP-1", {
+      securityProfile: SecurityProfile.TLS_BASIC_AUTH,
+      password: "s3cret-s3cret-s3cret",
+      networkProfile,
+      servers: [server, tlsServer],
+    });
+    await vi.waitFor(() => expect(old.call).toHaveBeenCalledTimes(5));
+    tlsServer.reconnect(profileStation(SecurityProfile.TLS_BASIC_AUTH));
+
+    expect(await pending).toMatchObject({
+      status: "upgraded",
+      fromProfile: 1,
+      toProfile: 2,
+      currentProfile: 2,
+      passwordChanged: true,
+    });
+    expect(old.call.mock.calls.map(([m, p]: any[]) => [m, p])).toEqual([
+      ["GetVariables", { getVariableData: [expect.any(Object)] }],
+      [
+        "SetNetworkProfile",
+        {
+          configurationSlot: 2,
+          connectionData: { ...networkProfile.connectionData, securityProfile: 2 },
+        },
+      ],
+      [
+        "SetVariables",
+        {
+          setVariableData: [
+            expect.objectContaining({ attributeValue: "2,0,1" }),
+          ],
+        },
+      ],
+      [
+        "SetVariables",
+        {
+          setVariableData: [
+            {
+              component: { name: "SecurityCtrlr" },
+              variable: { name: "BasicAuthPassword" },
+              attributeValue: "s3cret-s3cret-s3cret",
+            },
+          ],
+        },
+      ],
+      ["Reset", { type: "OnIdle" }],
+    ]);
+    expect(tlsServer.listenerCount("client")).toBe(0);
+  });
+
+  it("rolls back when the station falls back to its old profile", async () => {
+    const old = profileStation(SecurityProfile.BASIC_AUTH);
+    const server = fakeServer(old);
+    const pending = upgradeSecurityProfile(server, "CP-1", {
+      securityProfile: SecurityProfile.TLS_BASIC_AUTH,
+      networkProfile,
+    });
+    await vi.waitFor(() => expect(old.call).toHaveBeenCalledTimes(4));
+
+    const back = profileStation(SecurityProfile.BASIC_AUTH);
+    server.reconnect(back);
+    expect(await pending).toMatchObject({
+      status: "rolledBack",
+      currentProfile: 1,
+      reason: "Reconnected with security profile 1",
+    });
+    expect(back.call.mock.calls).toEqual([
+      [
+        "SetVariables",
+        {
+          setVariableData: [
+            expect.objectContaining({ attributeValue: "0,1" }),
+          ],
+        },
+        undefined,
+      ],
+    ]);
+  });
+
+  it("rolls back a station that never reconnected", async () => {
+    vi.useFakeTimers();
+    try {
+      const old = profileStation(SecurityProfile.BASIC_AUTH);
+      const server = fakeServer(old);
+      const pending = upgradeSecurityProfile(server, "CP-1", {
+        securityProfile: SecurityProfile.TLS_BASIC_AUTH,
+        networkProfile,
+        timeoutMs: 60_000,
+      });
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(await pending).toMatchObject({
+        status: "rolledBack",
+        reason: "Timeout",
+      });
+      // Still on the old connection — no reset needed
+      expect(old.call.mock.calls.at(-1)[0]).toBe("SetVariables");
+      expect(old.call.mock.calls.at(-1)[1].setVariableData[0].attributeValue).toBe(
+        "0,1",
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("reports a rejected push and rolls back the priority", async () => {
+    const old = profileStation(SecurityProfile.BASIC_AUTH, "ocpp2.0.1", (m) =>
+      m === "Reset" ? { status: "Rejected" } : defaultAnswer(m),
+    );
+    const result = await upgradeSecurityProfile(fakeServer(old), "CP-1", {
+      securityProfile: SecurityProfile.TLS_BASIC_AUTH,
+      networkProfile,
+    });
+    expect(result).toMatchObject({ status: "failed", reason: "Reset Rejected" });
+    expect(old.call.mock.calls.at(-1)[1].setVariableData[0].attributeValue).toBe(
+      "0,1",
+    );
+  });
+
+  it("reports a password it could not roll back", async () => {
+    const old = profileStation(SecurityProfile.BASIC_AUTH, "ocpp2.0.1", (m) =>
+      m === "Reset" ? { status: "Rejected" } : defaultAnswer(m),
+    );
+    const result = await upgradeSecurityProfile(fakeServer(old), "CP-1", {
+      securityProfile: SecurityProfile.TLS_BASIC_AUTH,
+      password: "s3cret-s3cret-s3cret",
+      networkProfile,
+    });
+    expect(result).toMatchObject({
+      status: "failed",
+      reason: "Reset Rejected",
+      passwordChanged: true,
+    });
+
+    // A rejected network profile stops before the password is touched
+    const refused = profileStation(SecurityProfile.BASIC_AUTH, "ocpp2.0.1", (m) =>
+      m === "SetNetworkProfile" ? { status: "Rejected" } : defaultAnswer(m),
+    );
+    const early = await upgradeSecurityProfile(fakeServer(refused), "CP-1", {
+      securityProfile: SecurityProfile.TLS_BASIC_AUTH,
+      password: "s3cret-s3cret-s3cret",
+      networkProfile,
+    });
+    expect(early).toMatchObject({ status: "failed" });
+    expect(early.passwordChanged).toBeUndefined();
+    expect(
+      refused.call.mock.calls.some(
+        ([, p]: any[]) =>
+          p.setVariableData?.[0].variable.name === "BasicAuthPassword",
+      ),
+    ).toBe(false);
+  });
+
+  it("reports a 1.6 station that reverted by itself as failed", async () => {
+    const old = profileStation(SecurityProfile.BASIC_AUTH, "ocpp1.6");
+    const server = fakeServer(old);
+    const pending = upgradeSecurityProfile(server, "CP-1", {
+      securityProfile: SecurityProfile.TLS_BASIC_AUTH,
+      password: "s3cret-s3cret-s3cret",
+    });
+    await vi.waitFor(() => expect(old.call).toHaveBeenCalledTimes(2));
+
+    const back = profileStation(SecurityProfile.BASIC_AUTH, "ocpp1.6");
+    server.reconnect(back);
+    expect(await pending).toMatchObject({
+      status: "failed",
+      currentProfile: 1,
+      reason: "Reconnected with security profile 1",
+      passwordChanged: true,
+    });
+    expect(back.call).not.toHaveBeenCalled();
+  });
+
+  it("refuses a second upgrade of the same station while one runs", async () => {
+    const old = profileStation(SecurityProfile.BASIC_AUTH);
+    const server = fakeServer(old);
+    const options = {
+      securityProfile: SecurityProfile.TLS_BASIC_AUTH,
+      networkProfile,
+    };
+    const pending = upgradeSecurityProfile(server, "CP-1", options);
+    await expect(
+      upgradeSecurityProfile(server, "CP-1", options),
+    ).rejects.toThrow("already running");
+
+    await vi.waitFor(() => expect(old.call).toHaveBeenCalledTimes(4));
+    server.reconnect(profileStation(SecurityProfile.TLS_BASIC_AUTH));
+    expect((await pending).status).toBe("upgraded");
+
+    // Done — the station can be upgraded again
+    const next = upgradeSecurityProfile(server, "CP-1", {
+      securityProfile: SecurityProfile.TLS_CLIENT_CERT,
+      networkProfile: { ...networkProfile, configurationSlot: 3 },
+      timeoutMs: 0,
+    });
+    expect(await next).toMatchObject({ status: "rolledBack", reason: "Timeout" });
+  });
+
+  it("uses ChangeConfiguration for OCPP 1.6", async () => {
+    const old = profileStation(SecurityProfile.TLS_BASIC_AUTH, "ocpp1.6");
+    const server = fakeServer(old);
+    const pending = upgradeSecurityProfile(server, "CP-1", {
+      securityProfile: SecurityProfile.TLS_CLIENT_CERT,
+    });
+    await vi.waitFor(() => expect(old.call).toHaveBeenCalled());
+    server.reconnect(profileStation(SecurityProfile.TLS_CLIENT_CERT, "ocpp1.6"));
+
+    expect((await pending).status).toBe("upgraded");
+    expect(old.call).toHaveBeenCalledWith(
+      "ChangeConfiguration",
+      { key: "SecurityProfile", value: "3" },
+      undefined,
+    );
+  });
+
+  it("refuses downgrades and 2.x upgrades without a network profile", async () => {
+    const server = fakeServer(profileStation(SecurityProfile.TLS_BASIC_AUTH));
+    await expect(
+      upgradeSecurityProfile(server, "CP-1", {
+        securityProfile: SecurityProfile.BASIC_AUTH,
+        networkProfile,
+      }),
+    ).rejects.toThrow("not an upgrade");
+    await expect(
+      upgradeSecurityProfile(server, "CP-1", {
+        securityProfile: SecurityProfile.TLS_CLIENT_CERT,
+      }),
+    ).rejects.toThrow("networkProfile is required");
+    await expect(
+      upgradeSecurityProfile(server, "CP-9", {
+        securityProfile: SecurityProfile.TLS_CLIENT_CERT,
+      }),
+    ).rejects.toThrow("not connected");
+  });
+});
+
+describe("upgradeSecurityProfile — through a server", () => {
+  const pairs: Awaited<ReturnType<typeof connectStation>>[] = [];
+  let basicAuth: OCPPServer | undefined;
+
+  afterEach(async () => {
+    for (const pair of pairs.splice(0)) await pair.close();
+    await basicAuth?.close({ force: true }).catch(() => {});
+    basicAuth = undefined;
+  });
+
+  it("moves a 1.6 station to a Basic Auth server", async () => {
+    basicAuth = await startServer([], {
+      securityProfile: SecurityProfile.BASIC_AUTH,
+    });
+    const changes: string[] = [];
+    const pair = await connectStation([], {
+      handlers: {
+        ChangeConfiguration: ({ params }) => {
+          changes.push(params.key);
+          if (params.key === "SecurityProfile") {
+            // Reconnect with the new profile once the answer is out
+            setTimeout(async () => {
+              await pair.client.close({ force: true });
+              pairs.push(
+                await connectStation([], {
+                  server: basicAuth!,
+                  clientOptions: {
+                    securityProfile: SecurityProfile.BASIC_AUTH,
+                    password: "s3cret-s3cret-s3cret",
+                  },
+                }),
+              );
+            }, 10);
+          }
+          return { status: "Accepted" };
+        },
+      },
+    });
+    pairs.push(pair);
+
+    const result = await pair.server.upgradeSecurityProfile("CP-1", {
+      securityProfile: SecurityProfile.BASIC_AUTH,
+      password: "s3cret-s3cret-s3cret",
+      servers: [pair.server, basicAuth],
+    });
+    expect(result).toMatchObject({
+      status: "upgraded",
+      fromProfile: 0,
+      toProfile: 1,
+      currentProfile: 1,
+      passwordChanged: true,
+    });
+    expect(changes).toEqual(["AuthorizationKey", "SecurityProfile"]);
+  });
+});
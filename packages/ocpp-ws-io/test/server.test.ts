@@ -448,6 +448,15 @@ describe("OCPPServer - Robustness & Clustering", () => {
     vi.useRealTimers();
   });
 
+  it("should use a configured nodeId and reject an empty one", () => {
+    server = new OCPPServer({ nodeId: "node-a" });
+    expect(server.nodeId).toBe("node-a");
+    expect(new OCPPServer({}).nodeId).not.toBe(new OCPPServer({}).nodeId);
+    expect(() => new OCPPServer({ nodeId: " " })).toThrow(
+      "nodeId must be a non-empty string",
+    );
+  });
+
   it("should broadcast to local clients and publish to adapter", async () => {
     server = new OCPPServer({ protocols: ["ocpp1.6"] });
     server.auth((ctx) => ctx.accept({ protocol: "ocpp1.6" }));
@@ -0,0 +1,341 @@
+import { randomBytes } from "node:crypto";
+import { type IncomingHttpHeaders, request } from "node:http";
+import { type AddressInfo, createServer } from "node:net";
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { InMemoryAdapter } from "../src/adapters/adapter.js";
+import { OCPPClient } from "../src/client.js";
+import { HashRing } from "../src/cluster.js";
+import { OCPPServer } from "../src/server.js";
+import { SecurityProfile, type ServerOptions } from "../src/types.js";
+
+/** A port nothing listens on yet, so a node can advertise it up front. */
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const srv = createServer();
+    srv.on("error", reject);
+    srv.listen(0, "127.0.0.1", () => {
+      const { port } = srv.address() as AddressInfo;
+      srv.close(() => resolve(port));
+    });
+  });
+}
+
+/** Raw upgrade request, so redirect responses can be inspected. */
+function upgrade(
+  port: number,
+  path: string,
+): Promise<{ statusCode: number; headers: IncomingHttpHeaders }> {
+  return new Promise((resolve, reject) => {
+    const req = request({
+      host: "127.0.0.1",
+      port,
+      path,
+      headers: {
+        Connection: "Upgrade",
+        Upgrade: "websocket",
+        "Sec-WebSocket-Version": "13",
+        "Sec-WebSocket-Key": randomBytes(16).toString("base64"),
+      },
+    });
+    req.on("response", (res) => {
+      res.resume();
+      resolve({ statusCode: res.statusCode ?? 0, headers: res.headers });
+    });
+    req.on("upgrade", (res, socket) => {
+      socket.destroy();
+      resolve({ statusCode: res.statusCode ?? 101, headers: res.headers });
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+describe("identity sharding", () => {
+  const servers: OCPPServer[] = [];
+  const clients: OCPPClient[] = [];
+
+  afterEach(async () => {
+    for (const c of clients.splice(0)) {
+      await c.close({ force: true }).catch(() => {});
+    }
+    for (const s of servers.splice(0)) {
+      await s.close({ force: true }).catch(() => {});
+    }
+  });
+
+  async function startNode(
+    adapter: InMemoryAdapter,
+    sharding: ServerOptions["sharding"] = {},
+    port = 0,
+  ) {
+    const server = new OCPPServer({ sharding });
+    servers.push(server);
+    await server.setAdapter(adapter);
+    const http = await server.listen(port);
+    return { server, port: (http.address() as AddressInfo).port };
+  }
+
+  /** First generated identity whose owner is `nodeId`. */
+  function ownedBy(server: OCPPServer, nodeId: string): string {
+    for (let i = 0; ; i++) {
+      if (server.shardOwner(`CP-${i}`) === nodeId) return `CP-${i}`;
+    }
+  }
+
+  test("validates the advertised URL", () => {
+    expect(
+      () => new OCPPServer({ sharding: { advertisedUrl: "node-a:9220" } }),
+    ).toThrow(/advertisedUrl/);
+    expect(
+      () => new OCPPServer({ sharding: { advertisedUrl: "ftp://node-a" } }),
+    ).toThrow(/advertisedUrl/);
+    expect(
+      () =>
+        new OCPPServer({ sharding: { advertisedUrl: "wss://node-a:9220" } }),
+    ).not.toThrow();
+  });
+
+  test("is inactive without an adapter", () => {
+    const server = new OCPPServer({ sharding: {} });
+    servers.push(server);
+    expect(server.shardOwner("CP-1")).toBeNull();
+  });
+
+  test("redirects upgrades for identities owned by another node", async () => {
+    const adapter = new InMemoryAdapter();
+    const a = await startNode(adapter, { advertisedUrl: "ws://node-a.test" });
+    const b = await startNode(adapter);
+
+    const foreign = ownedBy(b.server, a.server.nodeId);
+    const res = await upgrade(b.port, `/ocpp/${foreign}?v=1`);
+    expect(res.statusCode).toBe(307);
+    expect(res.headers.location).toBe(`ws://node-a.test/ocpp/${foreign}?v=1`);
+    expect(res.headers["x-ocpp-owner-node"]).toBe(a.server.nodeId);
+
+    const own = ownedBy(b.server, b.server.nodeId);
+    expect((await upgrade(b.port, `/ocpp/${own}`)).statusCode).toBe(101);
+  });
+
+  test("keeps redirects on the owner's origin", async () => {
+    const adapter = new InMemoryAdapter();
+    const a = await startNode(adapter, {
+      advertisedUrl: "ws://node-a.test/ignored",
+    });
+    const b = await startNode(adapter);
+
+    const foreign = ownedBy(b.server, a.server.nodeId);
+    const res = await upgrade(b.port, `//evil.test/ocpp/${foreign}?v=1`);
+    expect(res.statusCode).toBe(307);
+    expect(res.headers.location).toBe(`ws://node-a.test/ocpp/${foreign}?v=1`);
+  });
+
+  test("authenticates before revealing the owner", async () => {
+    const adapter = new InMemoryAdapter();
+    const a = await startNode(adapter, { advertisedUrl: "ws://node-a.test" });
+    const b = await startNode(adapter);
+    b.server.auth((ctx) => ctx.reject(401, "Unauthorized"));
+
+    const foreign = ownedBy(b.server, a.server.nodeId);
+    const res = await upgrade(b.port, `/${foreign}`);
+    expect(res.statusCode).toBe(401);
+    expect(res.headers.location).toBeUndefined();
+    expect(res.headers["x-ocpp-owner-node"]).toBeUndefined();
+  });
+
+  test("clients with followRedirects connect to the owner", async () => {
+    const adapter = new InMemoryAdapter();
+    const portA = await freePort();
+    const a = await startNode(
+      adapter,
+      { advertisedUrl: `ws://127.0.0.1:${portA}` },
+      portA,
+    );
+    const b = await startNode(adapter);
+    const identity = ownedBy(b.server, a.server.nodeId);
+
+    const stubborn = new OCPPClient({
+      identity,
+      endpoint: `ws://127.0.0.1:${b.port}`,
+      reconnect: false,
+    });
+    clients.push(stubborn);
+    await expect(stubborn.connect()).rejects.toMatchObject({
+      name: "UnexpectedHttpResponse",
+      statusCode: 307,
+    });
+
+    const client = new OCPPClient({
+      identity,
+      endpoint: `ws://127.0.0.1:${b.port}`,
+      reconnect: false,
+      followRedirects: true,
+    });
+    clients.push(client);
+    const connected = new Promise((resolve) =>
+      a.server.once("client", resolve),
+    );
+    await client.connect();
+    await connected;
+    expect(a.server.getLocalClient(identity)).toBeDefined();
+  });
+
+  test("clients drop Basic Auth on a redirect to another origin", async () => {
+    const adapter = new InMemoryAdapter();
+    const portA = await freePort();
+    const a = await startNode(
+      adapter,
+      { advertisedUrl: `ws://127.0.0.1:${portA}` },
+      portA,
+    );
+    const b = await startNode(adapter);
+    const passwords: Array<string | undefined> = [];
+    for (const { server } of [a, b]) {
+      server.auth((ctx) => {
+        passwords.push(ctx.handshake.password?.toString());
+        ctx.accept();
+      });
+    }
+    const identity = ownedBy(b.server, a.server.nodeId);
+
+    const client = new OCPPClient({
+      identity,
+      endpoint: `ws://127.0.0.1:${b.port}`,
+      reconnect: false,
+      followRedirects: true,
+      securityProfile: SecurityProfile.BASIC_AUTH,
+      password: "secret",
+    });
+    clients.push(client);
+    await client.connect();
+
+    // Node B (the configured endpoint) got it, the owner on another port didn't
+    expect(passwords).toEqual(["secret", undefined]);
+  });
+
+  test("sends a hint when the owner has no advertised URL", async () => {
+    const adapter = new InMemoryAdapter();
+    const a = await startNode(adapter);
+    const b = await startNode(adapter);
+
+    const foreign = ownedBy(a.server, b.server.nodeId);
+    const res = await upgrade(a.port, `/${foreign}`);
+    expect(res.statusCode).toBe(421);
+    expect(res.headers["x-ocpp-owner-node"]).toBe(b.server.nodeId);
+    expect(res.headers.location).toBeUndefined();
+  });
+
+  test("routes sendToClient to the owner without a presence lookup", async () => {
+    const adapter = new InMemoryAdapter();
+    const a = await startNode(adapter);
+    const b = await startNode(adapter);
+
+    const identity = ownedBy(a.server, a.server.nodeId);
+    const client = new OCPPClient({
+      identity,
+      endpoint: `ws://127.0.0.1:${a.port}`,
+      reconnect: false,
+    });
+    clients.push(client);
+    client.handle("Reset", () => ({ status: "Accepted" }));
+    await client.connect();
+
+    const getPresence = vi.spyOn(adapter, "getPresence");
+    const res = await b.server.sendToClient(identity, "Reset", {
+      type: "Soft",
+    });
+    expect(res).toEqual({ status: "Accepted" });
+    expect(getPresence).not.toHaveBeenCalled();
+  });
+
+  test("moves connections to a joining node with close code 1012", async () => {
+    const adapter = new InMemoryAdapter();
+    const a = await startNode(adapter, { rebalanceDelayMs: 0 });
+
+    const futureNodeId = "node-zz";
+    // Predict ownership with the joining node in place
+    const ring = new HashRing();
+    ring.setNodes([a.server.nodeId, futureNodeId]);
+    let identity = "";
+    for (let i = 0; !identity; i++) {
+      if (ring.owner(`CP-${i}`) === futureNodeId) identity = `CP-${i}`;
+    }
+
+    const client = new OCPPClient({
+      identity,
+      endpoint: `ws://127.0.0.1:${a.port}`,
+      reconnect: false,
+    });
+    clients.push(client);
+    await client.connect();
+    const closed = new Promise<{ code: number }>((resolve) =>
+      client.once("close", resolve),
+    );
+
+    const changes = vi.fn();
+    a.server.on("clusterChange", changes);
+    await adapter.publish("ocpp:cluster", {
+      type: "heartbeat",
+      nodeId: futureNodeId,
+      startedAt: new Date().toISOString(),
+    });
+
+    expect(changes).toHaveBeenCalledWith(
+      expect.objectContaining({ joined: [futureNodeId], left: [] }),
+    );
+    expect((await closed).code).toBe(1012);
+  });
+
+  test("drops a moved station's presence before closing it", async () => {
+    const adapter = new InMemoryAdapter();
+    const a = await startNode(adapter, { rebalanceDelayMs: 0 });
+
+    const futureNodeId = "node-zz";
+    const ring = new HashRing();
+    ring.setNodes([a.server.nodeId, futureNodeId]);
+    let identity = "";
+    for (let i = 0; !identity; i++) {
+      if (ring.owner(`CP-${i}`) === futureNodeId) identity = `CP-${i}`;
+    }
+
+    const client = new OCPPClient({
+      identity,
+      endpoint: `ws://127.0.0.1:${a.port}`,
+      reconnect: false,
+    });
+    clients.push(client);
+    await client.connect();
+    await vi.waitFor(async () =>
+      expect(await adapter.getPresence(identity)).toBe(a.server.nodeId),
+    );
+    const [serverClient] = a.server.clients;
+    const close = vi.spyOn(serverClient, "close");
+    const removePresence = vi.spyOn(adapter, "removePresence");
+
+    await adapter.publish("ocpp:cluster", {
+      type: "heartbeat",
+      nodeId: futureNodeId,
+      startedAt: new Date().toISOString(),
+    });
+    await vi.waitFor(() => expect(a.server.clients.size).toBe(0));
+
+    // The station may already be registered on its new node by the time
+    // this one sees the close — that entry must survive
+    expect(removePresence).toHaveBeenCalledTimes(1);
+    expect(removePresence.mock.invocationCallOrder[0]).toBeLessThan(
+      close.mock.invocationCallOrder[0],
+    );
+  });
+
+  test("hands identities back when a node leaves", async () => {
+    const adapter = new InMemoryAdapter();
+    const a = await startNode(adapter);
+    const b = await startNode(adapter);
+    const identity = ownedBy(a.server, b.server.nodeId);
+
+    await adapter.publish("ocpp:cluster", {
+      type: "leave",
+      nodeId: b.server.nodeId,
+    });
+    expect(a.server.shardOwner(identity)).toBe(a.server.nodeId);
+  });
+});
@@ -0,0 +1,347 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  InMemoryTransactionStore,
+  type TrackedTransaction,
+  transactionTrackerPlugin,
+} from "../src/plugins/transaction-tracker.js";
+import {
+  callIn,
+  connectStation,
+  fakeStation,
+  resultOut,
+} from "./helpers/plugins.js";
+
+function txEvent(
+  eventType: string,
+  seqNo: number,
+  extra: Record<string, unknown> = {},
+) {
+  return callIn("TransactionEvent", {
+    eventType,
+    seqNo,
+    timestamp: new Date().toISOString(),
+    triggerReason: "Authorized",
+    transactionInfo: { transactionId: "tx-1" },
+    evse: { id: 1, connectorId: 1 },
+    ...extra,
+  });
+}
+
+function record(plugin: ReturnType<typeof transactionTrackerPlugin>) {
+  const events: Array<[string, any]> = [];
+  for (const name of [
+    "transactionStarted",
+    "transactionUpdated",
+    "transactionEnded",
+    "transactionAnomaly",
+  ] as const) {
+    plugin.on(name, (payload: any) => events.push([name, payload]));
+  }
+  return events;
+}
+
+describe("transactionTrackerPlugin — OCPP 1.6", () => {
+  it("tracks start, meter values and stop with energy totals", async () => {
+    const plugin = transactionTrackerPlugin();
+    const events = record(plugin);
+    const client = fakeStation().client;
+
+    const start = callIn("StartTransaction", {
+      connectorId: 1,
+      idTag: "TAG-1",
+      meterStart: 1000,
+      timestamp: "2026-01-01T10:00:00Z",
+    });
+    plugin.onMessage!(client, start);
+    plugin.onMessage!(
+      client,
+      resultOut(start, { transactionId: 42, idTagInfo: { status: "Accepted" } }),
+    );
+    plugin.onMessage!(
+      client,
+      callIn("MeterValues", {
+        connectorId: 1,
+        transactionId: 42,
+        meterValue: [
+          {
+            timestamp: "2026-01-01T10:30:00Z",
+            sampledValue: [
+              { value: "2.5", unit: "kWh" },
+              { value: "7400", measurand: "Power.Active.Import", unit: "W" },
+            ],
+          },
+        ],
+      }),
+    );
+    plugin.onMessage!(
+      client,
+      callIn("StopTransaction", {
+        transactionId: 42,
+        meterStop: 4000,
+        timestamp: "2026-01-01T11:00:00Z",
+        reason: "EVDisconnected",
+      }),
+    );
+
+    await vi.waitFor(() => expect(events).toHaveLength(3));
+    expect(events.map(([name]) => name)).toEqual([
+      "transactionStarted",
+      "transactionUpdated",
+      "transactionEnded",
+    ]);
+    expect(events[1][1].energyWh).toBe(1500);
+    expect(events[2][1]).toMatchObject({
+      transactionId: "42",
+      status: "ended",
+      idToken: "TAG-1",
+      meterStartWh: 1000,
+      energyWh: 3000,
+      stoppedReason: "EVDisconnected",
+    });
+  });
+
+  it("orphans active transactions on BootNotification", async () => {
+    const store = new InMemoryTransactionStore();
+    const plugin = transactionTrackerPlugin({ store });
+    const events = record(plugin);
+    const client = fakeStation().client;
+
+    const start = callIn("StartTransaction", {
+      connectorId: 1,
+      idTag: "TAG-1",
+      meterStart: 0,
+      timestamp: "2026-01-01T10:00:00Z",
+    });
+    plugin.onMessage!(client, start);
+    plugin.onMessage!(client, resultOut(start, { transactionId: 7 }));
+    plugin.onMessage!(client, callIn("BootNotification", {}));
+
+    await vi.waitFor(() =>
+      expect(events.map(([n]) => n)).toContain("transactionEnded"),
+    );
+    expect(events.find(([n]) => n === "transactionAnomaly")?.[1]).toMatchObject(
+      { kind: "orphaned", transactionId: "7" },
+    );
+    expect(await plugin.listActive("CP-1")).toEqual([]);
+    expect((await store.get("CP-1", "7"))?.status).toBe("orphaned");
+  });
+
+  it("flags a retried start that received a new id", async () => {
+    const plugin = transactionTrackerPlugin();
+    const events = record(plugin);
+    const client = fakeStation().client;
+    const params = {
+      connectorId: 1,
+      idTag: "TAG-1",
+      meterStart: 10,
+      timestamp: "2026-01-01T10:00:00Z",
+    };
+
+    for (const transactionId of [1, 2]) {
+      const start = callIn("StartTransaction", params);
+      plugin.onMessage!(client, start);
+      plugin.onMessage!(client, resultOut(start, { transactionId }));
+    }
+
+    await vi.waitFor(() =>
+      expect(events.filter(([n]) => n === "transactionStarted")).toHaveLength(
+        2,
+      ),
+    );
+    const anomalies = events
+      .filter(([n]) => n === "transactionAnomaly")
+      .map(([, a]) => a);
+    expect(anomalies).toMatchObject([
+      { kind: "duplicateStart", transactionId: "1" },
+      { kind: "orphaned", transactionId: "1", supersededBy: "2" },
+    ]);
+    expect((await plugin.listActive("CP-1")).map((t) => t.transactionId)).toEqual(
+      ["2"],
+    );
+  });
+
+  it("tracks a start queued across a reconnect", async () => {
+    const plugin = transactionTrackerPlugin();
+    const events = record(plugin);
+    const stale = fakeStation().client;
+    const fresh = fakeStation().client;
+
+    // The station flushes its queued start on the new connection...
+    const start = callIn("StartTransaction", {
+      connectorId: 1,
+      idTag: "TAG-1",
+      meterStart: 0,
+      timestamp: "2026-01-01T10:00:00Z",
+    });
+    plugin.onMessage!(fresh, start);
+    // ...before the replaced connection has finished closing
+    plugin.onDisconnect!(stale, 1006, "");
+    plugin.onMessage!(fresh, resultOut(start, { transactionId: 9 }));
+
+    await vi.waitFor(() =>
+      expect(events.map(([n]) => n)).toEqual(["transactionStarted"]),
+    );
+    expect(events[0][1]).toMatchObject({ transactionId: "9" });
+  });
+
+  it("default StartTransaction handler reuses the id of a retried start", async () => {
+    const plugin = transactionTrackerPlugin({ handleMessages: true });
+    const client = fakeStation().client;
+    plugin.onConnection!(client);
+
+    const handler = client.handle.mock.calls.find(
+      ([method]: any[]) => method === "StartTransaction",
+    )[1];
+    const params = {
+      connectorId: 1,
+      idTag: "TAG-1",
+      meterStart: 10,
+      timestamp: "2026-01-01T10:00:00Z",
+    };
+
+    const first = await handler({ params });
+    const start = callIn("StartTransaction", params);
+    plugin.onMessage!(client, start);
+    plugin.onMessage!(client, resultOut(start, first));
+    await vi.waitFor(async () =>
+      expect(await plugin.listActive("CP-1")).toHaveLength(1),
+    );
+
+    expect(await handler({ params })).toEqual(first);
+    expect(
+      (await handler({ params: { ...params, connectorId: 2 } })).transactionId,
+    ).not.toBe(first.transactionId);
+  });
+});
+
+describe("transactionTrackerPlugin — OCPP 2.x", () => {
+  it("follows Started/Updated/Ended and detects seqNo gaps", async () => {
+    const plugin = transactionTrackerPlugin();
+    const events = record(plugin);
+    const client = fakeStation({ protocol: "ocpp2.0.1" }).client;
+    const energy = (wh: number, context?: string) => ({
+      meterValue: [
+        {
+          timestamp: new Date().toISOString(),
+          sampledValue: [
+            {
+              value: wh / 1000,
+              context,
+              unitOfMeasure: { unit: "kWh" },
+            },
+          ],
+        },
+      ],
+    });
+
+    plugin.onMessage!(
+      client,
+      txEvent("Started", 0, {
+        idToken: { idToken: "TOKEN-1", type: "ISO14443" },
+        ...energy(5000, "Transaction.Begin"),
+      }),
+    );
+    plugin.onMessage!(client, txEvent("Updated", 3, energy(6000)));
+    plugin.onMessage!(client, txEvent("Updated", 3, energy(6000)));
+    plugin.onMessage!(client, txEvent("Updated", 1));
+    plugin.onMessage!(
+      client,
+      txEvent("Ended", 4, {
+        ...energy(9000, "Transaction.End"),
+        transactionInfo: { transactionId: "tx-1", stoppedReason: "EVDisconnected" },
+      }),
+    );
+
+    await vi.waitFor(() =>
+      expect(events.map(([n]) => n)).toContain("transactionEnded"),
+    );
+    expect(events.map(([n]) => n)).toEqual([
+      "transactionStarted",
+      "transactionAnomaly",
+      "transactionUpdated",
+      "transactionUpdated",
+      "transactionEnded",
+    ]);
+    expect(events[1][1]).toMatchObject({
+      kind: "seqNoGap",
+      missingSeqNos: [1, 2],
+    });
+    const ended: TrackedTransaction = events[4][1];
+    expect(ended).toMatchObject({
+      transactionId: "tx-1",
+      evseId: 1,
+      connectorId: 1,
+      idToken: "TOKEN-1",
+      meterStartWh: 5000,
+      energyWh: 4000,
+      missingSeqNos: [2],
+      stoppedReason: "EVDisconnected",
+    });
+  });
+
+  it("reports duplicate Started events and unknown transactions", async () => {
+    const plugin = transactionTrackerPlugin();
+    const events = record(plugin);
+    const client = fakeStation({ protocol: "ocpp2.0.1" }).client;
+
+    plugin.onMessage!(client, txEvent("Started", 0));
+    plugin.onMessage!(client, txEvent("Started", 0)); // retransmit — ignored
+    plugin.onMessage!(client, txEvent("Started", 5));
+    plugin.onMessage!(
+      client,
+      txEvent("Updated", 3, { transactionInfo: { transactionId: "tx-9" } }),
+    );
+
+    await vi.waitFor(() => expect(events).toHaveLength(4));
+    expect(
+      events.filter(([n]) => n === "transactionAnomaly").map(([, a]) => a.kind),
+    ).toEqual(["duplicateStart", "unknownTransaction"]);
+    expect(await plugin.getTransaction("CP-1", "tx-9")).toMatchObject({
+      status: "active",
+      lastSeqNo: 3,
+    });
+  });
+});
+
+describe("transactionTrackerPlugin — through a server", () => {
+  let pair: Awaited<ReturnType<typeof connectStation>> | undefined;
+
+  afterEach(async () => {
+    await pair?.close();
+    pair = undefined;
+  });
+
+  it("answers and tracks a 1.6 station's transaction", async () => {
+    const plugin = transactionTrackerPlugin({ handleMessages: true });
+    const events = record(plugin);
+    pair = await connectStation([plugin]);
+
+    const start = await pair.client.call("StartTransaction", {
+      connectorId: 1,
+      idTag: "TAG-1",
+      meterStart: 1000,
+      timestamp: new Date().toISOString(),
+    });
+    expect(start).toEqual({
+      transactionId: 1,
+      idTagInfo: { status: "Accepted" },
+    });
+    await pair.client.call("StopTransaction", {
+      transactionId: start.transactionId,
+      meterStop: 3500,
+      timestamp: new Date().toISOString(),
+    });
+
+    await vi.waitFor(() =>
+      expect(events.map(([n]) => n)).toEqual([
+        "transactionStarted",
+        "transactionEnded",
+      ]),
+    );
+    expect(events[1][1]).toMatchObject({
+      identity: "CP-1",
+      transactionId: "1",
+      energyWh: 2500,
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { generateKeyPairSync, X509Certificate } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  certificateHashData,
+  createCsr,
+  issueCertificate,
+  issueCrl,
+  parseCrl,
+  parseCsr,
+  splitPemChain,
+} from "../src/x509.js";
+
+const caKeys = generateKeyPairSync("ec", { namedCurve: "P-256" });
+const caPem = issueCertificate({
+  subject: { commonName: "Test Root CA", organizationName: "ACME" },
+  publicKey: caKeys.publicKey,
+  signingKey: caKeys.privateKey,
+  isCA: true,
+  validityDays: 3650,
+});
+
+describe("x509", () => {
+  it("issues a self-signed CA certificate", () => {
+    const ca = new X509Certificate(caPem);
+    expect(ca.ca).toBe(true);
+    expect(ca.subject).toBe("O=ACME\nCN=Test Root CA");
+    expect(ca.verify(caKeys.publicKey)).toBe(true);
+  });
+
+  it("round-trips a CSR and signs it", () => {
+    for (const keys of [
+      generateKeyPairSync("ec", { namedCurve: "P-384" }),
+      generateKeyPairSync("rsa", { modulusLength: 2048 }),
+      generateKeyPairSync("ed25519"),
+    ]) {
+      const csrPem = createCsr({
+        subject: {
+          countryName: "DE",
+          organizationName: "ACME",
+          commonName: "CP-Ü1",
+        },
+        privateKey: keys.privateKey,
+      });
+      const csr = parseCsr(csrPem);
+      expect(csr.subject).toEqual({
+        countryName: "DE",
+        organizationName: "ACME",
+        commonName: "CP-Ü1",
+      });
+
+      const leafPem = issueCertificate({
+        subject: csr.subject,
+        publicKey: csr.publicKey,
+        signingKey: caKeys.privateKey,
+        issuerCertificate: caPem,
+        validityDays: 30,
+        extendedKeyUsage: ["clientAuth"],
+      });
+      const leaf = new X509Certificate(leafPem);
+      expect(leaf.ca).toBe(false);
+      expect(leaf.checkIssued(new X509Certificate(caPem))).toBe(true);
+      expect(leaf.verify(caKeys.publicKey)).toBe(true);
+      expect(leaf.keyUsage).toEqual(["1.3.6.1.5.5.7.3.2"]);
+      expect(
+        leaf.publicKey.export({ type: "spki", format: "der" }),
+      ).toEqual(keys.publicKey.export({ type: "spki", format: "der" }));
+    }
+  });
+
+  it("rejects a tampered CSR and a key that doesn't match the issuer", () => {
+    const keys = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const csrPem = createCsr({
+      subject: { commonName: "CP-1" },
+      privateKey: keys.privateKey,
+    });
+    const der = Buffer.from(
+      csrPem.replace(/-----[A-Z ]+-----|\s/g, ""),
+      "base64",
+    );
+    // Flip a byte inside the commonName
+    der[der.indexOf("CP-1") + 3] ^= 1;
+    expect(() =>
+      parseCsr(
+        `-----BEGIN CERTIFICATE REQUEST-----\n${der.toString("base64")}\n-----END CERTIFICATE REQUEST-----`,
+      ),
+    ).toThrow("Invalid CSR signature");
+
+    expect(() =>
+      issueCertificate({
+        subject: { commonName: "CP-1" },
+        publicKey: keys.publicKey,
+        signingKey: keys.privateKey,
+        issuerCertificate: caPem,
+      }),
+    ).toThrow("does not match");
+  });
+
+  it("computes OCPP certificate hash data", () => {
+    const keys = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const leafPem = issueCertificate({
+      subject: { commonName: "CP-1" },
+      publicKey: keys.publicKey,
+      signingKey: caKeys.privateKey,
+      issuerCertificate: caPem,
+      serialNumber: "00ab12",
+    });
+
+    const leafHash = certificateHashData(leafPem, caPem);
+    const rootHash = certificateHashData(caPem);
+    expect(leafHash.serialNumber).toBe("ab12");
+    expect(leafHash.issuerNameHash).toMatch(/^[0-9a-f]{64}$/);
+    // The root issued the leaf: same issuer name and key
+    expect(leafHash.issuerNameHash).toBe(rootHash.issuerNameHash);
+    expect(leafHash.issuerKeyHash).toBe(rootHash.issuerKeyHash);
+    expect(() => certificateHashData(leafPem)).toThrow("issuerCertificate");
+    expect(splitPemChain(leafPem + caPem)).toEqual([leafPem, caPem]);
+  });
+
+  it("issues and parses a CRL", () => {
+    const thisUpdate = new Date("2026-03-01T12:00:00Z");
+    const nextUpdate = new Date("2051-03-08T12:00:00Z");
+    const crl = issueCrl({
+      issuerCertificate: caPem,
+      signingKey: caKeys.privateKey,
+      revoked: [
+        { serialNumber: "0abc", revocationDate: new Date("2026-02-01T00:00:00Z") },
+      ],
+      thisUpdate,
+      nextUpdate,
+    });
+    expect(parseCrl(crl, caPem)).toEqual({
+      thisUpdate,
+      nextUpdate,
+      revoked: [
+        { serialNumber: "abc", revocationDate: new Date("2026-02-01T00:00:00Z") },
+      ],
+    });
+  });
+});
@@ -6,6 +6,8 @@ export default defineConfig([
     entry: {
       index: "src/index.ts",
       "adapters/redis": "src/adapters/redis/index.ts",
+      "adapters/nats": "src/adapters/nats/index.ts",
+      "adapters/postgres": "src/adapters/postgres/index.ts",
       logger: "src/logger/index.ts",
       plugins: "src/plugins/index.ts",
       express: "src/frameworks/express/index.ts",